@@ -1,5 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { calendarEventRepository } from '@/lib/data-access'
+import { calendarEventRepository, recurrenceExceptionRepository } from '@/lib/data-access'
+import { RecurrenceExpander } from '@/lib/recurrence'
+import { SeriesEditor, EditScope } from '@/lib/series-edit'
+import type { CalendarEvent } from '@/lib/db/schema'
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+const INVALID_SCOPE = { error: 'Invalid scope', message: "scope must be 'this', 'following' or 'all'" }
+
+// Occurrence ids (`<eventId>_<original start in ms>`) address one occurrence of a recurring event
+async function findSeries(request: NextRequest, id: string) {
+  const target = RecurrenceExpander.parseOccurrenceId(id)
+  if (!target) return null
+
+  const userId = getUserId(request)
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const master = await calendarEventRepository.findById(target.masterId)
+  if (!master || master.userId !== userId || !RecurrenceExpander.isRecurring(master)) {
+    return { response: NextResponse.json({ error: 'Event not found' }, { status: 404 }) }
+  }
+
+  return { master, originalStart: target.originalStart }
+}
 
 export async function GET(
   request: NextRequest,
@@ -33,6 +60,29 @@ export async function PUT(
   const { id } = await context.params
   try {
     const body = await request.json()
+
+    const series = await findSeries(request, id)
+    if (series?.response) return series.response
+    if (series) {
+      const { scope, ...fields } = body as { scope?: EditScope } & Partial<CalendarEvent>
+      if (!SeriesEditor.isScope(scope)) {
+        return NextResponse.json(INVALID_SCOPE, { status: 400 })
+      }
+
+      const changes = SeriesEditor.reviveDates(fields)
+      if (SeriesEditor.hasInvalidDates(changes)) {
+        return NextResponse.json(
+          { error: 'Invalid date', message: 'startTime and endTime must be ISO dates' },
+          { status: 400 }
+        )
+      }
+
+      const existing = await recurrenceExceptionRepository.findForOccurrence('event', series.master.id, series.originalStart)
+      const plan = SeriesEditor.planUpdate(series.master, series.originalStart, scope, changes, existing)
+      const result = await calendarEventRepository.applySeriesEdit(series.master, plan)
+      return NextResponse.json(result, { status: 200 })
+    }
+
     const event = await calendarEventRepository.update(id, body)
     
     if (!event) {
@@ -58,6 +108,19 @@ export async function DELETE(
 ) {
   const { id } = await context.params
   try {
+    const series = await findSeries(request, id)
+    if (series?.response) return series.response
+    if (series) {
+      const scope = new URL(request.url).searchParams.get('scope')
+      if (!SeriesEditor.isScope(scope)) {
+        return NextResponse.json(INVALID_SCOPE, { status: 400 })
+      }
+
+      const plan = SeriesEditor.planDelete(series.master, series.originalStart, scope)
+      const result = await calendarEventRepository.applySeriesEdit(series.master, plan)
+      return NextResponse.json({ success: true, ...result }, { status: 200 })
+    }
+
     await calendarEventRepository.delete(id)
     
     return NextResponse.json({ success: true }, { status: 200 })
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { calendarEventRepository } from '@/lib/data-access'
+import { calendarEventRepository, userRepository } from '@/lib/data-access'
 import { validateEventData } from '@/lib/validations/schemas'
 
 function getUserId(request: NextRequest): string | null {
@@ -17,6 +17,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // With a range, recurring events are expanded into their occurrences
+    const { searchParams } = new URL(request.url)
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
+
+    if (start || end) {
+      const startDate = new Date(start || '')
+      const endDate = new Date(end || '')
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid date range', message: 'start and end must both be ISO dates' },
+          { status: 400 }
+        )
+      }
+
+      const events = await calendarEventRepository.findByDateRange(userId, startDate, endDate)
+      return NextResponse.json(events, { status: 200 })
+    }
+
     const events = await calendarEventRepository.findByUserId(userId)
     return NextResponse.json(events, { status: 200 })
   } catch (error) {
@@ -57,9 +76,13 @@ export async function POST(request: NextRequest) {
       (validation as any).data.endTime
     )
 
+    // Events sent without a zone are planned on the user's own clock
+    const timeZone = (validation as any).data.timeZone ?? (await userRepository.findById(userId))?.timezone ?? undefined
+
     // Create the event (conflicts are handled by the client)
     const event = await calendarEventRepository.create({
       ...(validation as any).data,
+      timeZone,
       userId
     })
     
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { calendarFeedRepository } from '@/lib/data-access'
+import { CalendarFeeds } from '@/lib/calendar-feed'
+
+// Public: the token in the URL is the credential, so no x-user-id here
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  const { token } = await context.params
+  try {
+    const feed = await calendarFeedRepository.findActiveByToken(token.replace(/\.ics$/i, ''))
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Feed not found' },
+        { status: 404 }
+      )
+    }
+
+    const ics = await CalendarFeeds.render(feed)
+
+    // Bookkeeping only; a failure here must not break the subscription
+    calendarFeedRepository.markAccessed(feed.id).catch((error: unknown) => {
+      console.error('Error recording feed access:', error)
+    })
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="dayflow.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { calendarFeedRepository } from '@/lib/data-access'
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+// Revoke: the row stays for auditing but its token stops resolving
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const feed = await calendarFeedRepository.findById(id)
+
+    if (!feed || feed.userId !== userId || feed.revokedAt) {
+      return NextResponse.json(
+        { error: 'Feed not found' },
+        { status: 404 }
+      )
+    }
+
+    await calendarFeedRepository.revoke(id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { calendarFeedRepository, categoryRepository, tagRepository } from '@/lib/data-access'
+import { CalendarFeeds } from '@/lib/calendar-feed'
+import type { CalendarFeed } from '@/lib/db/schema'
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+function toResponse(feed: CalendarFeed, request: NextRequest) {
+  return {
+    ...feed,
+    url: new URL(CalendarFeeds.feedPath(feed.token), request.url).toString()
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const feeds = await calendarFeedRepository.findByUserId(userId)
+    return NextResponse.json(
+      { feeds: feeds.map(feed => toResponse(feed, request)) },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 100) : 'DayFlow'
+    const tagIds: unknown = body.tagIds ?? []
+    const tagNames: unknown = body.tags ?? []
+
+    if (
+      !Array.isArray(tagIds) || tagIds.some(tagId => typeof tagId !== 'string') ||
+      !Array.isArray(tagNames) || tagNames.some(tagName => typeof tagName !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Validation failed', message: 'tagIds and tags must be arrays of strings' },
+        { status: 400 }
+      )
+    }
+
+    // Filters may only point at the caller's own category and tags; the
+    // settings dialog sends names, API clients may send ids
+    let categoryId: string | null = null
+    if (body.categoryId || body.category) {
+      const category = body.categoryId
+        ? await categoryRepository.findById(body.categoryId)
+        : await categoryRepository.findByName(userId, String(body.category))
+      if (!category || category.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Category not found' },
+          { status: 404 }
+        )
+      }
+      categoryId = category.id
+    }
+
+    const resolvedTagIds: string[] = [...tagIds]
+    if (tagIds.length > 0 || tagNames.length > 0) {
+      const ownTags: { id: string; name: string }[] = await tagRepository.findByUserId(userId)
+      const byName = new Map(ownTags.map(tag => [tag.name.toLowerCase(), tag.id]))
+      const ownTagIds = new Set(ownTags.map(tag => tag.id))
+
+      for (const tagName of tagNames) {
+        const tagId = byName.get(tagName.trim().toLowerCase())
+        if (!tagId) {
+          return NextResponse.json(
+            { error: 'Tag not found', message: `No tag named "${tagName}"` },
+            { status: 404 }
+          )
+        }
+        resolvedTagIds.push(tagId)
+      }
+
+      if (resolvedTagIds.some(tagId => !ownTagIds.has(tagId))) {
+        return NextResponse.json(
+          { error: 'Tag not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const feed = await calendarFeedRepository.create({
+      userId,
+      name,
+      token: CalendarFeeds.generateToken(),
+      categoryId,
+      tagIds: [...new Set(resolvedTagIds)],
+      includeTasks: body.includeTasks !== false
+    })
+
+    return NextResponse.json(toResponse(feed, request), { status: 201 })
+  } catch (error) {
+    console.error('Error creating calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { categoryRepository } from '@/lib/data-access'
+import { IcsTransfer, IcsExportOptions } from '@/lib/ics-transfer'
+import { ICalParseError } from '@/lib/ical'
+
+const MAX_ICS_SIZE = 5 * 1024 * 1024 // 5MB
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get('from'))
+    const to = parseDate(searchParams.get('to'))
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'Invalid date range', message: 'from and to must be ISO dates' },
+        { status: 400 }
+      )
+    }
+
+    const options: IcsExportOptions = { from, to }
+
+    const categoryId = searchParams.get('categoryId')
+    const categoryName = searchParams.get('category')
+    if (categoryId) {
+      options.categoryId = categoryId
+    } else if (categoryName) {
+      const category = await categoryRepository.findByName(userId, categoryName)
+      if (!category) {
+        return NextResponse.json(
+          { error: 'Category not found' },
+          { status: 404 }
+        )
+      }
+      options.categoryId = category.id
+    }
+
+    const include = searchParams.get('include')
+    if (include) {
+      options.include = include.split(',').filter((type): type is 'event' | 'task' =>
+        type === 'event' || type === 'task'
+      )
+    }
+
+    const ics = await IcsTransfer.exportCalendar(userId, options)
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="dayflow.ics"'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const contentLength = parseInt(request.headers.get('content-length') || '0', 10)
+    if (contentLength > MAX_ICS_SIZE) {
+      return NextResponse.json(
+        { error: 'Payload too large', message: `Calendar files are limited to ${MAX_ICS_SIZE / (1024 * 1024)}MB` },
+        { status: 413 }
+      )
+    }
+
+    // Accept a form upload from the browser or a raw text/calendar body
+    let text: string
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const file = (await request.formData()).get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'Validation failed', message: 'Expected a .ics file in the "file" field' },
+          { status: 400 }
+        )
+      }
+      text = await file.text()
+    } else {
+      text = await request.text()
+    }
+
+    if (text.length > MAX_ICS_SIZE) {
+      return NextResponse.json(
+        { error: 'Payload too large', message: `Calendar files are limited to ${MAX_ICS_SIZE / (1024 * 1024)}MB` },
+        { status: 413 }
+      )
+    }
+
+    const result = await IcsTransfer.importCalendar(userId, text)
+
+    return NextResponse.json({
+      ...result,
+      createdCount: result.created.length,
+      skippedCount: result.skipped.length
+    }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ICalParseError) {
+      return NextResponse.json(
+        { error: 'Invalid iCalendar file', message: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDatabase } from '@/lib/db'
+import { userIntegrations } from '@/lib/db/integrations-schema'
+import { syncEngine } from '@/lib/integrations/sync-engine'
+import { FieldMapper } from '@/lib/integrations/field-mapping'
+import { ValidationError } from '@/lib/integrations/base'
+import { eq, and } from 'drizzle-orm'
+
+const validServices = [
+  'google-calendar',
+  'outlook',
+  'apple-calendar',
+  'fastmail',
+  'todoist',
+  'clickup',
+  'notion',
+  'linear'
+]
+
+// Items pulled from the service to preview a mapping against
+const PREVIEW_SAMPLE_SIZE = 5
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+async function getUserIntegration(userId: string, service: string) {
+  const [integration] = await getDatabase().select().from(userIntegrations)
+    .where(and(
+      eq(userIntegrations.userId, userId),
+      eq(userIntegrations.serviceName, service)
+    ))
+    .limit(1)
+
+  return integration
+}
+
+/**
+ * Preview mapping rules against a few live items without saving them
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ service: string }> }
+) {
+  const { service } = await context.params
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!validServices.includes(service)) {
+      return NextResponse.json(
+        { error: 'Invalid service parameter' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const rules = FieldMapper.validateRules(body.rules ?? [])
+
+    const userIntegration = await getUserIntegration(userId, service)
+    if (!userIntegration) {
+      return NextResponse.json(
+        { error: 'Integration not found' },
+        { status: 404 }
+      )
+    }
+
+    const integration = await syncEngine.createIntegration(userIntegration)
+    const itemType = integration.type === 'calendar' ? 'event' : 'task'
+    const page = itemType === 'task'
+      ? await integration.listTasks({ pageSize: PREVIEW_SAMPLE_SIZE })
+      : await integration.listEvents({ pageSize: PREVIEW_SAMPLE_SIZE })
+
+    const items = page.items.slice(0, PREVIEW_SAMPLE_SIZE).map(item => ({
+      externalId: item.id,
+      title: item.title,
+      // Raw values next to the result make a wrong source path easy to spot
+      sources: Object.fromEntries(rules.map(rule => [rule.source, FieldMapper.readSource(item, rule.source) ?? null])),
+      mapped: FieldMapper.apply(item, rules, itemType)
+    }))
+
+    return NextResponse.json({
+      service,
+      itemType,
+      targets: FieldMapper.targetsFor(itemType),
+      items
+    })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, field: error.field },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error previewing field mapping:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { syncEngine } from '@/lib/integrations/sync-engine'
+import type { ConflictResolution } from '@/lib/integrations/base'
+import { enqueueSync, syncQueueWorker } from '@/lib/integrations/sync-queue'
+import { idSchema } from '@/lib/validations/schemas'
+
+const validServices = [
+  'google-calendar',
+  'outlook',
+  'apple-calendar',
+  'fastmail',
+  'todoist',
+  'clickup',
+  'notion',
+  'linear'
+]
+
+const conflictStrategies: ConflictResolution[] = ['manual', 'latest', 'source', 'merge']
 
 function getUserId(request: NextRequest): string | null {
   return request.headers.get('x-user-id')
@@ -11,7 +28,7 @@ export async function POST(
   const { service } = await context.params
   try {
     const userId = getUserId(request)
-    
+
     if (!userId) {
       return NextResponse.json(
         { error: 'Unauthorized' },
@@ -20,7 +37,6 @@ export async function POST(
     }
 
     // Validate service parameter
-    const validServices = ['google-calendar', 'outlook', 'apple-calendar', 'todoist', 'clickup']
     if (!validServices.includes(service)) {
       return NextResponse.json(
         { error: 'Invalid service parameter' },
@@ -28,31 +44,63 @@ export async function POST(
       )
     }
 
-    const body = await request.json()
-    const { syncType = 'incremental', lastSync } = body
+    // An empty body means "incremental sync with default options"
+    const body = await request.json().catch(() => ({}))
+    const { syncType = 'incremental', syncTasks, syncEvents, conflictResolution } = body
+
+    if (syncType !== 'full' && syncType !== 'incremental') {
+      return NextResponse.json(
+        { error: 'Invalid sync type' },
+        { status: 400 }
+      )
+    }
 
-    // Simulate sync operation
-    const syncId = `sync-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    
-    // Mock sync results
-    const result = {
+    if (conflictResolution !== undefined && !conflictStrategies.includes(conflictResolution)) {
+      return NextResponse.json(
+        { error: 'Invalid conflict resolution' },
+        { status: 400 }
+      )
+    }
+
+    const integration = await syncEngine.findUserIntegration(userId, service)
+    if (!integration) {
+      return NextResponse.json(
+        { error: 'Integration not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!integration.isActive) {
+      return NextResponse.json(
+        { error: 'Integration is disabled' },
+        { status: 409 }
+      )
+    }
+
+    // Don't stack a second sync on top of one that is still running. Jobs
+    // older than a worker's claim were left behind by a crashed worker
+    const activeJob = (await syncEngine.getActiveJobsForIntegration(integration.id))
+      .find(job => !syncQueueWorker.isStale(job.startedAt))
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Sync already in progress', syncId: activeJob.id },
+        { status: 409 }
+      )
+    }
+
+    // The queue worker runs the sync and retries it with backoff if the service fails
+    const operation = syncType === 'full' ? 'full_sync' : 'incremental_sync'
+    const syncId = await syncEngine.createPendingJob(integration, operation)
+    await enqueueSync(integration.id, operation, {
+      payload: { jobId: syncId, syncTasks, syncEvents, conflictResolution }
+    })
+
+    return NextResponse.json({
       syncId,
       service,
       syncType,
-      status: 'completed',
-      startedAt: new Date().toISOString(),
-      completedAt: new Date(Date.now() + 5000).toISOString(), // 5 seconds later
-      stats: {
-        tasksCreated: 5,
-        tasksUpdated: 12,
-        tasksDeleted: 2,
-        eventsCreated: 3,
-        eventsUpdated: 8,
-        eventsDeleted: 1
-      }
-    }
-
-    return NextResponse.json(result, { status: 200 })
+      status: 'pending'
+    }, { status: 202 })
   } catch (error) {
     console.error('Error performing sync:', error)
     return NextResponse.json(
@@ -60,4 +108,92 @@ export async function POST(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ service: string }> }
+) {
+  const { service } = await context.params
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!validServices.includes(service)) {
+      return NextResponse.json(
+        { error: 'Invalid service parameter' },
+        { status: 400 }
+      )
+    }
+
+    const syncId = new URL(request.url).searchParams.get('syncId')
+    if (!syncId) {
+      return NextResponse.json(
+        { error: 'syncId is required' },
+        { status: 400 }
+      )
+    }
+
+    // Job ids are uuids; anything else would only fail in the database
+    if (!idSchema.safeParse(syncId).success) {
+      return NextResponse.json(
+        { error: 'Invalid syncId' },
+        { status: 400 }
+      )
+    }
+
+    const integration = await syncEngine.findUserIntegration(userId, service)
+    const job = integration ? await syncEngine.getJobStatus(syncId) : null
+
+    // Jobs belonging to another user's integration are reported as missing
+    if (!job || job.userIntegrationId !== integration?.id) {
+      return NextResponse.json(
+        { error: 'Sync job not found' },
+        { status: 404 }
+      )
+    }
+
+    const conflictSummary = await syncEngine.getConflictSummary(job.id)
+
+    return NextResponse.json({
+      syncId: job.id,
+      service,
+      operation: job.operation,
+      status: job.status,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt ?? null,
+      stats: job.result ? {
+        itemsProcessed: job.result.itemsProcessed,
+        itemsCreated: job.result.itemsCreated,
+        itemsUpdated: job.result.itemsUpdated,
+        itemsDeleted: job.result.itemsDeleted
+      } : null,
+      conflicts: {
+        ...conflictSummary,
+        items: job.conflicts.map(conflict => ({
+          id: conflict.id,
+          type: conflict.type,
+          dayflowItemId: conflict.dayflowItem.id,
+          externalItemId: conflict.externalItem.id,
+          conflict: conflict.conflict,
+          // Per-field base, DayFlow and external values for fields changed on both sides
+          fields: conflict.fields ?? [],
+          resolution: conflict.resolution ?? null
+        }))
+      },
+      errors: job.errors
+    })
+  } catch (error) {
+    console.error('Error fetching sync status:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
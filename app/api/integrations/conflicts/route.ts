@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { syncEngine, ConflictResolutionRequest } from '@/lib/integrations/sync-engine'
+
+const validResolutions: ConflictResolutionRequest['resolution'][] = ['keep_dayflow', 'keep_external', 'merge', 'manual']
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+/**
+ * List unresolved sync conflicts across the caller's integrations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const service = new URL(request.url).searchParams.get('service') || undefined
+    const conflicts = await syncEngine.listConflicts(userId, service)
+
+    return NextResponse.json({ conflicts })
+  } catch (error) {
+    console.error('Error fetching conflicts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Resolve one or more conflicts with the same choice ("apply to all similar")
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { conflictIds, resolution, fieldChoices, mergedData } = body
+
+    if (!Array.isArray(conflictIds) || conflictIds.length === 0) {
+      return NextResponse.json(
+        { error: 'conflictIds must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    if (!validResolutions.includes(resolution)) {
+      return NextResponse.json(
+        { error: 'Invalid resolution' },
+        { status: 400 }
+      )
+    }
+
+    if (fieldChoices !== undefined && (typeof fieldChoices !== 'object' || fieldChoices === null ||
+      Object.values(fieldChoices).some(side => side !== 'dayflow' && side !== 'external'))) {
+      return NextResponse.json(
+        { error: 'fieldChoices values must be "dayflow" or "external"' },
+        { status: 400 }
+      )
+    }
+
+    // Only the caller's own open conflicts can be resolved
+    const open = new Map((await syncEngine.listConflicts(userId)).map(conflict => [conflict.id, conflict]))
+
+    const results = []
+    for (const conflictId of conflictIds) {
+      const conflict = open.get(conflictId)
+      if (!conflict) {
+        results.push({ conflictId, success: false, error: 'Conflict not found' })
+        continue
+      }
+
+      const outcome = await syncEngine.applyConflictResolution({
+        conflictId,
+        dayflowItemId: conflict.dayflowItem.id,
+        externalItemId: conflict.externalItem.id,
+        resolution,
+        fieldChoices,
+        mergedData
+      })
+      results.push({ conflictId, ...outcome })
+    }
+
+    return NextResponse.json({
+      resolved: results.filter(result => result.success).length,
+      results
+    })
+  } catch (error) {
+    console.error('Error resolving conflicts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,9 +7,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getDatabase } from '@/lib/db'
 import { integrationServices, userIntegrations } from '@/lib/db/integrations-schema'
 import { oauthManager } from '@/lib/integrations/oauth'
-import { syncEngine } from '@/lib/integrations/sync-engine'
+import { syncEngine, SyncJob } from '@/lib/integrations/sync-engine'
+import { enqueueSync } from '@/lib/integrations/sync-queue'
+import { FieldMapper } from '@/lib/integrations/field-mapping'
+import { ValidationError } from '@/lib/integrations/base'
 import { eq, and } from 'drizzle-orm'
 
+const SYNC_OPERATIONS: SyncJob['operation'][] = ['full_sync', 'incremental_sync', 'task_sync', 'event_sync']
+
 // Get database instance
 function getDB() {
   return getDatabase()
@@ -191,27 +196,17 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        let jobId: string
-        switch (operation) {
-          case 'full_sync':
-            jobId = await syncEngine.startFullSync(integration, options)
-            break
-          case 'incremental_sync':
-            jobId = await syncEngine.startIncrementalSync(integration, options)
-            break
-          case 'task_sync':
-            jobId = await syncEngine.startTaskSync(integration, options)
-            break
-          case 'event_sync':
-            jobId = await syncEngine.startEventSync(integration, options)
-            break
-          default:
-            return NextResponse.json(
-              { error: 'Invalid sync operation' },
-              { status: 400 }
-            )
+        if (!SYNC_OPERATIONS.includes(operation)) {
+          return NextResponse.json(
+            { error: 'Invalid sync operation' },
+            { status: 400 }
+          )
         }
 
+        // Run by the queue worker, which retries failed syncs with backoff
+        const jobId = await syncEngine.createPendingJob(integration, operation)
+        await enqueueSync(integration.id, operation, { payload: { ...options, jobId } })
+
         return NextResponse.json({
           success: true,
           jobId
@@ -245,6 +240,19 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // Mapping rules come from the settings dialog; reject malformed ones before storing
+    if (updates.syncSettings?.mappingRules !== undefined) {
+      try {
+        updates.syncSettings.mappingRules = FieldMapper.validateRules(updates.syncSettings.mappingRules)
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        return NextResponse.json(
+          { error: error.message, field: error.field },
+          { status: 400 }
+        )
+      }
+    }
+
     // Update user integration
     const [updatedIntegration] = await getDB().update(userIntegrations)
       .set({
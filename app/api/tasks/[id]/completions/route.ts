@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taskRepository, taskCompletionRepository } from '@/lib/data-access'
+
+function getUserId(request: NextRequest): string | null {
+  return request.headers.get('x-user-id')
+}
+
+// Completion history of a recurring task, newest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params
+  try {
+    const userId = getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const task = await taskRepository.findById(id)
+    if (!task || task.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      )
+    }
+
+    const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), 500)
+    const completions = await taskCompletionRepository.findByTaskId(id, limit)
+
+    return NextResponse.json(completions, { status: 200 })
+  } catch (error) {
+    console.error('Error fetching task completions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { taskRepository } from '@/lib/data-access'
+import { taskRepository, recurrenceExceptionRepository } from '@/lib/data-access'
+import { RecurrenceExpander } from '@/lib/recurrence'
+import { SeriesEditor, EditScope } from '@/lib/series-edit'
+import type { Task } from '@/lib/db/schema'
 
 function getUserId(request: NextRequest): string | null {
   return request.headers.get('x-user-id')
 }
 
+const INVALID_SCOPE = { error: 'Invalid scope', message: "scope must be 'this', 'following' or 'all'" }
+
+// Occurrence ids (`<taskId>_<original start in ms>`) address one occurrence of a recurring task
+async function findSeries(userId: string, id: string) {
+  const target = RecurrenceExpander.parseOccurrenceId(id)
+  if (!target) return null
+
+  const master = await taskRepository.findById(target.masterId)
+  if (!master || master.userId !== userId || !RecurrenceExpander.isRecurring(master)) {
+    return { response: NextResponse.json({ error: 'Task not found' }, { status: 404 }) }
+  }
+
+  return { master, originalStart: target.originalStart }
+}
+
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -46,6 +64,29 @@ export async function PUT(
     }
 
     const body = await request.json()
+
+    const series = await findSeries(userId, id)
+    if (series?.response) return series.response
+    if (series) {
+      const { scope, ...fields } = body as { scope?: EditScope } & Partial<Task>
+      if (!SeriesEditor.isScope(scope)) {
+        return NextResponse.json(INVALID_SCOPE, { status: 400 })
+      }
+
+      const changes = SeriesEditor.reviveDates(fields)
+      if (SeriesEditor.hasInvalidDates(changes)) {
+        return NextResponse.json(
+          { error: 'Invalid date', message: 'startTime, endTime and dueDate must be ISO dates' },
+          { status: 400 }
+        )
+      }
+
+      const existing = await recurrenceExceptionRepository.findForOccurrence('task', series.master.id, series.originalStart)
+      const plan = SeriesEditor.planUpdate(series.master, series.originalStart, scope, changes, existing)
+      const result = await taskRepository.applySeriesEdit(series.master, plan)
+      return NextResponse.json(result, { status: 200 })
+    }
+
     const task = await taskRepository.update(id, body)
     
     if (!task) {
@@ -80,6 +121,19 @@ export async function DELETE(
       )
     }
 
+    const series = await findSeries(userId, id)
+    if (series?.response) return series.response
+    if (series) {
+      const scope = new URL(request.url).searchParams.get('scope')
+      if (!SeriesEditor.isScope(scope)) {
+        return NextResponse.json(INVALID_SCOPE, { status: 400 })
+      }
+
+      const plan = SeriesEditor.planDelete(series.master, series.originalStart, scope)
+      const result = await taskRepository.applySeriesEdit(series.master, plan)
+      return NextResponse.json({ success: true, ...result }, { status: 200 })
+    }
+
     await taskRepository.delete(id)
     
     return NextResponse.json({ success: true }, { status: 200 })
@@ -17,6 +17,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // With a range, recurring tasks are expanded into their occurrences
+    const { searchParams } = new URL(request.url)
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
+
+    if (start || end) {
+      const startDate = new Date(start || '')
+      const endDate = new Date(end || '')
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid date range', message: 'start and end must both be ISO dates' },
+          { status: 400 }
+        )
+      }
+
+      const tasks = await taskRepository.findByDateRange(userId, startDate, endDate)
+      return NextResponse.json(tasks, { status: 200 })
+    }
+
     const tasks = await taskRepository.findByUserId(userId)
     return NextResponse.json(tasks, { status: 200 })
   } catch (error) {
@@ -0,0 +1,20 @@
+'use client'
+
+import { Sidebar } from '@/components/sidebar'
+import { ConflictInbox } from '@/components/integrations/ConflictInbox'
+import { useCurrentUserId } from '@/stores/calendarStore'
+
+export default function ConflictsPage() {
+  const userId = useCurrentUserId()
+
+  return (
+    <div className="flex min-h-screen" data-testid="conflicts-page">
+      <Sidebar />
+      <div className="flex-1 ml-64 p-6">
+        <div data-testid="main-content">
+          <ConflictInbox userId={userId} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+/**
+ * Agenda View
+ * Lists events and time-blocked tasks day by day, loading more days as the
+ * list is scrolled. Unlike the week grid it fits on a phone screen.
+ */
+
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { addDays } from 'date-fns'
+import { CheckCircle2, Circle, MapPin } from 'lucide-react'
+import {
+  CalendarViewSettings,
+  EventOrTask,
+} from '@/types/calendar'
+import {
+  getDayStart,
+  getDayDisplayText,
+  groupEventsByDay,
+  formatTimeRange,
+} from '@/lib/date-utils'
+import { SeriesEditor } from '@/lib/series-edit'
+import { TimeZones } from '@/lib/timezone'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+
+// Days fetched per page, both when scrolling on and when showing earlier days
+const DAYS_PER_PAGE = 14
+
+interface AgendaViewProps {
+  userId: string
+  // First day listed; the list starts over when it changes
+  initialDate: Date
+  viewSettings: CalendarViewSettings
+  onEventClick?: (event: EventOrTask) => void
+  className?: string
+}
+
+interface Page {
+  start: Date
+  end: Date
+}
+
+const shiftDays = (date: Date, amount: number, timeZone?: string) =>
+  timeZone ? TimeZones.addDays(date, amount, timeZone) : addDays(date, amount)
+
+const isTask = (item: EventOrTask) => 'status' in item
+
+// Occurrences of a repeating task are completed through their series
+const taskIdOf = (item: EventOrTask) => ('masterId' in item ? (item as { masterId: string }).masterId : item.id)
+
+export const AgendaView: React.FC<AgendaViewProps> = ({
+  userId,
+  initialDate,
+  viewSettings,
+  onEventClick,
+  className,
+}) => {
+  const { timeZone } = viewSettings
+  const pageFrom = (date: Date): Page => {
+    const start = getDayStart(date, timeZone)
+    return { start, end: shiftDays(start, DAYS_PER_PAGE, timeZone) }
+  }
+  // Windows shown, earliest first, and what each of them loaded
+  const [pages, setPages] = useState<Page[]>(() => [pageFrom(new Date(initialDate))])
+  const [loaded, setLoaded] = useState<Map<string, EventOrTask[]>>(() => new Map())
+  const [jumpTo, setJumpTo] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const requested = useRef(new Set<string>())
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const keyOf = useCallback(
+    (page: Page) => `${userId}|${page.start.getTime()}|${page.end.getTime()}`,
+    [userId]
+  )
+
+  const startAt = (date: Date) => {
+    setPages([pageFrom(date)])
+  }
+
+  // A new initial day or zone starts the list over
+  const startKey = `${new Date(initialDate).getTime()}|${timeZone ?? ''}`
+  const [shownFor, setShownFor] = useState(startKey)
+  if (shownFor !== startKey) {
+    setShownFor(startKey)
+    startAt(new Date(initialDate))
+  }
+
+  const fetchPage = useCallback(async ({ start, end }: Page): Promise<EventOrTask[]> => {
+    const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() })
+    const headers = { 'x-user-id': userId }
+    const [eventsResponse, tasksResponse] = await Promise.all([
+      fetch(`/api/calendar/events?${params}`, { headers }),
+      fetch(`/api/tasks?${params}`, { headers }),
+    ])
+    if (!eventsResponse.ok || !tasksResponse.ok) {
+      throw new Error('Failed to load agenda')
+    }
+
+    const events: EventOrTask[] = await eventsResponse.json()
+    const tasks: EventOrTask[] = await tasksResponse.json()
+    // Tasks only appear once they have a time on the calendar
+    return [...events, ...tasks.filter(task => task.startTime)].map(item => SeriesEditor.reviveDates(item as any))
+  }, [userId])
+
+  // Fetch the pages not loaded yet; results are appended as they arrive
+  useEffect(() => {
+    for (const page of pages) {
+      const key = keyOf(page)
+      if (loaded.has(key) || requested.current.has(key)) continue
+
+      requested.current.add(key)
+      fetchPage(page)
+        .then(found => {
+          setError(null)
+          setLoaded(current => new Map(current).set(key, found))
+        })
+        .catch(error => {
+          console.error('Failed to load agenda:', error)
+          setError(error instanceof Error ? error.message : 'Failed to load agenda')
+        })
+        .finally(() => requested.current.delete(key))
+    }
+  }, [pages, loaded, keyOf, fetchPage])
+
+  // Pages overlap at their edges, so items seen twice are listed once
+  const items = useMemo(() => {
+    const byId = new Map<string, EventOrTask>()
+    for (const page of pages) {
+      for (const item of loaded.get(keyOf(page)) ?? []) byId.set(item.id, item)
+    }
+    return [...byId.values()]
+  }, [pages, loaded, keyOf])
+
+  const isLoading = pages.some(page => !loaded.has(keyOf(page)))
+  const range = { start: pages[0].start, end: pages[pages.length - 1].end }
+  // Scrolling on stops by itself once a later page comes back empty
+  const lastPage = loaded.get(keyOf(pages[pages.length - 1]))
+  const autoLoad = pages.length === 1 || lastPage === undefined || lastPage.length > 0
+
+  const loadLater = useCallback(() => {
+    if (isLoading) return
+    setPages(current => {
+      const end = current[current.length - 1].end
+      return [...current, { start: end, end: shiftDays(end, DAYS_PER_PAGE, timeZone) }]
+    })
+  }, [isLoading, timeZone])
+
+  const loadEarlier = () => {
+    if (isLoading) return
+    setPages(current => [{ start: shiftDays(current[0].start, -DAYS_PER_PAGE, timeZone), end: current[0].start }, ...current])
+  }
+
+  // Loads the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !autoLoad) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadLater()
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [loadLater, autoLoad])
+
+  const handleJump = (value: string) => {
+    setJumpTo(value)
+    const [year, month, day] = value.split('-').map(Number)
+    if (!year || !month || !day) return
+
+    startAt(timeZone ? TimeZones.fromWallClock(timeZone, year, month, day) : new Date(year, month - 1, day))
+  }
+
+  const toggleComplete = async (task: EventOrTask) => {
+    const completed = 'status' in task && task.status === 'completed'
+    const changes = completed
+      ? { status: 'pending', completedAt: null }
+      : { status: 'completed', completedAt: new Date() }
+
+    try {
+      const response = await fetch(`/api/tasks/${taskIdOf(task)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'x-user-id': userId },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update task')
+      }
+
+      // Completing a repeating task moves it to its next date, so reload what is shown
+      const reloaded = await Promise.all(pages.map(fetchPage))
+      setLoaded(new Map(pages.map((page, index) => [keyOf(page), reloaded[index]])))
+    } catch (error) {
+      console.error('Failed to update task:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update task')
+    }
+  }
+
+  const days = groupEventsByDay(items, timeZone)
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      {/* Jump to a date */}
+      <div className="flex items-center gap-2 border-b border-border p-3">
+        <Input
+          type="date"
+          value={jumpTo}
+          onChange={(e) => handleJump(e.target.value)}
+          className="h-8 w-auto"
+          aria-label="Jump to date"
+        />
+        <Button variant="outline" size="sm" className="h-8 px-3 text-xs" onClick={() => { setJumpTo(''); startAt(new Date()) }}>
+          Today
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 text-red-500 text-sm px-3 py-2">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        <div className="p-2 text-center">
+          <Button variant="ghost" size="sm" className="text-xs" onClick={loadEarlier} disabled={isLoading}>
+            Show earlier
+          </Button>
+        </div>
+
+        {days.length === 0 && !isLoading && (
+          <p className="p-6 text-center text-sm text-muted-foreground">Nothing planned in these days.</p>
+        )}
+
+        {days.map(({ date, events }) => (
+          <section key={date.getTime()}>
+            <h3 className="sticky top-0 z-10 bg-background/95 backdrop-blur-sm border-b border-border px-3 py-2 text-sm font-semibold">
+              {getDayDisplayText(date, timeZone)}
+            </h3>
+            <ul className="divide-y divide-border/50">
+              {events.map(item => {
+                const completed = 'status' in item && item.status === 'completed'
+                return (
+                  <li
+                    key={item.id}
+                    className="flex items-start gap-3 px-3 py-2 hover:bg-muted/40 cursor-pointer"
+                    onClick={() => onEventClick?.(item)}
+                  >
+                    {isTask(item) ? (
+                      <button
+                        type="button"
+                        className="mt-0.5 text-muted-foreground hover:text-primary"
+                        aria-label={completed ? 'Mark as not done' : 'Mark as done'}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          toggleComplete(item)
+                        }}
+                      >
+                        {completed ? <CheckCircle2 className="h-4 w-4 text-primary" /> : <Circle className="h-4 w-4" />}
+                      </button>
+                    ) : (
+                      <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className={cn('text-sm font-medium truncate', completed && 'line-through text-muted-foreground')}>
+                        {item.title}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.isAllDay || !item.endTime
+                          ? 'All day'
+                          : formatTimeRange(new Date(item.startTime!), new Date(item.endTime), timeZone)}
+                      </div>
+                      {item.location && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                          <MapPin className="h-3 w-3" />
+                          {item.location}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        ))}
+
+        <div ref={sentinelRef} className="p-4 text-center text-xs text-muted-foreground space-y-2">
+          <div>
+            {isLoading ? 'Loading…' : `Showing until ${getDayDisplayText(shiftDays(range.end, -1, timeZone), timeZone)}`}
+          </div>
+          {!autoLoad && !isLoading && (
+            <Button variant="ghost" size="sm" className="text-xs" onClick={loadLater}>
+              Show later
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AgendaView
@@ -0,0 +1,126 @@
+'use client'
+
+import React from 'react'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { EventOrTask } from '@/types/calendar'
+import { getDayStart, getNextDay } from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import { EventLayout } from '@/lib/event-layout'
+
+const ROW_HEIGHT = 24
+
+interface AllDayLaneProps {
+  // Shown days, in order
+  days: Date[]
+  // All-day and multi-day items; anything not on the shown days is left out
+  events: EventOrTask[]
+  timeZone?: string
+  onEventClick?: (event: EventOrTask) => void
+  className?: string
+}
+
+const barStyles: Record<string, string> = {
+  work: 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
+  family: 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
+  personal: 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
+  travel: 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30',
+}
+
+const LaneCell: React.FC<{ date: Date; index: number }> = ({ date, index }) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `allday-${index}`,
+    data: {
+      date,
+    },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn('flex-1 border-r border-border last:border-r-0 transition-colors', isOver && 'bg-primary/10')}
+    />
+  )
+}
+
+const LaneBar: React.FC<{
+  event: EventOrTask
+  row: number
+  // Share of the lane, from the bar's column and span
+  left: number
+  width: number
+  continuesBefore: boolean
+  continuesAfter: boolean
+  onClick?: (event: EventOrTask) => void
+}> = ({ event, row, left, width, continuesBefore, continuesAfter, onClick }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `event-${event.id}`,
+    data: {
+      event,
+      type: 'event',
+    },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={cn(
+        'absolute flex items-center rounded border-l-2 px-2 text-xs font-medium truncate cursor-pointer select-none transition-colors',
+        (event.categoryId && barStyles[event.categoryId]) || 'bg-gray-500/20 border-gray-500 text-gray-100 hover:bg-gray-500/30',
+        // Cut edges show the event goes on beyond the shown days
+        continuesBefore && 'rounded-l-none border-l-0',
+        continuesAfter && 'rounded-r-none',
+        isDragging && 'opacity-50'
+      )}
+      style={{
+        top: row * ROW_HEIGHT + 2,
+        height: ROW_HEIGHT - 4,
+        left: `calc(${left * 100}% + ${continuesBefore ? 0 : 2}px)`,
+        width: `calc(${width * 100}% - ${(continuesBefore ? 0 : 2) + (continuesAfter ? 0 : 2)}px)`,
+      }}
+      title={event.title}
+      onClick={() => onClick?.(event)}
+    >
+      {continuesBefore && <span className="mr-1 opacity-75">‹</span>}
+      <span className="truncate">{event.title}</span>
+      {continuesAfter && <span className="ml-auto pl-1 opacity-75">›</span>}
+    </div>
+  )
+}
+
+/**
+ * The row above the timeline for all-day and multi-day items. Each day is a
+ * drop target (`allday-<index>`), so dragging a timed event here makes it
+ * all-day, and the bars can be dragged back down onto an hour.
+ */
+export const AllDayLane: React.FC<AllDayLaneProps> = ({ days, events, timeZone, onEventClick, className }) => {
+  const ranges = days.map(day => ({ start: getDayStart(day, timeZone), end: getNextDay(day, timeZone) }))
+  const bars = EventLayout.allDayBars(events, ranges)
+  const rows = bars.reduce((count, bar) => Math.max(count, bar.row + 1), 1)
+
+  return (
+    <div className={cn('relative', className)} style={{ height: rows * ROW_HEIGHT + 4 }}>
+      <div className="absolute inset-0 flex">
+        {ranges.map((range, index) => (
+          <LaneCell key={range.start.toISOString()} date={range.start} index={index} />
+        ))}
+      </div>
+
+      {bars.map(bar => (
+        <LaneBar
+          key={bar.event.id}
+          event={bar.event}
+          row={bar.row}
+          left={bar.column / ranges.length}
+          width={bar.span / ranges.length}
+          continuesBefore={bar.continuesBefore}
+          continuesAfter={bar.continuesAfter}
+          onClick={onEventClick}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default AllDayLane
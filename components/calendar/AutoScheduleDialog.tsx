@@ -0,0 +1,163 @@
+/**
+ * Auto-schedule Dialog
+ * Sets the limits the auto-scheduler keeps to before it proposes blocks for
+ * the backlog in the shown week
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { SchedulingConstraints } from '@/lib/auto-scheduler'
+
+interface AutoScheduleDialogProps {
+  isOpen: boolean
+  constraints: SchedulingConstraints
+  onPreview: (constraints: SchedulingConstraints) => void
+  onClose: () => void
+}
+
+// Monday first, as in the week grid
+const WEEKDAYS: Array<[day: number, label: string]> = [
+  [1, 'Mon'], [2, 'Tue'], [3, 'Wed'], [4, 'Thu'], [5, 'Fri'], [6, 'Sat'], [0, 'Sun'],
+]
+
+const NumberField: React.FC<{
+  id: string
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  onChange: (value: number) => void
+}> = ({ id, label, value, min, max, step = 1, onChange }) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value)
+        if (e.target.value !== '' && Number.isFinite(next)) onChange(Math.min(Math.max(next, min), max))
+      }}
+    />
+  </div>
+)
+
+export const AutoScheduleDialog: React.FC<AutoScheduleDialogProps> = ({
+  isOpen,
+  constraints,
+  onPreview,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(constraints)
+  const update = (changes: Partial<SchedulingConstraints>) => setDraft({ ...draft, ...changes })
+  const isValid = draft.workEndHour > Math.max(draft.workStartHour, draft.noMeetingsBeforeHour) && draft.workDays.length > 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Plan the week</DialogTitle>
+          <DialogDescription>
+            Open tasks are fitted into free working time, most urgent first. You can review the blocks before anything is booked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField
+              id="work-start"
+              label="Work starts (hour)"
+              value={draft.workStartHour}
+              min={0}
+              max={23}
+              onChange={(workStartHour) => update({ workStartHour })}
+            />
+            <NumberField
+              id="work-end"
+              label="Work ends (hour)"
+              value={draft.workEndHour}
+              min={1}
+              max={24}
+              onChange={(workEndHour) => update({ workEndHour })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Working days</Label>
+            <div className="flex gap-1">
+              {WEEKDAYS.map(([day, label]) => {
+                const selected = draft.workDays.includes(day)
+                return (
+                  <Button
+                    key={day}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className={cn('h-8 flex-1 px-0 text-xs', selected && 'bg-primary/10 text-primary border-primary')}
+                    aria-pressed={selected}
+                    onClick={() => update({
+                      workDays: selected ? draft.workDays.filter(d => d !== day) : [...draft.workDays, day].sort((a, b) => a - b),
+                    })}
+                  >
+                    {label}
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField
+              id="buffer"
+              label="Buffer (minutes)"
+              value={draft.bufferMinutes}
+              min={0}
+              max={120}
+              step={5}
+              onChange={(bufferMinutes) => update({ bufferMinutes })}
+            />
+            <NumberField
+              id="max-focus"
+              label="Longest block (minutes)"
+              value={draft.maxFocusMinutes}
+              min={15}
+              max={480}
+              step={15}
+              onChange={(maxFocusMinutes) => update({ maxFocusMinutes })}
+            />
+          </div>
+
+          <NumberField
+            id="no-meetings-before"
+            label="Nothing before (hour)"
+            value={draft.noMeetingsBeforeHour}
+            min={0}
+            max={23}
+            onChange={(noMeetingsBeforeHour) => update({ noMeetingsBeforeHour })}
+          />
+
+          {!isValid && (
+            <p className="text-xs text-red-500">
+              Pick at least one working day and leave some hours between the start and the end of the day.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!isValid} onClick={() => onPreview(draft)}>Preview</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { motion } from 'framer-motion'
-import { useDroppable } from '@dnd-kit/core'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
 import {
   CalendarWeek,
   CalendarViewSettings,
@@ -13,14 +13,38 @@ import {
   generateTimeSlots,
   getEventsForDay,
   getDayDisplayText,
+  getAllDayEventsInRange,
+  isAllDayLaneEvent,
+  getDayStart,
+  getNextDay,
+  formatTimeRange,
+  getTimeFromMinutes,
 } from '@/lib/date-utils'
 import { cn } from '@/lib/utils'
+import type { OccurrenceException } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
+import { EventLayout } from '@/lib/event-layout'
+import type { ScheduledBlock } from '@/lib/auto-scheduler'
+import { useEventResize, type ResizeEdge } from '@/hooks/use-event-resize'
+import { useSlotSelection } from '@/hooks/use-slot-selection'
+import { AllDayLane } from './AllDayLane'
 
 interface CalendarGridProps {
   currentWeek: CalendarWeek
   events: EventOrTask[]
+  // Skipped and changed occurrences of the recurring items in `events`
+  exceptions?: OccurrenceException[]
   viewSettings: CalendarViewSettings
   onTimeSlotClick?: (date: Date, hour: number) => void
+  onEventClick?: (event: EventOrTask) => void
+  // New times from dragging an event's top or bottom edge
+  onEventResize?: (event: EventOrTask, startTime: Date, endTime: Date) => void
+  // Whether an event may take the given times; resizing onto a clash is refused
+  canResizeEvent?: (event: EventOrTask, startTime: Date, endTime: Date) => boolean
+  // Range dragged out across empty slots
+  onRangeSelect?: (startTime: Date, endTime: Date) => void
+  // Blocks suggested by the auto-scheduler, shown until accepted or discarded
+  proposedBlocks?: ScheduledBlock[]
   className?: string
 }
 
@@ -36,9 +60,31 @@ interface DayColumnProps {
   dayIndex: number
   timeSlots: Array<{ hour: number; label: string }>
   events: EventOrTask[]
+  timeZone?: string
   onTimeSlotClick?: (date: Date, hour: number) => void
+  onEventClick?: CalendarGridProps['onEventClick']
+  onEventResize?: CalendarGridProps['onEventResize']
+  canResizeEvent?: CalendarGridProps['canResizeEvent']
+  onRangeSelect?: CalendarGridProps['onRangeSelect']
+  proposedBlocks?: ScheduledBlock[]
 }
 
+// Day headers read the calendar's zone; without one, the device's
+const formatDay = (date: Date, part: 'weekday' | 'day', timeZone?: string) => {
+  if (!timeZone) {
+    return format(date, part === 'weekday' ? 'EEE' : 'd')
+  }
+  return TimeZones.format(date, timeZone, part === 'weekday' ? { weekday: 'short' } : { day: 'numeric' })
+}
+
+const wallDate = (date: Date, timeZone: string): [number, number, number] => {
+  const clock = TimeZones.wallClock(date, timeZone)
+  return [clock.year, clock.month, clock.day]
+}
+
+const minutesIntoDay = (date: Date, timeZone?: string) =>
+  timeZone ? TimeZones.minutesIntoDay(date, timeZone) : date.getHours() * 60 + date.getMinutes()
+
 const TimeSlot: React.FC<TimeSlotProps> = ({ date, hour, dayIndex, onClick }) => {
   const { setNodeRef, isOver } = useDroppable({
     id: `slot-${dayIndex}-${hour}`,
@@ -61,20 +107,121 @@ const TimeSlot: React.FC<TimeSlotProps> = ({ date, hour, dayIndex, onClick }) =>
   )
 }
 
+const GridEvent: React.FC<{
+  event: EventOrTask
+  top: number
+  height: number
+  // Share of the column, from EventLayout
+  left: number
+  width: number
+  startTime: Date
+  endTime: Date
+  timeZone?: string
+  // Set while one of its edges is being dragged
+  isResizing?: boolean
+  isInvalid?: boolean
+  onClick?: (event: EventOrTask) => void
+  onResizeStart?: (e: React.PointerEvent, event: EventOrTask, edge: ResizeEdge) => void
+}> = ({ event, top, height, left, width, startTime, endTime, timeZone, isResizing, isInvalid, onClick, onResizeStart }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `event-${event.id}`,
+    data: {
+      event,
+      type: 'event',
+    },
+  })
+  // Events planned in another zone also show their own clock on hover
+  const ownZone = 'timeZone' in event && event.timeZone && event.timeZone !== TimeZones.resolve(timeZone)
+    ? event.timeZone
+    : null
+
+  return (
+    <motion.div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      data-calendar-event
+      className={cn(
+        'group absolute rounded-md border-2 p-2 text-xs font-medium pointer-events-auto overflow-hidden cursor-pointer select-none',
+        isDragging && 'opacity-50',
+        isResizing && 'z-20 shadow-lg',
+        isInvalid && 'ring-2 ring-red-500',
+        'hover:shadow-lg transition-all duration-200',
+        event.categoryId === 'work' && 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
+        event.categoryId === 'family' && 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
+        event.categoryId === 'personal' && 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
+        event.categoryId === 'travel' && 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30'
+      )}
+      style={{
+        top: `${top}px`,
+        height: `${height}px`,
+        left: `calc(${left * 100}% + 2px)`,
+        width: `calc(${width * 100}% - 4px)`,
+      }}
+      title={ownZone
+        ? `${TimeZones.formatTime(startTime, ownZone)} - ${TimeZones.formatTime(endTime, ownZone)} ${TimeZones.label(ownZone, startTime)}`
+        : undefined}
+      onClick={() => onClick?.(event)}
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.2 }}
+    >
+      {onResizeStart && (
+        <div
+          className="absolute inset-x-0 top-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+          onPointerDown={(e) => onResizeStart(e, event, 'start')}
+        />
+      )}
+      <div className="font-semibold truncate">{event.title}</div>
+      <div className="text-xs opacity-80 mt-1">
+        {formatTimeRange(startTime, endTime, timeZone)}
+      </div>
+      {onResizeStart && (
+        <div
+          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+          onPointerDown={(e) => onResizeStart(e, event, 'end')}
+        />
+      )}
+    </motion.div>
+  )
+}
+
 const DayColumn: React.FC<DayColumnProps> = ({
   day,
   dayIndex,
   timeSlots,
   events,
+  timeZone,
   onTimeSlotClick,
+  onEventClick,
+  onEventResize,
+  canResizeEvent = () => true,
+  onRangeSelect,
+  proposedBlocks = [],
 }) => {
   // Ensure we have a valid Date object, convert from string if needed
   const safeDate = day.date instanceof Date ? day.date : new Date(day.date)
+  const firstMinute = timeSlots[0].hour * 60
+  // One pixel per minute, as in the event positions below
+  const { preview, startResize } = useEventResize({ pixelsPerMinute: 1, timeZone, canResize: canResizeEvent, onResize: onEventResize })
+  const { selection, onPointerDown, onClickCapture } = useSlotSelection({
+    pixelsPerMinute: 1,
+    firstMinute,
+    lastMinute: firstMinute + timeSlots.length * 60,
+    timeZone,
+    onSelect: onRangeSelect,
+  })
   
-  const dayEvents = getEventsForDay(events, safeDate)
+  // All-day and multi-day items are drawn in the lane above the columns
+  const dayEvents = getEventsForDay(events, safeDate, [], timeZone).filter(event => !isAllDayLaneEvent(event))
+  // Overlapping events share the column; short ones count at their 30px minimum
+  const placements = new Map(
+    EventLayout.layout(dayEvents, { minDurationMinutes: 30 })
+      .map(placement => [placement.event.id, placement])
+  )
 
   return (
-    <div className="flex-1 border-r border-border last:border-r-0">
+    <div className="relative flex-1 border-r border-border last:border-r-0">
       {/* Day header */}
       <div
         className={cn(
@@ -83,18 +230,22 @@ const DayColumn: React.FC<DayColumnProps> = ({
         )}
       >
         <div className="text-sm text-muted-foreground">
-          {format(safeDate, 'EEE')}
+          {formatDay(safeDate, 'weekday', timeZone)}
         </div>
         <div className={cn(
           'text-lg font-medium',
           day.isToday && 'text-primary'
         )}>
-          {format(safeDate, 'd')}
+          {formatDay(safeDate, 'day', timeZone)}
         </div>
       </div>
 
       {/* Time slots */}
-      <div className="relative">
+      <div
+        className="relative"
+        onPointerDown={onRangeSelect ? (e) => onPointerDown(e, safeDate) : undefined}
+        onClickCapture={onClickCapture}
+      >
         {timeSlots.map((slot) => (
           <TimeSlot
             key={`slot-${dayIndex}-${slot.hour}`}
@@ -104,6 +255,22 @@ const DayColumn: React.FC<DayColumnProps> = ({
             onClick={onTimeSlotClick}
           />
         ))}
+
+        {selection && (
+          <div
+            className="absolute left-1 right-1 rounded-md border-2 border-dashed border-primary bg-primary/20 p-1 text-xs text-primary pointer-events-none"
+            style={{
+              top: `${selection.startMinutes - firstMinute}px`,
+              height: `${selection.endMinutes - selection.startMinutes}px`,
+            }}
+          >
+            {formatTimeRange(
+              getTimeFromMinutes(safeDate, selection.startMinutes, timeZone),
+              getTimeFromMinutes(safeDate, selection.endMinutes, timeZone),
+              timeZone
+            )}
+          </div>
+        )}
       </div>
 
       {/* Events overlay */}
@@ -114,43 +281,55 @@ const DayColumn: React.FC<DayColumnProps> = ({
             return null
           }
           
-          const startHour = new Date(event.startTime).getHours()
-          const startMinute = new Date(event.startTime).getMinutes()
-          const endHour = new Date(event.endTime).getHours()
-          const endMinute = new Date(event.endTime).getMinutes()
+          // While an edge is dragged the event follows the pointer
+          const resizing = preview?.eventId === event.id ? preview : null
+          const startTime = resizing ? resizing.startTime : new Date(event.startTime)
+          const endTime = resizing ? resizing.endTime : new Date(event.endTime)
           
-          const startPosition = ((startHour - timeSlots[0].hour) * 60 + startMinute) * (60 / 60) // 1px per minute
-          const duration = ((endHour - startHour) * 60 + (endMinute - startMinute))
+          const startPosition = (minutesIntoDay(startTime, timeZone) - timeSlots[0].hour * 60) * (60 / 60) // 1px per minute
+          // Elapsed time, so an event across a DST change keeps its real length
+          const duration = (endTime.getTime() - startTime.getTime()) / (60 * 1000)
           const height = Math.max((duration * (60 / 60)), 30) // Minimum 30px height
+          const placement = placements.get(event.id)
           
           return (
-            <motion.div
+            <GridEvent
               key={event.id}
+              event={event}
+              top={startPosition + 60} // +60px for day header
+              height={height}
+              left={placement?.left ?? 0}
+              width={placement?.width ?? 1}
+              startTime={startTime}
+              endTime={endTime}
+              timeZone={timeZone}
+              isResizing={Boolean(resizing)}
+              isInvalid={resizing ? !resizing.isValid : false}
+              onClick={onEventClick}
+              onResizeStart={onEventResize ? startResize : undefined}
+            />
+          )
+        })}
+
+        {proposedBlocks
+          .filter(block => getDayStart(block.startTime, timeZone).getTime() === getDayStart(safeDate, timeZone).getTime())
+          .map(block => (
+            <div
+              key={block.taskId}
               className={cn(
-                'absolute left-1 right-1 rounded-md border-2 p-2 text-xs font-medium pointer-events-auto',
-                'hover:shadow-lg transition-all duration-200',
-                event.categoryId === 'work' && 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
-                event.categoryId === 'family' && 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
-                event.categoryId === 'personal' && 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
-                event.categoryId === 'travel' && 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30'
+                'absolute left-0.5 right-0.5 rounded-md border-2 border-dashed p-2 text-xs font-medium overflow-hidden',
+                block.isLate ? 'border-red-500 bg-red-500/10 text-red-400' : 'border-primary bg-primary/10 text-primary'
               )}
               style={{
-                top: `${startPosition + 60}px`, // +60px for day header
-                height: `${height}px`,
+                top: `${minutesIntoDay(block.startTime, timeZone) - firstMinute + 60}px`, // +60px for day header
+                height: `${Math.max((block.endTime.getTime() - block.startTime.getTime()) / (60 * 1000), 30)}px`,
               }}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.2 }}
+              title={block.isLate ? 'Ends after the task is due' : undefined}
             >
-              <div className="font-semibold truncate">{event.title}</div>
-              {!event.isAllDay && (
-                <div className="text-xs opacity-80 mt-1">
-                  {format(new Date(event.startTime), 'HH:mm')} - {format(new Date(event.endTime), 'HH:mm')}
-                </div>
-              )}
-            </motion.div>
-          )
-        })}
+              <div className="font-semibold truncate">{block.title}</div>
+              <div className="opacity-80">{formatTimeRange(block.startTime, block.endTime, timeZone)}</div>
+            </div>
+          ))}
       </div>
     </div>
   )
@@ -159,19 +338,57 @@ const DayColumn: React.FC<DayColumnProps> = ({
 export const CalendarGrid: React.FC<CalendarGridProps> = ({
   currentWeek,
   events,
+  exceptions = [],
   viewSettings,
   onTimeSlotClick,
+  onEventClick,
+  onEventResize,
+  canResizeEvent,
+  onRangeSelect,
+  proposedBlocks,
   className,
 }) => {
   const timeSlots = generateTimeSlots(viewSettings)
   const daysToShow = viewSettings.showWeekends ? currentWeek.days : currentWeek.days.slice(0, 5)
+  const { timeZone, secondaryTimeZone } = viewSettings
+  const firstDay = daysToShow[0] ? new Date(daysToShow[0].date) : new Date(currentWeek.startDate)
+  const shownDays = daysToShow.map(day => new Date(day.date))
+  const laneEvents = shownDays.length > 0
+    ? getAllDayEventsInRange(
+        events,
+        getDayStart(shownDays[0], timeZone),
+        getNextDay(shownDays[shownDays.length - 1], timeZone),
+        exceptions
+      )
+    : []
+
+  // The second zone's clock at each hour of the first shown day
+  const secondaryLabels = secondaryTimeZone
+    ? timeSlots.map(slot => {
+        const instant = timeZone
+          ? TimeZones.fromWallClock(timeZone, ...wallDate(firstDay, timeZone), slot.hour)
+          : new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate(), slot.hour)
+        return TimeZones.formatTime(instant, secondaryTimeZone, viewSettings.timeFormat)
+      })
+    : null
 
   return (
     <div className={cn('flex flex-col h-full bg-background', className)}>
       {/* Time labels column */}
       <div className="flex">
-        <div className="w-16 flex-shrink-0" />
-        <div className="flex-1 grid grid-cols-5 border-b border-border">
+        {secondaryTimeZone && (
+          <div className="w-16 flex-shrink-0 flex items-end justify-end pr-2 pb-1 text-[10px] text-muted-foreground">
+            {TimeZones.label(secondaryTimeZone, firstDay)}
+          </div>
+        )}
+        <div className="w-16 flex-shrink-0 flex items-end justify-end pr-2 pb-1 text-[10px] text-muted-foreground">
+          {secondaryTimeZone && TimeZones.label(TimeZones.resolve(timeZone), firstDay)}
+        </div>
+        {/* One column per shown day, lined up with the all-day lane below */}
+        <div
+          className="flex-1 grid border-b border-border"
+          style={{ gridTemplateColumns: `repeat(${daysToShow.length}, minmax(0, 1fr))` }}
+        >
           {daysToShow.map((day, index) => {
             // Ensure we have a valid Date object, convert from string if needed
             const safeDate = day.date instanceof Date ? day.date : new Date(day.date)
@@ -186,13 +403,13 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
                 )}
               >
                 <div className="text-sm text-muted-foreground">
-                  {format(safeDate, 'EEE')}
+                  {formatDay(safeDate, 'weekday', timeZone)}
                 </div>
                 <div className={cn(
                   'text-lg font-medium',
                   day.isToday && 'text-primary'
                 )}>
-                  {format(safeDate, 'd')}
+                  {formatDay(safeDate, 'day', timeZone)}
                 </div>
               </div>
             )
@@ -200,8 +417,39 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
         </div>
       </div>
 
+      {/* All-day and multi-day events */}
+      <div className="flex border-b border-border">
+        {secondaryTimeZone && <div className="w-16 flex-shrink-0" />}
+        <div className="w-16 flex-shrink-0 flex items-center justify-end pr-2 text-[10px] text-muted-foreground">
+          All day
+        </div>
+        <AllDayLane
+          className="flex-1"
+          days={shownDays}
+          events={laneEvents}
+          timeZone={timeZone}
+          onEventClick={onEventClick}
+        />
+      </div>
+
       {/* Calendar grid */}
       <div className="flex-1 flex overflow-hidden">
+        {/* Secondary zone labels */}
+        {secondaryLabels && (
+          <div className="w-16 flex-shrink-0 bg-muted/30">
+            <div className="sticky top-[60px]">
+              {timeSlots.map((slot, index) => (
+                <div
+                  key={slot.hour}
+                  className="h-[60px] flex items-start justify-end pr-2 text-xs text-muted-foreground/70 border-b border-border/50"
+                >
+                  {secondaryLabels[index]}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Time labels */}
         <div className="w-16 flex-shrink-0 bg-background">
           <div className="sticky top-[60px]"> {/* Height of day header */}
@@ -222,7 +470,7 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
             // Ensure we have a valid Date object, convert from string if needed
             const safeDate = day.date instanceof Date ? day.date : new Date(day.date)
             const dateKey = safeDate.toISOString()
-            const dayEvents = getEventsForDay(events, safeDate)
+            const dayEvents = getEventsForDay(events, safeDate, exceptions, timeZone)
             
             return (
               <DayColumn
@@ -231,7 +479,13 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
                 dayIndex={index}
                 timeSlots={timeSlots}
                 events={dayEvents}
+                timeZone={timeZone}
                 onTimeSlotClick={onTimeSlotClick}
+                onEventClick={onEventClick}
+                onEventResize={onEventResize}
+                canResizeEvent={canResizeEvent}
+                onRangeSelect={onRangeSelect}
+                proposedBlocks={proposedBlocks}
               />
             )
           })}
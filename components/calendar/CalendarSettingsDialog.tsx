@@ -0,0 +1,94 @@
+/**
+ * Calendar Settings Dialog
+ * Picks the time zone the calendar is shown in and an optional second zone
+ * for the extra time column
+ */
+
+'use client'
+
+import React from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { CalendarViewSettings } from '@/types/calendar'
+import { COMMON_TIME_ZONES, TimeZones } from '@/lib/timezone'
+
+interface CalendarSettingsDialogProps {
+  isOpen: boolean
+  viewSettings: CalendarViewSettings
+  onChange: (settings: Partial<CalendarViewSettings>) => void
+  onClose: () => void
+}
+
+// Select items cannot carry an empty value
+const DEVICE_ZONE = 'device'
+const NO_ZONE = 'none'
+
+export const CalendarSettingsDialog: React.FC<CalendarSettingsDialogProps> = ({
+  isOpen,
+  viewSettings,
+  onChange,
+  onClose,
+}) => {
+  const deviceZone = TimeZones.local()
+  const zones = COMMON_TIME_ZONES.includes(deviceZone) ? COMMON_TIME_ZONES : [deviceZone, ...COMMON_TIME_ZONES]
+  // Keep a zone chosen elsewhere (e.g. the account setting) selectable
+  const options = [viewSettings.timeZone, viewSettings.secondaryTimeZone]
+    .filter((zone): zone is string => !!zone && !zones.includes(zone))
+    .concat(zones)
+
+  const zoneLabel = (zone: string) => `${zone.replace(/_/g, ' ')} (${TimeZones.label(zone)})`
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Calendar settings</DialogTitle>
+          <DialogDescription>
+            Events keep the zone they were planned in and are shown on this clock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="time-zone">Time zone</Label>
+            <Select
+              value={viewSettings.timeZone ?? DEVICE_ZONE}
+              onValueChange={(value) => onChange({ timeZone: value === DEVICE_ZONE ? undefined : value })}
+              name="time-zone"
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEVICE_ZONE}>This device ({deviceZone.replace(/_/g, ' ')})</SelectItem>
+                {options.map(zone => (
+                  <SelectItem key={zone} value={zone}>{zoneLabel(zone)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="secondary-time-zone">Second time zone</Label>
+            <Select
+              value={viewSettings.secondaryTimeZone ?? NO_ZONE}
+              onValueChange={(value) => onChange({ secondaryTimeZone: value === NO_ZONE ? undefined : value })}
+              name="secondary-time-zone"
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ZONE}>None</SelectItem>
+                {options.map(zone => (
+                  <SelectItem key={zone} value={zone}>{zoneLabel(zone)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
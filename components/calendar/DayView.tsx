@@ -0,0 +1,376 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { ListTodo } from 'lucide-react'
+import {
+  CalendarViewSettings,
+  EventOrTask,
+  Task,
+} from '@/types/calendar'
+import {
+  generateTimeSlots,
+  getEventsForDay,
+  getAllDayEventsInRange,
+  isAllDayLaneEvent,
+  getDayStart,
+  getNextDay,
+  getUnscheduledTasksForDay,
+  getTimeFromMinutes,
+  getDayDisplayText,
+  formatTimeRange,
+  getDurationText,
+  DEFAULT_TASK_DURATION,
+} from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import type { OccurrenceException } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
+import { EventLayout } from '@/lib/event-layout'
+import { useEventResize, type ResizeEdge } from '@/hooks/use-event-resize'
+import { useSlotSelection } from '@/hooks/use-slot-selection'
+import { AllDayLane } from './AllDayLane'
+
+// The day timeline is taller than the week grid so quarter hours are easy to hit
+const SLOT_MINUTES = 15
+const SLOT_HEIGHT = 20
+const PIXELS_PER_MINUTE = SLOT_HEIGHT / SLOT_MINUTES
+
+interface DayViewProps {
+  day: Date
+  events: EventOrTask[]
+  tasks: Task[]
+  // Skipped and changed occurrences of the recurring items in `events` and `tasks`
+  exceptions?: OccurrenceException[]
+  viewSettings: CalendarViewSettings
+  onTimeSlotClick?: (date: Date, hour: number) => void
+  onEventClick?: (event: EventOrTask) => void
+  onEventResize?: (event: EventOrTask, startTime: Date, endTime: Date) => void
+  canResizeEvent?: (event: EventOrTask, startTime: Date, endTime: Date) => boolean
+  onRangeSelect?: (startTime: Date, endTime: Date) => void
+  className?: string
+}
+
+interface QuarterSlotProps {
+  day: Date
+  minutes: number
+  timeZone?: string
+  onClick?: (date: Date, hour: number) => void
+}
+
+const chipStyles: Record<string, string> = {
+  work: 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
+  family: 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
+  personal: 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
+  travel: 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30',
+}
+
+const categoryStyle = (categoryId?: string | null) =>
+  (categoryId && chipStyles[categoryId]) || 'bg-gray-500/20 border-gray-500 text-gray-100 hover:bg-gray-500/30'
+
+const minutesIntoDay = (date: Date, timeZone?: string) =>
+  timeZone ? TimeZones.minutesIntoDay(date, timeZone) : date.getHours() * 60 + date.getMinutes()
+
+const QuarterSlot: React.FC<QuarterSlotProps> = ({ day, minutes, timeZone, onClick }) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `day-slot-${minutes}`,
+    data: {
+      date: getTimeFromMinutes(day, minutes, timeZone),
+    },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ height: SLOT_HEIGHT }}
+      className={cn(
+        'hover:bg-muted/50 transition-colors cursor-pointer',
+        minutes % 60 === 45 ? 'border-b border-border/50' : 'border-b border-border/20',
+        isOver && 'bg-primary/10'
+      )}
+      onClick={() => onClick?.(day, Math.floor(minutes / 60))}
+    />
+  )
+}
+
+const TimelineEvent: React.FC<{
+  event: EventOrTask
+  top: number
+  height: number
+  // Share of the column, from EventLayout
+  left: number
+  width: number
+  timeZone?: string
+  // Set while one of its edges is being dragged
+  isResizing?: boolean
+  isInvalid?: boolean
+  onClick?: (event: EventOrTask) => void
+  onResizeStart?: (e: React.PointerEvent, event: EventOrTask, edge: ResizeEdge) => void
+}> = ({ event, top, height, left, width, timeZone, isResizing, isInvalid, onClick, onResizeStart }) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `event-${event.id}`,
+    data: {
+      event,
+      type: 'event',
+    },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      data-calendar-event
+      className={cn(
+        'group absolute rounded-md border-2 p-2 text-xs font-medium cursor-pointer select-none overflow-hidden',
+        categoryStyle(event.categoryId),
+        isDragging && 'opacity-50',
+        isResizing && 'z-20 shadow-lg',
+        isInvalid && 'ring-2 ring-red-500'
+      )}
+      style={{
+        top,
+        height,
+        left: `calc(${left * 100}% + 2px)`,
+        width: `calc(${width * 100}% - 4px)`,
+        transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
+      }}
+      onClick={() => onClick?.(event)}
+    >
+      {onResizeStart && (
+        <div
+          className="absolute inset-x-0 top-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+          onPointerDown={(e) => onResizeStart(e, event, 'start')}
+        />
+      )}
+      <div className="font-semibold truncate">{event.title}</div>
+      <div className="opacity-80">
+        {formatTimeRange(new Date(event.startTime!), new Date(event.endTime!), timeZone)}
+      </div>
+      {event.location && <div className="opacity-75 truncate">{event.location}</div>}
+      {onResizeStart && (
+        <div
+          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+          onPointerDown={(e) => onResizeStart(e, event, 'end')}
+        />
+      )}
+    </div>
+  )
+}
+
+const UnscheduledTask: React.FC<{ task: Task; onClick?: (event: EventOrTask) => void }> = ({ task, onClick }) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `task-${task.id}`,
+    data: {
+      event: task,
+      type: 'task',
+    },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={cn(
+        'rounded-md border-l-2 p-2 text-xs cursor-grab select-none',
+        categoryStyle(task.categoryId),
+        isDragging && 'opacity-50'
+      )}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      onClick={() => onClick?.(task)}
+    >
+      <div className="font-medium truncate">{task.title}</div>
+      <div className="flex items-center gap-2 mt-1 opacity-75">
+        <span className="capitalize">{task.priority}</span>
+        <span>{getDurationText(task.estimatedDuration ?? DEFAULT_TASK_DURATION)}</span>
+      </div>
+    </div>
+  )
+}
+
+export const DayView: React.FC<DayViewProps> = ({
+  day,
+  events,
+  tasks,
+  exceptions = [],
+  viewSettings,
+  onTimeSlotClick,
+  onEventClick,
+  onEventResize,
+  canResizeEvent = () => true,
+  onRangeSelect,
+  className,
+}) => {
+  const { timeZone } = viewSettings
+  const timeSlots = generateTimeSlots(viewSettings)
+  const firstMinute = timeSlots[0].hour * 60
+  const totalMinutes = timeSlots.length * 60
+  const { preview, startResize } = useEventResize({
+    pixelsPerMinute: PIXELS_PER_MINUTE,
+    timeZone,
+    canResize: canResizeEvent,
+    onResize: onEventResize,
+  })
+  const { selection, onPointerDown, onClickCapture } = useSlotSelection({
+    pixelsPerMinute: PIXELS_PER_MINUTE,
+    firstMinute,
+    lastMinute: firstMinute + totalMinutes,
+    timeZone,
+    onSelect: onRangeSelect,
+  })
+
+  // Moves the current-time line along once a minute
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const dayEvents = getEventsForDay(events, day, exceptions, timeZone)
+  // Includes multi-day items that started on an earlier day
+  const allDayEvents = getAllDayEventsInRange(events, getDayStart(day, timeZone), getNextDay(day, timeZone), exceptions)
+  const timedEvents = dayEvents.filter(event => !isAllDayLaneEvent(event) && event.endTime)
+  const unscheduled = getUnscheduledTasksForDay(tasks, day, exceptions, timeZone)
+
+  const isToday = timeZone ? TimeZones.isSameDay(now, day, timeZone) : now.toDateString() === day.toDateString()
+  const nowOffset = minutesIntoDay(now, timeZone) - firstMinute
+  const showNow = isToday && nowOffset >= 0 && nowOffset <= totalMinutes
+
+  return (
+    <div className={cn('flex h-full bg-background', className)}>
+      {/* Timeline */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className={cn('border-b border-border p-3', isToday && 'bg-primary/10')}>
+          <div className={cn('text-lg font-semibold', isToday && 'text-primary')}>
+            {getDayDisplayText(day, timeZone)}
+          </div>
+        </div>
+
+        <div className="flex border-b border-border">
+          <div className="w-16 flex-shrink-0 flex items-center justify-end pr-2 text-[10px] text-muted-foreground">
+            All day
+          </div>
+          <AllDayLane
+            className="flex-1 border-l border-border"
+            days={[day]}
+            events={allDayEvents}
+            timeZone={timeZone}
+            onEventClick={onEventClick}
+          />
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <div className="flex">
+            {/* Hour labels */}
+            <div className="w-16 flex-shrink-0">
+              {timeSlots.map(slot => (
+                <div
+                  key={slot.hour}
+                  style={{ height: SLOT_HEIGHT * (60 / SLOT_MINUTES) }}
+                  className="flex items-start justify-end pr-2 text-xs text-muted-foreground border-b border-border/50"
+                >
+                  {slot.label}
+                </div>
+              ))}
+            </div>
+
+            {/* Quarter-hour slots with the day's events on top */}
+            <div
+              className="flex-1 relative border-l border-border"
+              onPointerDown={onRangeSelect ? (e) => onPointerDown(e, day) : undefined}
+              onClickCapture={onClickCapture}
+            >
+              {timeSlots.flatMap(slot =>
+                Array.from({ length: 60 / SLOT_MINUTES }, (_, quarter) => {
+                  const minutes = slot.hour * 60 + quarter * SLOT_MINUTES
+                  return (
+                    <QuarterSlot
+                      key={minutes}
+                      day={day}
+                      minutes={minutes}
+                      timeZone={timeZone}
+                      onClick={onTimeSlotClick}
+                    />
+                  )
+                })
+              )}
+
+              {EventLayout.layout(timedEvents, { minDurationMinutes: SLOT_MINUTES }).map(({ event, left, width }) => {
+                const resizing = preview?.eventId === event.id ? preview : null
+                const startTime = resizing ? resizing.startTime : new Date(event.startTime!)
+                const endTime = resizing ? resizing.endTime : new Date(event.endTime!)
+                const top = (minutesIntoDay(startTime, timeZone) - firstMinute) * PIXELS_PER_MINUTE
+                // Elapsed time, so an event across a DST change keeps its real length
+                const duration = (endTime.getTime() - startTime.getTime()) / (60 * 1000)
+                return (
+                  <TimelineEvent
+                    key={event.id}
+                    event={resizing ? { ...event, startTime, endTime } as EventOrTask : event}
+                    top={top}
+                    height={Math.max(duration * PIXELS_PER_MINUTE, SLOT_HEIGHT)}
+                    left={left}
+                    width={width}
+                    timeZone={timeZone}
+                    isResizing={Boolean(resizing)}
+                    isInvalid={resizing ? !resizing.isValid : false}
+                    onClick={onEventClick}
+                    onResizeStart={onEventResize ? startResize : undefined}
+                  />
+                )
+              })}
+
+              {selection && (
+                <div
+                  className="absolute left-1 right-1 rounded-md border-2 border-dashed border-primary bg-primary/20 p-1 text-xs text-primary pointer-events-none"
+                  style={{
+                    top: (selection.startMinutes - firstMinute) * PIXELS_PER_MINUTE,
+                    height: (selection.endMinutes - selection.startMinutes) * PIXELS_PER_MINUTE,
+                  }}
+                >
+                  {formatTimeRange(
+                    getTimeFromMinutes(day, selection.startMinutes, timeZone),
+                    getTimeFromMinutes(day, selection.endMinutes, timeZone),
+                    timeZone
+                  )}
+                </div>
+              )}
+
+              {showNow && (
+                <div
+                  className="absolute left-0 right-0 z-10 pointer-events-none flex items-center"
+                  style={{ top: nowOffset * PIXELS_PER_MINUTE }}
+                >
+                  <div className="h-2 w-2 -ml-1 rounded-full bg-red-500" />
+                  <div className="flex-1 h-px bg-red-500" />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Tasks due today without a time */}
+      <aside className="w-64 flex-shrink-0 border-l border-border p-3 space-y-2 overflow-auto">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <ListTodo className="h-4 w-4 text-muted-foreground" />
+          Unscheduled tasks
+          <span className="ml-auto text-xs text-muted-foreground">{unscheduled.length}</span>
+        </div>
+        {unscheduled.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Nothing left to plan for this day.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">Drag a task onto the timeline to block time for it.</p>
+            {unscheduled.map(task => (
+              <UnscheduledTask key={task.id} task={task} onClick={onEventClick} />
+            ))}
+          </>
+        )}
+      </aside>
+    </div>
+  )
+}
+
+export default DayView
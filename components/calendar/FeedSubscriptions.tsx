@@ -0,0 +1,182 @@
+/**
+ * Feed Subscriptions
+ * Creates and revokes secret .ics feed URLs for other calendar apps
+ */
+
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Copy, Link as LinkIcon, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+interface Feed {
+  id: string
+  name: string
+  url: string
+  categoryId: string | null
+  tagIds: string[]
+  includeTasks: boolean
+  lastAccessedAt: string | null
+}
+
+interface FeedSubscriptionsProps {
+  userId: string
+}
+
+export const FeedSubscriptions: React.FC<FeedSubscriptionsProps> = ({ userId }) => {
+  const [feeds, setFeeds] = useState<Feed[]>([])
+  const [name, setName] = useState('')
+  const [category, setCategory] = useState('')
+  const [tags, setTags] = useState('')
+  const [includeTasks, setIncludeTasks] = useState(true)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      const response = await fetch('/api/calendar/feeds', {
+        headers: { 'x-user-id': userId }
+      })
+      const data = await response.json()
+      setFeeds(data.feeds || [])
+    } catch (error) {
+      console.error('Failed to load calendar feeds:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadFeeds()
+  }, [loadFeeds])
+
+  const handleCreate = async () => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/calendar/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-user-id': userId },
+        body: JSON.stringify({
+          name: name.trim() || undefined,
+          category: category.trim() || undefined,
+          tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+          includeTasks
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to create feed')
+        return
+      }
+
+      setName('')
+      setCategory('')
+      setTags('')
+      await loadFeeds()
+    } catch (error) {
+      console.error('Failed to create calendar feed:', error)
+      setError('Failed to create feed')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRevoke = async (feedId: string) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/calendar/feeds/${feedId}`, {
+        method: 'DELETE',
+        headers: { 'x-user-id': userId }
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to revoke feed')
+      }
+
+      await loadFeeds()
+    } catch (error) {
+      console.error('Failed to revoke calendar feed:', error)
+      setError('Failed to revoke feed')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-medium">Subscribe from another app</h3>
+      <p className="text-xs text-muted-foreground">
+        Anyone with a feed URL can read it. Revoke a URL to cut off every device using it.
+      </p>
+
+      {feeds.length > 0 && (
+        <ul className="space-y-2">
+          {feeds.map(feed => (
+            <li key={feed.id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-1 font-medium">
+                  <LinkIcon className="h-3 w-3" />
+                  {feed.name}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {feed.lastAccessedAt ? `Last synced ${new Date(feed.lastAccessedAt).toLocaleString()}` : 'Never synced'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input value={feed.url} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Copy URL"
+                  onClick={() => navigator.clipboard.writeText(feed.url)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Revoke URL"
+                  disabled={isBusy}
+                  onClick={() => handleRevoke(feed.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="feed-name">Name</Label>
+          <Input id="feed-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="DayFlow" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="feed-category">Category</Label>
+          <Input id="feed-category" value={category} onChange={(e) => setCategory(e.target.value)} placeholder="All categories" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="feed-tags">Tags</Label>
+        <Input id="feed-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Comma separated, e.g. focus, team" />
+      </div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Switch id="feed-tasks" checked={includeTasks} onCheckedChange={setIncludeTasks} />
+          <Label htmlFor="feed-tasks">Include time-blocked tasks</Label>
+        </div>
+        <Button variant="outline" onClick={handleCreate} disabled={isBusy}>
+          Create feed URL
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </section>
+  )
+}
@@ -0,0 +1,205 @@
+/**
+ * ICS Transfer Dialog
+ * Imports a .ics file, exports a date range or category as .ics and manages
+ * subscription feeds
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { format, startOfMonth, endOfMonth } from 'date-fns'
+import { Download, Upload } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { FeedSubscriptions } from './FeedSubscriptions'
+
+interface ImportReport {
+  created: Array<{ uid: string; type: 'event' | 'task'; id: string; title: string }>
+  skipped: Array<{ uid: string; type: 'event' | 'task'; title: string; reason: string }>
+}
+
+interface IcsTransferDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  userId: string
+  // Called after an import created at least one item
+  onImported?: () => void
+}
+
+export const IcsTransferDialog: React.FC<IcsTransferDialogProps> = ({
+  isOpen,
+  onClose,
+  userId,
+  onImported,
+}) => {
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [category, setCategory] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setIsBusy(true)
+    setError(null)
+    setReport(null)
+    try {
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await fetch('/api/calendar/ics', {
+        method: 'POST',
+        headers: { 'x-user-id': userId },
+        body
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to import calendar')
+        return
+      }
+
+      setReport({ created: data.created, skipped: data.skipped })
+      if (data.created.length > 0) {
+        onImported?.()
+      }
+    } catch (error) {
+      console.error('Failed to import calendar:', error)
+      setError('Failed to import calendar')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+      if (category.trim()) params.set('category', category.trim())
+
+      const response = await fetch(`/api/calendar/ics?${params}`, {
+        headers: { 'x-user-id': userId }
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.message || data.error || 'Failed to export calendar')
+        return
+      }
+
+      // The endpoint needs the user header, so download through a blob URL
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'dayflow.ics'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export calendar:', error)
+      setError('Failed to export calendar')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleClose = () => {
+    setFile(null)
+    setReport(null)
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export Calendar</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">Import .ics file</h3>
+            <p className="text-xs text-muted-foreground">
+              Events become calendar events and to-dos become tasks. Items imported before are skipped.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                id="ics-file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <Button onClick={handleImport} disabled={!file || isBusy}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </div>
+
+            {report && (
+              <div className="space-y-2 text-sm">
+                <div className="flex gap-2">
+                  <Badge variant="secondary">{report.created.length} created</Badge>
+                  <Badge variant="outline">{report.skipped.length} skipped</Badge>
+                </div>
+                <ul className="max-h-40 overflow-y-auto space-y-1">
+                  {report.created.map(item => (
+                    <li key={`created-${item.type}-${item.uid}`} className="flex justify-between gap-2">
+                      <span className="truncate">{item.title}</span>
+                      <span className="text-xs text-muted-foreground">{item.type}</span>
+                    </li>
+                  ))}
+                  {report.skipped.map((item, index) => (
+                    <li key={`skipped-${item.type}-${item.uid}-${index}`} className="flex justify-between gap-2 text-muted-foreground">
+                      <span className="truncate">{item.title}</span>
+                      <span className="text-xs">{item.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">Export .ics file</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ics-from">From</Label>
+                <Input id="ics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ics-to">To</Label>
+                <Input id="ics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ics-category">Category</Label>
+              <Input
+                id="ics-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="All categories"
+              />
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={isBusy}>
+              <Download className="h-4 w-4 mr-2" />
+              Download .ics
+            </Button>
+          </section>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <FeedSubscriptions userId={userId} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
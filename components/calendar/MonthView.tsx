@@ -0,0 +1,237 @@
+'use client'
+
+import React from 'react'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import {
+  CalendarMonth,
+  CalendarDay,
+  CalendarViewSettings,
+  EventOrTask,
+} from '@/types/calendar'
+import { getEventsForDay } from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import type { OccurrenceException } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+// Chips shown in a day cell before the rest collapse into "+N more"
+const MAX_VISIBLE_CHIPS = 3
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+interface MonthViewProps {
+  month: CalendarMonth
+  events: EventOrTask[]
+  // Skipped and changed occurrences of the recurring items in `events`
+  exceptions?: OccurrenceException[]
+  viewSettings: CalendarViewSettings
+  onDayClick?: (date: Date) => void
+  onEventClick?: (event: EventOrTask) => void
+  className?: string
+}
+
+interface MonthDayCellProps {
+  day: CalendarDay
+  weekIndex: number
+  dayIndex: number
+  events: EventOrTask[]
+  viewSettings: CalendarViewSettings
+  onDayClick?: (date: Date) => void
+  onEventClick?: (event: EventOrTask) => void
+}
+
+interface EventChipProps {
+  event: EventOrTask
+  // Distinguishes the copy of a chip inside the overflow popover
+  dragId: string
+  viewSettings: CalendarViewSettings
+  onClick?: (event: EventOrTask) => void
+}
+
+const chipStyles: Record<string, string> = {
+  work: 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
+  family: 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
+  personal: 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
+  travel: 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30',
+}
+
+const EventChip: React.FC<EventChipProps> = ({ event, dragId, viewSettings, onClick }) => {
+  // Unlike the week grid, all-day items can move here since only the day changes
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: dragId,
+    data: {
+      event,
+      type: 'event',
+    },
+  })
+
+  const startTime = event.startTime ? new Date(event.startTime) : null
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={cn(
+        'flex items-center gap-1 rounded border-l-2 px-1.5 py-0.5 text-xs truncate cursor-pointer select-none transition-colors',
+        (event.categoryId && chipStyles[event.categoryId]) || 'bg-gray-500/20 border-gray-500 text-gray-100 hover:bg-gray-500/30',
+        isDragging && 'opacity-50'
+      )}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick?.(event)
+      }}
+    >
+      {startTime && !event.isAllDay && (
+        <span className="opacity-75 flex-shrink-0">
+          {TimeZones.formatTime(startTime, TimeZones.resolve(viewSettings.timeZone), viewSettings.timeFormat)}
+        </span>
+      )}
+      <span className="truncate font-medium">{event.title}</span>
+    </div>
+  )
+}
+
+const MonthDayCell: React.FC<MonthDayCellProps> = ({
+  day,
+  weekIndex,
+  dayIndex,
+  events,
+  viewSettings,
+  onDayClick,
+  onEventClick,
+}) => {
+  // Ensure we have a valid Date object, convert from string if needed
+  const safeDate = day.date instanceof Date ? day.date : new Date(day.date)
+  const { setNodeRef, isOver } = useDroppable({
+    id: `month-day-${weekIndex}-${dayIndex}`,
+    data: {
+      date: safeDate,
+    },
+  })
+
+  const visible = events.length > MAX_VISIBLE_CHIPS ? events.slice(0, MAX_VISIBLE_CHIPS - 1) : events
+  const hidden = events.length - visible.length
+  const dayNumber = viewSettings.timeZone
+    ? TimeZones.format(safeDate, viewSettings.timeZone, { day: 'numeric' })
+    : String(safeDate.getDate())
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'min-h-[110px] border-r border-b border-border p-1 flex flex-col gap-1 cursor-pointer hover:bg-muted/30 transition-colors',
+        day.isCurrentMonth === false && 'bg-muted/20 text-muted-foreground',
+        isOver && 'bg-primary/10'
+      )}
+      onClick={() => onDayClick?.(safeDate)}
+    >
+      <div className="flex justify-end">
+        <span className={cn(
+          'text-sm h-6 w-6 flex items-center justify-center rounded-full',
+          day.isToday && 'bg-primary text-primary-foreground font-semibold'
+        )}>
+          {dayNumber}
+        </span>
+      </div>
+
+      {visible.map(event => (
+        <EventChip
+          key={event.id}
+          event={event}
+          dragId={`event-${event.id}`}
+          viewSettings={viewSettings}
+          onClick={onEventClick}
+        />
+      ))}
+
+      {hidden > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="text-left text-xs text-muted-foreground hover:text-foreground px-1.5"
+              onClick={(e) => e.stopPropagation()}
+            >
+              +{hidden} more
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 p-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+            <div className="text-xs font-medium text-muted-foreground pb-1">
+              {viewSettings.timeZone
+                ? TimeZones.format(safeDate, viewSettings.timeZone, { weekday: 'long', month: 'long', day: 'numeric' })
+                : safeDate.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+            </div>
+            {events.map(event => (
+              <EventChip
+                key={event.id}
+                event={event}
+                dragId={`event-${event.id}-more`}
+                viewSettings={viewSettings}
+                onClick={onEventClick}
+              />
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  )
+}
+
+export const MonthView: React.FC<MonthViewProps> = ({
+  month,
+  events,
+  exceptions = [],
+  viewSettings,
+  onDayClick,
+  onEventClick,
+  className,
+}) => {
+  const { timeZone, showWeekends } = viewSettings
+  const weekdays = showWeekends ? WEEKDAY_NAMES : WEEKDAY_NAMES.slice(0, 5)
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      {/* Weekday headers */}
+      <div className={cn('grid border-b border-border', showWeekends ? 'grid-cols-7' : 'grid-cols-5')}>
+        {weekdays.map(name => (
+          <div key={name} className="p-2 text-center text-sm text-muted-foreground border-r border-border last:border-r-0">
+            {name}
+          </div>
+        ))}
+      </div>
+
+      {/* Day cells */}
+      <div className="flex-1 overflow-auto">
+        {month.weeks.map((week, weekIndex) => (
+          <div
+            key={new Date(week.startDate).toISOString()}
+            className={cn('grid', showWeekends ? 'grid-cols-7' : 'grid-cols-5')}
+          >
+            {week.days.map((day, dayIndex) => {
+              if (!showWeekends && day.dayOfWeek > 5) {
+                return null
+              }
+
+              const date = day.date instanceof Date ? day.date : new Date(day.date)
+              return (
+                <MonthDayCell
+                  key={date.toISOString()}
+                  day={day}
+                  weekIndex={weekIndex}
+                  dayIndex={dayIndex}
+                  events={getEventsForDay(events, date, exceptions, timeZone)}
+                  viewSettings={viewSettings}
+                  onDayClick={onDayClick}
+                  onEventClick={onEventClick}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default MonthView
@@ -0,0 +1,64 @@
+/**
+ * Recurrence Scope Dialog
+ * Asks whether a change to a repeating item applies to this occurrence, this
+ * and the following ones, or the whole series
+ */
+
+'use client'
+
+import React from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { EditScope } from '@/lib/series-edit'
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean
+  action: 'edit' | 'delete'
+  onSelect: (scope: EditScope) => void
+  onClose: () => void
+}
+
+const SCOPE_LABELS: Record<EditScope, string> = {
+  this: 'This event',
+  following: 'This and following events',
+  all: 'All events',
+}
+
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  isOpen,
+  action,
+  onSelect,
+  onClose,
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {action === 'delete' ? 'Delete recurring event' : 'Edit recurring event'}
+          </DialogTitle>
+          <DialogDescription>
+            {action === 'delete'
+              ? 'Which occurrences do you want to delete?'
+              : 'Which occurrences should this change apply to?'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2">
+          {(Object.keys(SCOPE_LABELS) as EditScope[]).map(scope => (
+            <Button
+              key={scope}
+              variant={scope === 'this' ? 'default' : 'outline'}
+              onClick={() => onSelect(scope)}
+            >
+              {SCOPE_LABELS[scope]}
+            </Button>
+          ))}
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
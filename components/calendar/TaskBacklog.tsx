@@ -0,0 +1,169 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { ListTodo, Wand2 } from 'lucide-react'
+import {
+  CalendarViewSettings,
+  EventOrTask,
+  Task,
+  TaskBacklogFilter,
+} from '@/types/calendar'
+import {
+  getTaskBacklog,
+  getDurationText,
+  DEFAULT_BACKLOG_FILTER,
+  DEFAULT_TASK_DURATION,
+} from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import { TimeZones } from '@/lib/timezone'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface TaskBacklogProps {
+  tasks: Task[]
+  viewSettings: CalendarViewSettings
+  onTaskClick?: (event: EventOrTask) => void
+  // Let the auto-scheduler propose times for the whole backlog
+  onAutoSchedule?: () => void
+  className?: string
+}
+
+const cardStyles: Record<string, string> = {
+  work: 'bg-blue-500/20 border-blue-500 text-blue-100 hover:bg-blue-500/30',
+  family: 'bg-green-500/20 border-green-500 text-green-100 hover:bg-green-500/30',
+  personal: 'bg-orange-500/20 border-orange-500 text-orange-100 hover:bg-orange-500/30',
+  travel: 'bg-purple-500/20 border-purple-500 text-purple-100 hover:bg-purple-500/30',
+}
+
+const FilterSelect: React.FC<{
+  label: string
+  value: string
+  options: Array<[value: string, label: string]>
+  onChange: (value: string) => void
+}> = ({ label, value, options, onChange }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="h-8 text-xs" aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map(([optionValue, optionLabel]) => (
+        <SelectItem key={optionValue} value={optionValue}>{optionLabel}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+)
+
+const BacklogTask: React.FC<{
+  task: Task
+  viewSettings: CalendarViewSettings
+  onClick?: (event: EventOrTask) => void
+}> = ({ task, viewSettings, onClick }) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `task-${task.id}`,
+    data: {
+      event: task,
+      type: 'task',
+    },
+  })
+  const due = task.dueDate ? new Date(task.dueDate) : null
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={cn(
+        'rounded-md border-l-2 p-2 text-xs cursor-grab select-none',
+        (task.categoryId && cardStyles[task.categoryId]) || 'bg-gray-500/20 border-gray-500 text-gray-100 hover:bg-gray-500/30',
+        isDragging && 'opacity-50'
+      )}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      onClick={() => onClick?.(task)}
+    >
+      <div className="font-medium truncate">{task.title}</div>
+      <div className="flex items-center gap-2 mt-1 opacity-75">
+        <span className="capitalize">{task.priority}</span>
+        <span>{getDurationText(task.estimatedDuration ?? DEFAULT_TASK_DURATION)}</span>
+        {due && (
+          <span className="ml-auto">
+            Due {TimeZones.format(due, TimeZones.resolve(viewSettings.timeZone), { month: 'short', day: 'numeric' })}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Sidebar of tasks waiting for a time. Dragging one onto the week grid blocks
+ * out its estimated duration; the panel itself is a drop target
+ * (`task-backlog`) that takes a scheduled task's time away again.
+ */
+export const TaskBacklog: React.FC<TaskBacklogProps> = ({ tasks, viewSettings, onTaskClick, onAutoSchedule, className }) => {
+  const [filter, setFilter] = useState<TaskBacklogFilter>(DEFAULT_BACKLOG_FILTER)
+  const { setNodeRef, isOver } = useDroppable({ id: 'task-backlog' })
+
+  const backlog = getTaskBacklog(tasks, filter, viewSettings.timeZone)
+  const isFiltered = filter.categoryId !== 'all' || filter.priority !== 'all' || filter.due !== 'all'
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={cn(
+        'w-64 flex-shrink-0 border-l border-border p-3 space-y-2 overflow-auto transition-colors',
+        isOver && 'bg-primary/10',
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <ListTodo className="h-4 w-4 text-muted-foreground" />
+        Task backlog
+        <span className="ml-auto text-xs text-muted-foreground">{backlog.length}</span>
+      </div>
+
+      {onAutoSchedule && (
+        <Button variant="outline" size="sm" className="w-full h-8 text-xs" onClick={onAutoSchedule}>
+          <Wand2 className="h-3.5 w-3.5 mr-1.5" />
+          Plan week
+        </Button>
+      )}
+
+      <div className="grid grid-cols-1 gap-1.5">
+        <FilterSelect
+          label="Category"
+          value={filter.categoryId}
+          options={[['all', 'All categories'], ['work', 'Work'], ['family', 'Family'], ['personal', 'Personal'], ['travel', 'Travel']]}
+          onChange={(categoryId) => setFilter({ ...filter, categoryId })}
+        />
+        <FilterSelect
+          label="Priority"
+          value={filter.priority}
+          options={[['all', 'Any priority'], ['urgent', 'Urgent'], ['high', 'High'], ['medium', 'Medium'], ['low', 'Low']]}
+          onChange={(priority) => setFilter({ ...filter, priority: priority as TaskBacklogFilter['priority'] })}
+        />
+        <FilterSelect
+          label="Due date"
+          value={filter.due}
+          options={[['all', 'Any due date'], ['overdue', 'Overdue'], ['today', 'Due today'], ['week', 'Due this week'], ['none', 'No due date']]}
+          onChange={(due) => setFilter({ ...filter, due: due as TaskBacklogFilter['due'] })}
+        />
+      </div>
+
+      {backlog.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {isFiltered ? 'No tasks match these filters.' : 'Every open task has a time.'}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Drag a task onto the week to timebox it, or drag a scheduled task here to unschedule it.
+        </p>
+      )}
+      {backlog.map(task => (
+        <BacklogTask key={task.id} task={task} viewSettings={viewSettings} onClick={onTaskClick} />
+      ))}
+    </aside>
+  )
+}
+
+export default TaskBacklog
@@ -8,31 +8,49 @@ import {
   Calendar as CalendarIcon,
   Plus,
   Settings,
+  ArrowUpDown,
   Users,
-  Filter
+  Filter,
+  ListTodo
 } from 'lucide-react'
 import {
   CalendarWeek,
+  CalendarMonth,
   CalendarViewSettings,
 } from '@/types/calendar'
-import { format, isToday } from 'date-fns'
+import { format, isToday, isSameMonth } from 'date-fns'
 import {
   getCurrentWeek,
   getPreviousWeek,
   getNextWeek,
   getWeekDisplayText,
+  getMonthDisplayText,
+  getDayDisplayText,
 } from '@/lib/date-utils'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import { TimeZones } from '@/lib/timezone'
 
 interface WeekNavigationProps {
   currentWeek: CalendarWeek
   viewSettings: CalendarViewSettings
   onWeekChange: (week: CalendarWeek) => void
+  // Month shown by the month view; the arrows page months while it is active
+  currentMonth?: CalendarMonth
+  onPreviousMonth?: () => void
+  onNextMonth?: () => void
+  // Day shown by the day view; the arrows page days while it is active
+  currentDay?: Date
+  onPreviousDay?: () => void
+  onNextDay?: () => void
   onTodayClick?: () => void
   onNewEvent?: () => void
   onSettingsClick?: () => void
-  onViewModeChange?: (view: 'week' | 'month' | 'day') => void
+  onImportExport?: () => void
+  // Shows or hides the unscheduled task panel; no button without it
+  onBacklogToggle?: () => void
+  isBacklogOpen?: boolean
+  onViewModeChange?: (view: 'week' | 'month' | 'day' | 'agenda') => void
   onShowWeekendsChange?: (show: boolean) => void
   className?: string
 }
@@ -69,7 +87,7 @@ const NavigationButton: React.FC<NavigationButtonProps> = ({
   )
 }
 
-const WeekDisplay: React.FC<{ week: CalendarWeek }> = ({ week }) => {
+const WeekDisplay: React.FC<{ week: CalendarWeek; timeZone?: string }> = ({ week, timeZone }) => {
   // Ensure we have valid Date objects, convert from string if needed
   const safeWeek = {
     ...week,
@@ -81,7 +99,7 @@ const WeekDisplay: React.FC<{ week: CalendarWeek }> = ({ week }) => {
     })) || []
   }
   
-  const currentWeek = getCurrentWeek()
+  const currentWeek = getCurrentWeek(new Date(), timeZone)
   const isCurrentWeek = currentWeek.startDate.getTime() === safeWeek.startDate.getTime()
   
   return (
@@ -89,7 +107,7 @@ const WeekDisplay: React.FC<{ week: CalendarWeek }> = ({ week }) => {
       <div className="flex items-center gap-2">
         <CalendarIcon className="h-4 w-4 text-muted-foreground" />
         <div className="text-lg font-semibold">
-          {getWeekDisplayText(safeWeek)}
+          {getWeekDisplayText(safeWeek, timeZone)}
         </div>
         {isCurrentWeek && (
           <span className="px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded-md">
@@ -101,11 +119,37 @@ const WeekDisplay: React.FC<{ week: CalendarWeek }> = ({ week }) => {
   )
 }
 
+const MonthDisplay: React.FC<{ month: CalendarMonth; timeZone?: string }> = ({ month, timeZone }) => {
+  const startDate = new Date(month.startDate)
+  const today = timeZone ? TimeZones.wallClock(new Date(), timeZone) : null
+  const shown = timeZone ? TimeZones.wallClock(startDate, timeZone) : null
+  const isCurrentMonth = today && shown
+    ? today.year === shown.year && today.month === shown.month
+    : isSameMonth(startDate, new Date())
+
+  return (
+    <div className="flex items-center gap-2">
+      <CalendarIcon className="h-4 w-4 text-muted-foreground" />
+      <div className="text-lg font-semibold">
+        {getMonthDisplayText(month, timeZone)}
+      </div>
+      {isCurrentMonth && (
+        <span className="px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded-md">
+          This Month
+        </span>
+      )}
+    </div>
+  )
+}
+
 const QuickActions: React.FC<{
   onTodayClick: () => void
   onNewEvent: () => void
   onSettingsClick: () => void
-}> = ({ onTodayClick, onNewEvent, onSettingsClick }) => {
+  onImportExport?: () => void
+  onBacklogToggle?: () => void
+  isBacklogOpen?: boolean
+}> = ({ onTodayClick, onNewEvent, onSettingsClick, onImportExport, onBacklogToggle, isBacklogOpen }) => {
   return (
     <div className="flex items-center gap-1">
       <Button
@@ -123,6 +167,23 @@ const QuickActions: React.FC<{
       >
         <Plus className="h-4 w-4" />
       </NavigationButton>
+      {onBacklogToggle && (
+        <NavigationButton
+          onClick={onBacklogToggle}
+          tooltip={isBacklogOpen ? 'Hide task backlog' : 'Show task backlog'}
+          className={cn(isBacklogOpen && 'bg-primary/10 text-primary')}
+        >
+          <ListTodo className="h-4 w-4" />
+        </NavigationButton>
+      )}
+      {onImportExport && (
+        <NavigationButton
+          onClick={onImportExport}
+          tooltip="Import or export .ics"
+        >
+          <ArrowUpDown className="h-4 w-4" />
+        </NavigationButton>
+      )}
       <NavigationButton
         onClick={onSettingsClick}
         tooltip="Calendar settings"
@@ -134,13 +195,14 @@ const QuickActions: React.FC<{
 }
 
 const ViewModeSelector: React.FC<{
-  currentView: 'week' | 'month' | 'day'
-  onViewChange: (view: 'week' | 'month' | 'day') => void
+  currentView: 'week' | 'month' | 'day' | 'agenda'
+  onViewChange: (view: 'week' | 'month' | 'day' | 'agenda') => void
 }> = ({ currentView, onViewChange }) => {
   const views = [
     { key: 'week', label: 'Week', count: 7 } as const,
     { key: 'month', label: 'Month', count: 30 } as const,
     { key: 'day', label: 'Day', count: 1 } as const,
+    { key: 'agenda', label: 'Agenda', count: 14 } as const,
   ]
 
   return (
@@ -185,30 +247,59 @@ export const WeekNavigation: React.FC<WeekNavigationProps> = ({
   currentWeek,
   viewSettings,
   onWeekChange,
+  currentMonth,
+  onPreviousMonth,
+  onNextMonth,
+  currentDay,
+  onPreviousDay,
+  onNextDay,
   onTodayClick,
   onNewEvent,
   onSettingsClick,
+  onImportExport,
+  onBacklogToggle,
+  isBacklogOpen,
   onViewModeChange,
   onShowWeekendsChange,
   className,
 }) => {
+  const showMonth = viewSettings.defaultView === 'month' && currentMonth
+  const showDay = viewSettings.defaultView === 'day' && currentDay
+  const unit = showMonth ? 'month' : showDay ? 'day' : 'week'
+
   const handlePreviousWeek = () => {
-    const previousWeek = getPreviousWeek(currentWeek)
+    if (showMonth && onPreviousMonth) {
+      onPreviousMonth()
+      return
+    }
+    if (showDay && onPreviousDay) {
+      onPreviousDay()
+      return
+    }
+    const previousWeek = getPreviousWeek(currentWeek, viewSettings.timeZone)
     onWeekChange(previousWeek)
   }
 
   const handleNextWeek = () => {
-    const nextWeek = getNextWeek(currentWeek)
+    if (showMonth && onNextMonth) {
+      onNextMonth()
+      return
+    }
+    if (showDay && onNextDay) {
+      onNextDay()
+      return
+    }
+    const nextWeek = getNextWeek(currentWeek, viewSettings.timeZone)
     onWeekChange(nextWeek)
   }
 
   const handleTodayClick = () => {
-    const today = getCurrentWeek()
+    const today = getCurrentWeek(new Date(), viewSettings.timeZone)
     onWeekChange(today)
     onTodayClick?.()
   }
 
-  const handleViewModeChange = (view: 'week' | 'month' | 'day') => {
+  const handleViewModeChange = (view: 'week' | 'month' | 'day' | 'agenda') => {
     onViewModeChange?.(view)
   }
 
@@ -231,16 +322,27 @@ export const WeekNavigation: React.FC<WeekNavigationProps> = ({
         <div className="flex items-center gap-2">
           <NavigationButton
             onClick={handlePreviousWeek}
-            tooltip="Previous week"
+            tooltip={`Previous ${unit}`}
           >
             <ChevronLeft className="h-4 w-4" />
           </NavigationButton>
           
-          <WeekDisplay week={currentWeek} />
+          {showMonth ? (
+            <MonthDisplay month={currentMonth} timeZone={viewSettings.timeZone} />
+          ) : showDay ? (
+            <div className="flex items-center gap-2">
+              <CalendarIcon className="h-4 w-4 text-muted-foreground" />
+              <div className="text-lg font-semibold">
+                {getDayDisplayText(currentDay, viewSettings.timeZone)}
+              </div>
+            </div>
+          ) : (
+            <WeekDisplay week={currentWeek} timeZone={viewSettings.timeZone} />
+          )}
           
           <NavigationButton
             onClick={handleNextWeek}
-            tooltip="Next week"
+            tooltip={`Next ${unit}`}
           >
             <ChevronRight className="h-4 w-4" />
           </NavigationButton>
@@ -264,6 +366,9 @@ export const WeekNavigation: React.FC<WeekNavigationProps> = ({
         onTodayClick={handleTodayClick}
         onNewEvent={onNewEvent || (() => {})}
         onSettingsClick={onSettingsClick || (() => {})}
+        onImportExport={onImportExport}
+        onBacklogToggle={onBacklogToggle}
+        isBacklogOpen={isBacklogOpen}
       />
     </motion.div>
   )
@@ -286,18 +391,18 @@ export const CompactWeekNavigation: React.FC<Omit<WeekNavigationProps, 'classNam
       {/* Compact navigation */}
       <div className="flex items-center gap-2">
         <NavigationButton
-          onClick={() => props.onWeekChange(getPreviousWeek(props.currentWeek))}
+          onClick={() => props.onWeekChange(getPreviousWeek(props.currentWeek, props.viewSettings.timeZone))}
           tooltip="Previous week"
         >
           <ChevronLeft className="h-4 w-4" />
         </NavigationButton>
         
         <div className="text-sm font-medium min-w-0">
-          {getWeekDisplayText(props.currentWeek)}
+          {getWeekDisplayText(props.currentWeek, props.viewSettings.timeZone)}
         </div>
         
         <NavigationButton
-          onClick={() => props.onWeekChange(getNextWeek(props.currentWeek))}
+          onClick={() => props.onWeekChange(getNextWeek(props.currentWeek, props.viewSettings.timeZone))}
           tooltip="Next week"
         >
           <ChevronRight className="h-4 w-4" />
@@ -309,7 +414,7 @@ export const CompactWeekNavigation: React.FC<Omit<WeekNavigationProps, 'classNam
         <Button
           variant="ghost"
           size="sm"
-          onClick={() => props.onWeekChange(getCurrentWeek())}
+          onClick={() => props.onWeekChange(getCurrentWeek(new Date(), props.viewSettings.timeZone))}
           className="h-7 px-2 text-xs"
         >
           Today
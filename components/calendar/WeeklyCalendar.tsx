@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback, useMemo } from 'react'
+import React, { useState, useCallback, useMemo, useEffect } from 'react'
 import {
   DndContext,
   DragEndEvent,
@@ -26,6 +26,7 @@ import {
   useWeeklyCalendarStore,
   useCurrentWeek,
   useViewSettings,
+  useCurrentUserId,
 } from '@/stores/calendarStore'
 import {
   snapToNearestSlot,
@@ -37,11 +38,27 @@ import {
   getEventWidth,
   detectEventCollisions,
   getWeekFromDate,
+  formatTimeRange,
+  moveToDay,
+  isAllDayLaneEvent,
+  getDayStart,
+  getNextDay,
 } from '@/lib/date-utils'
+import { RecurrenceExpander } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
+import type { EditScope } from '@/lib/series-edit'
 
 import { WeekNavigation } from './WeekNavigation'
+import { IcsTransferDialog } from './IcsTransferDialog'
 import { CalendarGrid } from './CalendarGrid'
+import { MonthView } from './MonthView'
+import { DayView } from './DayView'
+import { AgendaView } from './AgendaView'
+import { TaskBacklog } from './TaskBacklog'
 import { CalendarEvent } from './CalendarEvent'
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog'
+import { CalendarSettingsDialog } from './CalendarSettingsDialog'
+import { AutoScheduleDialog } from './AutoScheduleDialog'
 
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
@@ -62,7 +79,11 @@ interface EventFormDialogProps {
   event?: EventOrTask | null
   selectedDate?: Date
   selectedHour?: number
-  onSave: (event: Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>) => void
+  // Exact times dragged out on the grid; wins over the clicked hour
+  selectedRange?: { start: Date; end: Date }
+  // Zone the clicked slot's hour is read in
+  timeZone?: string
+  onSave: (event: Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>, kind: 'event' | 'task') => void
 }
 
 const EventFormDialog: React.FC<EventFormDialogProps> = ({
@@ -71,13 +92,24 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
   event,
   selectedDate,
   selectedHour,
+  selectedRange,
+  timeZone,
   onSave,
 }) => {
+  const userId = useCurrentUserId()
+  const slotTime = (day: Date, hour: number) => timeZone ? getTimeFromSlot(1, hour, timeZone, day) : setHours(day, hour)
+  // The time inputs show and set the clock in the calendar's zone
+  const clockValue = (date: Date) => timeZone ? TimeZones.formatTime(date, timeZone) : format(date, 'HH:mm')
+  const withClock = (date: Date, hours: number, minutes: number) => {
+    if (!timeZone) return setHours(setMinutes(date, minutes), hours)
+    const clock = TimeZones.wallClock(date, timeZone)
+    return TimeZones.fromWallClock(timeZone, clock.year, clock.month, clock.day, hours, minutes)
+  }
   const [formData, setFormData] = useState({
     title: event?.title || '',
     description: event?.description || '',
-    startTime: event?.startTime ? new Date(event.startTime) : (selectedDate ? setHours(selectedDate, selectedHour || 9) : new Date()),
-    endTime: event?.endTime ? new Date(event.endTime) : (selectedDate ? setHours(selectedDate, selectedHour ? selectedHour + 1 : 10) : new Date()),
+    startTime: event?.startTime ? new Date(event.startTime) : selectedRange?.start ?? (selectedDate ? slotTime(selectedDate, selectedHour || 9) : new Date()),
+    endTime: event?.endTime ? new Date(event.endTime) : selectedRange?.end ?? (selectedDate ? slotTime(selectedDate, selectedHour ? selectedHour + 1 : 10) : new Date()),
     isAllDay: event?.isAllDay || false,
     location: event?.location || '',
     categoryId: event?.categoryId || 'work' as const,
@@ -85,16 +117,18 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
     recurrence: { type: 'none' as const },
     reminder: { enabled: false as const, minutesBefore: 15 },
   })
+  // New items can be created as a time-blocked task instead of an event
+  const [kind, setKind] = useState<'event' | 'task'>(event && 'status' in event ? 'task' : 'event')
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     
     const eventData = {
       ...formData,
-      userId: 'user-1', // In a real app, this would come from auth
+      userId,
     }
 
-    onSave(eventData as Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>)
+    onSave(eventData as Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>, kind)
     onClose()
     
     // Reset form
@@ -117,11 +151,28 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>
-            {event ? 'Edit Event' : 'Create New Event'}
+            {event ? 'Edit Event' : kind === 'task' ? 'Create New Task' : 'Create New Event'}
           </DialogTitle>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!event && (
+            <div className="flex items-center bg-muted/50 rounded-md p-1 w-fit">
+              {(['event', 'task'] as const).map(option => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={kind === option ? 'default' : 'ghost'}
+                  className="h-7 px-3 text-xs capitalize"
+                  onClick={() => setKind(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="title">Title</Label>
             <Input
@@ -162,12 +213,12 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
                 <Input
                   id="startTime"
                   type="time"
-                  value={format(formData.startTime, 'HH:mm')}
+                  value={clockValue(formData.startTime)}
                   onChange={(e) => {
                     const [hours, minutes] = e.target.value.split(':').map(Number)
                     setFormData({
                       ...formData,
-                      startTime: setHours(setMinutes(formData.startTime, minutes), hours),
+                      startTime: withClock(formData.startTime, hours, minutes),
                     })
                   }}
                 />
@@ -177,12 +228,12 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
                 <Input
                   id="endTime"
                   type="time"
-                  value={format(formData.endTime, 'HH:mm')}
+                  value={clockValue(formData.endTime)}
                   onChange={(e) => {
                     const [hours, minutes] = e.target.value.split(':').map(Number)
                     setFormData({
                       ...formData,
-                      endTime: setHours(setMinutes(formData.endTime, minutes), hours),
+                      endTime: withClock(formData.endTime, hours, minutes),
                     })
                   }}
                 />
@@ -238,7 +289,7 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
               Cancel
             </Button>
             <Button type="submit">
-              {event ? 'Update Event' : 'Create Event'}
+              {event ? 'Update Event' : kind === 'task' ? 'Create Task' : 'Create Event'}
             </Button>
           </div>
         </form>
@@ -251,9 +302,11 @@ const EventFormDialog: React.FC<EventFormDialogProps> = ({
 export const WeeklyCalendar: React.FC = () => {
   // Store hooks
   const {
+    userId,
     currentWeek,
     events,
     tasks,
+    exceptions,
     viewSettings,
     error,
     selectedEvent,
@@ -261,16 +314,37 @@ export const WeeklyCalendar: React.FC = () => {
     goToPreviousWeek,
     goToNextWeek,
     goToCurrentWeek,
+    goToPreviousMonth,
+    goToNextMonth,
+    getCurrentMonth,
+    goToPreviousDay,
+    goToNextDay,
+    getCurrentDay,
     addEvent,
     updateEvent,
     deleteEvent,
     moveEvent,
+    checkEventCanMove,
+    addTask,
+    scheduleTask,
+    unscheduleTask,
+    schedulingConstraints,
+    scheduleProposal,
+    setSchedulingConstraints,
+    proposeSchedule,
+    acceptScheduleProposal,
+    discardScheduleProposal,
+    updateOccurrence,
+    deleteOccurrence,
     selectEvent,
     setViewSettings,
     setError,
   } = useWeeklyCalendarStore()
 
   const allEvents = useMemo(() => [...events, ...tasks], [events, tasks])
+  // The month view follows the current week until the user pages months
+  const month = getCurrentMonth()
+  const day = getCurrentDay()
 
   // Local state
   const [activeId, setActiveId] = useState<string | null>(null)
@@ -279,6 +353,28 @@ export const WeeklyCalendar: React.FC = () => {
   const [formEvent, setFormEvent] = useState<EventOrTask | null>(null)
   const [selectedDate, setSelectedDate] = useState<Date | undefined>()
   const [selectedHour, setSelectedHour] = useState<number | undefined>()
+  const [selectedRange, setSelectedRange] = useState<{ start: Date; end: Date } | undefined>()
+  // Bumped each time the form opens, so it starts from the new slot or event
+  const [formKey, setFormKey] = useState(0)
+  const [showIcsDialog, setShowIcsDialog] = useState(false)
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false)
+  const [showBacklog, setShowBacklog] = useState(false)
+  const [showAutoSchedule, setShowAutoSchedule] = useState(false)
+  // Seven columns do not fit on a phone; the agenda takes the week's place there
+  const [isNarrow, setIsNarrow] = useState(false)
+  // Change to an occurrence of a repeating item, waiting for the user to pick a scope
+  const [pendingScope, setPendingScope] = useState<{
+    action: 'edit' | 'delete'
+    apply: (scope: EditScope) => void
+  } | null>(null)
+
+  useEffect(() => {
+    const query = window.matchMedia('(max-width: 767px)')
+    const update = () => setIsNarrow(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
 
   // Sensors for drag and drop
   const sensors = useSensors(
@@ -294,26 +390,57 @@ export const WeeklyCalendar: React.FC = () => {
     selectEvent(event)
   }, [selectEvent])
 
+  const openForm = useCallback(() => {
+    setFormKey(key => key + 1)
+    setShowFormDialog(true)
+  }, [])
+
   const handleTimeSlotClick = useCallback((date: Date, hour: number) => {
     setSelectedDate(date)
     setSelectedHour(hour)
+    setSelectedRange(undefined)
     setFormEvent(null)
-    setShowFormDialog(true)
-  }, [])
+    openForm()
+  }, [openForm])
+
+  const handleRangeSelect = useCallback((start: Date, end: Date) => {
+    setSelectedDate(undefined)
+    setSelectedHour(undefined)
+    setSelectedRange({ start, end })
+    setFormEvent(null)
+    openForm()
+  }, [openForm])
 
   const handleNewEvent = useCallback(() => {
     setFormEvent(null)
     setSelectedDate(undefined)
     setSelectedHour(undefined)
-    setShowFormDialog(true)
-  }, [])
+    setSelectedRange(undefined)
+    openForm()
+  }, [openForm])
 
   const handleEventEdit = useCallback((event: EventOrTask) => {
     setFormEvent(event)
-    setShowFormDialog(true)
-  }, [])
+    openForm()
+  }, [openForm])
+
+  const handleEventResize = useCallback((event: EventOrTask, startTime: Date, endTime: Date) => {
+    if (RecurrenceExpander.isOccurrence(event)) {
+      setPendingScope({
+        action: 'edit',
+        apply: (scope) => { moveEvent(event.id, startTime, endTime, scope) },
+      })
+      return
+    }
+    moveEvent(event.id, startTime, endTime)
+  }, [moveEvent])
+
+  // Occurrences are not stored on their own; the store checks them when they are saved
+  const canResizeEvent = useCallback((event: EventOrTask, startTime: Date, endTime: Date) =>
+    RecurrenceExpander.isOccurrence(event) || checkEventCanMove(event.id, startTime, endTime)
+  , [checkEventCanMove])
 
-  const handleEventSave = useCallback((eventData: Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleEventSave = useCallback((eventData: Omit<EventOrTask, 'id' | 'createdAt' | 'updatedAt'>, kind: 'event' | 'task') => {
     if (formEvent) {
       // Update existing event
       const cleanEventData = {
@@ -321,24 +448,45 @@ export const WeeklyCalendar: React.FC = () => {
         startTime: eventData.startTime || new Date(),
         endTime: eventData.endTime || new Date(),
       }
-      updateEvent(formEvent.id, cleanEventData)
+      if (RecurrenceExpander.isOccurrence(formEvent)) {
+        // The form has no recurrence editor yet; keep the series' own rule
+        const { recurrence: _recurrence, ...changes } = cleanEventData
+        setPendingScope({
+          action: 'edit',
+          apply: (scope) => updateOccurrence(formEvent.id, changes as Partial<EventOrTask>, scope),
+        })
+      } else {
+        updateEvent(formEvent.id, cleanEventData)
+      }
     } else {
+      if (kind === 'task') {
+        addTask({ ...eventData, status: 'pending', progress: 0 } as any)
+        return
+      }
       // Create new event
       addEvent(eventData as any)
     }
-  }, [formEvent, addEvent, updateEvent])
+  }, [formEvent, addEvent, addTask, updateEvent, updateOccurrence])
 
   const handleEventDelete = useCallback((eventId: string) => {
     if (eventId.startsWith('event-')) {
       const actualEventId = eventId.replace('event-', '')
-      deleteEvent(actualEventId)
+      if (RecurrenceExpander.parseOccurrenceId(actualEventId)) {
+        setPendingScope({
+          action: 'delete',
+          apply: (scope) => deleteOccurrence(actualEventId, scope),
+        })
+      } else {
+        deleteEvent(actualEventId)
+      }
     }
-  }, [deleteEvent])
+  }, [deleteEvent, deleteOccurrence])
 
   // Drag and drop handlers
   const handleDragStart = useCallback((event: DragStartEvent) => {
     setActiveId(event.active.id as string)
-    const draggedEvent = allEvents.find(e => `event-${e.id}` === event.active.id)
+    // Occurrences of repeating items are not in the store; they carry themselves
+    const draggedEvent = allEvents.find(e => `event-${e.id}` === event.active.id) ?? event.active.data.current?.event
     setDragEvent(draggedEvent || null)
   }, [allEvents])
 
@@ -358,30 +506,117 @@ export const WeeklyCalendar: React.FC = () => {
 
     const draggedEvent = active.data.current.event as EventOrTask
     const overId = over.id as string
+    const { timeZone } = viewSettings
+
+    // Occurrences of a series ask which ones to change first. `isAllDay`
+    // moves the item between the all-day lane and the timeline
+    const place = async (newStartTime: Date, newEndTime: Date, isAllDay?: boolean) => {
+      if (RecurrenceExpander.isOccurrence(draggedEvent)) {
+        setPendingScope({
+          action: 'edit',
+          apply: (scope) => { moveEvent(draggedEvent.id, newStartTime, newEndTime, scope, isAllDay) },
+        })
+        return
+      }
+
+      const success = await moveEvent(draggedEvent.id, newStartTime, newEndTime, 'this', isAllDay)
+      if (!success && error) {
+        console.error('Failed to move event:', error)
+      }
+    }
+
+    // Dropped on an hour: timed items keep their length, all-day ones become an hour long
+    const placeAt = (newStartTime: Date) => {
+      if (draggedEvent.isAllDay) {
+        return place(newStartTime, new Date(newStartTime.getTime() + 60 * 60 * 1000), false)
+      }
+      const duration = new Date(draggedEvent.endTime!).getTime() - new Date(draggedEvent.startTime!).getTime()
+      return place(newStartTime, new Date(newStartTime.getTime() + duration))
+    }
+
+    // Handle drop on the task backlog; only tasks with a time can go back
+    if (overId === 'task-backlog') {
+      if ('status' in draggedEvent && draggedEvent.startTime) {
+        unscheduleTask(draggedEvent.id)
+      }
+      return
+    }
+
+    // Handle drop on the day view timeline
+    if (overId.startsWith('day-slot-')) {
+      const newDate = over.data.current?.date as Date
+
+      // A task without a time gets one for the first time
+      if (active.data.current.type === 'task' && !draggedEvent.startTime) {
+        scheduleTask(draggedEvent.id, newDate)
+        return
+      }
+      if (!draggedEvent.startTime || !draggedEvent.endTime) {
+        return
+      }
+
+      await placeAt(newDate)
+      return
+    }
+
+    // Handle drop on the all-day lane of the week or day view
+    if (overId.startsWith('allday-') && draggedEvent.startTime && draggedEvent.endTime) {
+      const day = over.data.current?.date as Date
+
+      if (isAllDayLaneEvent(draggedEvent)) {
+        // Already in the lane; it starts on the new day and keeps its length
+        const startTime = new Date(draggedEvent.startTime)
+        const newDate = moveToDay(startTime, day, timeZone)
+        if (newDate.getTime() === startTime.getTime()) {
+          return
+        }
+        const duration = new Date(draggedEvent.endTime).getTime() - startTime.getTime()
+        await place(newDate, new Date(newDate.getTime() + duration))
+        return
+      }
+
+      // A timed event becomes all-day on the day it was dropped on
+      await place(getDayStart(day, timeZone), getNextDay(day, timeZone), true)
+      return
+    }
+
+    // Handle drop on a month view day; the item keeps its clock time and length
+    if (overId.startsWith('month-day-') && draggedEvent.startTime) {
+      const startTime = new Date(draggedEvent.startTime)
+      const newDate = moveToDay(startTime, over.data.current?.date, timeZone)
+      if (newDate.getTime() === startTime.getTime()) {
+        return
+      }
+      const duration = draggedEvent.endTime ? new Date(draggedEvent.endTime).getTime() - startTime.getTime() : 0
+      await place(newDate, new Date(newDate.getTime() + duration))
+      return
+    }
 
     // Handle drop on time slot
-    if (overId.startsWith('slot-') && draggedEvent.startTime && draggedEvent.endTime) {
+    if (overId.startsWith('slot-')) {
       const [, dayIndexStr, hourStr] = overId.split('-')
       const dayIndex = parseInt(dayIndexStr)
       const hour = parseInt(hourStr)
 
-      const newDate = getTimeFromSlot(dayIndex, hour)
-      const duration = new Date(draggedEvent.endTime).getTime() - new Date(draggedEvent.startTime).getTime()
-      const newEndTime = new Date(newDate.getTime() + duration)
+      // Slot ids count columns from 0
+      const newDate = getTimeFromSlot(dayIndex + 1, hour, timeZone, new Date(currentWeek.startDate))
 
-      const success = await moveEvent(draggedEvent.id, newDate, newEndTime)
-      if (!success && error) {
-        // Show error message
-        console.error('Failed to move event:', error)
+      // A task from the backlog is blocked out for its estimated duration
+      if (active.data.current.type === 'task' && !draggedEvent.startTime) {
+        scheduleTask(draggedEvent.id, newDate)
+        return
+      }
+      if (draggedEvent.startTime && draggedEvent.endTime) {
+        await placeAt(newDate)
       }
     }
-  }, [moveEvent, error])
+  }, [moveEvent, scheduleTask, unscheduleTask, error, viewSettings, currentWeek.startDate])
 
   const handleWeekChange = useCallback((week: CalendarWeek) => {
     setCurrentWeek(week)
   }, [setCurrentWeek])
 
-  const handleViewModeChange = useCallback((view: 'week' | 'month' | 'day') => {
+  const handleViewModeChange = useCallback((view: 'week' | 'month' | 'day' | 'agenda') => {
     setViewSettings({ defaultView: view })
   }, [setViewSettings])
 
@@ -401,8 +636,19 @@ export const WeeklyCalendar: React.FC = () => {
         currentWeek={currentWeek}
         viewSettings={viewSettings}
         onWeekChange={handleWeekChange}
+        currentMonth={month}
+        onPreviousMonth={goToPreviousMonth}
+        onNextMonth={goToNextMonth}
+        currentDay={day}
+        onPreviousDay={goToPreviousDay}
+        onNextDay={goToNextDay}
         onTodayClick={goToCurrentWeek}
         onNewEvent={handleNewEvent}
+        onImportExport={() => setShowIcsDialog(true)}
+        onSettingsClick={() => setShowSettingsDialog(true)}
+        isBacklogOpen={showBacklog}
+        // The backlog sits beside the week grid, which narrow screens swap for the agenda
+        onBacklogToggle={viewSettings.defaultView === 'week' && !isNarrow ? () => setShowBacklog(open => !open) : undefined}
         onViewModeChange={handleViewModeChange}
         onShowWeekendsChange={handleShowWeekendsChange}
       />
@@ -430,6 +676,28 @@ export const WeeklyCalendar: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Auto-schedule proposal awaiting review */}
+      {scheduleProposal && (
+        <div className="bg-primary/10 border-b border-primary/20 px-4 py-2 flex items-center gap-3 text-sm">
+          <span>
+            {scheduleProposal.blocks.length === 0
+              ? 'No free time was found for the backlog this week.'
+              : `${scheduleProposal.blocks.length} task${scheduleProposal.blocks.length === 1 ? '' : 's'} fitted into this week.`}
+            {scheduleProposal.unplaced.length > 0 && ` ${scheduleProposal.unplaced.length} did not fit.`}
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={discardScheduleProposal}>
+              Discard
+            </Button>
+            {scheduleProposal.blocks.length > 0 && (
+              <Button size="sm" onClick={acceptScheduleProposal}>
+                Accept
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Calendar Grid with DnD Context */}
       <div data-testid="calendar-widget">
         <DndContext
@@ -440,12 +708,60 @@ export const WeeklyCalendar: React.FC = () => {
           onDragEnd={handleDragEnd}
         >
           <div className="flex-1 overflow-hidden">
-            <CalendarGrid
-              currentWeek={currentWeek}
-              events={allEvents}
-              viewSettings={viewSettings}
-              onTimeSlotClick={handleTimeSlotClick}
-            />
+            {viewSettings.defaultView === 'agenda' || (isNarrow && viewSettings.defaultView === 'week') ? (
+              <AgendaView
+                userId={userId}
+                initialDate={day}
+                viewSettings={viewSettings}
+                onEventClick={handleEventClick}
+              />
+            ) : viewSettings.defaultView === 'day' ? (
+              <DayView
+                day={day}
+                events={allEvents}
+                tasks={tasks}
+                exceptions={exceptions}
+                viewSettings={viewSettings}
+                onTimeSlotClick={handleTimeSlotClick}
+                onEventClick={handleEventClick}
+                onEventResize={handleEventResize}
+                canResizeEvent={canResizeEvent}
+                onRangeSelect={handleRangeSelect}
+              />
+            ) : viewSettings.defaultView === 'month' ? (
+              <MonthView
+                month={month}
+                events={allEvents}
+                exceptions={exceptions}
+                viewSettings={viewSettings}
+                onDayClick={(date) => handleTimeSlotClick(date, 9)}
+                onEventClick={handleEventClick}
+              />
+            ) : (
+              <div className="flex h-full">
+                <CalendarGrid
+                  className="flex-1 min-w-0"
+                  currentWeek={currentWeek}
+                  events={allEvents}
+                  exceptions={exceptions}
+                  viewSettings={viewSettings}
+                  onTimeSlotClick={handleTimeSlotClick}
+                  onEventClick={handleEventClick}
+                  onEventResize={handleEventResize}
+                  canResizeEvent={canResizeEvent}
+                  onRangeSelect={handleRangeSelect}
+                  proposedBlocks={scheduleProposal?.blocks}
+                />
+                {showBacklog && (
+                  <TaskBacklog
+                    tasks={tasks}
+                    viewSettings={viewSettings}
+                    onTaskClick={handleEventClick}
+                    onAutoSchedule={() => setShowAutoSchedule(true)}
+                  />
+                )}
+              </div>
+            )}
 
             {/* Drag Overlay */}
             <DragOverlay>
@@ -464,14 +780,54 @@ export const WeeklyCalendar: React.FC = () => {
 
       {/* Event Form Dialog */}
       <EventFormDialog
+        key={formKey}
         isOpen={showFormDialog}
         onClose={() => setShowFormDialog(false)}
         event={formEvent}
         selectedDate={selectedDate}
         selectedHour={selectedHour}
+        selectedRange={selectedRange}
+        timeZone={viewSettings.timeZone}
         onSave={handleEventSave}
       />
 
+      <RecurrenceScopeDialog
+        isOpen={pendingScope !== null}
+        action={pendingScope?.action ?? 'edit'}
+        onSelect={(scope) => {
+          pendingScope?.apply(scope)
+          setPendingScope(null)
+        }}
+        onClose={() => setPendingScope(null)}
+      />
+
+      <IcsTransferDialog
+        isOpen={showIcsDialog}
+        onClose={() => setShowIcsDialog(false)}
+        userId={userId}
+      />
+
+      <CalendarSettingsDialog
+        isOpen={showSettingsDialog}
+        viewSettings={viewSettings}
+        onChange={setViewSettings}
+        onClose={() => setShowSettingsDialog(false)}
+      />
+
+      {/* Mounted only while open, so each opening starts from the saved limits */}
+      {showAutoSchedule && (
+        <AutoScheduleDialog
+          isOpen
+          constraints={schedulingConstraints}
+          onPreview={(constraints) => {
+            setSchedulingConstraints(constraints)
+            proposeSchedule()
+            setShowAutoSchedule(false)
+          }}
+          onClose={() => setShowAutoSchedule(false)}
+        />
+      )}
+
       {/* Event Details Panel (Optional) */}
       {selectedEvent && (
         <motion.div
@@ -521,7 +877,11 @@ export const WeeklyCalendar: React.FC = () => {
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <CalendarIcon className="h-4 w-4" />
               <span>
-                {selectedEvent.startTime ? format(new Date(selectedEvent.startTime), 'EEEE, MMMM d, yyyy') : 'No date'}
+                {selectedEvent.startTime
+                  ? viewSettings.timeZone
+                    ? TimeZones.format(new Date(selectedEvent.startTime), viewSettings.timeZone, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+                    : format(new Date(selectedEvent.startTime), 'EEEE, MMMM d, yyyy')
+                  : 'No date'}
               </span>
             </div>
 
@@ -529,7 +889,7 @@ export const WeeklyCalendar: React.FC = () => {
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Clock className="h-4 w-4" />
                 <span>
-                  {format(new Date(selectedEvent.startTime), 'HH:mm')} - {format(new Date(selectedEvent.endTime), 'HH:mm')}
+                  {formatTimeRange(new Date(selectedEvent.startTime), new Date(selectedEvent.endTime), viewSettings.timeZone)}
                 </span>
               </div>
             )}
@@ -1,8 +1,18 @@
 // Calendar Components Export
 export { WeeklyCalendar } from './WeeklyCalendar'
 export { CalendarGrid } from './CalendarGrid'
+export { MonthView } from './MonthView'
+export { DayView } from './DayView'
+export { AgendaView } from './AgendaView'
+export { AllDayLane } from './AllDayLane'
+export { TaskBacklog } from './TaskBacklog'
 export { CalendarEvent } from './CalendarEvent'
 export { WeekNavigation, CompactWeekNavigation } from './WeekNavigation'
+export { IcsTransferDialog } from './IcsTransferDialog'
+export { RecurrenceScopeDialog } from './RecurrenceScopeDialog'
+export { CalendarSettingsDialog } from './CalendarSettingsDialog'
+export { AutoScheduleDialog } from './AutoScheduleDialog'
+export { FeedSubscriptions } from './FeedSubscriptions'
 
 // Re-export types for convenience
 export type {
@@ -10,6 +20,7 @@ export type {
   Task,
   
   CalendarWeek,
+  CalendarMonth,
   CalendarDay,
   EventOrTask,
   CalendarViewSettings,
@@ -17,6 +28,7 @@ export type {
   CalendarConflict,
   CalendarFormData,
   TaskFormData,
+  TaskBacklogFilter,
 } from '@/types/calendar'
 
 // Re-export utilities for convenience
@@ -25,10 +37,18 @@ export {
   getPreviousWeek,
   getNextWeek,
   getWeekFromDate,
+  getMonthFromDate,
+  getPreviousMonth,
+  getNextMonth,
+  getMonthDisplayText,
   generateTimeSlots,
   generateWeekDays,
   getEventsForWeek,
   getEventsForDay,
+  getAllDayEventsInRange,
+  getUnscheduledTasksForDay,
+  getTaskBacklog,
+  groupEventsByDay,
   sortEventsByTime,
   detectEventCollisions,
   checkEventCollision,
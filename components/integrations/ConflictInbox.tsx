@@ -0,0 +1,241 @@
+/**
+ * Conflict Inbox Component
+ * Lists unresolved sync conflicts and resolves them field by field
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { CheckCircle, RefreshCw, GitMerge } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type Side = 'dayflow' | 'external'
+type Resolution = 'keep_dayflow' | 'keep_external' | 'merge'
+
+interface FieldConflict {
+  field: string
+  base: string | number | boolean | null
+  dayflow: string | number | boolean | null
+  external: string | number | boolean | null
+}
+
+interface InboxConflict {
+  id: string
+  userIntegrationId: string
+  serviceName: string
+  itemType: 'task' | 'event'
+  type: string
+  detectedAt: string
+  dayflowItem: { id: string; title: string }
+  externalItem: { id: string; title: string; url?: string }
+  fields: FieldConflict[]
+}
+
+interface ConflictInboxProps {
+  userId: string
+  className?: string
+}
+
+// Conflicts on the same integration over the same fields can share one decision
+function similarityKey(conflict: InboxConflict): string {
+  return `${conflict.userIntegrationId}:${conflict.fields.map(field => field.field).sort().join(',')}`
+}
+
+function formatValue(value: FieldConflict['dayflow']): string {
+  if (value === null || value === '') return '—'
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString()
+  }
+  return String(value)
+}
+
+export function ConflictInbox({ userId, className }: ConflictInboxProps) {
+  const [conflicts, setConflicts] = useState<InboxConflict[]>([])
+  const [choices, setChoices] = useState<Record<string, Record<string, Side>>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/integrations/conflicts', {
+        headers: { 'x-user-id': userId }
+      })
+      const data = await response.json()
+      setConflicts(data.conflicts || [])
+    } catch (error) {
+      console.error('Failed to load conflicts:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadConflicts()
+  }, [loadConflicts])
+
+  const getChoice = (conflict: InboxConflict, field: string): Side =>
+    choices[conflict.id]?.[field] ?? 'external'
+
+  const setChoice = (conflictId: string, field: string, side: Side) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }))
+  }
+
+  const resolve = async (conflict: InboxConflict, resolution: Resolution, applyToSimilar = false) => {
+    const targets = applyToSimilar
+      ? conflicts.filter(candidate => similarityKey(candidate) === similarityKey(conflict))
+      : [conflict]
+    const fieldChoices = Object.fromEntries(conflict.fields.map(field => [field.field, getChoice(conflict, field.field)]))
+
+    setPendingId(conflict.id)
+    setError(null)
+    try {
+      const response = await fetch('/api/integrations/conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-user-id': userId },
+        body: JSON.stringify({
+          conflictIds: targets.map(target => target.id),
+          resolution,
+          ...(resolution === 'merge' && { fieldChoices })
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to resolve conflict')
+      } else {
+        const failed = (data.results || []).filter((result: { success: boolean }) => !result.success)
+        if (failed.length > 0) {
+          setError(failed[0].error || 'Some conflicts could not be resolved')
+        }
+      }
+
+      await loadConflicts()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      setError('Failed to resolve conflict')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  if (!isLoading && conflicts.length === 0) {
+    return (
+      <Card className={cn("border-dashed", className)}>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <CheckCircle className="h-8 w-8 text-muted-foreground mb-4" />
+          <p className="text-sm text-muted-foreground">No conflicts to resolve</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Items changed in both DayFlow and a connected service will appear here
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">
+          Sync Conflicts
+          {conflicts.length > 0 && <Badge variant="secondary" className="ml-2">{conflicts.length}</Badge>}
+        </h3>
+        <Button variant="outline" size="sm" onClick={loadConflicts} disabled={isLoading}>
+          <RefreshCw className={cn("h-4 w-4 mr-2", isLoading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      <div className="grid gap-4">
+        {conflicts.map(conflict => {
+          const similarCount = conflicts.filter(candidate => similarityKey(candidate) === similarityKey(conflict)).length
+          const isPending = pendingId === conflict.id
+
+          return (
+            <Card key={conflict.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-base">{conflict.dayflowItem.title}</CardTitle>
+                    <CardDescription className="text-sm">
+                      {conflict.itemType === 'task' ? 'Task' : 'Event'} changed in DayFlow and {conflict.serviceName} •
+                      Detected {new Date(conflict.detectedAt).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline">{conflict.serviceName}</Badge>
+                </div>
+              </CardHeader>
+
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto rounded-md border border-border">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-left">
+                        <th className="p-2 font-medium">Field</th>
+                        <th className="p-2 font-medium">DayFlow</th>
+                        <th className="p-2 font-medium">{conflict.serviceName}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflict.fields.map(field => {
+                        const choice = getChoice(conflict, field.field)
+                        return (
+                          <tr key={field.field} className="border-b border-border last:border-0 align-top">
+                            <td className="p-2 text-muted-foreground">{field.field}</td>
+                            {(['dayflow', 'external'] as Side[]).map(side => (
+                              <td key={side} className="p-2">
+                                <label className={cn(
+                                  "flex items-start gap-2 rounded-md p-1 cursor-pointer",
+                                  choice === side && "bg-accent"
+                                )}>
+                                  <input
+                                    type="radio"
+                                    name={`${conflict.id}-${field.field}`}
+                                    checked={choice === side}
+                                    onChange={() => setChoice(conflict.id, field.field, side)}
+                                    className="mt-1"
+                                  />
+                                  <span>{formatValue(field[side])}</span>
+                                </label>
+                              </td>
+                            ))}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button size="sm" onClick={() => resolve(conflict, 'merge')} disabled={isPending}>
+                    <GitMerge className="h-4 w-4 mr-1" />
+                    Apply Choices
+                  </Button>
+                  {similarCount > 1 && (
+                    <Button variant="outline" size="sm" onClick={() => resolve(conflict, 'merge', true)} disabled={isPending}>
+                      Apply to All Similar ({similarCount})
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => resolve(conflict, 'keep_dayflow')} disabled={isPending}>
+                    Keep DayFlow
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => resolve(conflict, 'keep_external')} disabled={isPending}>
+                    Keep {conflict.serviceName}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
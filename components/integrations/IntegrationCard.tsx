@@ -12,8 +12,19 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Settings, Link, Unlink, RefreshCw, AlertTriangle, CheckCircle, Clock } from 'lucide-react'
+import { Settings, Link, Unlink, RefreshCw, AlertTriangle, CheckCircle, Clock, Plus, Trash2, Eye } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import type { FieldMappingRule, MappingTarget, MappingTransform } from '@/lib/integrations/base'
+
+export interface MappingPreview {
+  targets: MappingTarget[]
+  items: Array<{
+    externalId: string
+    title: string
+    sources: Record<string, unknown>
+    mapped: { fields: Record<string, unknown>, category?: string, tags?: string[] }
+  }>
+}
 
 interface IntegrationCardProps {
   service: {
@@ -31,11 +42,14 @@ interface IntegrationCardProps {
     lastSyncAt?: Date
     syncStatus: 'idle' | 'syncing' | 'error' | 'success'
     syncError?: string
+    syncSettings?: Record<string, any>
   }
   onConnect: (serviceName: string) => void
   onDisconnect: (integrationId: string) => void
   onSync: (integrationId: string, operation: string) => void
   onToggleActive: (integrationId: string, isActive: boolean) => void
+  onSaveSettings: (integrationId: string, syncSettings: Record<string, any>) => Promise<void>
+  onPreviewMappings: (serviceName: string, rules: FieldMappingRule[]) => Promise<MappingPreview>
 }
 
 export function IntegrationCard({
@@ -44,7 +58,9 @@ export function IntegrationCard({
   onConnect,
   onDisconnect,
   onSync,
-  onToggleActive
+  onToggleActive,
+  onSaveSettings,
+  onPreviewMappings
 }: IntegrationCardProps) {
   const [isConnecting, setIsConnecting] = useState(false)
   const [isSyncing, setIsSyncing] = useState(false)
@@ -177,7 +193,7 @@ export function IntegrationCard({
                       <Settings className="h-4 w-4" />
                     </Button>
                   </DialogTrigger>
-                  <DialogContent>
+                  <DialogContent className="max-h-[85vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>{service.displayName} Settings</DialogTitle>
                       <DialogDescription>
@@ -186,6 +202,9 @@ export function IntegrationCard({
                     </DialogHeader>
                     <IntegrationSettings 
                       integration={integration} 
+                      service={service}
+                      onSave={(syncSettings) => onSaveSettings(integration.id, syncSettings)}
+                      onPreview={(rules) => onPreviewMappings(service.name, rules)}
                       onClose={() => setShowSettings(false)} 
                     />
                   </DialogContent>
@@ -232,20 +251,111 @@ export function IntegrationCard({
   )
 }
 
-function IntegrationSettings({ integration, onClose }: { integration: any, onClose: () => void }) {
+const TASK_TARGETS: MappingTarget[] = [
+  'title', 'description', 'status', 'priority', 'dueDate', 'startTime', 'endTime',
+  'estimatedDuration', 'progress', 'category', 'tags'
+]
+const EVENT_TARGETS: MappingTarget[] = ['title', 'description', 'startTime', 'endTime', 'location', 'category', 'tags']
+const TRANSFORMS: MappingTransform[] = ['none', 'trim', 'lowercase', 'uppercase', 'number', 'date', 'split', 'lookup']
+
+// Example source for the service's own custom data
+const SOURCE_PLACEHOLDERS: Record<string, string> = {
+  notion: 'property:Status',
+  clickup: 'custom_field:Priority',
+  linear: 'tags'
+}
+
+// Lookup tables are edited as "Backlog=pending, Done=completed"
+function formatLookup(values?: Record<string, string>): string {
+  return Object.entries(values || {}).map(([from, to]) => `${from}=${to}`).join(', ')
+}
+
+function parseLookup(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text.split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([from, to]) => from && to !== undefined)
+  )
+}
+
+function formatPreviewValue(value: unknown): string {
+  if (value === undefined || value === null) return '—'
+  if (Array.isArray(value)) return value.map(formatPreviewValue).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function IntegrationSettings({
+  integration,
+  service,
+  onSave,
+  onPreview,
+  onClose
+}: {
+  integration: any
+  service: IntegrationCardProps['service']
+  onSave: (syncSettings: Record<string, any>) => Promise<void>
+  onPreview: (rules: FieldMappingRule[]) => Promise<MappingPreview>
+  onClose: () => void
+}) {
   const [settings, setSettings] = useState({
     autoSync: integration?.syncSettings?.autoSync ?? true,
     syncInterval: integration?.syncSettings?.syncInterval ?? 15,
     syncDirection: integration?.syncSettings?.syncDirection ?? 'two_way',
     syncTasks: integration?.syncSettings?.syncTasks ?? true,
     syncEvents: integration?.syncSettings?.syncEvents ?? true,
-    conflictResolution: integration?.syncSettings?.conflictResolution ?? 'manual'
+    conflictResolution: integration?.syncSettings?.conflictResolution ?? 'manual',
+    deletionPolicy: integration?.syncSettings?.deletionPolicy ?? 'delete',
+    defaultTarget: integration?.syncSettings?.defaultTarget ?? false
   })
+  const [mappingRules, setMappingRules] = useState<FieldMappingRule[]>(
+    integration?.syncSettings?.mappingRules ?? []
+  )
+  const [preview, setPreview] = useState<MappingPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const targets = service.type === 'calendar' ? EVENT_TARGETS : TASK_TARGETS
+
+  const updateRule = (index: number, updates: Partial<FieldMappingRule>) => {
+    setMappingRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...updates } : rule))
+    setPreview(null)
+  }
+
+  const addRule = () => {
+    setMappingRules(prev => [...prev, { source: '', target: targets[0], transform: 'none' }])
+    setPreview(null)
+  }
+
+  const removeRule = (index: number) => {
+    setMappingRules(prev => prev.filter((_, i) => i !== index))
+    setPreview(null)
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    setError(null)
+    try {
+      setPreview(await onPreview(mappingRules))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to preview mappings')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
 
   const handleSave = async () => {
-    // Implementation would save settings to backend
-    console.log('Saving settings:', settings)
-    onClose()
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave({ ...integration?.syncSettings, ...settings, mappingRules })
+      onClose()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save settings')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   return (
@@ -322,6 +432,26 @@ function IntegrationSettings({ integration, onClose }: { integration: any, onClo
           </select>
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Deleted Items</label>
+          <p className="text-xs text-muted-foreground">
+            What to do in DayFlow when an item is deleted in {integration?.displayName ?? 'the service'}
+          </p>
+          <select
+            value={settings.deletionPolicy}
+            onChange={(e) => 
+              setSettings(prev => ({ 
+                ...prev, 
+                deletionPolicy: e.target.value 
+              }))
+            }
+            className="w-full px-3 py-2 border border-border rounded-md bg-background"
+          >
+            <option value="delete">Delete from DayFlow</option>
+            <option value="archive">Keep a local copy (tasks are cancelled, events are unlinked)</option>
+          </select>
+        </div>
+
         <div className="space-y-3">
           <label className="text-sm font-medium">Data Types</label>
           <div className="space-y-2">
@@ -345,14 +475,148 @@ function IntegrationSettings({ integration, onClose }: { integration: any, onClo
             </div>
           </div>
         </div>
+
+        {settings.syncDirection === 'two_way' && (
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium">New DayFlow Items</label>
+              <p className="text-xs text-muted-foreground">
+                Create new items in {integration?.displayName ?? 'the service'} unless another service owns their category
+              </p>
+            </div>
+            <Switch
+              checked={settings.defaultTarget}
+              onCheckedChange={(checked) => 
+                setSettings(prev => ({ ...prev, defaultTarget: checked }))
+              }
+            />
+          </div>
+        )}
       </div>
 
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm font-medium">Field Mappings</label>
+            <p className="text-xs text-muted-foreground">
+              Map {service.displayName} fields onto DayFlow fields, categories and tags
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {mappingRules.map((rule, index) => (
+          <div key={index} className="space-y-2 rounded-md border border-border p-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={rule.source}
+                placeholder={SOURCE_PLACEHOLDERS[service.name] ?? 'data.field'}
+                onChange={(e) => updateRule(index, { source: e.target.value })}
+                className="flex-1 px-3 py-2 border border-border rounded-md bg-background text-sm"
+              />
+              <Button variant="outline" size="sm" onClick={() => removeRule(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={rule.target}
+                onChange={(e) => updateRule(index, { target: e.target.value as MappingTarget })}
+                className="flex-1 px-3 py-2 border border-border rounded-md bg-background text-sm"
+              >
+                {targets.map(target => (
+                  <option key={target} value={target}>{target}</option>
+                ))}
+              </select>
+              <select
+                value={rule.transform ?? 'none'}
+                onChange={(e) => updateRule(index, { transform: e.target.value as MappingTransform })}
+                className="flex-1 px-3 py-2 border border-border rounded-md bg-background text-sm"
+              >
+                {TRANSFORMS.map(transform => (
+                  <option key={transform} value={transform}>{transform}</option>
+                ))}
+              </select>
+            </div>
+            {rule.transform === 'lookup' && (
+              <input
+                defaultValue={formatLookup(rule.values)}
+                placeholder="Backlog=pending, Done=completed, *=pending"
+                onBlur={(e) => updateRule(index, { values: parseLookup(e.target.value) })}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-sm"
+              />
+            )}
+          </div>
+        ))}
+
+        {mappingRules.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+            <Eye className="h-4 w-4 mr-2" />
+            {isPreviewing ? 'Loading preview...' : 'Preview'}
+          </Button>
+        )}
+
+        {preview && (
+          <div className="overflow-x-auto rounded-md border border-border">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th className="p-2 font-medium">Item</th>
+                  <th className="p-2 font-medium">Source values</th>
+                  <th className="p-2 font-medium">DayFlow result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.items.map(item => (
+                  <tr key={item.externalId} className="border-b border-border last:border-0 align-top">
+                    <td className="p-2">{item.title}</td>
+                    <td className="p-2 space-y-1">
+                      {Object.entries(item.sources).map(([source, value]) => (
+                        <div key={source}>
+                          <span className="text-muted-foreground">{source}:</span> {formatPreviewValue(value)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="p-2 space-y-1">
+                      {Object.entries(item.mapped.fields).map(([field, value]) => (
+                        <div key={field}>
+                          <span className="text-muted-foreground">{field}:</span> {formatPreviewValue(value)}
+                        </div>
+                      ))}
+                      {item.mapped.category && (
+                        <div><span className="text-muted-foreground">category:</span> {item.mapped.category}</div>
+                      )}
+                      {item.mapped.tags && (
+                        <div><span className="text-muted-foreground">tags:</span> {item.mapped.tags.join(', ')}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {preview.items.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="p-2 text-muted-foreground">
+                      No items found in {service.displayName} to preview
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
       <div className="flex justify-end gap-2">
         <Button variant="outline" onClick={onClose}>
           Cancel
         </Button>
-        <Button onClick={handleSave}>
-          Save Settings
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Settings'}
         </Button>
       </div>
     </div>
@@ -6,7 +6,8 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { IntegrationCard } from './IntegrationCard'
+import { IntegrationCard, MappingPreview } from './IntegrationCard'
+import type { FieldMappingRule } from '@/lib/integrations/base'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -38,6 +39,7 @@ interface UserIntegration {
   lastSyncAt?: Date
   syncStatus: 'idle' | 'syncing' | 'error' | 'success'
   syncError?: string
+  syncSettings?: Record<string, any>
 }
 
 interface SyncJob {
@@ -175,6 +177,40 @@ export function IntegrationsPage({ userId }: { userId: string }) {
     }
   }
 
+  const handleSaveSettings = async (integrationId: string, syncSettings: Record<string, any>) => {
+    const response = await fetch('/api/integrations', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        integrationId,
+        userId,
+        updates: { syncSettings }
+      })
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to save settings')
+    }
+
+    await loadIntegrations()
+  }
+
+  const handlePreviewMappings = async (serviceName: string, rules: FieldMappingRule[]): Promise<MappingPreview> => {
+    const response = await fetch(`/api/integrations/${serviceName}/mapping`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-user-id': userId },
+      body: JSON.stringify({ rules })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to preview mappings')
+    }
+
+    return data
+  }
+
   const getServiceWithIntegration = (service: IntegrationService): ServiceWithIntegration => {
     const integration = integrations.find(i => i.serviceName === service.name)
     return { service, integration }
@@ -291,6 +327,8 @@ export function IntegrationsPage({ userId }: { userId: string }) {
               onDisconnect={handleDisconnect}
               onSync={handleSync}
               onToggleActive={handleToggleActive}
+              onSaveSettings={handleSaveSettings}
+              onPreviewMappings={handlePreviewMappings}
             />
           ))}
         </div>
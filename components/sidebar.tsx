@@ -11,7 +11,8 @@ import {
   Settings,
   BarChart3,
   Menu,
-  CalendarDays
+  CalendarDays,
+  GitMerge
 } from "lucide-react"
 
 const navigation = [
@@ -35,6 +36,11 @@ const navigation = [
     href: "/dashboard/analytics",
     icon: BarChart3,
   },
+  {
+    name: "Conflicts",
+    href: "/dashboard/conflicts",
+    icon: GitMerge,
+  },
   {
     name: "Settings",
     href: "/dashboard/settings",
@@ -322,6 +322,7 @@ export async function exampleMultiServiceSync(userId: string) {
           updatedAt: new Date(),
           lastSyncAt: null,
           syncError: null,
+          syncCursor: null,
           serviceId: name,
           syncStatus: 'pending',
           configuration: {},
@@ -346,7 +347,7 @@ export async function exampleMultiServiceSync(userId: string) {
     for (const { service, jobId } of syncJobs) {
       // Poll job status
       for (let i = 0; i < 10; i++) { // Poll for up to 10 iterations
-        const job = syncEngine.getJobStatus(jobId)
+        const job = await syncEngine.getJobStatus(jobId)
         jobStatuses[service] = job?.status || 'unknown'
         
         console.log(`Job ${jobId} (${service}): ${job?.status}`)
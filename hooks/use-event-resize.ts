@@ -0,0 +1,96 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type React from 'react'
+import type { EventOrTask } from '@/types/calendar'
+import { snapToNearestSlot } from '@/lib/date-utils'
+
+// Shortest length an event can be resized to
+const MIN_MINUTES = 15
+
+export type ResizeEdge = 'start' | 'end'
+
+export interface ResizePreview {
+  eventId: string
+  startTime: Date
+  endTime: Date
+  // False while the new times would clash with another event
+  isValid: boolean
+}
+
+interface UseEventResizeOptions {
+  pixelsPerMinute: number
+  timeZone?: string
+  canResize: (event: EventOrTask, startTime: Date, endTime: Date) => boolean
+  onResize?: (event: EventOrTask, startTime: Date, endTime: Date) => void
+}
+
+/**
+ * Dragging the top or bottom edge of an event on a timeline. The moving edge
+ * snaps to quarter hours on the calendar's clock; the change is only handed
+ * to `onResize` when the pointer is released on a valid time.
+ */
+export function useEventResize({ pixelsPerMinute, timeZone, canResize, onResize }: UseEventResizeOptions) {
+  const [preview, setPreview] = useState<ResizePreview | null>(null)
+  const previewRef = useRef<ResizePreview | null>(null)
+  const cleanupRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => () => cleanupRef.current?.(), [])
+
+  const startResize = useCallback((e: React.PointerEvent, event: EventOrTask, edge: ResizeEdge) => {
+    if (!event.startTime || !event.endTime) return
+    // Keep dnd-kit from picking this up as a move
+    e.stopPropagation()
+    e.preventDefault()
+
+    const originY = e.clientY
+    const originalStart = new Date(event.startTime)
+    const originalEnd = new Date(event.endTime)
+    const minLength = MIN_MINUTES * 60 * 1000
+
+    const handleMove = (move: PointerEvent) => {
+      const delta = ((move.clientY - originY) / pixelsPerMinute) * 60 * 1000
+      let startTime = originalStart
+      let endTime = originalEnd
+      if (edge === 'end') {
+        endTime = snapToNearestSlot(new Date(originalEnd.getTime() + delta), MIN_MINUTES, timeZone)
+        if (endTime.getTime() - startTime.getTime() < minLength) endTime = new Date(startTime.getTime() + minLength)
+      } else {
+        startTime = snapToNearestSlot(new Date(originalStart.getTime() + delta), MIN_MINUTES, timeZone)
+        if (endTime.getTime() - startTime.getTime() < minLength) startTime = new Date(endTime.getTime() - minLength)
+      }
+
+      const next = { eventId: event.id, startTime, endTime, isValid: canResize(event, startTime, endTime) }
+      previewRef.current = next
+      setPreview(next)
+    }
+
+    const handleUp = () => {
+      cleanup()
+      const result = previewRef.current
+      previewRef.current = null
+      setPreview(null)
+
+      const changed = result && (
+        result.startTime.getTime() !== originalStart.getTime() ||
+        result.endTime.getTime() !== originalEnd.getTime()
+      )
+      if (result && changed && result.isValid) {
+        onResize?.(event, result.startTime, result.endTime)
+      }
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      cleanupRef.current = null
+    }
+
+    cleanupRef.current?.()
+    cleanupRef.current = cleanup
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+  }, [pixelsPerMinute, timeZone, canResize, onResize])
+
+  return { preview, startResize }
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type React from 'react'
+import { getTimeFromMinutes } from '@/lib/date-utils'
+
+const STEP_MINUTES = 15
+// Pointer travel below this is a click on the slot, not a selection
+const DRAG_THRESHOLD_PX = 5
+
+export interface SlotSelection {
+  day: Date
+  // Minutes into the day by its clock
+  startMinutes: number
+  endMinutes: number
+}
+
+interface UseSlotSelectionOptions {
+  pixelsPerMinute: number
+  // Minutes into the day at the top of the timeline
+  firstMinute: number
+  lastMinute: number
+  timeZone?: string
+  onSelect?: (startTime: Date, endTime: Date) => void
+}
+
+/**
+ * Dragging down (or up) across empty time slots to mark out a new event.
+ * The selection covers whole quarter hours. `onClickCapture` swallows the
+ * click that follows a drag, so the slot's own click handler only runs for
+ * real clicks.
+ */
+export function useSlotSelection({ pixelsPerMinute, firstMinute, lastMinute, timeZone, onSelect }: UseSlotSelectionOptions) {
+  const [selection, setSelection] = useState<SlotSelection | null>(null)
+  const selectionRef = useRef<SlotSelection | null>(null)
+  const suppressClickRef = useRef(false)
+  const cleanupRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => () => cleanupRef.current?.(), [])
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>, day: Date) => {
+    // Presses on an event belong to moving or resizing it
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-calendar-event]')) return
+
+    const top = e.currentTarget.getBoundingClientRect().top
+    const originY = e.clientY
+    const minuteAt = (clientY: number) =>
+      Math.min(Math.max(firstMinute + (clientY - top) / pixelsPerMinute, firstMinute), lastMinute)
+    const anchor = minuteAt(originY)
+    let dragging = false
+
+    const handleMove = (move: PointerEvent) => {
+      if (!dragging && Math.abs(move.clientY - originY) < DRAG_THRESHOLD_PX) return
+      dragging = true
+
+      const current = minuteAt(move.clientY)
+      const from = Math.min(anchor, current)
+      const to = Math.max(anchor, current)
+      const next = {
+        day,
+        startMinutes: Math.floor(from / STEP_MINUTES) * STEP_MINUTES,
+        endMinutes: Math.max(Math.ceil(to / STEP_MINUTES) * STEP_MINUTES, Math.floor(from / STEP_MINUTES) * STEP_MINUTES + STEP_MINUTES),
+      }
+      selectionRef.current = next
+      setSelection(next)
+    }
+
+    const handleUp = () => {
+      cleanup()
+      const result = selectionRef.current
+      selectionRef.current = null
+      setSelection(null)
+
+      if (dragging && result) {
+        // The click, if any, follows straight after; don't let the flag outlive it
+        suppressClickRef.current = true
+        setTimeout(() => { suppressClickRef.current = false }, 0)
+        onSelect?.(
+          getTimeFromMinutes(result.day, result.startMinutes, timeZone),
+          getTimeFromMinutes(result.day, result.endMinutes, timeZone)
+        )
+      }
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      cleanupRef.current = null
+    }
+
+    cleanupRef.current?.()
+    cleanupRef.current = cleanup
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+  }, [pixelsPerMinute, firstMinute, lastMinute, timeZone, onSelect])
+
+  const onClickCapture = useCallback((e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false
+      e.stopPropagation()
+    }
+  }, [])
+
+  return { selection, onPointerDown, onClickCapture }
+}
@@ -0,0 +1,17 @@
+export async function register() {
+  // Outbound sync needs the database driver, so it only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { changeCapture } = await import('./lib/integrations/change-capture')
+    const { syncQueueWorker } = await import('./lib/integrations/sync-queue')
+    changeCapture.start()
+    syncQueueWorker.start()
+
+    // Stop claiming queue rows once the server is shutting down
+    const stop = () => {
+      syncQueueWorker.stop()
+      changeCapture.stop()
+    }
+    process.once('SIGTERM', stop)
+    process.once('SIGINT', stop)
+  }
+}
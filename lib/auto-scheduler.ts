@@ -0,0 +1,177 @@
+/**
+ * Auto Scheduler
+ * Proposes time blocks for tasks that are still waiting for a time, fitted
+ * around what is already on the calendar:
+ *
+ * - tasks are taken most urgent first, then by due date (the backlog order)
+ * - each task gets one block of its estimate, timeboxed to the longest focus
+ *   block, in the earliest free stretch of working hours that fits it
+ * - blocks keep a buffer from events and from each other, start on a quarter
+ *   hour and never before the no-meetings hour
+ *
+ * Nothing here reads the clock: the same tasks, events and `now` always give
+ * the same proposal.
+ */
+
+import type { EventOrTask, Task } from '@/types/calendar'
+import {
+  getTaskBacklog,
+  getDayStart,
+  getNextDay,
+  getTimeFromMinutes,
+  detectEventCollisions,
+  DEFAULT_TASK_DURATION,
+} from '@/lib/date-utils'
+import { RecurrenceExpander, type OccurrenceException } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
+
+const MINUTE = 60 * 1000
+// Blocks start on quarter hours; every zone offset is a multiple of this
+const STEP = 15 * MINUTE
+
+export interface SchedulingConstraints {
+  // Working hours on the calendar's clock, e.g. 9 to 17
+  workStartHour: number
+  workEndHour: number
+  // Days blocks may go on, 0 being Sunday
+  workDays: number[]
+  // Free minutes kept on either side of every block
+  bufferMinutes: number
+  // Longest block a task gets; bigger estimates are timeboxed to this
+  maxFocusMinutes: number
+  // Nothing is booked before this hour, even when work starts earlier
+  noMeetingsBeforeHour: number
+}
+
+export const DEFAULT_SCHEDULING_CONSTRAINTS: SchedulingConstraints = {
+  workStartHour: 9,
+  workEndHour: 17,
+  workDays: [1, 2, 3, 4, 5],
+  bufferMinutes: 10,
+  maxFocusMinutes: 90,
+  noMeetingsBeforeHour: 9,
+}
+
+export interface ScheduleInput {
+  tasks: Task[]
+  // Everything already on the calendar, scheduled tasks included
+  events: EventOrTask[]
+  exceptions?: OccurrenceException[]
+  // Range to fill, e.g. the shown week
+  start: Date
+  end: Date
+  // Blocks are never proposed in the past
+  now: Date
+  timeZone?: string
+}
+
+export interface ScheduledBlock {
+  taskId: string
+  title: string
+  startTime: Date
+  endTime: Date
+  // Shorter than the task's estimate because of the focus limit
+  isTimeboxed: boolean
+  // Ends after the task is due
+  isLate: boolean
+}
+
+export interface ScheduleProposal {
+  blocks: ScheduledBlock[]
+  // Tasks no free stretch in the range was long enough for
+  unplaced: Task[]
+}
+
+interface Interval {
+  start: number
+  end: number
+}
+
+export class AutoScheduler {
+  static propose(input: ScheduleInput, constraints: SchedulingConstraints = DEFAULT_SCHEDULING_CONSTRAINTS): ScheduleProposal {
+    const { tasks, events, exceptions = [], start, end, now, timeZone } = input
+    const buffer = constraints.bufferMinutes * MINUTE
+
+    // All-day items don't take up hours, as in collision checks
+    const busy = RecurrenceExpander.expandAll(events, start, end, exceptions).filter(event =>
+      event.startTime && event.endTime && !event.isAllDay
+    )
+    let free = AutoScheduler.workingHours(start, end, now, constraints, timeZone)
+    for (const event of busy) {
+      free = AutoScheduler.subtract(free, {
+        start: new Date(event.startTime!).getTime() - buffer,
+        end: new Date(event.endTime!).getTime() + buffer,
+      })
+    }
+
+    const blocks: ScheduledBlock[] = []
+    const unplaced: Task[] = []
+    // Everything a new block must not overlap: the calendar and the blocks placed so far
+    const taken: EventOrTask[] = [...busy]
+    for (const task of getTaskBacklog(tasks, undefined, timeZone, now)) {
+      const estimate = (task.estimatedDuration ?? DEFAULT_TASK_DURATION) * MINUTE
+      const length = Math.min(estimate, constraints.maxFocusMinutes * MINUTE)
+      // Each fitting stretch is checked with the calendar's own overlap test before it is taken
+      const placed = free
+        .map(interval => ({ start: Math.ceil(interval.start / STEP) * STEP, end: interval.end }))
+        .filter(interval => interval.end - interval.start >= length)
+        .map((interval): Task => ({ ...task, startTime: new Date(interval.start), endTime: new Date(interval.start + length) }))
+        .find(candidate => taken.every(item => detectEventCollisions([item, candidate]).length === 0))
+
+      if (!placed) {
+        unplaced.push(task)
+        continue
+      }
+
+      const block = { start: placed.startTime!.getTime(), end: placed.endTime!.getTime() }
+      taken.push(placed)
+      free = AutoScheduler.subtract(free, { start: block.start - buffer, end: block.end + buffer })
+      blocks.push({
+        taskId: task.id,
+        title: task.title,
+        startTime: new Date(block.start),
+        endTime: new Date(block.end),
+        isTimeboxed: length < estimate,
+        isLate: Boolean(task.dueDate) && block.end > new Date(task.dueDate!).getTime(),
+      })
+    }
+
+    return { blocks, unplaced }
+  }
+
+  // Working stretches of each working day in [start, end), none before `now`
+  private static workingHours(
+    start: Date,
+    end: Date,
+    now: Date,
+    constraints: SchedulingConstraints,
+    timeZone?: string
+  ): Interval[] {
+    const earliest = Math.max(start.getTime(), now.getTime())
+    const opens = Math.max(constraints.workStartHour, constraints.noMeetingsBeforeHour) * 60
+    const hours: Interval[] = []
+
+    for (let day = getDayStart(start, timeZone); day < end; day = getNextDay(day, timeZone)) {
+      const weekday = timeZone ? TimeZones.wallClock(day, timeZone).weekday : day.getDay()
+      if (!constraints.workDays.includes(weekday)) continue
+
+      const interval = {
+        start: Math.max(getTimeFromMinutes(day, opens, timeZone).getTime(), earliest),
+        end: Math.min(getTimeFromMinutes(day, constraints.workEndHour * 60, timeZone).getTime(), end.getTime()),
+      }
+      if (interval.end > interval.start) hours.push(interval)
+    }
+
+    return hours
+  }
+
+  private static subtract(intervals: Interval[], taken: Interval): Interval[] {
+    return intervals.flatMap(interval => {
+      if (taken.end <= interval.start || interval.end <= taken.start) return [interval]
+      return [
+        { start: interval.start, end: taken.start },
+        { start: taken.end, end: interval.end },
+      ].filter(part => part.end > part.start)
+    })
+  }
+}
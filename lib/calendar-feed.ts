@@ -0,0 +1,96 @@
+/**
+ * Calendar Feeds
+ * Read-only .ics subscriptions served from a secret, revocable URL
+ */
+
+import { ICalendar, ICalSerializer } from './ical'
+import { IcsTransfer, ICS_PRODID } from './ics-transfer'
+import { calendarEventRepository, taskRepository, categoryRepository, recurrenceExceptionRepository } from './data-access'
+import type { Task, CalendarEvent, CalendarFeed, RecurrenceException, categories } from './db/schema'
+import { RecurrenceExpander } from './recurrence'
+
+// Subscribing apps poll; ask them to come back hourly
+const REFRESH_INTERVAL = 'PT1H'
+
+// One-off items that ended longer ago than this are left out of the feed
+const HISTORY_DAYS = 180
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Category = typeof categories.$inferSelect
+
+export class CalendarFeeds {
+  static generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    return Buffer.from(bytes).toString('base64url')
+  }
+
+  static feedPath(token: string): string {
+    return `/api/calendar/feed/${token}.ics`
+  }
+
+  /**
+   * Render the feed's events and time-blocked tasks, applying its category
+   * and tag filters
+   */
+  static async render(feed: CalendarFeed, now: Date = new Date()): Promise<string> {
+    const tagIds = feed.tagIds ?? []
+    const inCategory = (item: { categoryId: string | null }) =>
+      !feed.categoryId || item.categoryId === feed.categoryId
+
+    const events = (tagIds.length > 0
+      ? await calendarEventRepository.findByTagIds(feed.userId, tagIds)
+      : await calendarEventRepository.findByUserId(feed.userId)
+    ).filter(inCategory)
+
+    const tasks = feed.includeTasks
+      ? (tagIds.length > 0
+          ? await taskRepository.findByTagIds(feed.userId, tagIds)
+          : await taskRepository.findByUserId(feed.userId)
+        ).filter(inCategory)
+      : []
+
+    const userCategories: Category[] = await categoryRepository.findByUserId(feed.userId)
+    const categoryNames = new Map(userCategories.map(category => [category.id, category.name]))
+    const recurringIds = (items: Array<CalendarEvent | Task>) =>
+      items.filter(item => RecurrenceExpander.isRecurring(item)).map(item => item.id)
+    const exceptions = [
+      ...await recurrenceExceptionRepository.findByEventIds(recurringIds(events)),
+      ...await recurrenceExceptionRepository.findByTaskIds(recurringIds(tasks))
+    ]
+
+    return CalendarFeeds.buildFeed(feed.name, events, tasks, categoryNames, now, exceptions)
+  }
+
+  static buildFeed(
+    name: string,
+    events: CalendarEvent[],
+    tasks: Task[],
+    categoryNames: Map<string, string> = new Map(),
+    now: Date = new Date(),
+    exceptions: RecurrenceException[] = []
+  ): string {
+    const since = now.getTime() - HISTORY_DAYS * DAY_MS
+    const isCurrent = (item: { endTime: Date | null; recurrence: Task['recurrence'] }) =>
+      (item.recurrence && item.recurrence.type !== 'none') || new Date(item.endTime!).getTime() >= since
+    const nameOf = (categoryId: string | null) => (categoryId ? categoryNames.get(categoryId) : undefined)
+    const exceptionsOf = IcsTransfer.exceptionsByItem(exceptions)
+
+    const calendar = ICalendar.createCalendar(ICS_PRODID, [
+      ...events
+        .filter(isCurrent)
+        .flatMap(event => IcsTransfer.eventSeriesToICal(event, exceptionsOf(event.id), nameOf(event.categoryId))),
+      ...tasks
+        .filter(task => task.startTime && task.endTime && isCurrent(task))
+        .flatMap(task => IcsTransfer.taskBlockSeriesToICal(task, exceptionsOf(task.id), nameOf(task.categoryId)))
+    ])
+
+    calendar.properties.push(
+      ICalendar.property('X-WR-CALNAME', ICalSerializer.escapeText(name)),
+      ICalendar.property('REFRESH-INTERVAL', REFRESH_INTERVAL, { VALUE: 'DURATION' }),
+      ICalendar.property('X-PUBLISHED-TTL', REFRESH_INTERVAL)
+    )
+
+    return ICalendar.serialize(calendar)
+  }
+}
@@ -1,4 +1,7 @@
-import { and, eq, gte, lte, like, ilike, inArray, sql, desc, asc, between } from 'drizzle-orm'
+import { and, or, eq, gte, lte, like, ilike, inArray, isNull, sql, desc, asc, between } from 'drizzle-orm'
+import { RecurrenceExpander, type Occurrence } from './recurrence'
+import type { SeriesEditPlan } from './series-edit'
+import { RecurringTasks } from './recurring-tasks'
 import { getDatabase } from './db'
 import {
   type User,
@@ -7,6 +10,12 @@ import {
   type TaskInsert,
   type CalendarEvent,
   type CalendarEventInsert,
+  type CalendarFeed,
+  type CalendarFeedInsert,
+  type RecurrenceException,
+  type RecurrenceExceptionInsert,
+  type TaskCompletion,
+  type TaskCompletionInsert,
   users,
   tasks,
   calendarEvents,
@@ -14,6 +23,9 @@ import {
   tags,
   taskTags,
   eventTags,
+  recurrenceExceptions,
+  taskCompletions,
+  calendarFeeds,
   type Tables
 } from './db/schema'
 import {
@@ -76,30 +88,92 @@ function getDB() {
   return getDatabase()
 }
 
+// Change capture for synced entities
+export type ChangeEntity = 'task' | 'event'
+
+export interface MutationOptions {
+  // Integration that made the write (set by inbound sync); changes are not sent back to it
+  origin?: string
+}
+
+export interface RepositoryChange<T = any> {
+  entity: ChangeEntity
+  type: 'created' | 'updated' | 'deleted'
+  record: T
+  origin?: string
+  // Set when only one occurrence of the recurring `record` changed
+  occurrence?: {
+    originalStart: Date
+    // The occurrence as it now reads; null when it was skipped
+    record: T | null
+  }
+}
+
+export type ChangeListener = (change: RepositoryChange) => void | Promise<void>
+
+const changeListeners = new Set<ChangeListener>()
+
+export function onRepositoryChange(listener: ChangeListener): () => void {
+  changeListeners.add(listener)
+  return () => {
+    changeListeners.delete(listener)
+  }
+}
+
+// Listeners run in the background, one change after another, so a write never
+// waits on an integration and an item's edits still reach it in order
+let pendingNotifications: Promise<void> = Promise.resolve()
+
+function notifyChange(change: RepositoryChange): void {
+  const listeners = [...changeListeners]
+  if (listeners.length === 0) return
+
+  pendingNotifications = pendingNotifications.then(async () => {
+    for (const listener of listeners) {
+      try {
+        await listener(change)
+      } catch (error) {
+        // A failing listener must never fail the write itself
+        console.error(`Change listener failed for ${change.entity} ${change.type}:`, error)
+      }
+    }
+  })
+}
+
 // Base repository class
 abstract class BaseRepository<T, TInsert, TUpdate> {
   constructor(
     protected table: any,
     protected validateData: (data: unknown) => { success: boolean; error?: any },
-    protected validateInsert?: (data: unknown) => { success: boolean; error?: any }
+    protected validateInsert?: (data: unknown) => { success: boolean; error?: any },
+    protected changeEntity?: ChangeEntity
   ) {}
 
-  async create(data: TInsert): Promise<T> {
+  protected emitChange(type: RepositoryChange['type'], record: T, options: MutationOptions = {}): void {
+    if (!this.changeEntity || !record) return
+    notifyChange({ entity: this.changeEntity, type, record, origin: options.origin })
+  }
+
+  async create(data: TInsert, options: MutationOptions = {}): Promise<T> {
     const validation = this.validateInsert ? this.validateInsert(data) : this.validateData(data)
     if (!validation.success) {
       throw new ValidationError('Invalid data', validation.error?.message)
     }
 
+    let created: T
     try {
       const db = getDB()
       const result = await db.insert(this.table).values(data as any).returning()
-      return (result as any[])[0] as T
+      created = (result as any[])[0] as T
     } catch (error: any) {
       if (error.code === '23505') { // Unique constraint violation
         throw new ConflictError('Duplicate entry')
       }
       throw new DatabaseError('Failed to create record', error.code, error)
     }
+
+    this.emitChange('created', created, options)
+    return created
   }
 
   async findById(id: string): Promise<T | null> {
@@ -112,12 +186,13 @@ abstract class BaseRepository<T, TInsert, TUpdate> {
     }
   }
 
-  async update(id: string, data: TUpdate): Promise<T> {
+  async update(id: string, data: TUpdate, options: MutationOptions = {}): Promise<T> {
     const validation = this.validateData(data)
     if (!validation.success) {
       throw new ValidationError('Invalid update data', validation.error?.message)
     }
 
+    let updated: T
     try {
       const db = getDB()
       const result = await db
@@ -126,22 +201,25 @@ abstract class BaseRepository<T, TInsert, TUpdate> {
         .where(eq(this.table.id, id))
         .returning()
       
-      const updated = (result as T[])[0]
+      updated = (result as T[])[0]
       if (!updated) {
         throw new NotFoundError('Record', id)
       }
-      return updated
     } catch (error: any) {
       if (error instanceof NotFoundError) throw error
       throw new DatabaseError('Failed to update record', error.code, error)
     }
+
+    this.emitChange('updated', updated, options)
+    return updated
   }
 
-  async delete(id: string): Promise<void> {
+  async delete(id: string, options: MutationOptions = {}): Promise<void> {
+    let deleted: T
     try {
       const db = getDB()
       const result = await db.delete(this.table).where(eq(this.table.id, id)).returning()
-      const deleted = (result as any[])[0]
+      deleted = (result as T[])[0]
       if (!deleted) {
         throw new NotFoundError('Record', id)
       }
@@ -149,6 +227,8 @@ abstract class BaseRepository<T, TInsert, TUpdate> {
       if (error instanceof NotFoundError) throw error
       throw new DatabaseError('Failed to delete record', error.code, error)
     }
+
+    this.emitChange('deleted', deleted, options)
   }
 
   async findMany(
@@ -227,7 +307,54 @@ export class UserRepository extends BaseRepository<User, UserInsert, Partial<Use
 // Task Repository
 export class TaskRepository extends BaseRepository<Task, TaskInsert, Partial<TaskInsert>> {
   constructor() {
-    super(tasks, validateTaskUpdateData, validateTaskInsertData)
+    super(tasks, validateTaskUpdateData, validateTaskInsertData, 'task')
+  }
+
+  /**
+   * Completing a recurring task records the finished occurrence and rolls the
+   * task forward to its next one instead of leaving it completed
+   */
+  async update(id: string, data: Partial<TaskInsert>, options: MutationOptions = {}): Promise<Task> {
+    if (data.status !== 'completed') return super.update(id, data, options)
+
+    const current = await this.findById(id)
+    if (!current || current.status === 'completed' || !RecurringTasks.rollsForward(current)) {
+      return super.update(id, data, options)
+    }
+
+    const completedAt = data.completedAt ?? new Date()
+    const { occurrenceDate, next } = RecurringTasks.complete(current, completedAt)
+
+    // The series has ended: the task stays completed like a one-off task
+    const changes = next ? { ...data, ...next } : { ...data, completedAt }
+    const validation = this.validateData(changes)
+    if (!validation.success) {
+      throw new ValidationError('Invalid update data', validation.error?.message)
+    }
+
+    // The history row and the rolled task are written together or not at all
+    let updated: Task
+    try {
+      const db = getDB()
+      updated = await db.transaction(async (tx: any) => {
+        await tx.insert(taskCompletions).values({ userId: current.userId, taskId: id, occurrenceDate, completedAt })
+        const [task] = await tx
+          .update(tasks)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(tasks.id, id))
+          .returning()
+        if (!task) {
+          throw new NotFoundError('Task', id)
+        }
+        return task
+      })
+    } catch (error: any) {
+      if (error instanceof NotFoundError) throw error
+      throw new DatabaseError('Failed to complete task', error.code, error)
+    }
+
+    this.emitChange('updated', updated, options)
+    return updated
   }
 
   async findByUserId(userId: string): Promise<Task[]> {
@@ -239,6 +366,39 @@ export class TaskRepository extends BaseRepository<Task, TaskInsert, Partial<Tas
     }
   }
 
+  async findByIcalUids(userId: string, uids: string[]): Promise<Task[]> {
+    if (uids.length === 0) return []
+
+    try {
+      const db = getDB()
+      return await db
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.userId, userId), inArray(tasks.icalUid, uids)))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch tasks by iCalendar UID', error.code, error)
+    }
+  }
+
+  async findByTagIds(userId: string, tagIds: string[]): Promise<Task[]> {
+    if (tagIds.length === 0) return []
+
+    try {
+      const db = getDB()
+      const rows = await db
+        .select({ task: tasks })
+        .from(tasks)
+        .innerJoin(taskTags, eq(tasks.id, taskTags.taskId))
+        .where(and(eq(tasks.userId, userId), inArray(taskTags.tagId, tagIds)))
+
+      // One row per matching tag; DISTINCT is not available on the json columns
+      const byId = new Map<string, Task>(rows.map((row: { task: Task }) => [row.task.id, row.task]))
+      return [...byId.values()]
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch tasks by tags', error.code, error)
+    }
+  }
+
   async findWithFilters(userId: string, filters: TaskFilterValidation): Promise<Task[]> {
     try {
       const db = getDB()
@@ -274,27 +434,46 @@ export class TaskRepository extends BaseRepository<Task, TaskInsert, Partial<Tas
     }
   }
 
-  async findByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Task[]> {
+  // Recurring tasks come back as their occurrences in the range
+  async findByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Array<Task | Occurrence<Task>>> {
+    let rows: Task[]
     try {
       const db = getDB()
-      return await db
+      rows = await db
         .select()
         .from(tasks)
         .where(
           and(
             eq(tasks.userId, userId),
-            between(tasks.dueDate, startDate, endDate)
+            or(
+              between(tasks.dueDate, startDate, endDate),
+              // Time-blocked tasks show where they are planned, whatever their due date
+              between(tasks.startTime, startDate, endDate),
+              and(
+                sql`coalesce(${tasks.recurrence}->>'type', 'none') <> 'none'`,
+                lte(sql`coalesce(${tasks.startTime}, ${tasks.dueDate})`, endDate)
+              )
+            )
           )
         )
     } catch (error: any) {
       throw new DatabaseError('Failed to fetch tasks by date range', error.code, error)
     }
+
+    const recurringIds = rows.filter(task => RecurrenceExpander.isRecurring(task)).map(task => task.id)
+    const exceptions = await recurrenceExceptionRepository.findByTaskIds(recurringIds)
+    return RecurrenceExpander.expandAll(rows, startDate, endDate, exceptions)
+  }
+
+  async applySeriesEdit(master: Task, plan: SeriesEditPlan<Task>): Promise<SeriesEditResult<Task>> {
+    return applySeriesPlan(this, 'task', master, plan)
   }
 
   async bulkUpdate(data: BulkTaskUpdateValidation): Promise<Task[]> {
+    let results: Task[]
     try {
       const db = getDB()
-      const results = await db.transaction(async (tx: any) => {
+      results = await db.transaction(async (tx: any) => {
         const updatedTasks = []
         for (const id of data.ids) {
           const [updated] = await tx
@@ -306,10 +485,14 @@ export class TaskRepository extends BaseRepository<Task, TaskInsert, Partial<Tas
         }
         return updatedTasks
       })
-      return results
     } catch (error: any) {
       throw new DatabaseError('Failed to bulk update tasks', error.code, error)
     }
+
+    for (const task of results) {
+      this.emitChange('updated', task)
+    }
+    return results
   }
 
   async addTag(taskId: string, tagId: string): Promise<void> {
@@ -365,7 +548,7 @@ export class TaskRepository extends BaseRepository<Task, TaskInsert, Partial<Tas
 // Calendar Event Repository
 export class CalendarEventRepository extends BaseRepository<CalendarEvent, CalendarEventInsert, Partial<CalendarEventInsert>> {
   constructor() {
-    super(calendarEvents, validateEventUpdateData, validateEventInsertData)
+    super(calendarEvents, validateEventUpdateData, validateEventInsertData, 'event')
   }
 
   async findByUserId(userId: string): Promise<CalendarEvent[]> {
@@ -377,6 +560,39 @@ export class CalendarEventRepository extends BaseRepository<CalendarEvent, Calen
     }
   }
 
+  async findByIcalUids(userId: string, uids: string[]): Promise<CalendarEvent[]> {
+    if (uids.length === 0) return []
+
+    try {
+      const db = getDB()
+      return await db
+        .select()
+        .from(calendarEvents)
+        .where(and(eq(calendarEvents.userId, userId), inArray(calendarEvents.icalUid, uids)))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch events by iCalendar UID', error.code, error)
+    }
+  }
+
+  async findByTagIds(userId: string, tagIds: string[]): Promise<CalendarEvent[]> {
+    if (tagIds.length === 0) return []
+
+    try {
+      const db = getDB()
+      const rows = await db
+        .select({ event: calendarEvents })
+        .from(calendarEvents)
+        .innerJoin(eventTags, eq(calendarEvents.id, eventTags.eventId))
+        .where(and(eq(calendarEvents.userId, userId), inArray(eventTags.tagId, tagIds)))
+
+      // One row per matching tag; DISTINCT is not available on the json columns
+      const byId = new Map<string, CalendarEvent>(rows.map((row: { event: CalendarEvent }) => [row.event.id, row.event]))
+      return [...byId.values()]
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch events by tags', error.code, error)
+    }
+  }
+
   async findWithFilters(userId: string, filters: EventFilterValidation): Promise<CalendarEvent[]> {
     try {
       const db = getDB()
@@ -411,24 +627,35 @@ export class CalendarEventRepository extends BaseRepository<CalendarEvent, Calen
     }
   }
 
-  async findByDateRange(userId: string, startDate: Date, endDate: Date): Promise<CalendarEvent[]> {
+  // Recurring events come back as their occurrences in the range
+  async findByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Array<CalendarEvent | Occurrence<CalendarEvent>>> {
+    let rows: CalendarEvent[]
     try {
       const db = getDB()
-      return await db
+      rows = await db
         .select()
         .from(calendarEvents)
         .where(
           and(
             eq(calendarEvents.userId, userId),
-            and(
-              lte(calendarEvents.startTime, endDate),
-              gte(calendarEvents.endTime, startDate)
+            lte(calendarEvents.startTime, endDate),
+            or(
+              gte(calendarEvents.endTime, startDate),
+              sql`coalesce(${calendarEvents.recurrence}->>'type', 'none') <> 'none'`
             )
           )
         )
     } catch (error: any) {
       throw new DatabaseError('Failed to fetch events by date range', error.code, error)
     }
+
+    const recurringIds = rows.filter(event => RecurrenceExpander.isRecurring(event)).map(event => event.id)
+    const exceptions = await recurrenceExceptionRepository.findByEventIds(recurringIds)
+    return RecurrenceExpander.expandAll(rows, startDate, endDate, exceptions)
+  }
+
+  async applySeriesEdit(master: CalendarEvent, plan: SeriesEditPlan<CalendarEvent>): Promise<SeriesEditResult<CalendarEvent>> {
+    return applySeriesPlan(this, 'event', master, plan)
   }
 
   async findConflicts(
@@ -448,9 +675,10 @@ export class CalendarEventRepository extends BaseRepository<CalendarEvent, Calen
   }
 
   async bulkUpdate(data: BulkEventUpdateValidation): Promise<CalendarEvent[]> {
+    let results: CalendarEvent[]
     try {
       const db = getDB()
-      const results = await db.transaction(async (tx: any) => {
+      results = await db.transaction(async (tx: any) => {
         const updatedEvents = []
         for (const id of data.ids) {
           const [updated] = await tx
@@ -462,10 +690,14 @@ export class CalendarEventRepository extends BaseRepository<CalendarEvent, Calen
         }
         return updatedEvents
       })
-      return results
     } catch (error: any) {
       throw new DatabaseError('Failed to bulk update events', error.code, error)
     }
+
+    for (const event of results) {
+      this.emitChange('updated', event)
+    }
+    return results
   }
 
   async addTag(eventId: string, tagId: string): Promise<void> {
@@ -561,12 +793,220 @@ export class TagRepository extends BaseRepository<typeof tags.$inferSelect, type
   }
 }
 
+// Calendar Feed Repository
+export class CalendarFeedRepository extends BaseRepository<CalendarFeed, CalendarFeedInsert, Partial<CalendarFeedInsert>> {
+  constructor() {
+    super(calendarFeeds, (data) => ({ success: true }))
+  }
+
+  async findByUserId(userId: string): Promise<CalendarFeed[]> {
+    try {
+      const db = getDB()
+      return await db
+        .select()
+        .from(calendarFeeds)
+        .where(and(eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+        .orderBy(desc(calendarFeeds.createdAt))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch calendar feeds by user', error.code, error)
+    }
+  }
+
+  // Revoked tokens never resolve
+  async findActiveByToken(token: string): Promise<CalendarFeed | null> {
+    try {
+      const db = getDB()
+      const result = await db
+        .select()
+        .from(calendarFeeds)
+        .where(and(eq(calendarFeeds.token, token), isNull(calendarFeeds.revokedAt)))
+        .limit(1)
+      return result[0] || null
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch calendar feed by token', error.code, error)
+    }
+  }
+
+  async revoke(id: string): Promise<CalendarFeed> {
+    return this.update(id, { revokedAt: new Date() })
+  }
+
+  async markAccessed(id: string): Promise<void> {
+    try {
+      const db = getDB()
+      await db.update(calendarFeeds).set({ lastAccessedAt: new Date() }).where(eq(calendarFeeds.id, id))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to update calendar feed', error.code, error)
+    }
+  }
+}
+
+// Recurrence Exception Repository
+export class RecurrenceExceptionRepository extends BaseRepository<RecurrenceException, RecurrenceExceptionInsert, Partial<RecurrenceExceptionInsert>> {
+  constructor() {
+    super(recurrenceExceptions, (data) => ({ success: true }))
+  }
+
+  async findByEventIds(eventIds: string[]): Promise<RecurrenceException[]> {
+    if (eventIds.length === 0) return []
+
+    try {
+      const db = getDB()
+      return await db.select().from(recurrenceExceptions).where(inArray(recurrenceExceptions.eventId, eventIds))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch recurrence exceptions for events', error.code, error)
+    }
+  }
+
+  async findByTaskIds(taskIds: string[]): Promise<RecurrenceException[]> {
+    if (taskIds.length === 0) return []
+
+    try {
+      const db = getDB()
+      return await db.select().from(recurrenceExceptions).where(inArray(recurrenceExceptions.taskId, taskIds))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch recurrence exceptions for tasks', error.code, error)
+    }
+  }
+
+  async findForOccurrence(entity: ChangeEntity, itemId: string, originalStart: Date): Promise<RecurrenceException | null> {
+    try {
+      const db = getDB()
+      const result = await db
+        .select()
+        .from(recurrenceExceptions)
+        .where(and(eq(this.parentColumn(entity), itemId), eq(recurrenceExceptions.originalStart, originalStart)))
+        .limit(1)
+      return result[0] || null
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch recurrence exception', error.code, error)
+    }
+  }
+
+  // Drops the exceptions of occurrences from `originalStart` on, after a series was split there
+  async deleteFrom(entity: ChangeEntity, itemId: string, originalStart: Date): Promise<void> {
+    try {
+      const db = getDB()
+      await db
+        .delete(recurrenceExceptions)
+        .where(and(eq(this.parentColumn(entity), itemId), gte(recurrenceExceptions.originalStart, originalStart)))
+    } catch (error: any) {
+      throw new DatabaseError('Failed to delete recurrence exceptions', error.code, error)
+    }
+  }
+
+  // One row per occurrence: skipping or changing it again replaces the earlier exception
+  async upsert(data: RecurrenceExceptionInsert): Promise<RecurrenceException> {
+    if (!data.eventId === !data.taskId) {
+      throw new ValidationError('Exactly one of eventId or taskId is required', data.eventId ? 'taskId' : 'eventId')
+    }
+
+    try {
+      const db = getDB()
+      const target = data.eventId
+        ? [recurrenceExceptions.eventId, recurrenceExceptions.originalStart]
+        : [recurrenceExceptions.taskId, recurrenceExceptions.originalStart]
+      const result = await db
+        .insert(recurrenceExceptions)
+        .values(data)
+        .onConflictDoUpdate({
+          target,
+          set: { isSkipped: data.isSkipped ?? false, overrides: data.overrides ?? {}, updatedAt: new Date() }
+        })
+        .returning()
+      return result[0]
+    } catch (error: any) {
+      throw new DatabaseError('Failed to save recurrence exception', error.code, error)
+    }
+  }
+
+  private parentColumn(entity: ChangeEntity) {
+    return entity === 'event' ? recurrenceExceptions.eventId : recurrenceExceptions.taskId
+  }
+}
+
+export class TaskCompletionRepository extends BaseRepository<TaskCompletion, TaskCompletionInsert, Partial<TaskCompletionInsert>> {
+  constructor() {
+    super(taskCompletions, (data) => ({ success: true }))
+  }
+
+  // Newest first
+  async findByTaskId(taskId: string, limit = 50): Promise<TaskCompletion[]> {
+    try {
+      const db = getDB()
+      return await db
+        .select()
+        .from(taskCompletions)
+        .where(eq(taskCompletions.taskId, taskId))
+        .orderBy(desc(taskCompletions.completedAt))
+        .limit(limit)
+    } catch (error: any) {
+      throw new DatabaseError('Failed to fetch task completions', error.code, error)
+    }
+  }
+}
+
+export interface SeriesEditResult<T> {
+  // The edited master; null once it was deleted
+  master: T | null
+  // Master of the series split off by a 'following' edit
+  created: T | null
+  exception: RecurrenceException | null
+}
+
+// Carry out a SeriesEditor plan on a recurring task or event
+async function applySeriesPlan<T extends Task | CalendarEvent>(
+  repository: BaseRepository<T, any, any>,
+  entity: ChangeEntity,
+  master: T,
+  plan: SeriesEditPlan<T>
+): Promise<SeriesEditResult<T>> {
+  if (plan.deleteMaster) {
+    // Exceptions go with it (on delete cascade)
+    await repository.delete(master.id)
+    return { master: null, created: null, exception: null }
+  }
+
+  if (plan.dropExceptionsFrom) {
+    await recurrenceExceptionRepository.deleteFrom(entity, master.id, plan.dropExceptionsFrom)
+  }
+
+  const updated = plan.update ? await repository.update(master.id, plan.update) : master
+  const created = plan.create ? await repository.create(plan.create) : null
+
+  let exception: RecurrenceException | null = null
+  if (plan.exception) {
+    const { originalStart } = plan.exception
+    exception = await recurrenceExceptionRepository.upsert({
+      ...plan.exception,
+      userId: master.userId,
+      ...(entity === 'event' ? { eventId: master.id } : { taskId: master.id })
+    })
+
+    // The master row is unchanged, so integrations hear about the occurrence alone
+    notifyChange({
+      entity,
+      type: 'updated',
+      record: updated,
+      occurrence: {
+        originalStart,
+        record: exception.isSkipped ? null : RecurrenceExpander.occurrence(updated, originalStart, exception)
+      }
+    })
+  }
+
+  return { master: updated, created, exception }
+}
+
 // Repository instances - created lazily when needed
 let _userRepository: UserRepository | null = null
 let _taskRepository: TaskRepository | null = null
 let _calendarEventRepository: CalendarEventRepository | null = null
 let _categoryRepository: CategoryRepository | null = null
 let _tagRepository: TagRepository | null = null
+let _recurrenceExceptionRepository: RecurrenceExceptionRepository | null = null
+let _calendarFeedRepository: CalendarFeedRepository | null = null
+let _taskCompletionRepository: TaskCompletionRepository | null = null
 
 export const userRepository = new Proxy({} as UserRepository, {
   get(_, prop) {
@@ -613,6 +1053,33 @@ export const tagRepository = new Proxy({} as TagRepository, {
   }
 })
 
+export const recurrenceExceptionRepository = new Proxy({} as RecurrenceExceptionRepository, {
+  get(_, prop) {
+    if (!_recurrenceExceptionRepository) {
+      _recurrenceExceptionRepository = new RecurrenceExceptionRepository()
+    }
+    return (_recurrenceExceptionRepository as any)[prop]
+  }
+})
+
+export const calendarFeedRepository = new Proxy({} as CalendarFeedRepository, {
+  get(_, prop) {
+    if (!_calendarFeedRepository) {
+      _calendarFeedRepository = new CalendarFeedRepository()
+    }
+    return (_calendarFeedRepository as any)[prop]
+  }
+})
+
+export const taskCompletionRepository = new Proxy({} as TaskCompletionRepository, {
+  get(_, prop) {
+    if (!_taskCompletionRepository) {
+      _taskCompletionRepository = new TaskCompletionRepository()
+    }
+    return (_taskCompletionRepository as any)[prop]
+  }
+})
+
 // Dashboard stats repository
 export class DashboardRepository {
   async getUserStats(userId: string) {
@@ -6,6 +6,10 @@ import {
   endOfDay,
   addWeeks,
   subWeeks,
+  addMonths,
+  subMonths,
+  startOfMonth,
+  endOfMonth,
   addDays,
   isSameDay,
   isToday,
@@ -24,12 +28,17 @@ import {
 } from 'date-fns'
 import {
   CalendarWeek,
+  CalendarMonth,
   CalendarDay,
   TimeSlot,
   CalendarConflict,
   EventOrTask,
+  Task,
+  TaskBacklogFilter,
   CalendarViewSettings,
 } from '@/types/calendar'
+import { RecurrenceExpander, type OccurrenceException } from '@/lib/recurrence'
+import { TimeZones } from '@/lib/timezone'
 
 // Default settings
 export const DEFAULT_VIEW_SETTINGS: CalendarViewSettings = {
@@ -40,8 +49,12 @@ export const DEFAULT_VIEW_SETTINGS: CalendarViewSettings = {
   defaultView: 'week',
 }
 
-// Week navigation utilities
-export function getCurrentWeek(date: Date = new Date()): CalendarWeek {
+// Week navigation utilities. Without a time zone, weeks follow the local clock
+export function getCurrentWeek(date: Date = new Date(), timeZone?: string): CalendarWeek {
+  if (timeZone) {
+    return getWeekFromDate(date, timeZone)
+  }
+
   const startDate = startOfWeek(date, { weekStartsOn: 1 }) // Monday
   const endDate = endOfWeek(date, { weekStartsOn: 1 })
   
@@ -52,7 +65,19 @@ export function getCurrentWeek(date: Date = new Date()): CalendarWeek {
   }
 }
 
-export function getWeekFromDate(date: Date): CalendarWeek {
+export function getWeekFromDate(date: Date, timeZone?: string): CalendarWeek {
+  if (timeZone) {
+    // Monday to Sunday on the zone's calendar; DST weeks are an hour short or long
+    const startDate = TimeZones.startOfWeek(date, timeZone, 1)
+    const endDate = new Date(TimeZones.addDays(startDate, 7, timeZone).getTime() - 1)
+
+    return {
+      startDate,
+      endDate,
+      days: generateWeekDays(startDate, endDate, timeZone),
+    }
+  }
+
   const startDate = startOfWeek(date, { weekStartsOn: 1 })
   const endDate = endOfWeek(date, { weekStartsOn: 1 })
   
@@ -63,16 +88,43 @@ export function getWeekFromDate(date: Date): CalendarWeek {
   }
 }
 
-export function getPreviousWeek(week: CalendarWeek): CalendarWeek {
+export function getPreviousWeek(week: CalendarWeek, timeZone?: string): CalendarWeek {
+  if (timeZone) {
+    return getWeekFromDate(TimeZones.addDays(new Date(week.startDate), -7, timeZone), timeZone)
+  }
   return getWeekFromDate(subWeeks(week.startDate, 1))
 }
 
-export function getNextWeek(week: CalendarWeek): CalendarWeek {
+export function getNextWeek(week: CalendarWeek, timeZone?: string): CalendarWeek {
+  if (timeZone) {
+    return getWeekFromDate(TimeZones.addDays(new Date(week.startDate), 7, timeZone), timeZone)
+  }
   return getWeekFromDate(addWeeks(week.startDate, 1))
 }
 
-export function generateWeekDays(startDate: Date, endDate: Date): CalendarDay[] {
+export function generateWeekDays(startDate: Date, endDate: Date, timeZone?: string): CalendarDay[] {
   const days: CalendarDay[] = []
+
+  if (timeZone) {
+    const now = new Date()
+
+    for (let i = 0; i < 7; i++) {
+      // Each day starts at the zone's midnight, whatever the day length
+      const date = TimeZones.addDays(TimeZones.startOfDay(startDate, timeZone), i, timeZone)
+      const dayOfWeek = TimeZones.wallClock(date, timeZone).weekday
+
+      days.push({
+        date,
+        dayOfWeek: dayOfWeek === 0 ? 7 : dayOfWeek,
+        dayName: TimeZones.format(date, timeZone, { weekday: 'long' }),
+        events: [],
+        isToday: TimeZones.isSameDay(date, now, timeZone),
+        isCurrentWeek: true,
+      })
+    }
+
+    return days
+  }
   
   for (let i = 0; i < 7; i++) {
     const date = addDays(startDate, i)
@@ -91,6 +143,110 @@ export function generateWeekDays(startDate: Date, endDate: Date): CalendarDay[]
   return days
 }
 
+// Month navigation utilities
+function monthBounds(date: Date, timeZone?: string): { startDate: Date; endDate: Date; month: number } {
+  if (!timeZone) {
+    return { startDate: startOfMonth(date), endDate: endOfMonth(date), month: date.getMonth() + 1 }
+  }
+
+  const clock = TimeZones.wallClock(date, timeZone)
+  return {
+    startDate: TimeZones.fromWallClock(timeZone, clock.year, clock.month, 1),
+    endDate: new Date(TimeZones.fromWallClock(timeZone, clock.year, clock.month + 1, 1).getTime() - 1),
+    month: clock.month,
+  }
+}
+
+export function getMonthFromDate(date: Date, timeZone?: string): CalendarMonth {
+  const { startDate, endDate, month } = monthBounds(date, timeZone)
+
+  const weeks: CalendarWeek[] = []
+  let week = getWeekFromDate(startDate, timeZone)
+  while (week.startDate <= endDate) {
+    weeks.push({
+      ...week,
+      days: week.days.map(day => ({
+        ...day,
+        isCurrentMonth: (timeZone ? TimeZones.wallClock(day.date, timeZone).month : day.date.getMonth() + 1) === month,
+      })),
+    })
+    week = getWeekFromDate(timeZone ? TimeZones.addDays(week.startDate, 7, timeZone) : addDays(week.startDate, 7), timeZone)
+  }
+
+  return { startDate, endDate, weeks }
+}
+
+export function getPreviousMonth(month: CalendarMonth, timeZone?: string): CalendarMonth {
+  const startDate = new Date(month.startDate)
+  if (timeZone) {
+    const clock = TimeZones.wallClock(startDate, timeZone)
+    return getMonthFromDate(TimeZones.fromWallClock(timeZone, clock.year, clock.month - 1, 1), timeZone)
+  }
+  return getMonthFromDate(subMonths(startDate, 1))
+}
+
+export function getNextMonth(month: CalendarMonth, timeZone?: string): CalendarMonth {
+  const startDate = new Date(month.startDate)
+  if (timeZone) {
+    const clock = TimeZones.wallClock(startDate, timeZone)
+    return getMonthFromDate(TimeZones.fromWallClock(timeZone, clock.year, clock.month + 1, 1), timeZone)
+  }
+  return getMonthFromDate(addMonths(startDate, 1))
+}
+
+export function getMonthDisplayText(month: CalendarMonth, timeZone?: string): string {
+  const startDate = new Date(month.startDate)
+  return timeZone
+    ? TimeZones.format(startDate, timeZone, { month: 'long', year: 'numeric' })
+    : format(startDate, 'MMMM yyyy')
+}
+
+// Same clock time on another day, for moving an item between days
+export function moveToDay(time: Date, day: Date, timeZone?: string): Date {
+  if (timeZone) {
+    const clock = TimeZones.wallClock(time, timeZone)
+    const target = TimeZones.wallClock(day, timeZone)
+    return TimeZones.fromWallClock(
+      timeZone, target.year, target.month, target.day,
+      clock.hour, clock.minute, clock.second, clock.millisecond
+    )
+  }
+  return new Date(
+    day.getFullYear(), day.getMonth(), day.getDate(),
+    time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds()
+  )
+}
+
+// Day navigation utilities
+export function getDayStart(date: Date, timeZone?: string): Date {
+  return timeZone
+    ? TimeZones.startOfDay(date, timeZone)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+export function getPreviousDay(day: Date, timeZone?: string): Date {
+  return timeZone
+    ? TimeZones.addDays(getDayStart(day, timeZone), -1, timeZone)
+    : new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1)
+}
+
+export function getNextDay(day: Date, timeZone?: string): Date {
+  return timeZone
+    ? TimeZones.addDays(getDayStart(day, timeZone), 1, timeZone)
+    : new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+}
+
+// The instant `minutes` into the day by its clock, e.g. 570 for 09:30
+export function getTimeFromMinutes(day: Date, minutes: number, timeZone?: string): Date {
+  const hour = Math.floor(minutes / 60)
+  const minute = minutes % 60
+  if (timeZone) {
+    const clock = TimeZones.wallClock(day, timeZone)
+    return TimeZones.fromWallClock(timeZone, clock.year, clock.month, clock.day, hour, minute)
+  }
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute)
+}
+
 // Time utilities
 export function generateTimeSlots(settings: CalendarViewSettings = DEFAULT_VIEW_SETTINGS): TimeSlot[] {
   const slots: TimeSlot[] = []
@@ -127,6 +283,10 @@ export function calculateEventTopPosition(event: EventOrTask, settings: Calendar
   if (!event.startTime) {
     return 0
   }
+
+  if (settings.timeZone) {
+    return TimeZones.minutesIntoDay(new Date(event.startTime), settings.timeZone) - settings.startHour * 60
+  }
   
   const startHour = getHours(new Date(event.startTime))
   const startMinute = getMinutes(new Date(event.startTime))
@@ -146,35 +306,41 @@ export function getEventWidth(totalDays: number): number {
 }
 
 // Date and time formatting
-export function formatTimeRange(startTime: Date, endTime: Date): string {
+export function formatTimeRange(startTime: Date, endTime: Date, timeZone?: string): string {
+  if (timeZone) {
+    return `${TimeZones.formatTime(startTime, timeZone)} - ${TimeZones.formatTime(endTime, timeZone)}`
+  }
   const start = format(startTime, 'HH:mm')
   const end = format(endTime, 'HH:mm')
   return `${start} - ${end}`
 }
 
-export function formatEventTime(event: EventOrTask): string {
+export function formatEventTime(event: EventOrTask, timeZone?: string): string {
   if (event.isAllDay) {
     return 'All day'
   }
   if (!event.startTime || !event.endTime) {
     return 'No time set'
   }
-  return formatTimeRange(new Date(event.startTime), new Date(event.endTime))
+  return formatTimeRange(new Date(event.startTime), new Date(event.endTime), timeZone)
 }
 
-export function getWeekDisplayText(week: CalendarWeek): string {
+export function getWeekDisplayText(week: CalendarWeek, timeZone?: string): string {
   // Ensure we have valid Date objects, convert from string if needed
   const safeWeek = {
     ...week,
     startDate: week.startDate instanceof Date ? week.startDate : new Date(week.startDate),
     endDate: week.endDate instanceof Date ? week.endDate : new Date(week.endDate),
   }
+  const formatPart = (date: Date, pattern: 'MMMM' | 'd' | 'yyyy') => timeZone
+    ? TimeZones.format(date, timeZone, pattern === 'MMMM' ? { month: 'long' } : pattern === 'd' ? { day: 'numeric' } : { year: 'numeric' })
+    : format(date, pattern)
   
-  const startMonth = format(safeWeek.startDate, 'MMMM')
-  const endMonth = format(safeWeek.endDate, 'MMMM')
-  const startDay = format(safeWeek.startDate, 'd')
-  const endDay = format(safeWeek.endDate, 'd')
-  const year = format(safeWeek.startDate, 'yyyy')
+  const startMonth = formatPart(safeWeek.startDate, 'MMMM')
+  const endMonth = formatPart(safeWeek.endDate, 'MMMM')
+  const startDay = formatPart(safeWeek.startDate, 'd')
+  const endDay = formatPart(safeWeek.endDate, 'd')
+  const year = formatPart(safeWeek.startDate, 'yyyy')
   
   if (startMonth === endMonth) {
     return `${startMonth} ${startDay} – ${endDay}, ${year}`
@@ -183,7 +349,13 @@ export function getWeekDisplayText(week: CalendarWeek): string {
   }
 }
 
-export function getDayDisplayText(date: Date): string {
+export function getDayDisplayText(date: Date, timeZone?: string): string {
+  if (timeZone) {
+    const today = TimeZones.isSameDay(date, new Date(), timeZone)
+    const weekday = TimeZones.format(date, timeZone, { weekday: 'short' })
+    return `${weekday} ${TimeZones.format(date, timeZone, { month: 'short', day: 'numeric' })}${today ? ' (Today)' : ''}`
+  }
+
   const today = isToday(date)
   return `${format(date, 'EEE')} ${format(date, 'MMM d')}${today ? ' (Today)' : ''}`
 }
@@ -197,9 +369,23 @@ export function sortEventsByTime(events: EventOrTask[]): EventOrTask[] {
   })
 }
 
-export function getEventsForDay(events: EventOrTask[], date: Date): EventOrTask[] {
-  return events.filter(event =>
-    event.startTime && isSameDay(new Date(event.startTime), date)
+// Recurring items are expanded into their occurrences for the day or week
+export function getEventsForDay(
+  events: EventOrTask[],
+  date: Date,
+  exceptions: OccurrenceException[] = [],
+  timeZone?: string
+): EventOrTask[] {
+  const dayStart = timeZone
+    ? TimeZones.startOfDay(date, timeZone)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  const dayEnd = timeZone
+    ? new Date(TimeZones.addDays(dayStart, 1, timeZone).getTime() - 1)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+  const sameDay = (start: Date) => timeZone ? TimeZones.isSameDay(start, date, timeZone) : isSameDay(start, date)
+
+  return RecurrenceExpander.expandAll(events, dayStart, dayEnd, exceptions).filter(event =>
+    event.startTime && sameDay(new Date(event.startTime))
   ).sort((a, b) => {
     const aTime = a.startTime ? new Date(a.startTime).getTime() : 0
     const bTime = b.startTime ? new Date(b.startTime).getTime() : 0
@@ -207,8 +393,121 @@ export function getEventsForDay(events: EventOrTask[], date: Date): EventOrTask[
   })
 }
 
-export function getEventsForWeek(week: CalendarWeek, events: EventOrTask[]): EventOrTask[] {
-  return events.filter(event => {
+// Items with a start time bucketed by the day they start on, for list layouts
+export function groupEventsByDay(
+  events: EventOrTask[],
+  timeZone?: string
+): Array<{ date: Date; events: EventOrTask[] }> {
+  const days = new Map<number, EventOrTask[]>()
+  for (const event of events) {
+    if (!event.startTime) continue
+    const key = getDayStart(new Date(event.startTime), timeZone).getTime()
+    days.set(key, [...(days.get(key) ?? []), event])
+  }
+
+  const startOf = (event: EventOrTask) => new Date(event.startTime!).getTime()
+  return [...days.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, dayEvents]) => ({ date: new Date(key), events: dayEvents.sort((a, b) => startOf(a) - startOf(b)) }))
+}
+
+const PRIORITY_ORDER: Record<Task['priority'], number> = { urgent: 0, high: 1, medium: 2, low: 3 }
+
+// Open tasks due on the day that have no time on the calendar yet, most urgent first
+export function getUnscheduledTasksForDay(
+  tasks: Task[],
+  date: Date,
+  exceptions: OccurrenceException[] = [],
+  timeZone?: string
+): Task[] {
+  const dayStart = getDayStart(date, timeZone)
+  const dayEnd = new Date(getNextDay(date, timeZone).getTime() - 1)
+  const sameDay = (due: Date) => timeZone ? TimeZones.isSameDay(due, date, timeZone) : isSameDay(due, date)
+
+  return RecurrenceExpander.expandAll(tasks, dayStart, dayEnd, exceptions).filter(task =>
+    !task.startTime &&
+    task.dueDate &&
+    sameDay(new Date(task.dueDate)) &&
+    task.status !== 'completed' &&
+    task.status !== 'cancelled'
+  ).sort((a, b) =>
+    PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+    new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime()
+  )
+}
+
+// Timed events this long read better as a bar across days than as a column
+const ALL_DAY_LANE_MIN_DURATION = 24 * 60 * 60 * 1000
+
+// Items drawn in the all-day lane above the timeline instead of in the hour slots
+export function isAllDayLaneEvent(event: EventOrTask): boolean {
+  if (!event.startTime || !event.endTime) {
+    return false
+  }
+  return Boolean(event.isAllDay) ||
+    new Date(event.endTime).getTime() - new Date(event.startTime).getTime() >= ALL_DAY_LANE_MIN_DURATION
+}
+
+// All-day lane items overlapping [start, end), including ones that began earlier
+export function getAllDayEventsInRange(
+  events: EventOrTask[],
+  start: Date,
+  end: Date,
+  exceptions: OccurrenceException[] = []
+): EventOrTask[] {
+  return RecurrenceExpander.expandAll(events, start, end, exceptions).filter(event =>
+    isAllDayLaneEvent(event) &&
+    new Date(event.startTime!) < end &&
+    new Date(event.endTime!) > start
+  )
+}
+
+export const DEFAULT_BACKLOG_FILTER: TaskBacklogFilter = { categoryId: 'all', priority: 'all', due: 'all' }
+
+/**
+ * Open one-off tasks that have no time on the calendar yet, most urgent first
+ * and then by due date, undated last. Repeating tasks are left out; their
+ * occurrences are planned day by day.
+ */
+export function getTaskBacklog(
+  tasks: Task[],
+  filter: TaskBacklogFilter = DEFAULT_BACKLOG_FILTER,
+  timeZone?: string,
+  now: Date = new Date()
+): Task[] {
+  const today = getDayStart(now, timeZone)
+  const tomorrow = getNextDay(now, timeZone)
+  const weekAhead = timeZone
+    ? TimeZones.addDays(today, 7, timeZone)
+    : new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7)
+
+  const dueMatches = (task: Task) => {
+    const due = task.dueDate ? new Date(task.dueDate) : null
+    switch (filter.due) {
+      case 'overdue': return due !== null && due < today
+      case 'today': return due !== null && due >= today && due < tomorrow
+      case 'week': return due !== null && due >= today && due < weekAhead
+      case 'none': return due === null
+      default: return true
+    }
+  }
+  const dueTime = (task: Task) => task.dueDate ? new Date(task.dueDate).getTime() : Infinity
+
+  return tasks.filter(task =>
+    !task.startTime &&
+    !RecurrenceExpander.isRecurring(task) &&
+    task.status !== 'completed' &&
+    task.status !== 'cancelled' &&
+    (filter.categoryId === 'all' || task.categoryId === filter.categoryId) &&
+    (filter.priority === 'all' || task.priority === filter.priority) &&
+    dueMatches(task)
+  ).sort((a, b) =>
+    PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || dueTime(a) - dueTime(b)
+  )
+}
+
+export function getEventsForWeek(week: CalendarWeek, events: EventOrTask[], exceptions: OccurrenceException[] = []): EventOrTask[] {
+  return RecurrenceExpander.expandAll(events, week.startDate, week.endDate, exceptions).filter(event => {
     if (!event.startTime) {
       return false
     }
@@ -252,8 +551,8 @@ export function checkEventCollision(
   existingEvents: EventOrTask[],
   excludeEventId?: string
 ): boolean {
-  // Check if the new event has proper time data
-  if (!newEvent.startTime || !newEvent.endTime) {
+  // Check if the new event has proper time data; all-day items don't block hours
+  if (!newEvent.startTime || !newEvent.endTime || newEvent.isAllDay) {
     return false
   }
   
@@ -266,7 +565,7 @@ export function checkEventCollision(
     }
     
     // Skip events without proper time data
-    if (!event.startTime || !event.endTime) {
+    if (!event.startTime || !event.endTime || event.isAllDay) {
       return false
     }
     
@@ -281,13 +580,30 @@ export function checkEventCollision(
   })
 }
 
-// Time slot utilities
-export function getTimeFromSlot(day: number, hour: number): Date {
-  const baseDate = getCurrentWeek().startDate
+// Time slot utilities. `day` counts from 1 for the first day of the week
+export function getTimeFromSlot(day: number, hour: number, timeZone?: string, weekStart?: Date): Date {
+  if (timeZone) {
+    const start = TimeZones.wallClock(weekStart ?? getCurrentWeek(new Date(), timeZone).startDate, timeZone)
+    // An hour skipped by DST lands on the first hour after the change
+    return TimeZones.fromWallClock(timeZone, start.year, start.month, start.day + day - 1, hour)
+  }
+
+  const baseDate = weekStart ?? getCurrentWeek().startDate
   return setHours(setMinutes(addDays(baseDate, day - 1), 0), hour)
 }
 
-export function snapToNearestSlot(time: Date, snapMinutes: number = 15): Date {
+export function snapToNearestSlot(time: Date, snapMinutes: number = 15, timeZone?: string): Date {
+  if (timeZone) {
+    // Snap on the zone's clock face (zones such as Asia/Kolkata are off by half
+    // an hour) and move by the difference, so a time inside a repeated DST hour
+    // stays in the same hour
+    const minutes = TimeZones.wallClock(time, timeZone).minute
+    const snappedMinutes = Math.round(minutes / snapMinutes) * snapMinutes
+    // Offsets are whole minutes, so the seconds drop the same way in every zone
+    const wholeMinute = Math.floor(time.getTime() / (60 * 1000)) * 60 * 1000
+    return new Date(wholeMinute + (snappedMinutes - minutes) * 60 * 1000)
+  }
+
   const minutes = getMinutes(time)
   const snappedMinutes = Math.round(minutes / snapMinutes) * snapMinutes
   
@@ -310,6 +626,9 @@ export function getDurationText(durationMinutes: number): string {
   return `${hours}h ${remainingMinutes}m`
 }
 
+// Minutes blocked for a task without an estimate when it is put on the calendar
+export const DEFAULT_TASK_DURATION = 30
+
 export function calculateEndTime(startTime: Date, durationMinutes: number): Date {
   return addMinutes(startTime, durationMinutes)
 }
@@ -1,5 +1,6 @@
 import { pgTable, text, timestamp, boolean, uuid, integer, json, varchar, index } from 'drizzle-orm/pg-core'
 import { relations } from 'drizzle-orm'
+import type { FieldMappingRule, FieldConflict } from '../integrations/base'
 
 // Integration services configuration
 export const integrationServices = pgTable('integration_services', {
@@ -46,7 +47,11 @@ export const userIntegrations = pgTable('user_integrations', {
     syncTasks: boolean
     syncEvents: boolean
     conflictResolution: 'manual' | 'latest' | 'source' | 'merge'
-    fieldMapping: Record<string, string>
+    deletionPolicy?: 'delete' | 'archive' // defaults to 'delete'
+    fieldMapping: Record<string, string> // service settings (projectId, calendarUrl, ...)
+    mappingRules?: FieldMappingRule[] // external values onto DayFlow fields, categories and tags
+    categoryIds?: string[] // new DayFlow items in these categories are created on this service
+    defaultTarget?: boolean // new items no integration claims by category are created here
   }>().default({
     autoSync: true,
     syncInterval: 15,
@@ -54,11 +59,13 @@ export const userIntegrations = pgTable('user_integrations', {
     syncTasks: true,
     syncEvents: true,
     conflictResolution: 'manual',
+    deletionPolicy: 'delete',
     fieldMapping: {},
   }),
   lastSyncAt: timestamp('last_sync_at', { withTimezone: true }),
   syncStatus: text('sync_status').default('idle'), // idle, syncing, error, success
   syncError: text('sync_error'),
+  syncCursor: text('sync_cursor'), // provider delta checkpoint (sync token, delta link, ...)
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
@@ -79,11 +86,15 @@ export const syncOperations = pgTable('sync_operations', {
   itemsUpdated: integer('items_updated').default(0),
   itemsDeleted: integer('items_deleted').default(0),
   conflicts: json('conflicts').$type<Array<{
+    id: string
     type: string
-    item: any
-    source: 'dayflow' | 'external'
+    itemType: 'task' | 'event'
+    dayflowItem: any
+    externalItem: any
     conflict: any
+    fields?: FieldConflict[]
     resolution?: string
+    resolvedAt?: string
   }>>().default([]),
   error: text('error'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -93,10 +104,10 @@ export const syncOperations = pgTable('sync_operations', {
 export const syncQueue = pgTable('sync_queue', {
   id: uuid('id').defaultRandom().primaryKey(),
   userIntegrationId: uuid('user_integration_id').references(() => userIntegrations.id, { onDelete: 'cascade' }).notNull(),
-  operation: text('operation').notNull(), // 'sync_tasks', 'sync_events', 'full_sync'
+  operation: text('operation').notNull(), // 'full_sync', 'incremental_sync', 'task_sync', 'event_sync'
   payload: json('payload').$type<Record<string, any>>().default({}),
   priority: integer('priority').default(5), // 1-10, lower is higher priority
-  status: text('status').default('pending'), // pending, processing, completed, failed, cancelled
+  status: text('status').default('pending'), // pending, processing, completed, cancelled, dead_letter
   scheduledAt: timestamp('scheduled_at', { withTimezone: true }).defaultNow(),
   startedAt: timestamp('started_at', { withTimezone: true }),
   completedAt: timestamp('completed_at', { withTimezone: true }),
@@ -108,6 +119,7 @@ export const syncQueue = pgTable('sync_queue', {
 }, (table) => ({
   statusIdx: index('sync_queue_status_idx').on(table.status),
   integrationIdx: index('sync_queue_integration_idx').on(table.userIntegrationId),
+  claimIdx: index('sync_queue_claim_idx').on(table.status, table.priority, table.scheduledAt),
 }))
 
 // External items tracking (for conflict detection and incremental sync)
@@ -117,11 +129,13 @@ export const externalItems = pgTable('external_items', {
   externalId: text('external_id').notNull(),
   externalService: varchar('external_service', { length: 50 }).notNull(),
   itemType: text('item_type').notNull(), // 'task' | 'event'
-  itemId: uuid('item_id').references(() => tasks.id, { onDelete: 'cascade' }),
+  // Task or event id depending on itemType, so there is no foreign key
+  itemId: uuid('item_id'),
   // External service data
   externalData: json('external_data').$type<Record<string, any>>(),
   lastSyncAt: timestamp('last_sync_at', { withTimezone: true }).defaultNow(),
   lastModifiedAt: timestamp('last_modified_at', { withTimezone: true }),
+  // Tombstone: the item was deleted on one side; it is never re-imported or re-linked
   isDeleted: boolean('is_deleted').default(false),
   version: integer('version').default(1),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -151,7 +165,7 @@ export const integrationAuditLog = pgTable('integration_audit_log', {
 }))
 
 // Import the users table from the main schema
-import { users, tasks } from './schema'
+import { users } from './schema'
 
 // Relations
 export const integrationServicesRelations = relations(integrationServices, ({ many }) => ({
@@ -0,0 +1,14 @@
+import { sql } from 'drizzle-orm'
+import { syncQueue } from '../integrations-schema'
+
+/**
+ * Sync Queue Worker Migration
+ * Adds the index used by workers to claim due queue rows in priority order
+ */
+export async function up() {
+  await sql`CREATE INDEX sync_queue_claim_idx ON ${syncQueue}(status, priority, scheduled_at)`
+}
+
+export async function down() {
+  await sql`DROP INDEX IF EXISTS sync_queue_claim_idx`
+}
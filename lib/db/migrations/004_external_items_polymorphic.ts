@@ -0,0 +1,18 @@
+import { sql } from 'drizzle-orm'
+import { externalItems } from '../integrations-schema'
+
+/**
+ * External Items Link Migration
+ * item_id points at a task or an event depending on item_type, so it cannot
+ * reference tasks. Dropping the key also keeps link rows around after a local
+ * delete, which outbound sync needs to find the external copy.
+ */
+export async function up() {
+  await sql`ALTER TABLE ${externalItems} DROP CONSTRAINT IF EXISTS external_items_item_id_fkey`
+}
+
+export async function down() {
+  await sql`DELETE FROM ${externalItems} WHERE item_type <> 'task' OR item_id NOT IN (SELECT id FROM tasks)`
+  await sql`ALTER TABLE ${externalItems} ADD CONSTRAINT external_items_item_id_fkey
+    FOREIGN KEY (item_id) REFERENCES tasks(id) ON DELETE CASCADE`
+}
@@ -0,0 +1,14 @@
+import { sql } from 'drizzle-orm'
+import { userIntegrations } from '../integrations-schema'
+
+/**
+ * Sync Cursor Migration
+ * Stores the provider checkpoint incremental syncs resume from
+ */
+export async function up() {
+  await sql`ALTER TABLE ${userIntegrations} ADD COLUMN IF NOT EXISTS sync_cursor text`
+}
+
+export async function down() {
+  await sql`ALTER TABLE ${userIntegrations} DROP COLUMN IF EXISTS sync_cursor`
+}
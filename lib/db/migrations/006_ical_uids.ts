@@ -0,0 +1,20 @@
+import { sql } from 'drizzle-orm'
+import { tasks, calendarEvents } from '../schema'
+
+/**
+ * iCalendar UID Migration
+ * Remembers the UID of imported .ics components so re-imports skip them
+ */
+export async function up() {
+  await sql`ALTER TABLE ${tasks} ADD COLUMN IF NOT EXISTS ical_uid text`
+  await sql`ALTER TABLE ${calendarEvents} ADD COLUMN IF NOT EXISTS ical_uid text`
+  await sql`CREATE INDEX IF NOT EXISTS idx_tasks_user_ical_uid ON ${tasks} (user_id, ical_uid)`
+  await sql`CREATE INDEX IF NOT EXISTS idx_calendar_events_user_ical_uid ON ${calendarEvents} (user_id, ical_uid)`
+}
+
+export async function down() {
+  await sql`DROP INDEX IF EXISTS idx_calendar_events_user_ical_uid`
+  await sql`DROP INDEX IF EXISTS idx_tasks_user_ical_uid`
+  await sql`ALTER TABLE ${calendarEvents} DROP COLUMN IF EXISTS ical_uid`
+  await sql`ALTER TABLE ${tasks} DROP COLUMN IF EXISTS ical_uid`
+}
@@ -0,0 +1,29 @@
+import { sql } from 'drizzle-orm'
+import { calendarFeeds } from '../schema'
+
+/**
+ * Calendar Feed Migration
+ * Secret-token .ics subscriptions, optionally limited to a category or tags
+ */
+export async function up() {
+  await sql`CREATE TABLE IF NOT EXISTS ${calendarFeeds} (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name text NOT NULL DEFAULT 'DayFlow',
+    token text NOT NULL UNIQUE,
+    user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+    tag_ids json DEFAULT '[]'::json,
+    include_tasks boolean NOT NULL DEFAULT true,
+    last_accessed_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  )`
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON ${calendarFeeds} (user_id)`
+}
+
+export async function down() {
+  await sql`DROP INDEX IF EXISTS idx_calendar_feeds_user_id`
+  await sql`DROP TABLE IF EXISTS ${calendarFeeds}`
+}
@@ -0,0 +1,30 @@
+import { sql } from 'drizzle-orm'
+import { recurrenceExceptions } from '../schema'
+
+/**
+ * Recurrence Exceptions Migration
+ * Skipped and overridden single occurrences of recurring events and tasks
+ */
+export async function up() {
+  await sql`CREATE TABLE IF NOT EXISTS ${recurrenceExceptions} (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    event_id uuid REFERENCES calendar_events(id) ON DELETE CASCADE,
+    task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+    original_start timestamptz NOT NULL,
+    is_skipped boolean NOT NULL DEFAULT false,
+    overrides json DEFAULT '{}'::json,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT recurrence_exceptions_one_parent CHECK ((event_id IS NULL) <> (task_id IS NULL))
+  )`
+
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_recurrence_exceptions_event_occurrence ON ${recurrenceExceptions} (event_id, original_start)`
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_recurrence_exceptions_task_occurrence ON ${recurrenceExceptions} (task_id, original_start)`
+}
+
+export async function down() {
+  await sql`DROP INDEX IF EXISTS idx_recurrence_exceptions_task_occurrence`
+  await sql`DROP INDEX IF EXISTS idx_recurrence_exceptions_event_occurrence`
+  await sql`DROP TABLE IF EXISTS ${recurrenceExceptions}`
+}
@@ -0,0 +1,24 @@
+import { sql } from 'drizzle-orm'
+import { taskCompletions } from '../schema'
+
+/**
+ * Task Completions Migration
+ * History of finished occurrences of recurring tasks
+ */
+export async function up() {
+  await sql`CREATE TABLE IF NOT EXISTS ${taskCompletions} (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    task_id uuid REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+    occurrence_date timestamptz NOT NULL,
+    completed_at timestamptz NOT NULL,
+    created_at timestamptz DEFAULT now()
+  )`
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_task_completions_task_id ON ${taskCompletions} (task_id, completed_at)`
+}
+
+export async function down() {
+  await sql`DROP INDEX IF EXISTS idx_task_completions_task_id`
+  await sql`DROP TABLE IF EXISTS ${taskCompletions}`
+}
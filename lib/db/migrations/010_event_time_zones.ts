@@ -0,0 +1,14 @@
+import { sql } from 'drizzle-orm'
+import { calendarEvents } from '../schema'
+
+/**
+ * Event Time Zones Migration
+ * IANA zone each event was scheduled in
+ */
+export async function up() {
+  await sql`ALTER TABLE ${calendarEvents} ADD COLUMN IF NOT EXISTS time_zone text`
+}
+
+export async function down() {
+  await sql`ALTER TABLE ${calendarEvents} DROP COLUMN IF EXISTS time_zone`
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, boolean, uuid, integer, json } from 'drizzle-orm/pg-core'
+import { pgTable, text, timestamp, boolean, uuid, integer, json, uniqueIndex } from 'drizzle-orm/pg-core'
 import { relations } from 'drizzle-orm'
 
 // Users table
@@ -58,6 +58,14 @@ export const tasks = pgTable('tasks', {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    // Stop after this many occurrences
+    count?: number
+    // Monthly/yearly days of the month; negative counts from the end (-1 = last day)
+    daysOfMonth?: number[]
+    // With daysOfWeek on monthly/yearly rules: 2 = second, -1 = last (e.g. 2nd Tuesday)
+    weekOfMonth?: number
+    // What completing the task rolls forward from (default due_date)
+    repeatFrom?: 'due_date' | 'completion_date'
   }>().default({ type: 'none' }),
   reminder: json('reminder').$type<{
     enabled: boolean
@@ -65,6 +73,7 @@ export const tasks = pgTable('tasks', {
   }>().default({ enabled: false, minutesBefore: 15 }),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   categoryId: uuid('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  icalUid: text('ical_uid'), // UID of the .ics component this was imported from
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
@@ -76,6 +85,7 @@ export const calendarEvents = pgTable('calendar_events', {
   description: text('description'),
   startTime: timestamp('start_time', { withTimezone: true }).notNull(),
   endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  timeZone: text('time_zone'), // IANA zone the event was scheduled in; recurrences follow its clock
   isAllDay: boolean('is_all_day').default(false),
   location: text('location'),
   meetingUrl: text('meeting_url'),
@@ -89,6 +99,9 @@ export const calendarEvents = pgTable('calendar_events', {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
   }>().default({ type: 'none' }),
   reminder: json('reminder').$type<{
     enabled: boolean
@@ -96,6 +109,7 @@ export const calendarEvents = pgTable('calendar_events', {
   }>().default({ enabled: false, minutesBefore: 15 }),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   categoryId: uuid('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  icalUid: text('ical_uid'), // UID of the .ics component this was imported from
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
@@ -124,6 +138,58 @@ export const eventTags = pgTable('event_tags', {
   },
 }))
 
+// Recurrence exceptions table - skipped or changed single occurrences of a
+// recurring event or task. Exactly one of eventId/taskId is set.
+export const recurrenceExceptions = pgTable('recurrence_exceptions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  eventId: uuid('event_id').references(() => calendarEvents.id, { onDelete: 'cascade' }),
+  taskId: uuid('task_id').references(() => tasks.id, { onDelete: 'cascade' }),
+  originalStart: timestamp('original_start', { withTimezone: true }).notNull(), // start the rule generated
+  isSkipped: boolean('is_skipped').notNull().default(false),
+  overrides: json('overrides').$type<{
+    title?: string
+    description?: string | null
+    location?: string | null
+    startTime?: string
+    endTime?: string
+    isAllDay?: boolean
+    priority?: 'low' | 'medium' | 'high' | 'urgent'
+    status?: 'pending' | 'in_progress' | 'completed' | 'cancelled'
+  }>().default({}),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  eventOccurrenceIdx: uniqueIndex('idx_recurrence_exceptions_event_occurrence').on(table.eventId, table.originalStart),
+  taskOccurrenceIdx: uniqueIndex('idx_recurrence_exceptions_task_occurrence').on(table.taskId, table.originalStart),
+}))
+
+// Task completions table - history of finished occurrences of recurring
+// tasks, which roll forward to their next due date when completed
+export const taskCompletions = pgTable('task_completions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  taskId: uuid('task_id').references(() => tasks.id, { onDelete: 'cascade' }).notNull(),
+  occurrenceDate: timestamp('occurrence_date', { withTimezone: true }).notNull(), // due (or start) of the finished occurrence
+  completedAt: timestamp('completed_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+})
+
+// Calendar feeds table - secret subscription URLs for other calendar apps
+export const calendarFeeds = pgTable('calendar_feeds', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull().default('DayFlow'),
+  token: text('token').unique().notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  categoryId: uuid('category_id').references(() => categories.id, { onDelete: 'cascade' }),
+  tagIds: json('tag_ids').$type<string[]>().default([]),
+  includeTasks: boolean('include_tasks').notNull().default(true),
+  lastAccessedAt: timestamp('last_accessed_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
 // Task relations
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
   user: one(users, {
@@ -135,6 +201,7 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [categories.id],
   }),
   tags: many(taskTags),
+  completions: many(taskCompletions),
 }))
 
 // Calendar events relations
@@ -193,12 +260,42 @@ export const eventTagsRelations = relations(eventTags, ({ one }) => ({
   }),
 }))
 
+export const recurrenceExceptionsRelations = relations(recurrenceExceptions, ({ one }) => ({
+  event: one(calendarEvents, {
+    fields: [recurrenceExceptions.eventId],
+    references: [calendarEvents.id],
+  }),
+  task: one(tasks, {
+    fields: [recurrenceExceptions.taskId],
+    references: [tasks.id],
+  }),
+}))
+
+export const taskCompletionsRelations = relations(taskCompletions, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskCompletions.taskId],
+    references: [tasks.id],
+  }),
+}))
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [calendarFeeds.categoryId],
+    references: [categories.id],
+  }),
+}))
+
 // Users relations
 export const usersRelations = relations(users, ({ many }) => ({
   tasks: many(tasks),
   calendarEvents: many(calendarEvents),
   categories: many(categories),
   tags: many(tags),
+  calendarFeeds: many(calendarFeeds),
 }))
 
 // Export table types first (before sql helper to avoid circular dependencies)
@@ -208,6 +305,12 @@ export type Task = typeof tasks.$inferSelect
 export type TaskInsert = typeof tasks.$inferInsert
 export type CalendarEvent = typeof calendarEvents.$inferSelect
 export type CalendarEventInsert = typeof calendarEvents.$inferInsert
+export type RecurrenceException = typeof recurrenceExceptions.$inferSelect
+export type RecurrenceExceptionInsert = typeof recurrenceExceptions.$inferInsert
+export type TaskCompletion = typeof taskCompletions.$inferSelect
+export type TaskCompletionInsert = typeof taskCompletions.$inferInsert
+export type CalendarFeed = typeof calendarFeeds.$inferSelect
+export type CalendarFeedInsert = typeof calendarFeeds.$inferInsert
 
 // Export drizzle-orm types
 export type { InferSelectModel, InferInsertModel } from 'drizzle-orm'
@@ -224,4 +327,7 @@ export const Tables = {
   tags,
   taskTags,
   eventTags,
+  recurrenceExceptions,
+  taskCompletions,
+  calendarFeeds,
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+/**
+ * Event Layout
+ * Places overlapping events side by side in a day column, the way Google
+ * Calendar does:
+ *
+ * - events that overlap, directly or through a chain of others, form a cluster
+ * - each event takes the leftmost lane that is free when it starts, and the
+ *   cluster is split into as many lanes as it needed
+ * - an event then widens into the lanes to its right that stay free for its
+ *   whole length, so a lone late meeting does not stay a narrow sliver
+ *
+ * Positions are fractions of the column width, independent of pixels.
+ *
+ * All-day and multi-day events go in a lane above the columns instead, as
+ * bars spanning the days they cover, stacked into as few rows as fit.
+ */
+
+interface TimedItem {
+  id: string
+  startTime?: Date | string | null
+  endTime?: Date | string | null
+}
+
+export interface EventPlacement<T extends TimedItem = TimedItem> {
+  event: T
+  // Lane the event starts in, counted from the left
+  lane: number
+  // Lanes the event covers, at least one
+  span: number
+  // Lanes its cluster is divided into
+  lanes: number
+  // Offset and width as fractions of the column, e.g. 0.5 and 0.25
+  left: number
+  width: number
+}
+
+export interface EventLayoutOptions {
+  // Events drawn taller than their length (a minimum height) take this much
+  // time on screen, so a 5-minute event still pushes its neighbours aside
+  minDurationMinutes?: number
+}
+
+export interface AllDayBar<T extends TimedItem = TimedItem> {
+  event: T
+  // First shown day the event covers, and how many shown days it covers
+  column: number
+  span: number
+  // Row in the lane, counted from the top
+  row: number
+  // Whether the event runs on before the first or after the last shown day
+  continuesBefore: boolean
+  continuesAfter: boolean
+}
+
+interface TimedSpan<T> {
+  event: T
+  start: number
+  end: number
+  lane: number
+}
+
+export class EventLayout {
+  // Events without both times are not part of the timeline and are left out
+  static layout<T extends TimedItem>(events: T[], options: EventLayoutOptions = {}): EventPlacement<T>[] {
+    const minDuration = (options.minDurationMinutes ?? 0) * 60 * 1000
+    const items: TimedSpan<T>[] = events
+      .filter(event => event.startTime && event.endTime)
+      .map(event => {
+        const start = new Date(event.startTime!).getTime()
+        const end = new Date(event.endTime!).getTime()
+        return { event, start, end: Math.max(end, start + minDuration), lane: 0 }
+      })
+      // Longer events first among those starting together, so they get the left lanes
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+
+    const placements: EventPlacement<T>[] = []
+    let cluster: TimedSpan<T>[] = []
+    let clusterEnd = -Infinity
+
+    for (const item of items) {
+      if (item.start >= clusterEnd && cluster.length > 0) {
+        placements.push(...EventLayout.placeCluster(cluster))
+        cluster = []
+      }
+      cluster.push(item)
+      clusterEnd = cluster.length === 1 ? item.end : Math.max(clusterEnd, item.end)
+    }
+    if (cluster.length > 0) {
+      placements.push(...EventLayout.placeCluster(cluster))
+    }
+
+    return placements
+  }
+
+  /**
+   * Bars for the all-day lane. `days` are the shown days in order, each from
+   * its start up to the next day's start; days left out (hidden weekends)
+   * simply split nothing, the bar covers the shown days it touches.
+   */
+  static allDayBars<T extends TimedItem>(events: T[], days: Array<{ start: Date; end: Date }>): AllDayBar<T>[] {
+    const bars = events
+      .filter(event => event.startTime && event.endTime)
+      .flatMap(event => {
+        const start = new Date(event.startTime!).getTime()
+        // Zero-length items still mark the day they are on
+        const end = Math.max(new Date(event.endTime!).getTime(), start + 1)
+        const covered = days
+          .map((day, index) => (start < day.end.getTime() && day.start.getTime() < end ? index : -1))
+          .filter(index => index !== -1)
+        if (covered.length === 0) return []
+
+        const first = covered[0]
+        const last = covered[covered.length - 1]
+        return [{
+          event,
+          column: first,
+          span: last - first + 1,
+          row: 0,
+          continuesBefore: start < days[first].start.getTime(),
+          continuesAfter: end > days[last].end.getTime(),
+        }]
+      })
+      // Longer bars first among those starting together, so they sit on top
+      .sort((a, b) => a.column - b.column || b.span - a.span)
+
+    // Column after the last bar in each row
+    const rowEnds: number[] = []
+    for (const bar of bars) {
+      const free = rowEnds.findIndex(end => end <= bar.column)
+      bar.row = free === -1 ? rowEnds.length : free
+      rowEnds[bar.row] = bar.column + bar.span
+    }
+
+    return bars
+  }
+
+  private static placeCluster<T extends TimedItem>(cluster: TimedSpan<T>[]): EventPlacement<T>[] {
+    // End of the last event in each lane
+    const laneEnds: number[] = []
+    for (const item of cluster) {
+      const free = laneEnds.findIndex(end => end <= item.start)
+      item.lane = free === -1 ? laneEnds.length : free
+      laneEnds[item.lane] = item.end
+    }
+
+    const lanes = laneEnds.length
+    return cluster.map(item => {
+      let covered = 1
+      while (
+        item.lane + covered < lanes &&
+        !cluster.some(other =>
+          other.lane === item.lane + covered && other.start < item.end && item.start < other.end
+        )
+      ) {
+        covered++
+      }
+
+      return {
+        event: item.event,
+        lane: item.lane,
+        span: covered,
+        lanes,
+        left: item.lane / lanes,
+        width: covered / lanes,
+      }
+    })
+  }
+}
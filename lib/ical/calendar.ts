@@ -0,0 +1,416 @@
+/**
+ * iCalendar Documents
+ * Typed reading and writing of VEVENT/VTODO components on top of the content-line tree
+ */
+
+import {
+  ICalComponent,
+  ICalProperty,
+  ICalAlarm,
+  ICalAttendee,
+  ICalEvent,
+  ICalTodo,
+  ICalEventInput,
+  ICalTodoInput,
+  ICalReadOptions,
+  ICalRecurrenceRule,
+  ICalParseError
+} from './types'
+import { ICalParser } from './parser'
+import { ICalSerializer } from './serializer'
+import { ICalTimeZone } from './timezone'
+import { TimeZones } from '../timezone'
+
+// Properties always rewritten; the rest are only replaced when the input sets
+// their field, so whatever another client wrote survives an update
+const EVENT_PROPERTIES = ['DTSTAMP', 'SEQUENCE', 'SUMMARY', 'DTSTART', 'DTEND', 'DURATION']
+const OPTIONAL_EVENT_PROPERTIES: Record<string, keyof ICalEventInput> = {
+  DESCRIPTION: 'description',
+  LOCATION: 'location',
+  STATUS: 'status',
+  ATTENDEE: 'attendees',
+  CATEGORIES: 'categories',
+  RRULE: 'recurrence',
+  EXDATE: 'exceptionDates',
+  'RECURRENCE-ID': 'recurrenceId'
+}
+
+const TODO_PROPERTIES = ['DTSTAMP', 'SEQUENCE', 'SUMMARY', 'DTSTART', 'DUE', 'COMPLETED', 'STATUS']
+const OPTIONAL_TODO_PROPERTIES: Record<string, keyof ICalTodoInput> = {
+  DESCRIPTION: 'description',
+  PRIORITY: 'priority',
+  'PERCENT-COMPLETE': 'percentComplete',
+  CATEGORIES: 'categories',
+  RRULE: 'recurrence'
+}
+
+// Statuses DayFlow attendees use, mapped to PARTSTAT
+const PARTSTAT: Record<string, string> = {
+  pending: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED'
+}
+
+type Reader = ReturnType<typeof ICalendar['reader']>
+
+export class ICalendar {
+  static parse(text: string): ICalComponent {
+    return ICalParser.parse(text)
+  }
+
+  static serialize(component: ICalComponent): string {
+    return ICalSerializer.serialize(component)
+  }
+
+  static createCalendar(prodId: string, components: ICalComponent[] = []): ICalComponent {
+    return ICalendar.withTimeZones({
+      name: 'VCALENDAR',
+      properties: [
+        ICalendar.property('VERSION', '2.0'),
+        ICalendar.property('PRODID', prodId),
+        ICalendar.property('CALSCALE', 'GREGORIAN')
+      ],
+      components
+    })
+  }
+
+  /**
+   * Add a VTIMEZONE for every TZID the calendar's components use and do not
+   * define yet (RFC 5545 3.6.5). The rules start in the year of the earliest
+   * value written in the zone.
+   */
+  static withTimeZones(calendar: ICalComponent): ICalComponent {
+    const defined = new Set(
+      calendar.components
+        .filter(child => child.name === 'VTIMEZONE')
+        .map(child => ICalendar.find(child, 'TZID')?.value)
+    )
+    const firstYears = new Map<string, number>()
+
+    for (const child of calendar.components) {
+      for (const property of child.properties) {
+        const tzid = property.params.TZID
+        if (typeof tzid !== 'string' || defined.has(tzid) || !TimeZones.isValid(tzid)) continue
+
+        const year = Number(property.value.slice(0, 4)) || new Date().getUTCFullYear()
+        firstYears.set(tzid, Math.min(year, firstYears.get(tzid) ?? year))
+      }
+    }
+
+    if (firstYears.size === 0) return calendar
+
+    const vtimezones = [...firstYears].map(([tzid, year]) => ICalTimeZone.toComponent(tzid, year))
+    return { ...calendar, components: [...vtimezones, ...calendar.components] }
+  }
+
+  static readEvents(calendar: ICalComponent, options: ICalReadOptions = {}): ICalEvent[] {
+    const read = ICalendar.reader(calendar, options)
+    const events: ICalEvent[] = []
+
+    for (const component of calendar.components.filter(child => child.name === 'VEVENT')) {
+      const uid = read.text(component, 'UID')
+      const start = read.date(component, 'DTSTART')
+      // UID and DTSTART are required; anything without them cannot be synced
+      if (!uid || !start) continue
+
+      events.push({
+        uid,
+        summary: read.text(component, 'SUMMARY') ?? '',
+        description: read.text(component, 'DESCRIPTION'),
+        location: read.text(component, 'LOCATION'),
+        url: read.text(component, 'URL'),
+        start: start.date,
+        end: ICalendar.readEnd(component, read, start.date, start.isDate),
+        isAllDay: start.isDate,
+        timeZone: start.tzid,
+        status: read.text(component, 'STATUS')?.toLowerCase(),
+        transparency: read.text(component, 'TRANSP')?.toLowerCase(),
+        sequence: Number(read.text(component, 'SEQUENCE')) || 0,
+        lastModified: read.date(component, 'LAST-MODIFIED')?.date,
+        organizer: ICalendar.findAll(component, 'ORGANIZER').map(ICalendar.readAttendee)[0],
+        attendees: ICalendar.findAll(component, 'ATTENDEE').map(ICalendar.readAttendee),
+        categories: read.list(component, 'CATEGORIES'),
+        recurrence: read.rule(component),
+        exceptionDates: read.dates(component, 'EXDATE'),
+        recurrenceId: read.date(component, 'RECURRENCE-ID')?.date,
+        alarms: read.alarms(component)
+      })
+    }
+
+    return events
+  }
+
+  static readTodos(calendar: ICalComponent, options: ICalReadOptions = {}): ICalTodo[] {
+    const read = ICalendar.reader(calendar, options)
+    const todos: ICalTodo[] = []
+
+    for (const component of calendar.components.filter(child => child.name === 'VTODO')) {
+      const uid = read.text(component, 'UID')
+      if (!uid) continue
+
+      const start = read.date(component, 'DTSTART')
+      const due = read.date(component, 'DUE')
+      const priority = Number(read.text(component, 'PRIORITY'))
+      const percentComplete = Number(read.text(component, 'PERCENT-COMPLETE'))
+
+      todos.push({
+        uid,
+        summary: read.text(component, 'SUMMARY') ?? '',
+        description: read.text(component, 'DESCRIPTION'),
+        start: start?.date,
+        due: due?.date,
+        completed: read.date(component, 'COMPLETED')?.date,
+        isAllDay: (due ?? start)?.isDate ?? false,
+        status: read.text(component, 'STATUS')?.toLowerCase(),
+        // 0 means undefined priority
+        priority: priority > 0 ? priority : undefined,
+        percentComplete: isNaN(percentComplete) ? undefined : percentComplete,
+        sequence: Number(read.text(component, 'SEQUENCE')) || 0,
+        lastModified: read.date(component, 'LAST-MODIFIED')?.date,
+        categories: read.list(component, 'CATEGORIES'),
+        recurrence: read.rule(component),
+        recurrenceId: read.date(component, 'RECURRENCE-ID')?.date,
+        alarms: read.alarms(component)
+      })
+    }
+
+    return todos
+  }
+
+  /**
+   * Build a VEVENT. With `existing`, only the properties this input covers are
+   * replaced; alarms, X- properties and fields left undefined are kept.
+   */
+  static writeEvent(event: ICalEventInput, existing?: ICalComponent): ICalComponent {
+    const managed = ICalendar.managedProperties(EVENT_PROPERTIES, OPTIONAL_EVENT_PROPERTIES, event)
+    const component = ICalendar.startWrite('VEVENT', event.uid, managed, existing)
+    const set = (name: string, value?: string, params: ICalProperty['params'] = {}) => {
+      if (value !== undefined && value !== '') component.properties.push(ICalendar.property(name, value, params))
+    }
+    // Timed events in a zone keep their clock time there, so repeats follow its DST
+    const timeZone = !event.isAllDay && TimeZones.isValid(event.timeZone) && event.timeZone !== 'UTC'
+      ? event.timeZone
+      : undefined
+    const dateParams: ICalProperty['params'] = event.isAllDay ? { VALUE: 'DATE' } : timeZone ? { TZID: timeZone } : {}
+    const formatDate = (date: Date) => timeZone
+      ? ICalSerializer.formatLocalDate(date, timeZone)
+      : ICalSerializer.formatDate(date, event.isAllDay)
+
+    set('DTSTART', formatDate(event.start), dateParams)
+    set('DTEND', formatDate(event.end), dateParams)
+    if (event.recurrenceId) {
+      set('RECURRENCE-ID', formatDate(event.recurrenceId), dateParams)
+    }
+    set('SUMMARY', ICalSerializer.escapeText(event.summary))
+    set('DESCRIPTION', event.description && ICalSerializer.escapeText(event.description))
+    set('LOCATION', event.location && ICalSerializer.escapeText(event.location))
+    set('STATUS', event.status?.toUpperCase())
+    set('CATEGORIES', event.categories?.map(ICalSerializer.escapeText).join(','))
+
+    for (const attendee of event.attendees ?? []) {
+      const status = attendee.status ? PARTSTAT[attendee.status] ?? attendee.status.toUpperCase() : 'NEEDS-ACTION'
+      set('ATTENDEE', `mailto:${attendee.email}`, {
+        CN: attendee.name || attendee.email,
+        ROLE: (attendee.role || 'req-participant').toUpperCase(),
+        PARTSTAT: status,
+        RSVP: attendee.rsvp === false ? 'FALSE' : 'TRUE'
+      })
+    }
+
+    if (event.recurrence) {
+      set('RRULE', ICalSerializer.formatRecurrenceRule(event.recurrence, event.isAllDay))
+    }
+    if (event.exceptionDates?.length) {
+      set('EXDATE', event.exceptionDates.map(formatDate).join(','), dateParams)
+    }
+
+    return component
+  }
+
+  /**
+   * Add or replace the override of one occurrence of a recurring event. The
+   * override shares the master's UID and is keyed by its RECURRENCE-ID.
+   */
+  static writeOverride(calendar: ICalComponent, event: ICalEventInput & { recurrenceId: Date }): ICalComponent {
+    const existing = ICalendar.findOverride(calendar, event.uid, event.recurrenceId)
+    const component = ICalendar.writeEvent(event, existing)
+
+    return ICalendar.withTimeZones({
+      ...calendar,
+      components: existing
+        ? calendar.components.map(child => (child === existing ? component : child))
+        : [...calendar.components, component]
+    })
+  }
+
+  // Cancel one occurrence: an EXDATE on the master, and no override for it
+  static excludeOccurrence(calendar: ICalComponent, uid: string, recurrenceId: Date): ICalComponent {
+    const read = ICalendar.reader(calendar, {})
+    const override = ICalendar.findOverride(calendar, uid, recurrenceId)
+
+    return {
+      ...calendar,
+      components: calendar.components
+        .filter(child => child !== override)
+        .map(child => {
+          if (child.name !== 'VEVENT' || read.text(child, 'UID') !== uid || ICalendar.find(child, 'RECURRENCE-ID')) return child
+
+          const isAllDay = read.date(child, 'DTSTART')?.isDate ?? false
+          const exdate = ICalendar.property('EXDATE', ICalSerializer.formatDate(recurrenceId, isAllDay), isAllDay ? { VALUE: 'DATE' } : {})
+          return { ...child, properties: [...child.properties, exdate] }
+        })
+    }
+  }
+
+  static writeTodo(todo: ICalTodoInput, existing?: ICalComponent): ICalComponent {
+    const managed = ICalendar.managedProperties(TODO_PROPERTIES, OPTIONAL_TODO_PROPERTIES, todo)
+    const component = ICalendar.startWrite('VTODO', todo.uid, managed, existing)
+    const set = (name: string, value?: string, params: ICalProperty['params'] = {}) => {
+      if (value !== undefined && value !== '') component.properties.push(ICalendar.property(name, value, params))
+    }
+    const dateParams: ICalProperty['params'] = todo.isAllDay ? { VALUE: 'DATE' } : {}
+
+    if (todo.start) set('DTSTART', ICalSerializer.formatDate(todo.start, todo.isAllDay), dateParams)
+    if (todo.due) set('DUE', ICalSerializer.formatDate(todo.due, todo.isAllDay), dateParams)
+    if (todo.completed) set('COMPLETED', ICalSerializer.formatDate(todo.completed))
+    set('SUMMARY', ICalSerializer.escapeText(todo.summary))
+    set('DESCRIPTION', todo.description && ICalSerializer.escapeText(todo.description))
+    set('STATUS', todo.status?.toUpperCase())
+    if (todo.priority !== undefined) set('PRIORITY', String(todo.priority))
+    if (todo.percentComplete !== undefined) set('PERCENT-COMPLETE', String(todo.percentComplete))
+    set('CATEGORIES', todo.categories?.map(ICalSerializer.escapeText).join(','))
+    if (todo.recurrence) set('RRULE', ICalSerializer.formatRecurrenceRule(todo.recurrence, todo.isAllDay))
+
+    return component
+  }
+
+  static property(name: string, value: string, params: ICalProperty['params'] = {}): ICalProperty {
+    return { name, params, value }
+  }
+
+  static find(component: ICalComponent, name: string): ICalProperty | undefined {
+    return component.properties.find(property => property.name === name)
+  }
+
+  static findAll(component: ICalComponent, name: string): ICalProperty[] {
+    return component.properties.filter(property => property.name === name)
+  }
+
+  private static managedProperties<T extends object>(always: string[], optional: Record<string, keyof T>, input: T): string[] {
+    return [
+      ...always,
+      ...Object.entries(optional).filter(([, field]) => input[field] !== undefined).map(([name]) => name)
+    ]
+  }
+
+  private static startWrite(name: string, uid: string, managed: string[], existing?: ICalComponent): ICalComponent {
+    const sequence = existing ? (Number(ICalendar.find(existing, 'SEQUENCE')?.value) || 0) + 1 : 0
+    const kept = existing?.properties.filter(property => property.name !== 'UID' && !managed.includes(property.name)) ?? []
+
+    return {
+      name,
+      properties: [
+        ICalendar.property('UID', uid),
+        ICalendar.property('DTSTAMP', ICalSerializer.formatDate(new Date())),
+        ...(existing ? [ICalendar.property('SEQUENCE', String(sequence))] : []),
+        ...kept
+      ],
+      components: existing?.components ?? []
+    }
+  }
+
+  private static findOverride(calendar: ICalComponent, uid: string, recurrenceId: Date): ICalComponent | undefined {
+    const read = ICalendar.reader(calendar, {})
+    return calendar.components.find(child =>
+      child.name === 'VEVENT' &&
+      read.text(child, 'UID') === uid &&
+      read.date(child, 'RECURRENCE-ID')?.date.getTime() === recurrenceId.getTime()
+    )
+  }
+
+  private static readEnd(component: ICalComponent, read: Reader, start: Date, isDate: boolean): Date {
+    const end = read.date(component, 'DTEND')
+    if (end) return end.date
+
+    const duration = read.text(component, 'DURATION')
+    if (duration) return new Date(start.getTime() + ICalParser.parseDuration(duration) * 1000)
+
+    // RFC 5545 3.6.1: a DATE start without an end lasts one day, a DATE-TIME start is instantaneous
+    return isDate ? new Date(start.getTime() + 86400000) : start
+  }
+
+  private static readAttendee(property: ICalProperty): ICalAttendee {
+    const param = (name: string) => (typeof property.params[name] === 'string' ? property.params[name] as string : undefined)
+    const email = param('EMAIL') ?? property.value.replace(/^mailto:/i, '')
+
+    return {
+      email,
+      name: param('CN'),
+      status: (param('PARTSTAT') ?? 'NEEDS-ACTION').toLowerCase(),
+      role: (param('ROLE') ?? 'REQ-PARTICIPANT').toLowerCase(),
+      rsvp: param('RSVP')?.toUpperCase() === 'TRUE'
+    }
+  }
+
+  // Value readers bound to the calendar's VTIMEZONEs and the fallback zone
+  private static reader(calendar: ICalComponent, options: ICalReadOptions) {
+    const timezones = new Map<string, ICalComponent>()
+    for (const vtimezone of calendar.components.filter(child => child.name === 'VTIMEZONE')) {
+      const tzid = ICalendar.find(vtimezone, 'TZID')?.value
+      if (tzid) timezones.set(tzid, vtimezone)
+    }
+
+    const text = (component: ICalComponent, name: string) => {
+      const property = ICalendar.find(component, name)
+      return property ? ICalParser.unescapeText(property.value) : undefined
+    }
+
+    const date = (component: ICalComponent, name: string) => {
+      const property = ICalendar.find(component, name)
+      return property ? ICalParser.parseDate(property.value, property.params, timezones, options.timeZone) : undefined
+    }
+
+    return {
+      text,
+      date,
+      dates: (component: ICalComponent, name: string): Date[] =>
+        ICalendar.findAll(component, name).flatMap(property =>
+          ICalParser.splitList(property.value).map(value =>
+            ICalParser.parseDate(value, property.params, timezones, options.timeZone).date
+          )
+        ),
+      list: (component: ICalComponent, name: string): string[] =>
+        ICalendar.findAll(component, name).flatMap(property =>
+          ICalParser.splitList(property.value).map(ICalParser.unescapeText)
+        ),
+      rule: (component: ICalComponent): ICalRecurrenceRule | undefined => {
+        const property = ICalendar.find(component, 'RRULE')
+        return property ? ICalParser.parseRecurrenceRule(property.value, timezones, options.timeZone) : undefined
+      },
+      alarms: (component: ICalComponent): ICalAlarm[] =>
+        component.components.filter(child => child.name === 'VALARM').flatMap(alarm => {
+          const trigger = ICalendar.find(alarm, 'TRIGGER')
+          if (!trigger) return []
+
+          try {
+            const isAbsolute = trigger.params.VALUE === 'DATE-TIME' || /^\d{8}T/.test(trigger.value)
+            return [{
+              action: (text(alarm, 'ACTION') ?? 'display').toLowerCase(),
+              trigger: isAbsolute
+                ? { type: 'absolute' as const, date: ICalParser.parseDate(trigger.value, trigger.params, timezones).date }
+                : {
+                    type: 'relative' as const,
+                    seconds: ICalParser.parseDuration(trigger.value),
+                    related: trigger.params.RELATED === 'END' ? 'end' as const : 'start' as const
+                  },
+              description: text(alarm, 'DESCRIPTION')
+            }]
+          } catch (error) {
+            // A broken alarm should not hide the event it belongs to
+            if (error instanceof ICalParseError) return []
+            throw error
+          }
+        })
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * iCalendar (RFC 5545)
+ * Shared parser and serializer for CalDAV integrations and .ics files
+ */
+
+export * from './types'
+export { ICalParser } from './parser'
+export { ICalSerializer } from './serializer'
+export { ICalTimeZone } from './timezone'
+export { ICalendar } from './calendar'
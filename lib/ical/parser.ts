@@ -0,0 +1,243 @@
+/**
+ * iCalendar Parser
+ * Parses RFC 5545 text into a component tree and decodes typed values
+ */
+
+import { ICalComponent, ICalProperty, ICalDateValue, ICalRecurrenceRule, ICalFrequency, ICalWeekday, ICalParseError } from './types'
+import { ICalTimeZone } from './timezone'
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const FREQUENCIES: ICalFrequency[] = ['secondly', 'minutely', 'hourly', 'daily', 'weekly', 'monthly', 'yearly']
+
+export class ICalParser {
+  /**
+   * Parse the first VCALENDAR in `text`
+   */
+  static parse(text: string): ICalComponent {
+    const calendar = ICalParser.parseAll(text).find(component => component.name === 'VCALENDAR')
+    if (!calendar) {
+      throw new ICalParseError('No VCALENDAR component found')
+    }
+    return calendar
+  }
+
+  /**
+   * Parse every top-level component; some feeds concatenate several VCALENDARs
+   */
+  static parseAll(text: string): ICalComponent[] {
+    const roots: ICalComponent[] = []
+    const stack: ICalComponent[] = []
+
+    ICalParser.unfold(text).forEach((line, index) => {
+      if (line.trim() === '') return
+
+      const property = ICalParser.parseLine(line)
+      // Lines without a value are invalid; skip them rather than reject the whole feed
+      if (!property) return
+
+      if (property.name === 'BEGIN') {
+        const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] }
+        if (stack.length > 0) {
+          stack[stack.length - 1].components.push(component)
+        } else {
+          roots.push(component)
+        }
+        stack.push(component)
+      } else if (property.name === 'END') {
+        const current = stack.pop()
+        if (!current || current.name !== property.value.toUpperCase()) {
+          throw new ICalParseError(`Unexpected END:${property.value}`, index + 1)
+        }
+      } else if (stack.length > 0) {
+        stack[stack.length - 1].properties.push(property)
+      }
+    })
+
+    if (stack.length > 0) {
+      throw new ICalParseError(`Missing END:${stack[stack.length - 1].name}`)
+    }
+
+    return roots
+  }
+
+  /**
+   * Join folded lines: a line break followed by a space or tab continues the previous line
+   */
+  static unfold(text: string): string[] {
+    return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  }
+
+  /**
+   * Split a content line into name, parameters and raw value
+   */
+  static parseLine(line: string): ICalProperty | null {
+    let index = 0
+    const readUntil = (stops: string) => {
+      const start = index
+      while (index < line.length && !stops.includes(line[index])) index++
+      return line.slice(start, index)
+    }
+
+    const name = readUntil(';:').toUpperCase()
+    const params: ICalProperty['params'] = {}
+
+    while (line[index] === ';') {
+      index++
+      const paramName = readUntil('=;:').toUpperCase()
+      const values: string[] = []
+
+      if (line[index] === '=') {
+        do {
+          index++
+          if (line[index] === '"') {
+            index++
+            values.push(readUntil('"'))
+            index++
+          } else {
+            values.push(readUntil(',;:'))
+          }
+        } while (line[index] === ',')
+      }
+
+      params[paramName] = values.length === 1 ? values[0] : values
+    }
+
+    if (line[index] !== ':' || name === '') {
+      return null
+    }
+
+    return { name, params, value: line.slice(index + 1) }
+  }
+
+  static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+  }
+
+  /**
+   * Split a list value (CATEGORIES, EXDATE) on commas that are not escaped
+   */
+  static splitList(value: string): string[] {
+    return value.split(/(?<!\\),/).filter(item => item !== '')
+  }
+
+  /**
+   * Decode a DATE or DATE-TIME value. Times with a TZID are resolved through the
+   * calendar's VTIMEZONE when present, otherwise as an IANA zone; floating times
+   * use `timeZone` or UTC.
+   */
+  static parseDate(
+    value: string,
+    params: ICalProperty['params'] = {},
+    timezones: Map<string, ICalComponent> = new Map(),
+    timeZone?: string
+  ): ICalDateValue {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+    if (!match) {
+      throw new ICalParseError(`Invalid date value "${value}"`)
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match
+    const local = Date.UTC(
+      Number(year), Number(month) - 1, Number(day),
+      Number(hour || 0), Number(minute || 0), Number(second || 0)
+    )
+
+    if (hour === undefined || params.VALUE === 'DATE') {
+      return { date: new Date(local), isDate: true }
+    }
+
+    if (utc) {
+      return { date: new Date(local), isDate: false }
+    }
+
+    const tzid = typeof params.TZID === 'string' ? params.TZID : undefined
+    if (tzid) {
+      const vtimezone = timezones.get(tzid)
+      const resolved = vtimezone ? ICalTimeZone.resolveWithVTimeZone(local, vtimezone) : null
+      if (resolved) {
+        return { date: resolved, isDate: false, tzid }
+      }
+      // A leading "/" marks a globally unique id, usually an IANA name
+      const ianaName = tzid.replace(/^\//, '')
+      if (ICalTimeZone.isValidTimeZone(ianaName)) {
+        return { date: ICalTimeZone.zonedTimeToUtc(local, ianaName), isDate: false, tzid }
+      }
+    }
+
+    if (timeZone && ICalTimeZone.isValidTimeZone(timeZone)) {
+      return { date: ICalTimeZone.zonedTimeToUtc(local, timeZone), isDate: false }
+    }
+
+    return { date: new Date(local), isDate: false }
+  }
+
+  /**
+   * Decode a DURATION value (e.g. -PT15M, P1DT2H) into seconds
+   */
+  static parseDuration(value: string): number {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+    if (!match) {
+      throw new ICalParseError(`Invalid duration "${value}"`)
+    }
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match
+    const total = Number(weeks || 0) * 604800 +
+      Number(days || 0) * 86400 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)
+
+    return sign === '-' ? -total : total
+  }
+
+  static parseRecurrenceRule(value: string, timezones?: Map<string, ICalComponent>, timeZone?: string): ICalRecurrenceRule {
+    const parts = new Map(value.split(';').map(part => {
+      const [key, ...rest] = part.split('=')
+      return [key.toUpperCase(), rest.join('=')] as [string, string]
+    }))
+
+    const frequency = (parts.get('FREQ') || '').toLowerCase() as ICalFrequency
+    if (!FREQUENCIES.includes(frequency)) {
+      throw new ICalParseError(`Invalid recurrence rule "${value}"`)
+    }
+
+    const numbers = (key: string) => parts.get(key)?.split(',').map(Number).filter(number => !isNaN(number))
+    const rule: ICalRecurrenceRule = {
+      frequency,
+      interval: Number(parts.get('INTERVAL')) || 1
+    }
+
+    const until = parts.get('UNTIL')
+    if (until) rule.until = ICalParser.parseDate(until, {}, timezones, timeZone).date
+
+    const count = Number(parts.get('COUNT'))
+    if (count > 0) rule.count = count
+
+    const byDay = parts.get('BYDAY')?.split(',')
+      .map(ICalParser.parseWeekday)
+      .filter((day): day is ICalWeekday => day !== null)
+    if (byDay?.length) rule.byDay = byDay
+
+    const byMonth = numbers('BYMONTH')
+    if (byMonth?.length) rule.byMonth = byMonth
+
+    const byMonthDay = numbers('BYMONTHDAY')
+    if (byMonthDay?.length) rule.byMonthDay = byMonthDay
+
+    const bySetPos = numbers('BYSETPOS')
+    if (bySetPos?.length) rule.bySetPos = bySetPos
+
+    const weekStart = DAY_CODES.indexOf(parts.get('WKST') || '')
+    if (weekStart >= 0) rule.weekStart = weekStart
+
+    return rule
+  }
+
+  private static parseWeekday(value: string): ICalWeekday | null {
+    const match = value.trim().toUpperCase().match(/^([+-]?\d{1,2})?([A-Z]{2})$/)
+    const weekday = match ? DAY_CODES.indexOf(match[2]) : -1
+    if (!match || weekday < 0) return null
+
+    return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * iCalendar Serializer
+ * Writes a component tree back to RFC 5545 text with escaping and line folding
+ */
+
+import { ICalComponent, ICalProperty, ICalRecurrenceRule } from './types'
+import { TimeZones } from '../timezone'
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+// Content lines are limited to 75 octets excluding the line break
+const MAX_LINE_OCTETS = 75
+
+export class ICalSerializer {
+  static serialize(component: ICalComponent): string {
+    return ICalSerializer.lines(component).map(ICalSerializer.fold).join('\r\n') + '\r\n'
+  }
+
+  static formatProperty(property: ICalProperty): string {
+    const params = Object.entries(property.params).map(([name, value]) => {
+      const values = Array.isArray(value) ? value : [value]
+      return `;${name}=${values.map(ICalSerializer.formatParamValue).join(',')}`
+    })
+    return `${property.name}${params.join('')}:${property.value}`
+  }
+
+  /**
+   * Split a line into 75-octet chunks without breaking a UTF-8 sequence
+   */
+  static fold(line: string): string {
+    const chunks: string[] = []
+    let current = ''
+    let octets = 0
+
+    for (const char of line) {
+      const codePoint = char.codePointAt(0) as number
+      const size = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+      // Continuation lines spend one octet on the leading space
+      const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+      if (octets + size > limit) {
+        chunks.push(current)
+        current = ''
+        octets = 0
+      }
+      current += char
+      octets += size
+    }
+    chunks.push(current)
+
+    return chunks.join('\r\n ')
+  }
+
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n')
+  }
+
+  /**
+   * DATE (YYYYMMDD) or UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+   */
+  static formatDate(date: Date, isDate = false): string {
+    const day = [
+      date.getUTCFullYear(),
+      String(date.getUTCMonth() + 1).padStart(2, '0'),
+      String(date.getUTCDate()).padStart(2, '0')
+    ].join('')
+
+    if (isDate) {
+      return day
+    }
+
+    return `${day}T${[date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+      .map(part => String(part).padStart(2, '0'))
+      .join('')}Z`
+  }
+
+  /**
+   * Local DATE-TIME (YYYYMMDDTHHMMSS) on a zone's clock, for values with a TZID
+   */
+  static formatLocalDate(date: Date, timeZone: string): string {
+    return TimeZones.toLocalISO(date, timeZone).replace(/[-:]/g, '')
+  }
+
+  static formatDuration(seconds: number): string {
+    const sign = seconds < 0 ? '-' : ''
+    let remaining = Math.abs(seconds)
+
+    const days = Math.floor(remaining / 86400)
+    remaining %= 86400
+    const hours = Math.floor(remaining / 3600)
+    remaining %= 3600
+    const minutes = Math.floor(remaining / 60)
+    const secs = remaining % 60
+
+    const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${secs ? `${secs}S` : ''}`
+    if (!days && !time) {
+      return 'PT0S'
+    }
+    return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`
+  }
+
+  static formatRecurrenceRule(rule: ICalRecurrenceRule, isDate = false): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`]
+
+    if (rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`)
+    }
+
+    if (rule.until) {
+      parts.push(`UNTIL=${ICalSerializer.formatDate(rule.until, isDate)}`)
+    } else if (rule.count) {
+      parts.push(`COUNT=${rule.count}`)
+    }
+
+    if (rule.byDay?.length) {
+      parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${DAY_CODES[day.weekday]}`).join(',')}`)
+    }
+
+    if (rule.byMonth?.length) {
+      parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+    }
+
+    if (rule.byMonthDay?.length) {
+      parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+    }
+
+    if (rule.bySetPos?.length) {
+      parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+    }
+
+    if (rule.weekStart !== undefined) {
+      parts.push(`WKST=${DAY_CODES[rule.weekStart]}`)
+    }
+
+    return parts.join(';')
+  }
+
+  private static lines(component: ICalComponent): string[] {
+    return [
+      `BEGIN:${component.name}`,
+      ...component.properties.map(ICalSerializer.formatProperty),
+      ...component.components.flatMap(ICalSerializer.lines),
+      `END:${component.name}`
+    ]
+  }
+
+  // Values containing ":", ";" or "," must be quoted; quotes themselves are not allowed
+  private static formatParamValue(value: string): string {
+    const clean = value.replace(/"/g, "'")
+    return /[:;,]/.test(clean) ? `"${clean}"` : clean
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * iCalendar Time Zones
+ * Resolves local date-times to UTC from VTIMEZONE definitions or IANA zone
+ * names, and writes VTIMEZONEs for the zones DayFlow events are stored in
+ */
+
+import { ICalComponent } from './types'
+import { TimeZones } from '../timezone'
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// Wall-clock fields expressed as a UTC timestamp, e.g. 09:00 local -> Date.UTC(..., 9, 0)
+export type LocalTime = number
+
+export class ICalTimeZone {
+  static isValidTimeZone(timeZone: string): boolean {
+    return TimeZones.isValid(timeZone)
+  }
+
+  /**
+   * Offset of an IANA zone from UTC in milliseconds at the given instant
+   */
+  static getOffset(timeZone: string, date: Date): number {
+    return TimeZones.getOffset(timeZone, date)
+  }
+
+  /**
+   * UTC instant for a wall-clock time in an IANA zone; times skipped by a
+   * DST change use the offset before it, as RFC 5545 asks
+   */
+  static zonedTimeToUtc(local: LocalTime, timeZone: string): Date {
+    const time = new Date(local)
+    return TimeZones.fromWallClock(
+      timeZone,
+      time.getUTCFullYear(), time.getUTCMonth() + 1, time.getUTCDate(),
+      time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds()
+    )
+  }
+
+  /**
+   * UTC instant for a wall-clock time using a VTIMEZONE's STANDARD/DAYLIGHT observances
+   */
+  static resolveWithVTimeZone(local: LocalTime, vtimezone: ICalComponent): Date | null {
+    const observances = vtimezone.components
+      .filter(component => component.name === 'STANDARD' || component.name === 'DAYLIGHT')
+      .map(component => ({
+        start: ICalTimeZone.readLocal(ICalTimeZone.value(component, 'DTSTART')),
+        from: ICalTimeZone.parseOffset(ICalTimeZone.value(component, 'TZOFFSETFROM')),
+        to: ICalTimeZone.parseOffset(ICalTimeZone.value(component, 'TZOFFSETTO')),
+        rrule: ICalTimeZone.value(component, 'RRULE'),
+        rdates: component.properties
+          .filter(property => property.name === 'RDATE')
+          .flatMap(property => property.value.split(','))
+          .map(value => ICalTimeZone.readLocal(value))
+          .filter((value): value is number => value !== null)
+      }))
+      .filter(observance => observance.start !== null && observance.to !== null)
+
+    if (observances.length === 0) {
+      return null
+    }
+
+    let latest: { onset: number; offset: number } | null = null
+    for (const observance of observances) {
+      for (const onset of ICalTimeZone.onsets(observance.start as number, observance.rrule, observance.rdates, local)) {
+        if (onset <= local && (!latest || onset > latest.onset)) {
+          latest = { onset, offset: observance.to as number }
+        }
+      }
+    }
+
+    // Before the first onset the earliest observance's "from" offset applies
+    const offset = latest?.offset ??
+      [...observances].sort((a, b) => (a.start as number) - (b.start as number))[0].from ??
+      (observances[0].to as number)
+
+    return new Date(local - offset)
+  }
+
+  /**
+   * A VTIMEZONE for an IANA zone, for clients that do not know the name. The
+   * STANDARD/DAYLIGHT rules are read off the zone's transitions in `year` and
+   * repeat yearly from then on; zones without DST get a single STANDARD.
+   */
+  static toComponent(timeZone: string, year: number = new Date().getUTCFullYear()): ICalComponent {
+    const transitions = ICalTimeZone.transitions(timeZone, year)
+    const property = (name: string, value: string) => ({ name, params: {}, value })
+    const newYear = new Date(Date.UTC(year, 0, 1))
+    const fixedOffset = ICalTimeZone.formatOffset(TimeZones.getOffset(timeZone, newYear))
+
+    const observances: ICalComponent[] = transitions.length === 0
+      ? [{
+          name: 'STANDARD',
+          properties: [
+            property('DTSTART', '19700101T000000'),
+            property('TZOFFSETFROM', fixedOffset),
+            property('TZOFFSETTO', fixedOffset),
+            property('TZNAME', TimeZones.label(timeZone, newYear))
+          ],
+          components: []
+        }]
+      : transitions.map(transition => {
+          // Onsets are written on the clock in force before the change
+          const onset = new Date(transition.at.getTime() + transition.from)
+          const month = onset.getUTCMonth()
+          const day = onset.getUTCDate()
+          const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+          const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7)
+          const stamp = [
+            onset.getUTCFullYear(), onset.getUTCMonth() + 1, onset.getUTCDate()
+          ].map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0')).join('') + 'T' +
+            [onset.getUTCHours(), onset.getUTCMinutes(), onset.getUTCSeconds()].map(part => String(part).padStart(2, '0')).join('')
+
+          return {
+            name: transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD',
+            properties: [
+              property('DTSTART', stamp),
+              property('RRULE', `FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${ordinal}${DAY_CODES[onset.getUTCDay()]}`),
+              property('TZOFFSETFROM', ICalTimeZone.formatOffset(transition.from)),
+              property('TZOFFSETTO', ICalTimeZone.formatOffset(transition.to)),
+              property('TZNAME', TimeZones.label(timeZone, transition.at))
+            ],
+            components: []
+          }
+        })
+
+    return {
+      name: 'VTIMEZONE',
+      properties: [property('TZID', timeZone)],
+      components: observances
+    }
+  }
+
+  static formatOffset(offset: number): string {
+    const minutes = Math.round(Math.abs(offset) / 60000)
+    const sign = offset < 0 ? '-' : '+'
+    return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`
+  }
+
+  static parseOffset(value?: string): number | null {
+    const match = value?.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/)
+    if (!match) return null
+
+    const sign = match[1] === '-' ? -1 : 1
+    return sign * ((Number(match[2]) * 60 + Number(match[3])) * 60 + Number(match[4] || 0)) * 1000
+  }
+
+  // Offset changes within a year, found day by day and narrowed to the second
+  private static transitions(timeZone: string, year: number): Array<{ at: Date; from: number; to: number }> {
+    const transitions: Array<{ at: Date; from: number; to: number }> = []
+    const dayMs = 24 * 60 * 60 * 1000
+    const end = Date.UTC(year + 1, 0, 1)
+    let previous = Date.UTC(year, 0, 1)
+    let previousOffset = TimeZones.getOffset(timeZone, new Date(previous))
+
+    for (let time = previous + dayMs; time <= end; time += dayMs) {
+      const offset = TimeZones.getOffset(timeZone, new Date(time))
+      if (offset !== previousOffset) {
+        let low = previous
+        let high = time
+        while (high - low > 1000) {
+          const middle = Math.floor((low + high) / 2000) * 1000
+          if (TimeZones.getOffset(timeZone, new Date(middle)) === previousOffset) low = middle
+          else high = middle
+        }
+        transitions.push({ at: new Date(high), from: previousOffset, to: offset })
+      }
+      previous = time
+      previousOffset = offset
+    }
+
+    return transitions
+  }
+
+  private static value(component: ICalComponent, name: string): string | undefined {
+    return component.properties.find(property => property.name === name)?.value
+  }
+
+  private static readLocal(value?: string): LocalTime | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/)
+    if (!match) return null
+
+    return Date.UTC(
+      Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+      Number(match[4] || 0), Number(match[5] || 0), Number(match[6] || 0)
+    )
+  }
+
+  // Transition times of one observance in the years around `local`
+  private static onsets(start: LocalTime, rrule: string | undefined, rdates: LocalTime[], local: LocalTime): LocalTime[] {
+    const onsets = [start, ...rdates]
+    if (!rrule) return onsets
+
+    const parts = Object.fromEntries(rrule.split(';').map(part => part.split('=') as [string, string]))
+    if (parts.FREQ !== 'YEARLY') return onsets
+
+    const until = ICalTimeZone.readLocal(parts.UNTIL)
+    const startDate = new Date(start)
+    const month = parts.BYMONTH ? Number(parts.BYMONTH) - 1 : startDate.getUTCMonth()
+    const year = new Date(local).getUTCFullYear()
+
+    for (const candidateYear of [year - 1, year]) {
+      const day = ICalTimeZone.ruleDay(candidateYear, month, parts.BYDAY, parts.BYMONTHDAY) ?? startDate.getUTCDate()
+      const onset = Date.UTC(
+        candidateYear, month, day,
+        startDate.getUTCHours(), startDate.getUTCMinutes(), startDate.getUTCSeconds()
+      )
+      if (onset >= start && (until === null || onset <= until)) {
+        onsets.push(onset)
+      }
+    }
+
+    return onsets
+  }
+
+  // Day of month for BYDAY=2SU / -1SU, optionally narrowed by BYMONTHDAY=8,9,...,14
+  private static ruleDay(year: number, month: number, byDay?: string, byMonthDay?: string): number | null {
+    const match = byDay?.match(/^([+-]?\d)?([A-Z]{2})$/)
+    if (!match) return byMonthDay ? Number(byMonthDay.split(',')[0]) : null
+
+    const weekday = DAY_CODES.indexOf(match[2])
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    const matches: number[] = []
+    for (let day = 1; day <= daysInMonth; day++) {
+      if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+        matches.push(day)
+      }
+    }
+
+    if (byMonthDay) {
+      const allowed = byMonthDay.split(',').map(Number)
+      return matches.find(day => allowed.includes(day)) ?? null
+    }
+
+    const ordinal = Number(match[1] || 1)
+    return (ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]) ?? null
+  }
+}
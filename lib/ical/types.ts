@@ -0,0 +1,155 @@
+/**
+ * iCalendar Types
+ * Content-line tree and typed views of VEVENT/VTODO (RFC 5545)
+ */
+
+// Raw property; `value` is kept exactly as written so unknown properties round-trip
+export interface ICalProperty {
+  name: string
+  params: Record<string, string | string[]>
+  value: string
+}
+
+export interface ICalComponent {
+  name: string
+  properties: ICalProperty[]
+  components: ICalComponent[]
+}
+
+export interface ICalDateValue {
+  date: Date
+  // VALUE=DATE (all-day) rather than DATE-TIME
+  isDate: boolean
+  // TZID the value was written in; undefined for UTC, floating and DATE values
+  tzid?: string
+}
+
+export type ICalFrequency = 'secondly' | 'minutely' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+export interface ICalWeekday {
+  // 0 = Sunday, matching Date#getDay
+  weekday: number
+  // 2 in BYDAY=2MO, -1 in BYDAY=-1FR
+  ordinal?: number
+}
+
+export interface ICalRecurrenceRule {
+  frequency: ICalFrequency
+  interval: number
+  until?: Date
+  count?: number
+  byDay?: ICalWeekday[]
+  byMonth?: number[]
+  byMonthDay?: number[]
+  bySetPos?: number[]
+  weekStart?: number
+}
+
+export interface ICalAttendee {
+  email: string
+  name?: string
+  status: 'needs-action' | 'accepted' | 'declined' | 'tentative' | 'delegated' | string
+  role: 'chair' | 'req-participant' | 'opt-participant' | 'non-participant' | string
+  rsvp: boolean
+}
+
+export interface ICalAlarm {
+  action: 'display' | 'audio' | 'email' | string
+  trigger:
+    | { type: 'relative'; seconds: number; related: 'start' | 'end' }
+    | { type: 'absolute'; date: Date }
+  description?: string
+}
+
+export interface ICalEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  start: Date
+  end: Date
+  isAllDay: boolean
+  timeZone?: string
+  status?: string
+  transparency?: string
+  sequence: number
+  lastModified?: Date
+  organizer?: { email: string; name?: string }
+  attendees: ICalAttendee[]
+  categories: string[]
+  recurrence?: ICalRecurrenceRule
+  exceptionDates: Date[]
+  // Set on overrides of a single occurrence of a recurring event
+  recurrenceId?: Date
+  alarms: ICalAlarm[]
+}
+
+export interface ICalTodo {
+  uid: string
+  summary: string
+  description?: string
+  start?: Date
+  due?: Date
+  completed?: Date
+  isAllDay: boolean
+  status?: string
+  priority?: number
+  percentComplete?: number
+  sequence: number
+  lastModified?: Date
+  categories: string[]
+  recurrence?: ICalRecurrenceRule
+  recurrenceId?: Date
+  alarms: ICalAlarm[]
+}
+
+// Values DayFlow writes; undefined fields leave an existing component's value alone
+// and null/empty clears it
+export interface ICalEventInput {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  start: Date
+  end: Date
+  isAllDay: boolean
+  // Timed values are written as local times with this TZID; UTC when omitted
+  timeZone?: string
+  status?: string
+  attendees?: Array<Partial<ICalAttendee> & { email: string }>
+  categories?: string[]
+  recurrence?: ICalRecurrenceRule | null
+  exceptionDates?: Date[]
+  recurrenceId?: Date
+}
+
+export interface ICalTodoInput {
+  uid: string
+  summary: string
+  description?: string
+  start?: Date
+  due?: Date
+  completed?: Date
+  isAllDay?: boolean
+  status?: string
+  priority?: number
+  percentComplete?: number
+  categories?: string[]
+  recurrence?: ICalRecurrenceRule | null
+}
+
+export interface ICalReadOptions {
+  // IANA zone for floating times; UTC when omitted
+  timeZone?: string
+}
+
+export class ICalParseError extends Error {
+  constructor(
+    message: string,
+    public line?: number
+  ) {
+    super(line !== undefined ? `${message} (line ${line})` : message)
+    this.name = 'ICalParseError'
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * ICS Import and Export
+ * Moves calendar events and tasks in and out of DayFlow as .ics files
+ */
+
+import { ICalendar, ICalComponent, ICalEvent, ICalEventInput, ICalTodo, ICalRecurrenceRule, ICalSerializer } from './ical'
+import { calendarEventRepository, taskRepository, categoryRepository, recurrenceExceptionRepository } from './data-access'
+import type { Task, TaskInsert, CalendarEvent, CalendarEventInsert, RecurrenceException, categories } from './db/schema'
+import { RecurrenceExpander } from './recurrence'
+import { TimeZones } from './timezone'
+
+export const ICS_PRODID = '-//DayFlow//Calendar Export//EN'
+
+// UIDs written on export; re-importing our own file finds the original row
+const DAYFLOW_UID = /^(event|task)-([0-9a-f-]{36})@dayflow\.app$/i
+
+// Column limits enforced by the insert schemas
+const MAX_TITLE = 200
+const MAX_DESCRIPTION = 1000
+const MAX_LOCATION = 500
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Ties a VEVENT into its series: EXDATEs on the master, RECURRENCE-ID on a changed occurrence
+type SeriesFields = Pick<ICalEventInput, 'exceptionDates' | 'recurrenceId' | 'recurrence'>
+
+type ItemType = 'event' | 'task'
+type Category = typeof categories.$inferSelect
+type Recurrence = NonNullable<Task['recurrence']>
+type Reminder = NonNullable<Task['reminder']>
+
+export interface IcsImportResult {
+  created: Array<{ uid: string; type: ItemType; id: string; title: string }>
+  skipped: Array<{ uid: string; type: ItemType; title: string; reason: string }>
+}
+
+export interface IcsExportOptions {
+  from?: Date
+  to?: Date
+  categoryId?: string
+  include?: ItemType[]
+}
+
+const TODO_STATUS: Record<string, Task['status']> = {
+  'needs-action': 'pending',
+  'in-process': 'in_progress',
+  completed: 'completed',
+  cancelled: 'cancelled'
+}
+
+// RFC 5545 PRIORITY: 1-4 high, 5 medium, 6-9 low
+const PRIORITY_VALUES: Record<string, number> = { urgent: 1, high: 3, medium: 5, low: 9 }
+
+export class IcsTransfer {
+  /**
+   * Create events from VEVENTs and tasks from VTODOs, skipping UIDs that were
+   * imported before. Throws ICalParseError when the file is not iCalendar.
+   */
+  static async importCalendar(userId: string, text: string): Promise<IcsImportResult> {
+    const calendar = ICalendar.parse(text)
+    const events = ICalendar.readEvents(calendar)
+    const todos = ICalendar.readTodos(calendar)
+    const result: IcsImportResult = { created: [], skipped: [] }
+
+    const seen = new Set<string>([
+      ...(await calendarEventRepository.findByIcalUids(userId, events.map(event => event.uid))).map(event => `event:${event.icalUid}`),
+      ...(await taskRepository.findByIcalUids(userId, todos.map(todo => todo.uid))).map(task => `task:${task.icalUid}`)
+    ])
+    const resolveCategory = await IcsTransfer.categoryResolver(userId)
+
+    const importItem = async (
+      type: ItemType,
+      item: ICalEvent | ICalTodo,
+      create: (categoryId: string | null) => Promise<{ id: string }>
+    ) => {
+      const title = item.summary || item.uid
+      const skip = (reason: string) => result.skipped.push({ uid: item.uid, type, title, reason })
+
+      if (item.recurrenceId) {
+        return skip('Changes to single occurrences are not imported')
+      }
+      if (seen.has(`${type}:${item.uid}`) || await IcsTransfer.isOwnExport(userId, item.uid)) {
+        return skip('Already imported')
+      }
+      seen.add(`${type}:${item.uid}`)
+
+      try {
+        const categoryId = item.categories.length > 0 ? await resolveCategory(item.categories[0]) : null
+        const created = await create(categoryId)
+        result.created.push({ uid: item.uid, type, id: created.id, title })
+      } catch (error) {
+        skip(error instanceof Error ? error.message : 'Failed to import')
+      }
+    }
+
+    for (const event of events) {
+      await importItem('event', event, categoryId =>
+        calendarEventRepository.create({ ...IcsTransfer.eventFromICal(event), userId, categoryId })
+      )
+    }
+
+    for (const todo of todos) {
+      await importItem('task', todo, categoryId =>
+        taskRepository.create({ ...IcsTransfer.taskFromICal(todo), userId, categoryId })
+      )
+    }
+
+    return result
+  }
+
+  /**
+   * Serialize events overlapping and tasks due within the range, optionally
+   * limited to one category
+   */
+  static async exportCalendar(userId: string, options: IcsExportOptions = {}): Promise<string> {
+    const include = options.include ?? ['event', 'task']
+    const inCategory = (item: { categoryId: string | null }) =>
+      !options.categoryId || item.categoryId === options.categoryId
+
+    const events = include.includes('event')
+      ? (await calendarEventRepository.findByUserId(userId)).filter(event =>
+          inCategory(event) &&
+          (!options.from || new Date(event.endTime) >= options.from) &&
+          (!options.to || new Date(event.startTime) <= options.to)
+        )
+      : []
+
+    const ranged = Boolean(options.from || options.to)
+    const tasks = include.includes('task')
+      ? (await taskRepository.findByUserId(userId)).filter(task =>
+          inCategory(task) &&
+          (!ranged || (task.dueDate !== null &&
+            (!options.from || new Date(task.dueDate) >= options.from) &&
+            (!options.to || new Date(task.dueDate) <= options.to)))
+        )
+      : []
+
+    const userCategories: Category[] = await categoryRepository.findByUserId(userId)
+    const categoryNames = new Map(userCategories.map(category => [category.id, category.name]))
+    const exceptions = await recurrenceExceptionRepository.findByEventIds(
+      events.filter(event => RecurrenceExpander.isRecurring(event)).map(event => event.id)
+    )
+
+    return IcsTransfer.buildCalendar(events, tasks, categoryNames, exceptions)
+  }
+
+  static buildCalendar(
+    events: CalendarEvent[],
+    tasks: Task[],
+    categoryNames: Map<string, string> = new Map(),
+    exceptions: RecurrenceException[] = []
+  ): string {
+    const nameOf = (categoryId: string | null) => (categoryId ? categoryNames.get(categoryId) : undefined)
+    const exceptionsOf = IcsTransfer.exceptionsByItem(exceptions)
+    const calendar = ICalendar.createCalendar(ICS_PRODID, [
+      ...events.flatMap(event => IcsTransfer.eventSeriesToICal(event, exceptionsOf(event.id), nameOf(event.categoryId))),
+      ...tasks.map(task => IcsTransfer.taskToICal(task, nameOf(task.categoryId)))
+    ])
+    calendar.properties.push(ICalendar.property('X-WR-CALNAME', 'DayFlow'))
+
+    return ICalendar.serialize(calendar)
+  }
+
+  static eventFromICal(event: ICalEvent): Omit<CalendarEventInsert, 'userId'> {
+    return {
+      title: IcsTransfer.clip(event.summary, MAX_TITLE) || 'Untitled event',
+      // The event insert schema accepts undefined but not null here
+      description: IcsTransfer.clip(event.description, MAX_DESCRIPTION) || undefined,
+      startTime: event.start,
+      endTime: event.end,
+      isAllDay: event.isAllDay,
+      // TZIDs other than IANA names (Outlook's "Eastern Standard Time") were resolved through their VTIMEZONE
+      timeZone: TimeZones.isValid(event.timeZone) ? event.timeZone : undefined,
+      location: IcsTransfer.clip(event.location, MAX_LOCATION) || undefined,
+      meetingUrl: event.url || null,
+      attendees: event.attendees.map(attendee => ({
+        email: attendee.email,
+        name: attendee.name,
+        status: attendee.status === 'accepted' || attendee.status === 'declined' ? attendee.status : 'pending'
+      })),
+      recurrence: IcsTransfer.recurrenceFromICal(event.recurrence),
+      reminder: IcsTransfer.reminderFromICal(event),
+      icalUid: event.uid
+    }
+  }
+
+  static taskFromICal(todo: ICalTodo): Omit<TaskInsert, 'userId'> {
+    const status = TODO_STATUS[todo.status ?? ''] ?? (todo.completed ? 'completed' : 'pending')
+    const priority = todo.priority === undefined ? 'medium'
+      : todo.priority === 1 ? 'urgent'
+      : todo.priority <= 4 ? 'high'
+      : todo.priority === 5 ? 'medium'
+      : 'low'
+
+    return {
+      title: IcsTransfer.clip(todo.summary, MAX_TITLE) || 'Untitled task',
+      description: IcsTransfer.clip(todo.description, MAX_DESCRIPTION) || null,
+      status,
+      priority,
+      dueDate: todo.due ?? null,
+      startTime: todo.start ?? null,
+      completedAt: todo.completed ?? (status === 'completed' ? new Date() : null),
+      progress: status === 'completed' ? 100 : Math.min(100, Math.max(0, todo.percentComplete ?? 0)),
+      recurrence: IcsTransfer.recurrenceFromICal(todo.recurrence),
+      reminder: IcsTransfer.reminderFromICal(todo),
+      icalUid: todo.uid
+    }
+  }
+
+  /**
+   * An event and, when it repeats, one VEVENT per changed occurrence. Skipped
+   * occurrences are left out of the master with EXDATEs.
+   */
+  static eventSeriesToICal(event: CalendarEvent, exceptions: RecurrenceException[] = [], categoryName?: string): ICalComponent[] {
+    return [
+      IcsTransfer.eventToICal(event, categoryName, { exceptionDates: IcsTransfer.skippedDates(exceptions) }),
+      ...IcsTransfer.changedOccurrences(event, exceptions).map(({ occurrence, recurrenceId }) =>
+        IcsTransfer.eventToICal(occurrence, categoryName, { recurrenceId, recurrence: undefined })
+      )
+    ]
+  }
+
+  static eventToICal(event: CalendarEvent, categoryName?: string, series: SeriesFields = {}): ICalComponent {
+    const start = new Date(event.startTime)
+    let end = new Date(event.endTime)
+    // DATE ends are exclusive: an all-day event on the 5th ends on the 6th
+    if (event.isAllDay) {
+      end = new Date(Math.max(Math.ceil(end.getTime() / DAY_MS), Math.floor(start.getTime() / DAY_MS) + 1) * DAY_MS)
+    }
+
+    const component = ICalendar.writeEvent({
+      uid: event.icalUid || `event-${event.id}@dayflow.app`,
+      summary: event.title,
+      description: event.description ?? undefined,
+      location: event.location ?? undefined,
+      start,
+      end,
+      isAllDay: event.isAllDay ?? false,
+      timeZone: event.timeZone ?? undefined,
+      attendees: event.attendees ?? undefined,
+      categories: categoryName ? [categoryName] : undefined,
+      recurrence: IcsTransfer.recurrenceToICal(event.recurrence),
+      ...series
+    })
+
+    if (event.meetingUrl) {
+      component.properties.push(ICalendar.property('URL', event.meetingUrl))
+    }
+    IcsTransfer.addReminder(component, event.reminder, event.title)
+
+    return component
+  }
+
+  static taskToICal(task: Task, categoryName?: string): ICalComponent {
+    const component = ICalendar.writeTodo({
+      uid: task.icalUid || `task-${task.id}@dayflow.app`,
+      summary: task.title,
+      description: task.description ?? undefined,
+      start: task.startTime ? new Date(task.startTime) : undefined,
+      due: task.dueDate ? new Date(task.dueDate) : undefined,
+      completed: task.completedAt ? new Date(task.completedAt) : undefined,
+      status: Object.keys(TODO_STATUS).find(status => TODO_STATUS[status] === task.status),
+      priority: PRIORITY_VALUES[task.priority],
+      percentComplete: task.progress,
+      categories: categoryName ? [categoryName] : undefined,
+      recurrence: IcsTransfer.recurrenceToICal(task.recurrence)
+    })
+
+    IcsTransfer.addReminder(component, task.reminder, task.title)
+    return component
+  }
+
+  // Time-blocked tasks go out as VEVENTs so subscribing calendars show them on the grid
+  static taskBlockSeriesToICal(task: Task, exceptions: RecurrenceException[] = [], categoryName?: string): ICalComponent[] {
+    return [
+      IcsTransfer.taskBlockToICal(task, categoryName, { exceptionDates: IcsTransfer.skippedDates(exceptions) }),
+      ...IcsTransfer.changedOccurrences(task, exceptions).map(({ occurrence, recurrenceId }) =>
+        IcsTransfer.taskBlockToICal(occurrence, categoryName, { recurrenceId, recurrence: undefined })
+      )
+    ]
+  }
+
+  static taskBlockToICal(task: Task, categoryName?: string, series: SeriesFields = {}): ICalComponent {
+    const component = ICalendar.writeEvent({
+      uid: `task-${task.id}@dayflow.app`,
+      summary: task.title,
+      description: task.description ?? undefined,
+      start: new Date(task.startTime!),
+      end: new Date(task.endTime!),
+      isAllDay: false,
+      status: task.status === 'cancelled' ? 'cancelled' : undefined,
+      categories: categoryName ? [categoryName] : undefined,
+      recurrence: IcsTransfer.recurrenceToICal(task.recurrence),
+      ...series
+    })
+
+    IcsTransfer.addReminder(component, task.reminder, task.title)
+    return component
+  }
+
+  static exceptionsByItem(exceptions: RecurrenceException[]): (itemId: string) => RecurrenceException[] {
+    const byItem = new Map<string, RecurrenceException[]>()
+    for (const exception of exceptions) {
+      const itemId = exception.eventId ?? exception.taskId
+      if (itemId) byItem.set(itemId, [...(byItem.get(itemId) ?? []), exception])
+    }
+    return itemId => byItem.get(itemId) ?? []
+  }
+
+  private static skippedDates(exceptions: RecurrenceException[]): Date[] {
+    return exceptions.filter(exception => exception.isSkipped).map(exception => new Date(exception.originalStart))
+  }
+
+  // Occurrences as they read after their change, keeping the master's id so they share its UID
+  private static changedOccurrences<T extends CalendarEvent | Task>(
+    item: T,
+    exceptions: RecurrenceException[]
+  ): Array<{ occurrence: T; recurrenceId: Date }> {
+    if (!RecurrenceExpander.isRecurring(item)) return []
+
+    return exceptions.filter(exception => !exception.isSkipped).flatMap(exception => {
+      const recurrenceId = new Date(exception.originalStart)
+      const occurrence = RecurrenceExpander.occurrence(item, recurrenceId, exception)
+      return occurrence ? [{ occurrence: { ...occurrence, id: item.id }, recurrenceId }] : []
+    })
+  }
+
+  private static recurrenceFromICal(rule?: ICalRecurrenceRule): Recurrence {
+    if (!rule || !['daily', 'weekly', 'monthly', 'yearly'].includes(rule.frequency)) {
+      return { type: 'none' }
+    }
+
+    // DayFlow has one ordinal for all weekdays (BYDAY=2TU, not BYDAY=1MO,3WE)
+    const ordinals = new Set(rule.byDay?.map(day => day.ordinal))
+    const weekOfMonth = ordinals.size === 1 ? [...ordinals][0] : undefined
+
+    return {
+      type: rule.frequency as Recurrence['type'],
+      interval: rule.interval,
+      ...(rule.until && { endDate: rule.until }),
+      ...(rule.count && { count: rule.count }),
+      ...(rule.byDay?.length && { daysOfWeek: rule.byDay.map(day => day.weekday) }),
+      ...(weekOfMonth && { weekOfMonth }),
+      ...(rule.byMonthDay?.length && { daysOfMonth: rule.byMonthDay })
+    }
+  }
+
+  private static recurrenceToICal(recurrence: Task['recurrence']): ICalRecurrenceRule | undefined {
+    if (!recurrence || recurrence.type === 'none') {
+      return undefined
+    }
+
+    return {
+      frequency: recurrence.type,
+      interval: recurrence.interval || 1,
+      ...(recurrence.endDate && { until: new Date(recurrence.endDate) }),
+      ...(recurrence.count && { count: recurrence.count }),
+      ...(recurrence.daysOfWeek?.length && {
+        byDay: recurrence.daysOfWeek.map(weekday => ({
+          weekday,
+          // Ordinals are only valid in MONTHLY and YEARLY rules
+          ...(recurrence.weekOfMonth && ['monthly', 'yearly'].includes(recurrence.type) && { ordinal: recurrence.weekOfMonth })
+        }))
+      }),
+      ...(recurrence.daysOfMonth?.length && { byMonthDay: recurrence.daysOfMonth })
+    }
+  }
+
+  // DayFlow keeps one reminder: the first alarm that fires before the start
+  private static reminderFromICal(item: ICalEvent | ICalTodo): Reminder {
+    const alarm = item.alarms.find(candidate =>
+      candidate.trigger.type === 'relative' && candidate.trigger.related === 'start' && candidate.trigger.seconds <= 0
+    )
+
+    return alarm && alarm.trigger.type === 'relative'
+      ? { enabled: true, minutesBefore: Math.round(-alarm.trigger.seconds / 60) }
+      : { enabled: false, minutesBefore: 15 }
+  }
+
+  private static addReminder(component: ICalComponent, reminder: Task['reminder'], title: string): void {
+    if (!reminder?.enabled) return
+
+    component.components.push({
+      name: 'VALARM',
+      properties: [
+        ICalendar.property('ACTION', 'DISPLAY'),
+        ICalendar.property('TRIGGER', ICalSerializer.formatDuration(-reminder.minutesBefore * 60)),
+        ICalendar.property('DESCRIPTION', ICalSerializer.escapeText(title))
+      ],
+      components: []
+    })
+  }
+
+  private static async categoryResolver(userId: string): Promise<(name: string) => Promise<string>> {
+    const userCategories: Category[] = await categoryRepository.findByUserId(userId)
+    const byName = new Map(userCategories.map(category => [category.name.toLowerCase(), category.id]))
+
+    return async (name: string) => {
+      const existing = byName.get(name.toLowerCase())
+      if (existing) return existing
+
+      const created = await categoryRepository.create({ name, userId })
+      byName.set(name.toLowerCase(), created.id)
+      return created.id
+    }
+  }
+
+  // Feeds write time-blocked tasks as VEVENTs, so the UID rather than the
+  // component decides which table to look in
+  private static async isOwnExport(userId: string, uid: string): Promise<boolean> {
+    const match = uid.match(DAYFLOW_UID)
+    if (!match) return false
+
+    const existing = match[1].toLowerCase() === 'event'
+      ? await calendarEventRepository.findById(match[2])
+      : await taskRepository.findById(match[2])
+    return existing?.userId === userId
+  }
+
+  private static clip(text: string | undefined, length: number): string | undefined {
+    return text?.trim().slice(0, length)
+  }
+}
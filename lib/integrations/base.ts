@@ -9,6 +9,8 @@ import { Task, CalendarEvent } from '../db/schema'
 export type IntegrationType = 'task_management' | 'calendar'
 export type SyncDirection = 'one_way' | 'two_way' | 'manual'
 export type ConflictResolution = 'manual' | 'latest' | 'source' | 'merge'
+// What happens to the DayFlow copy when an item is deleted on the external service
+export type DeletionPolicy = 'delete' | 'archive'
 
 // Base integration interface
 export interface BaseIntegration {
@@ -52,6 +54,17 @@ export interface BaseIntegration {
   deleteEvent(externalId: string): Promise<void>
   getEvent(externalId: string): Promise<ExternalEvent | null>
 
+  // Change one occurrence of a recurring event, or cancel it (occurrence null).
+  // Services without per-occurrence edits leave this out.
+  updateEventOccurrence?(externalId: string, originalStart: Date, occurrence: EventData | null): Promise<void>
+
+  // Paginated listing
+  listTasks(options?: ListOptions): Promise<ListPage<ExternalTask>>
+  listEvents(options?: ListOptions): Promise<ListPage<ExternalEvent>>
+
+  // Incremental change feed for the item type the service owns
+  fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask | ExternalEvent>>
+
   // Webhook handling
   handleWebhook(payload: any, signature?: string): Promise<void>
   registerWebhook(webhookUrl: string): Promise<WebhookRegistration>
@@ -83,6 +96,8 @@ export interface EventData {
   startTime: Date
   endTime: Date
   isAllDay: boolean
+  // IANA zone the event's clock times and recurrence belong to
+  timeZone?: string
   location?: string
   attendees?: Array<{
     email: string
@@ -94,6 +109,7 @@ export interface EventData {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
   }
   externalId?: string
   externalData?: Record<string, any>
@@ -121,6 +137,7 @@ export interface ExternalEvent {
   startTime: Date
   endTime: Date
   isAllDay: boolean
+  timeZone?: string
   location?: string
   attendees?: Array<{
     email: string
@@ -132,11 +149,36 @@ export interface ExternalEvent {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
   }
   url?: string
   data: Record<string, any>
 }
 
+// Pagination types
+export interface ListOptions {
+  cursor?: string
+  pageSize?: number
+}
+
+export interface ListPage<T> {
+  items: T[]
+  // Opaque, service-specific cursor; undefined on the last page
+  nextCursor?: string
+}
+
+export interface ChangeSet<T> {
+  // Items created or updated since the cursor
+  items: T[]
+  // External ids removed since the cursor
+  deletedIds: string[]
+  // Opaque, service-specific checkpoint for the next call; undefined keeps the old one
+  nextCursor?: string
+  // The cursor was missing or expired and items is a complete listing, so
+  // absence from it may mean deletion
+  fullListing: boolean
+}
+
 // Sync result types
 export interface SyncResult {
   operationId: string
@@ -152,13 +194,34 @@ export interface SyncResult {
 }
 
 export interface SyncConflict {
-  type: 'title_mismatch' | 'description_mismatch' | 'status_mismatch' | 'date_mismatch' | 'duplicate'
+  id?: string
+  type: 'title_mismatch' | 'description_mismatch' | 'status_mismatch' | 'date_mismatch' | 'duplicate' | 'field_conflict'
   dayflowItem: Task | CalendarEvent
   externalItem: ExternalTask | ExternalEvent
   conflict: any
+  // Fields changed on both sides since the last sync (three-way conflicts only)
+  fields?: FieldConflict[]
   resolution?: 'keep_dayflow' | 'keep_external' | 'merge' | 'manual'
 }
 
+// Synced field values in DayFlow terms as both sides last agreed on them; dates are ISO strings
+export type SyncSnapshot = Record<string, string | number | boolean | null>
+
+export interface FieldConflict {
+  field: string
+  base: SyncSnapshot[string]
+  dayflow: SyncSnapshot[string]
+  external: SyncSnapshot[string]
+}
+
+export interface ThreeWayMergeResult {
+  // Snapshot with every one-sided change applied; conflicting fields keep the DayFlow value
+  merged: SyncSnapshot
+  dayflowChanges: string[]
+  externalChanges: string[]
+  conflicts: FieldConflict[]
+}
+
 export interface SyncError {
   type: 'network_error' | 'api_error' | 'validation_error' | 'rate_limit_error'
   message: string
@@ -203,7 +266,9 @@ export interface IntegrationConfig {
   syncTasks: boolean
   syncEvents: boolean
   conflictResolution: ConflictResolution
+  deletionPolicy: DeletionPolicy
   fieldMapping: Record<string, string>
+  mappingRules?: FieldMappingRule[]
   filters: {
     status?: string[]
     priorities?: string[]
@@ -215,6 +280,33 @@ export interface IntegrationConfig {
   }
 }
 
+// Field mapping types
+export type MappingTarget =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'dueDate'
+  | 'startTime'
+  | 'endTime'
+  | 'estimatedDuration'
+  | 'progress'
+  | 'location'
+  | 'category'
+  | 'tags'
+
+export type MappingTransform = 'none' | 'trim' | 'lowercase' | 'uppercase' | 'number' | 'date' | 'split' | 'lookup'
+
+export interface FieldMappingRule {
+  // 'property:<Notion property>', 'custom_field:<ClickUp field name or id>',
+  // or a dotted path into the external item ('tags' holds Linear labels)
+  source: string
+  target: MappingTarget
+  transform?: MappingTransform
+  // lookup table for the 'lookup' transform; '*' catches unmatched values
+  values?: Record<string, string>
+}
+
 // Rate limiting configuration
 export interface RateLimitConfig {
   requestsPerMinute: number
@@ -282,6 +374,7 @@ export abstract class BaseIntegrationService implements BaseIntegration {
       syncTasks: true,
       syncEvents: true,
       conflictResolution: 'manual' as const,
+      deletionPolicy: 'delete' as const,
       fieldMapping: {},
       filters: {},
       ...config
@@ -322,6 +415,11 @@ export abstract class BaseIntegrationService implements BaseIntegration {
   abstract deleteEvent(externalId: string): Promise<void>
   abstract getEvent(externalId: string): Promise<ExternalEvent | null>
 
+  abstract listTasks(options?: ListOptions): Promise<ListPage<ExternalTask>>
+  abstract listEvents(options?: ListOptions): Promise<ListPage<ExternalEvent>>
+
+  abstract fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask | ExternalEvent>>
+
   abstract handleWebhook(payload: any, signature?: string): Promise<void>
   abstract registerWebhook(webhookUrl: string): Promise<WebhookRegistration>
   abstract unregisterWebhook(webhookId: string): Promise<void>
@@ -0,0 +1,277 @@
+/**
+ * Outbound Change Capture
+ * Pushes DayFlow task and event edits to the services they are linked to
+ */
+
+import { and, eq, sql } from 'drizzle-orm'
+import { getDatabase } from '../db'
+import { externalItems, userIntegrations, ExternalItem, UserIntegration } from '../db/integrations-schema'
+import { onRepositoryChange, RepositoryChange, ChangeEntity } from '../data-access'
+import type { Task, CalendarEvent } from '../db/schema'
+import { BaseIntegration, IntegrationError, IntegrationType, ExternalTask, ExternalEvent, SyncSnapshot } from './base'
+import { DataTransformer } from './utils'
+import { FieldMapper } from './field-mapping'
+import { syncEngine, SyncEngine } from './sync-engine'
+
+export interface ChangeCaptureOptions {
+  db?: any
+  engine?: Pick<SyncEngine, 'createIntegration'>
+}
+
+// New local items only go to services that own that kind of item
+const ENTITY_SERVICE_TYPE: Record<ChangeEntity, IntegrationType> = {
+  task: 'task_management',
+  event: 'calendar'
+}
+
+export class ChangeCapture {
+  private readonly db?: any
+  private readonly engine: Pick<SyncEngine, 'createIntegration'>
+  private unsubscribe: (() => void) | null = null
+
+  constructor(options: ChangeCaptureOptions = {}) {
+    this.db = options.db
+    this.engine = options.engine ?? syncEngine
+  }
+
+  /**
+   * Subscribe to task and event repository mutations
+   */
+  start(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = onRepositoryChange(change => this.handleChange(change))
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe()
+      this.unsubscribe = null
+    }
+  }
+
+  /**
+   * Propagate one local change to every two-way integration it concerns
+   */
+  async handleChange(change: RepositoryChange<Task | CalendarEvent>): Promise<void> {
+    const record = change.record
+    const links = await this.getLinks(record.id, change.entity)
+    const targets = await this.getOutboundIntegrations(record.userId, change.entity)
+
+    if (change.type === 'deleted') {
+      await this.tombstoneLinks(links, targets, change.origin)
+    }
+
+    if (targets.length === 0) return
+
+    if (change.type === 'created') {
+      // Items created by an inbound sync already exist on their source service
+      if (change.origin || links.length > 0) return
+
+      // A new item goes to one service only: the first candidate of the right kind
+      let created = false
+      for (const target of this.getCreateTargets(targets, change.record)) {
+        if (created) break
+        await this.pushToTarget(target, change, async integration => {
+          created = await this.pushCreate(integration, target, change)
+        })
+      }
+      return
+    }
+
+    for (const link of links) {
+      const target = targets.find(candidate => candidate.id === link.userIntegrationId)
+      // Don't echo a change back to the integration it came from
+      if (!target || target.id === change.origin) continue
+
+      await this.pushToTarget(target, change, integration => {
+        if (change.occurrence) return this.pushOccurrence(integration, link, change)
+        return change.type === 'updated'
+          ? this.pushUpdate(integration, target, link, change)
+          : this.pushDelete(integration, link, change)
+      })
+    }
+  }
+
+  // Private methods
+
+  private async pushToTarget(
+    target: UserIntegration,
+    change: RepositoryChange<Task | CalendarEvent>,
+    push: (integration: BaseIntegration) => Promise<void>
+  ): Promise<void> {
+    try {
+      const integration = await this.engine.createIntegration(target)
+      await push(integration)
+    } catch (error) {
+      // One unreachable service must not block the others
+      console.error(`Failed to push ${change.entity} ${change.type} to ${target.serviceName}:`, error)
+    }
+  }
+
+  private async pushCreate(
+    integration: BaseIntegration,
+    target: UserIntegration,
+    change: RepositoryChange<Task | CalendarEvent>
+  ): Promise<boolean> {
+    if (integration.type !== ENTITY_SERVICE_TYPE[change.entity]) return false
+
+    const created = change.entity === 'task'
+      ? await integration.createTask(DataTransformer.taskToTaskData(change.record as Task))
+      : await integration.createEvent(DataTransformer.eventToEventData(change.record as CalendarEvent))
+
+    const now = new Date()
+    await this.getDB().insert(externalItems).values({
+      userIntegrationId: target.id,
+      externalId: created.id,
+      externalService: target.serviceName,
+      itemType: change.entity,
+      itemId: change.record.id,
+      externalData: { fingerprint: DataTransformer.fingerprint(created), base: this.getSnapshot(created, target, change.entity) },
+      lastSyncAt: now,
+      lastModifiedAt: this.getModifiedAt(created, now),
+      createdAt: now,
+      updatedAt: now
+    })
+    return true
+  }
+
+  private async pushUpdate(
+    integration: BaseIntegration,
+    target: UserIntegration,
+    link: ExternalItem,
+    change: RepositoryChange<Task | CalendarEvent>
+  ): Promise<void> {
+    const updated = change.entity === 'task'
+      ? await integration.updateTask(link.externalId, DataTransformer.taskToTaskData(change.record as Task))
+      : await integration.updateEvent(link.externalId, DataTransformer.eventToEventData(change.record as CalendarEvent))
+
+    // Remember what we wrote so the next inbound sync recognises it as our own
+    // and merges later edits against it
+    const now = new Date()
+    await this.getDB().update(externalItems)
+      .set({
+        externalData: { fingerprint: DataTransformer.fingerprint(updated), base: this.getSnapshot(updated, target, change.entity) },
+        lastSyncAt: now,
+        lastModifiedAt: this.getModifiedAt(updated, now),
+        version: sql`coalesce(${externalItems.version}, 1) + 1`,
+        updatedAt: now
+      })
+      .where(eq(externalItems.id, link.id))
+  }
+
+  // One occurrence of a linked series changed; the series itself is as it was
+  private async pushOccurrence(
+    integration: BaseIntegration,
+    link: ExternalItem,
+    change: RepositoryChange<Task | CalendarEvent>
+  ): Promise<void> {
+    // Task services have no notion of single occurrences
+    if (change.entity !== 'event' || !change.occurrence || !integration.updateEventOccurrence) return
+
+    const { originalStart, record } = change.occurrence
+    await integration.updateEventOccurrence(
+      link.externalId,
+      originalStart,
+      record ? DataTransformer.eventToEventData(record as CalendarEvent) : null
+    )
+
+    const now = new Date()
+    await this.getDB().update(externalItems)
+      .set({ lastSyncAt: now, updatedAt: now })
+      .where(eq(externalItems.id, link.id))
+  }
+
+  private async pushDelete(
+    integration: BaseIntegration,
+    link: ExternalItem,
+    change: RepositoryChange<Task | CalendarEvent>
+  ): Promise<void> {
+    try {
+      if (change.entity === 'task') {
+        await integration.deleteTask(link.externalId)
+      } else {
+        await integration.deleteEvent(link.externalId)
+      }
+    } catch (error) {
+      // Already deleted on the service counts as done
+      if (!(error instanceof IntegrationError && error.code === 'NOT_FOUND')) throw error
+    }
+
+    const now = new Date()
+    await this.getDB().update(externalItems)
+      .set({ externalData: { ...link.externalData, pendingDelete: false }, lastSyncAt: now, lastModifiedAt: now, updatedAt: now })
+      .where(eq(externalItems.id, link.id))
+  }
+
+  /**
+   * Mark every link of a deleted item as a tombstone so it is never re-imported.
+   * Links we push the deletion to stay pending until the service confirms; the
+   * sync engine retries pending ones on its next run.
+   */
+  private async tombstoneLinks(links: ExternalItem[], targets: UserIntegration[], origin?: string): Promise<void> {
+    const now = new Date()
+
+    for (const link of links) {
+      const pendingDelete = link.userIntegrationId !== origin &&
+        targets.some(target => target.id === link.userIntegrationId)
+
+      await this.getDB().update(externalItems)
+        .set({ isDeleted: true, externalData: { ...link.externalData, pendingDelete }, updatedAt: now })
+        .where(eq(externalItems.id, link.id))
+    }
+  }
+
+  private async getOutboundIntegrations(userId: string, entity: ChangeEntity): Promise<UserIntegration[]> {
+    const integrations: UserIntegration[] = await this.getDB().select().from(userIntegrations)
+      .where(and(
+        eq(userIntegrations.userId, userId),
+        eq(userIntegrations.isActive, true)
+      ))
+
+    return integrations.filter(integration => {
+      const settings = integration.syncSettings
+      if ((settings?.syncDirection ?? 'two_way') !== 'two_way') return false
+      return entity === 'task' ? settings?.syncTasks !== false : settings?.syncEvents !== false
+    })
+  }
+
+  // Integrations that own the item's category come first, then the default targets
+  private getCreateTargets(targets: UserIntegration[], record: Task | CalendarEvent): UserIntegration[] {
+    const owners = record.categoryId
+      ? targets.filter(target => target.syncSettings?.categoryIds?.includes(record.categoryId!))
+      : []
+    const defaults = targets.filter(target => target.syncSettings?.defaultTarget && !owners.includes(target))
+
+    return [...owners, ...defaults]
+  }
+
+  private async getLinks(itemId: string, entity: ChangeEntity): Promise<ExternalItem[]> {
+    return this.getDB().select().from(externalItems)
+      .where(and(
+        eq(externalItems.itemId, itemId),
+        eq(externalItems.itemType, entity),
+        eq(externalItems.isDeleted, false)
+      ))
+  }
+
+  // The written item as the sync engine will read it back, mapping rules included
+  private getSnapshot(item: ExternalTask | ExternalEvent, target: UserIntegration, entity: ChangeEntity): SyncSnapshot {
+    const data = entity === 'task'
+      ? DataTransformer.externalTaskToTask(item as ExternalTask, target.userId)
+      : DataTransformer.externalEventToEvent(item as ExternalEvent, target.userId)
+    const mapped = FieldMapper.apply(item, target.syncSettings?.mappingRules, entity)
+
+    return DataTransformer.snapshot({ ...data, ...mapped.fields }, entity)
+  }
+
+  private getModifiedAt(item: ExternalTask | ExternalEvent, fallback: Date): Date {
+    return 'updatedAt' in item && item.updatedAt ? item.updatedAt : fallback
+  }
+
+  private getDB() {
+    return this.db ?? getDatabase()
+  }
+}
+
+// Export singleton instance
+export const changeCapture = new ChangeCapture()
@@ -3,8 +3,8 @@
  * Implements task management integration with ClickUp workspaces
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { Task } from '../db/schema'
 
 interface ClickUpTask {
@@ -30,6 +30,10 @@ interface ClickUpTask {
   custom_fields?: Array<{
     id: string
     name: string
+    type?: string
+    type_config?: {
+      options?: Array<{ id: string; name?: string; label?: string; orderindex?: number }>
+    }
     value: any
   }>
   assignees: Array<{
@@ -274,6 +278,36 @@ export class ClickUpIntegration extends BaseIntegrationService {
     throw new IntegrationError('ClickUp does not support calendar events', 'UNSUPPORTED_OPERATION')
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    // ClickUp pages are zero-based and fixed at 100 tasks per page
+    const page = options.cursor ? parseInt(options.cursor, 10) : 0
+    const response = await this.makeRequest('GET', `/list/${this.listId}/task?subtasks=true&page=${page}`)
+
+    const tasks: ClickUpTask[] = response.tasks || []
+    const lastPage = response.last_page ?? tasks.length < 100
+    return {
+      items: tasks.map(task => this.mapClickUpTaskToExternal(task)),
+      nextCursor: lastPage ? undefined : String(page + 1)
+    }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalEvent>> {
+    // ClickUp doesn't have calendar events, only tasks
+    return { items: [] }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask>> {
+    // ClickUp has no change feed that includes removals (its task filters cannot report deleted tasks),
+    // so every round is a full listing the sync engine can diff for deletions
+    return {
+      items: await Paginator.collect(options => this.listTasks(options)),
+      deletedIds: [],
+      fullListing: true
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // ClickUp webhooks don't require signature verification
     if (payload.event_type === 'taskCreated' || payload.event_type === 'taskUpdated') {
@@ -314,9 +348,8 @@ export class ClickUpIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalTasks(): Promise<ClickUpTask[]> {
-    const response = await this.makeRequest('GET', `/list/${this.listId}/task?subtasks=true`)
-    return response.tasks || []
+  private async fetchExternalTasks(): Promise<ExternalTask[]> {
+    return Paginator.collect(options => this.listTasks(options))
   }
 
   private async makeRequest(
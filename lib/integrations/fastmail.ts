@@ -3,54 +3,11 @@
  * Implements calendar integration with Fastmail using CalDAV protocol
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, TaskData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, TaskData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { CalendarEvent } from '../db/schema'
-
-interface FastmailCalDAVEvent {
-  uid: string
-  etag: string
-  lastModified: string
-  calendarData: string
-  title: string
-  description?: string
-  location?: string
-  url?: string
-  startDate: Date
-  endDate: Date
-  allDay: boolean
-  attendees: Array<{
-    cua: string
-    name?: string
-    email?: string
-    status: 'needs-action' | 'accepted' | 'declined' | 'tentative' | 'delegated'
-    role: 'chair' | 'req-participant' | 'opt-participant' | 'non-participant'
-    rsvp: boolean
-  }>
-  organizer?: {
-    name?: string
-    email?: string
-  }
-  status: 'confirmed' | 'tentative' | 'cancelled'
-  transparency: 'opaque' | 'transparent'
-  recurrence?: {
-    type: 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'
-    interval: number
-    endDate?: Date
-    count?: number
-    daysOfWeek?: number[]
-    byMonth?: number[]
-    byMonthDay?: number[]
-  }
-  alarm?: {
-    trigger: {
-      value: 'absolute' | 'relative'
-      date?: Date
-      duration?: number
-    }
-    action: 'display' | 'audio' | 'email'
-  }
-}
+import { ICalendar, ICalEvent, ICalRecurrenceRule, ICalSerializer, ICalParseError } from '../ical'
+import { TimeZones } from '../timezone'
 
 interface FastmailCalDAVCalendar {
   href: string
@@ -261,32 +218,65 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
     this.validateEventData(event)
     await this.ensureAuthenticated()
 
-    const ical = this.buildICalEvent(event)
+    const ical = this.buildICalEvent(event, `dayflow-${Date.now()}@fastmail.dayflow.app`)
+    const path = `/events/${event.title.replace(/[^a-zA-Z0-9]/g, '-')}-${Date.now()}.ics`
     
-    const response = await this.makeRequest('PUT', `/events/${event.title.replace(/[^a-zA-Z0-9]/g, '-')}-${Date.now()}.ics`, ical, {
+    const response = await this.makeRequest('PUT', path, ical, {
       'Content-Type': 'text/calendar; charset=utf-8',
       'If-None-Match': '*'
     })
     
-    return this.mapCalDAVEventToExternal(response)
+    // PUT usually answers without a body; the stored resource is what we sent
+    return this.mapCalDAVResource({ ...response, calendarData: response.calendarData || ical, href: path }) as ExternalEvent
   }
 
   async updateEvent(externalId: string, event: EventData): Promise<ExternalEvent> {
     this.validateEventData(event)
     await this.ensureAuthenticated()
 
-    const ical = this.buildICalEvent(event)
-    
-    // Get current ETag
+    // Get current ETag and the stored resource, so alarms and other clients' properties survive
     const currentEvent = await this.getEvent(externalId)
     const etag = currentEvent?.data?.etag
+    const ical = this.buildICalEvent(event, externalId, currentEvent?.data?.calendarData)
+    const path = `/events/${externalId}.ics`
     
-    const response = await this.makeRequest('PUT', `/events/${externalId}.ics`, ical, {
+    const response = await this.makeRequest('PUT', path, ical, {
       'Content-Type': 'text/calendar; charset=utf-8',
       ...(etag && { 'If-Match': etag })
     })
     
-    return this.mapCalDAVEventToExternal(response)
+    return this.mapCalDAVResource({ ...response, calendarData: response.calendarData || ical, href: path }) as ExternalEvent
+  }
+
+  async updateEventOccurrence(externalId: string, originalStart: Date, occurrence: EventData | null): Promise<void> {
+    await this.ensureAuthenticated()
+
+    const currentEvent = await this.getEvent(externalId)
+    if (!currentEvent) {
+      throw new IntegrationError('Resource not found', 'NOT_FOUND', 404)
+    }
+
+    // Overrides and EXDATEs live in the series' own resource, next to the master
+    const calendar = ICalendar.parse(currentEvent.data.calendarData)
+    const updated = occurrence
+      ? ICalendar.writeOverride(calendar, {
+          uid: currentEvent.id,
+          summary: occurrence.title,
+          description: occurrence.description ?? '',
+          location: occurrence.location ?? '',
+          start: occurrence.startTime,
+          end: occurrence.endTime,
+          isAllDay: occurrence.isAllDay,
+          timeZone: occurrence.timeZone,
+          attendees: occurrence.attendees,
+          recurrenceId: originalStart
+        })
+      : ICalendar.excludeOccurrence(calendar, currentEvent.id, originalStart)
+
+    await this.makeRequest('PUT', `/events/${externalId}.ics`, ICalendar.serialize(updated), {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      ...(currentEvent.data.etag && { 'If-Match': currentEvent.data.etag })
+    })
   }
 
   async deleteEvent(externalId: string): Promise<void> {
@@ -299,7 +289,7 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
 
     try {
       const response = await this.makeRequest('GET', `/events/${externalId}.ics`)
-      return this.mapCalDAVEventToExternal(response)
+      return this.mapCalDAVResource(response)
     } catch (error) {
       if (error instanceof IntegrationError && error.code === 'NOT_FOUND') {
         return null
@@ -308,6 +298,114 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
     }
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalTask>> {
+    // Calendar integrations expose events only; tasks are mirrored through createTask
+    return { items: [] }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    const now = new Date()
+    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000))
+    const query = [
+      '<?xml version="1.0" encoding="utf-8" ?>',
+      '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">',
+      '<d:prop><d:getetag/><c:calendar-data/></d:prop>',
+      '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">',
+      `<c:time-range start="${ICalSerializer.formatDate(now)}" end="${ICalSerializer.formatDate(thirtyDaysFromNow)}"/>`,
+      '</c:comp-filter></c:comp-filter></c:filter>',
+      '</c:calendar-query>'
+    ].join('')
+
+    // CalDAV has no paging; a single REPORT returns the whole time range
+    const response = await this.makeRequest('REPORT', '/events/', query, {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Depth': '1'
+    })
+
+    const items: ExternalEvent[] = []
+    for (const resource of response.responses || []) {
+      const event = this.mapCalDAVResource(resource)
+      if (event) {
+        items.push(event)
+      }
+    }
+
+    return { items }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    const previous: { ctag?: string; syncToken?: string } = cursor ? JSON.parse(cursor) : {}
+    const collection = await this.makeRequest('PROPFIND', '/events/', [
+      '<?xml version="1.0" encoding="utf-8" ?>',
+      '<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">',
+      '<d:prop><cs:getctag/><d:sync-token/></d:prop>',
+      '</d:propfind>'
+    ].join(''), {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Depth': '0'
+    })
+
+    // An unchanged collection tag means nothing was added, edited or removed
+    if (previous.ctag && collection.ctag === previous.ctag) {
+      return { items: [], deletedIds: [], nextCursor: cursor, fullListing: false }
+    }
+
+    if (previous.syncToken) {
+      try {
+        // RFC 6578 sync-collection: only resources changed since the token
+        const query = [
+          '<?xml version="1.0" encoding="utf-8" ?>',
+          '<d:sync-collection xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">',
+          `<d:sync-token>${previous.syncToken}</d:sync-token>`,
+          '<d:sync-level>1</d:sync-level>',
+          '<d:prop><d:getetag/><c:calendar-data/></d:prop>',
+          '</d:sync-collection>'
+        ].join('')
+        const response = await this.makeRequest('REPORT', '/events/', query, {
+          'Content-Type': 'application/xml; charset=utf-8'
+        })
+
+        const items: ExternalEvent[] = []
+        const deletedIds: string[] = []
+        for (const resource of response.responses || []) {
+          if (resource.status.includes(' 404 ')) {
+            deletedIds.push(this.getResourceId(resource.href))
+            continue
+          }
+          const event = this.mapCalDAVResource(resource)
+          if (event) {
+            items.push(event)
+          }
+        }
+
+        return {
+          items,
+          deletedIds,
+          nextCursor: JSON.stringify({ ctag: collection.ctag, syncToken: response.syncToken || collection.syncToken }),
+          fullListing: false
+        }
+      } catch (error) {
+        // valid-sync-token precondition failed: the server no longer knows the token
+        if (!(error instanceof IntegrationError && (error.statusCode === 403 || error.statusCode === 409))) {
+          throw error
+        }
+      }
+    }
+
+    // Servers without sync-collection fall back to a listing whenever the ctag moves.
+    // The token was read before listing, so changes made meanwhile show up next round.
+    return {
+      items: await this.fetchExternalEvents(),
+      deletedIds: [],
+      nextCursor: JSON.stringify({ ctag: collection.ctag, syncToken: collection.syncToken }),
+      fullListing: true
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Fastmail doesn't have standard webhooks for CalDAV
     // This would need to be implemented via WebDAV notifications if supported
@@ -332,17 +430,8 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalEvents(): Promise<FastmailCalDAVEvent[]> {
-    const now = new Date()
-    const thirtyDaysAgo = now.toISOString().split('T')[0].replace(/-/g, '')
-    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000)).toISOString().split('T')[0].replace(/-/g, '')
-    
-    const response = await this.makeRequest(
-      'GET',
-      `/events?time-min=${thirtyDaysAgo}T000000Z&time-max=${thirtyDaysFromNow}T000000Z&expand-recurring-master-events=true`
-    )
-    
-    return this.parseCalendarData(response.calendarData || '')
+  private async fetchExternalEvents(): Promise<ExternalEvent[]> {
+    return Paginator.collect(options => this.listEvents(options))
   }
 
   private async makeRequest(
@@ -412,126 +501,54 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
     }, 3)
   }
 
-  private buildICalEvent(event: EventData): string {
-    const now = new Date()
-    const uid = `dayflow-${Date.now()}@fastmail.dayflow.app`
-    
-    let ical = [
-      'BEGIN:VCALENDAR',
-      'VERSION:2.0',
-      'PRODID:-//DayFlow//Fastmail Integration//EN',
-      'CALSCALE:GREGORIAN',
-      'METHOD:PUBLISH',
-      'BEGIN:VEVENT',
-      `UID:${uid}`,
-      `DTSTAMP:${this.formatICalDate(now)}`,
-      `DTSTART:${this.formatICalDate(event.startTime, event.isAllDay)}`,
-      `DTEND:${this.formatICalDate(event.endTime, event.isAllDay)}`,
-      `SUMMARY:${this.escapeICalText(event.title)}`
-    ]
-
-    if (event.description) {
-      ical.push(`DESCRIPTION:${this.escapeICalText(event.description)}`)
-    }
-
-    if (event.location) {
-      ical.push(`LOCATION:${this.escapeICalText(event.location)}`)
-    }
-
-    if (event.isAllDay) {
-      ical.push('VALUE=DATE')
-    }
-
-    if (event.attendees && event.attendees.length > 0) {
-      for (const attendee of event.attendees) {
-        ical.push('ATTENDEE')
-        ical.push(`;CN=${attendee.name || attendee.email}`)
-        ical.push(`;EMAIL=${attendee.email}`)
-        ical.push(`;RSVP=TRUE`)
-        ical.push(`:mailto:${attendee.email}`)
-      }
-    }
-
-    if (event.recurrence && event.recurrence.type !== 'none') {
-      const recurRule = this.buildICalRecurrence(event.recurrence)
-      if (recurRule) {
-        ical.push(`RRULE:${recurRule}`)
-      }
-    }
+  private buildICalEvent(event: EventData, uid: string, existingData?: string): string {
+    const existing = existingData ? ICalendar.parse(existingData) : undefined
+    // Overrides of single occurrences share the UID; only the master is rewritten
+    const master = existing?.components.find(component =>
+      component.name === 'VEVENT' && !ICalendar.find(component, 'RECURRENCE-ID')
+    )
 
-    // Add Fastmail-specific properties
-    ical.push('X-MOZ-CREATE-UNCANONICAL')
-    
-    ical.push('END:VEVENT')
-    ical.push('END:VCALENDAR')
+    const vevent = ICalendar.writeEvent({
+      uid,
+      summary: event.title,
+      description: event.description ?? '',
+      location: event.location ?? '',
+      start: event.startTime,
+      end: event.endTime,
+      isAllDay: event.isAllDay,
+      timeZone: event.timeZone,
+      attendees: event.attendees,
+      recurrence: this.buildICalRecurrence(event.recurrence)
+    }, master)
+
+    const calendar = existing
+      ? {
+          ...existing,
+          components: master
+            ? existing.components.map(component => (component === master ? vevent : component))
+            : [...existing.components, vevent]
+        }
+      : ICalendar.createCalendar('-//DayFlow//Fastmail Integration//EN', [vevent])
 
-    return ical.join('\r\n')
+    return ICalendar.serialize(ICalendar.withTimeZones(calendar))
   }
 
-  private buildICalRecurrence(recurrence: EventData['recurrence']): string | null {
-    if (!recurrence || recurrence.type === 'none') {
-      return null
-    }
-
-    const parts = [`FREQ=${recurrence.type.toUpperCase()}`]
-    
-    if (recurrence.interval && recurrence.interval > 1) {
-      parts.push(`INTERVAL=${recurrence.interval}`)
-    }
-
-    if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-      const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
-      const byDay = recurrence.daysOfWeek.map(day => dayMap[day]).join(',')
-      parts.push(`BYDAY=${byDay}`)
+  private buildICalRecurrence(recurrence: EventData['recurrence']): ICalRecurrenceRule | null | undefined {
+    if (!recurrence) {
+      return undefined
     }
 
-    if (recurrence.endDate) {
-      const until = this.formatICalDate(recurrence.endDate)
-      parts.push(`UNTIL=${until}`)
-    } else if ((recurrence as any).count) {
-      parts.push(`COUNT=${(recurrence as any).count}`)
+    if (recurrence.type === 'none') {
+      return null
     }
 
-    return parts.join(';')
-  }
-
-  private parseCalendarData(calendarData: string): FastmailCalDAVEvent[] {
-    // Simple iCal parsing - in production, use a proper iCal parser library
-    const events: FastmailCalDAVEvent[] = []
-    const lines = calendarData.split(/\r?\n/)
-    
-    let currentEvent: Partial<FastmailCalDAVEvent> = {}
-    
-    for (const line of lines) {
-      const trimmed = line.trim()
-      
-      if (trimmed === 'BEGIN:VEVENT') {
-        currentEvent = {}
-      } else if (trimmed === 'END:VEVENT') {
-        if (currentEvent.uid && currentEvent.title) {
-          events.push(currentEvent as FastmailCalDAVEvent)
-        }
-        currentEvent = {}
-      } else if (trimmed.startsWith('UID:')) {
-        currentEvent.uid = trimmed.substring(3)
-      } else if (trimmed.startsWith('DTSTART')) {
-        currentEvent.startDate = this.parseICalDate(trimmed.substring(7))
-      } else if (trimmed.startsWith('DTEND')) {
-        currentEvent.endDate = this.parseICalDate(trimmed.substring(5))
-      } else if (trimmed.startsWith('SUMMARY:')) {
-        currentEvent.title = trimmed.substring(8)
-      } else if (trimmed.startsWith('DESCRIPTION:')) {
-        currentEvent.description = trimmed.substring(12)
-      } else if (trimmed.startsWith('LOCATION:')) {
-        currentEvent.location = trimmed.substring(9)
-      } else if (trimmed.startsWith('DTSTAMP')) {
-        currentEvent.lastModified = trimmed.substring(8)
-      } else if (trimmed.startsWith('STATUS:')) {
-        currentEvent.status = trimmed.substring(7).toLowerCase() as any
-      }
+    return {
+      frequency: recurrence.type,
+      interval: recurrence.interval || 1,
+      until: recurrence.endDate,
+      count: recurrence.count,
+      byDay: recurrence.daysOfWeek?.map(weekday => ({ weekday }))
     }
-    
-    return events
   }
 
   private parseWebDAVResponse(xml: string): any {
@@ -539,43 +556,84 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
     const href = xml.match(/<d:href>([^<]+)<\/d:href>/)?.[1] || ''
     const etag = xml.match(/<d:getetag>([^<]+)<\/d:getetag>/)?.[1] || ''
     const calendarData = xml.match(/<cal:calendar-data>([\s\S]*?)<\/cal:calendar-data>/)?.[1] || ''
+
+    // Multistatus bodies (REPORT, PROPFIND) carry one <response> per resource
+    const responses = Array.from(xml.matchAll(/<(?:\w+:)?response>([\s\S]*?)<\/(?:\w+:)?response>/g)).map(match => ({
+      href: match[1].match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/)?.[1] || '',
+      status: match[1].match(/<(?:\w+:)?status>([^<]+)<\/(?:\w+:)?status>/)?.[1] || '',
+      etag: match[1].match(/<(?:\w+:)?getetag>([^<]+)<\/(?:\w+:)?getetag>/)?.[1] || '',
+      calendarData: this.decodeXMLEntities(
+        match[1].match(/<(?:\w+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:\w+:)?calendar-data>/)?.[1] || ''
+      )
+    }))
     
+    // Collection state for incremental sync (PROPFIND and sync-collection REPORT)
+    const syncToken = xml.match(/<(?:\w+:)?sync-token>([^<]+)<\/(?:\w+:)?sync-token>/)?.[1]
+    const ctag = xml.match(/<(?:\w+:)?getctag[^>]*>([^<]+)<\/(?:\w+:)?getctag>/)?.[1]
+
     return {
       href,
       etag,
-      calendarData
+      calendarData,
+      responses,
+      syncToken,
+      ctag
     }
   }
 
-  private mapCalDAVEventToExternal(calDavEvent: FastmailCalDAVEvent | any): ExternalEvent {
-    const event = 'calendarData' in calDavEvent ? this.parseCalendarData(calDavEvent.calendarData)[0] : calDavEvent
-    
-    const title = event.title
-    const description = event.description
-    const startTime = event.startDate
-    const endTime = event.endDate
-    const isAllDay = event.allDay || false
-    const location = event.location
-    const attendees = event.attendees?.map((attendee: any) => ({
-      email: attendee.email || attendee.cua.replace('mailto:', ''),
-      name: attendee.name,
-      status: this.mapCalDAVResponseStatus(attendee.status)
-    }))
+  private getResourceId(href: string): string {
+    // Event resources are stored as /events/<uid>.ics
+    const name = href.split('/').filter(Boolean).pop() || ''
+    return decodeURIComponent(name.replace(/\.ics$/, ''))
+  }
+
+  private decodeXMLEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  }
 
+  private mapCalDAVResource(resource: { calendarData: string; etag?: string; href?: string }): ExternalEvent | null {
+    try {
+      const events = ICalendar.readEvents(ICalendar.parse(resource.calendarData))
+      const master = events.find(event => !event.recurrenceId) ?? events[0]
+      return master ? this.mapCalDAVEventToExternal(master, resource) : null
+    } catch (error) {
+      if (error instanceof ICalParseError) {
+        console.warn(`Skipping unreadable calendar resource ${resource.href}:`, error.message)
+        return null
+      }
+      throw error
+    }
+  }
+
+  private mapCalDAVEventToExternal(
+    event: ICalEvent,
+    resource: { calendarData: string; etag?: string; href?: string }
+  ): ExternalEvent {
     return {
       id: event.uid,
-      title,
-      description,
-      startTime,
-      endTime,
-      isAllDay,
-      location,
-      attendees,
+      title: event.summary,
+      description: event.description,
+      startTime: event.start,
+      endTime: event.end,
+      isAllDay: event.isAllDay,
+      ...(TimeZones.isValid(event.timeZone) && { timeZone: event.timeZone }),
+      location: event.location,
+      attendees: event.attendees.map(attendee => ({
+        email: attendee.email,
+        name: attendee.name,
+        status: this.mapCalDAVResponseStatus(attendee.status)
+      })),
       recurrence: this.mapCalDAVRecurrence(event.recurrence),
-      url: event.url,
+      url: resource.href,
       data: {
-        etag: calDavEvent.etag,
+        etag: resource.etag,
         ...event,
+        calendarData: resource.calendarData,
         dayflowId: event.uid,
         service: 'fastmail'
       }
@@ -593,63 +651,20 @@ export class FastmailCalendarIntegration extends BaseIntegrationService {
     return statusMap[status] || 'pending'
   }
 
-  private mapCalDAVRecurrence(recurrence?: FastmailCalDAVEvent['recurrence']): ExternalEvent['recurrence'] {
-    if (!recurrence || recurrence.type === 'none') {
+  private mapCalDAVRecurrence(recurrence?: ICalRecurrenceRule): ExternalEvent['recurrence'] {
+    if (!recurrence || !['daily', 'weekly', 'monthly', 'yearly'].includes(recurrence.frequency)) {
       return { type: 'none' }
     }
 
     return {
-      type: recurrence.type,
+      type: recurrence.frequency,
       interval: recurrence.interval,
-      endDate: recurrence.endDate,
-      daysOfWeek: recurrence.daysOfWeek
+      endDate: recurrence.until,
+      daysOfWeek: recurrence.byDay?.map(day => day.weekday),
+      count: recurrence.count
     }
   }
 
-  private formatICalDate(date: Date, isAllDay = false): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    const hour = String(date.getHours()).padStart(2, '0')
-    const minute = String(date.getMinutes()).padStart(2, '0')
-    const second = String(date.getSeconds()).padStart(2, '0')
-    
-    if (isAllDay) {
-      return `${year}${month}${day}`
-    }
-    
-    return `${year}${month}${day}T${hour}${minute}${second}Z`
-  }
-
-  private parseICalDate(icalDate: string): Date {
-    // Parse iCal date format (YYYYMMDD or YYYYMMDDTHHMMSSZ)
-    if (icalDate.includes('T')) {
-      const year = parseInt(icalDate.substring(0, 4))
-      const month = parseInt(icalDate.substring(4, 6)) - 1
-      const day = parseInt(icalDate.substring(6, 8))
-      const hour = parseInt(icalDate.substring(9, 11))
-      const minute = parseInt(icalDate.substring(11, 13))
-      const second = parseInt(icalDate.substring(13, 15))
-      
-      return new Date(Date.UTC(year, month, day, hour, minute, second))
-    } else {
-      // Date-only format
-      const year = parseInt(icalDate.substring(0, 4))
-      const month = parseInt(icalDate.substring(4, 6)) - 1
-      const day = parseInt(icalDate.substring(6, 8))
-      
-      return new Date(Date.UTC(year, month, day, 0, 0, 0))
-    }
-  }
-
-  private escapeICalText(text: string): string {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/\n/g, '\\n')
-      .replace(/,/g, '\\,')
-      .replace(/;/g, '\\;')
-  }
-
   private async handleCalendarWebhook(payload: any): Promise<void> {
     // CalDAV doesn't have standard webhooks
     console.log('Fastmail Calendar webhook (non-standard) received:', payload)
@@ -0,0 +1,224 @@
+/**
+ * Field Mapping Engine
+ * Applies declarative syncSettings.mappingRules to external items, mapping custom
+ * Notion properties, ClickUp custom fields and Linear labels onto DayFlow fields
+ */
+
+import { ExternalTask, ExternalEvent, FieldMappingRule, MappingTarget, MappingTransform, ValidationError } from './base'
+
+export interface MappedFields {
+  // DayFlow column values keyed by field name
+  fields: Record<string, unknown>
+  // Category and tag names; the sync engine resolves them to ids
+  category?: string
+  tags?: string[]
+}
+
+const TASK_TARGETS: MappingTarget[] = [
+  'title', 'description', 'status', 'priority', 'dueDate', 'startTime', 'endTime',
+  'estimatedDuration', 'progress', 'category', 'tags'
+]
+const EVENT_TARGETS: MappingTarget[] = ['title', 'description', 'startTime', 'endTime', 'location', 'category', 'tags']
+const TRANSFORMS: MappingTransform[] = ['none', 'trim', 'lowercase', 'uppercase', 'number', 'date', 'split', 'lookup']
+
+const STATUSES = ['pending', 'in_progress', 'completed', 'cancelled']
+const PRIORITIES = ['low', 'medium', 'high', 'urgent']
+
+export class FieldMapper {
+  // Targets a rule may write for each item type
+  static targetsFor(itemType: 'task' | 'event'): MappingTarget[] {
+    return itemType === 'task' ? TASK_TARGETS : EVENT_TARGETS
+  }
+
+  // Check rules coming from the settings dialog before they are stored
+  static validateRules(rules: unknown): FieldMappingRule[] {
+    if (!Array.isArray(rules)) {
+      throw new ValidationError('Mapping rules must be an array', 'mappingRules')
+    }
+
+    return rules.map((rule, index) => {
+      if (!rule || typeof rule.source !== 'string' || !rule.source.trim()) {
+        throw new ValidationError(`Rule ${index + 1} needs a source`, 'source')
+      }
+      if (![...TASK_TARGETS, ...EVENT_TARGETS].includes(rule.target)) {
+        throw new ValidationError(`Rule ${index + 1} has an unknown target "${rule.target}"`, 'target')
+      }
+      if (rule.transform !== undefined && !TRANSFORMS.includes(rule.transform)) {
+        throw new ValidationError(`Rule ${index + 1} has an unknown transform "${rule.transform}"`, 'transform')
+      }
+      if (rule.transform === 'lookup' && (typeof rule.values !== 'object' || rule.values === null)) {
+        throw new ValidationError(`Rule ${index + 1} needs a lookup table`, 'values')
+      }
+
+      return {
+        source: rule.source.trim(),
+        target: rule.target,
+        ...(rule.transform && { transform: rule.transform }),
+        ...(rule.values && { values: rule.values })
+      }
+    })
+  }
+
+  // Apply every rule that fits the item type; later rules win on the same target
+  static apply(
+    item: ExternalTask | ExternalEvent,
+    rules: FieldMappingRule[] = [],
+    itemType: 'task' | 'event' = 'startTime' in item ? 'event' : 'task'
+  ): MappedFields {
+    const mapped: MappedFields = { fields: {} }
+    const targets = FieldMapper.targetsFor(itemType)
+
+    for (const rule of rules) {
+      if (!targets.includes(rule.target)) continue
+
+      const value = FieldMapper.transform(FieldMapper.readSource(item, rule.source), rule)
+      FieldMapper.assign(mapped, rule.target, value)
+    }
+
+    return mapped
+  }
+
+  // Resolve a rule source against an external item
+  static readSource(item: ExternalTask | ExternalEvent, source: string): unknown {
+    const separator = source.indexOf(':')
+    const kind = separator > 0 ? source.slice(0, separator) : ''
+    const key = separator > 0 ? source.slice(separator + 1) : source
+
+    switch (kind) {
+      case 'property':
+        return FieldMapper.readNotionProperty(item.data?.properties?.[key])
+      case 'custom_field':
+        return FieldMapper.readClickUpField(
+          (item.data?.custom_fields || []).find((field: any) => field.id === key || field.name === key)
+        )
+      default:
+        return source.split('.').reduce<any>((value, part) => value?.[part], item)
+    }
+  }
+
+  static transform(value: unknown, rule: Pick<FieldMappingRule, 'transform' | 'values'>): unknown {
+    if (value === undefined || value === null) return undefined
+    if (Array.isArray(value) && rule.transform !== 'split') {
+      const values = value.map(entry => FieldMapper.transform(entry, rule)).filter(entry => entry !== undefined)
+      return values.length > 0 ? values : undefined
+    }
+
+    switch (rule.transform) {
+      case 'trim':
+        return String(value).trim()
+      case 'lowercase':
+        return String(value).toLowerCase()
+      case 'uppercase':
+        return String(value).toUpperCase()
+      case 'number': {
+        const number = typeof value === 'number' ? value : parseFloat(String(value))
+        return Number.isFinite(number) ? number : undefined
+      }
+      case 'date': {
+        const date = value instanceof Date ? value : new Date(String(value))
+        return isNaN(date.getTime()) ? undefined : date
+      }
+      case 'split': {
+        const parts = (Array.isArray(value) ? value : String(value).split(','))
+          .map(part => String(part).trim())
+          .filter(Boolean)
+        return parts.length > 0 ? parts : undefined
+      }
+      case 'lookup':
+        return rule.values?.[String(value)] ?? rule.values?.['*']
+      default:
+        return value
+    }
+  }
+
+  // Private helpers
+
+  private static assign(mapped: MappedFields, target: MappingTarget, value: unknown): void {
+    if (value === undefined) return
+
+    const first = Array.isArray(value) ? value[0] : value
+    switch (target) {
+      case 'category':
+        if (first !== undefined && String(first).trim()) mapped.category = String(first).trim()
+        return
+      case 'tags': {
+        const names = (Array.isArray(value) ? value : [value]).map(name => String(name).trim()).filter(Boolean)
+        if (names.length > 0) mapped.tags = Array.from(new Set([...(mapped.tags || []), ...names]))
+        return
+      }
+      case 'status':
+      case 'priority': {
+        const normalized = String(first).toLowerCase().replace(/[\s-]+/g, '_')
+        if ((target === 'status' ? STATUSES : PRIORITIES).includes(normalized)) {
+          mapped.fields[target] = normalized
+        }
+        return
+      }
+      case 'dueDate':
+      case 'startTime':
+      case 'endTime': {
+        const date = first instanceof Date ? first : new Date(String(first))
+        if (!isNaN(date.getTime())) mapped.fields[target] = date
+        return
+      }
+      case 'estimatedDuration':
+      case 'progress': {
+        const number = typeof first === 'number' ? first : parseFloat(String(first))
+        if (Number.isFinite(number)) {
+          mapped.fields[target] = target === 'progress'
+            ? Math.min(100, Math.max(0, Math.round(number)))
+            : Math.round(number)
+        }
+        return
+      }
+      default:
+        mapped.fields[target] = Array.isArray(value) ? value.join(', ') : String(value)
+    }
+  }
+
+  private static readNotionProperty(property: any): unknown {
+    if (!property) return undefined
+
+    // Pages from the API carry a type; older payloads only carry the value key
+    const type = property.type ?? Object.keys(property).find(key => key !== 'id')
+    const value = property[type]
+
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+        return (value || []).map((text: any) => text.plain_text ?? text.text?.content ?? '').join('') || undefined
+      case 'select':
+      case 'status':
+        return value?.name
+      case 'multi_select':
+        return (value || []).map((option: any) => option.name)
+      case 'people':
+        return (value || []).map((person: any) => person.name)
+      case 'date':
+        return value?.start
+      case 'formula':
+        return value?.[value.type]
+      default:
+        return value
+    }
+  }
+
+  private static readClickUpField(field: any): unknown {
+    if (!field || field.value === undefined || field.value === null || field.value === '') return undefined
+
+    const options: any[] = field.type_config?.options || []
+    const optionName = (option: any) => option?.name ?? option?.label
+
+    switch (field.type) {
+      case 'drop_down':
+        // Dropdowns store the option's orderindex (older API) or its id
+        return optionName(options.find(option => option.orderindex === Number(field.value) || option.id === field.value))
+      case 'labels':
+        return (field.value as string[]).map(id => optionName(options.find(option => option.id === id))).filter(Boolean)
+      case 'date':
+        return new Date(Number(field.value))
+      default:
+        return field.value
+    }
+  }
+}
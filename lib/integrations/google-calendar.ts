@@ -3,9 +3,10 @@
  * Implements calendar integration with Google Calendar service
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { CalendarEvent } from '../db/schema'
+import { TimeZones } from '../timezone'
 
 interface GoogleCalendarEvent {
   id: string
@@ -300,11 +301,11 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       summary: event.title,
       start: {
         dateTime: event.startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone: TimeZones.resolve(event.timeZone),
       },
       end: {
         dateTime: event.endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone: TimeZones.resolve(event.timeZone),
       }
     }
 
@@ -340,12 +341,6 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       }
     }
 
-    if (event.recurrence?.endDate) {
-      const until = event.recurrence.endDate.toISOString().split('T')[0].replace(/-/g, '')
-      googleEvent.recurrence = googleEvent.recurrence || []
-      googleEvent.recurrence.push(`UNTIL=${until}`)
-    }
-
     const response = await this.makeRequest('POST', `/calendars/${this.calendarId}/events`, googleEvent)
     
     return this.mapGoogleEventToExternal(response)
@@ -359,11 +354,11 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       summary: event.title,
       start: {
         dateTime: event.startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone: TimeZones.resolve(event.timeZone),
       },
       end: {
         dateTime: event.endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone: TimeZones.resolve(event.timeZone),
       }
     }
 
@@ -386,11 +381,11 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       } else {
         updateData.start = {
           dateTime: event.startTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          timeZone: TimeZones.resolve(event.timeZone),
         }
         updateData.end = {
           dateTime: event.endTime.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          timeZone: TimeZones.resolve(event.timeZone),
         }
       }
     }
@@ -403,10 +398,45 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       }))
     }
 
+    if (event.recurrence !== undefined) {
+      const rrule = this.mapRecurrenceToGoogle(event.recurrence)
+      updateData.recurrence = rrule ? [rrule] : []
+    }
+
     const response = await this.makeRequest('PUT', `/calendars/${this.calendarId}/events/${externalId}`, updateData)
     return this.mapGoogleEventToExternal(response)
   }
 
+  async updateEventOccurrence(externalId: string, originalStart: Date, occurrence: EventData | null): Promise<void> {
+    await this.ensureAuthenticated()
+
+    // Instances of a recurring event are looked up by the start the series gave them
+    const params = new URLSearchParams({ originalStart: originalStart.toISOString(), showDeleted: 'true' })
+    const response = await this.makeRequest('GET', `/calendars/${this.calendarId}/events/${externalId}/instances?${params}`)
+    const instance: GoogleCalendarEvent | undefined = response.items?.[0]
+
+    if (!instance) {
+      throw new IntegrationError('Occurrence not found', 'NOT_FOUND', 404)
+    }
+
+    const timeZone = TimeZones.resolve(occurrence?.timeZone)
+    const patch = occurrence
+      ? {
+          summary: occurrence.title,
+          description: occurrence.description ?? '',
+          location: occurrence.location ?? '',
+          start: occurrence.isAllDay
+            ? { date: occurrence.startTime.toISOString().split('T')[0] }
+            : { dateTime: occurrence.startTime.toISOString(), timeZone },
+          end: occurrence.isAllDay
+            ? { date: occurrence.endTime.toISOString().split('T')[0] }
+            : { dateTime: occurrence.endTime.toISOString(), timeZone }
+        }
+      : { status: 'cancelled' }
+
+    await this.makeRequest('PATCH', `/calendars/${this.calendarId}/events/${instance.id}`, patch)
+  }
+
   async deleteEvent(externalId: string): Promise<void> {
     await this.ensureAuthenticated()
     await this.makeRequest('DELETE', `/calendars/${this.calendarId}/events/${externalId}`)
@@ -426,6 +456,80 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
     }
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalTask>> {
+    // Calendar integrations expose events only; tasks are mirrored through createTask
+    return { items: [] }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    const now = new Date()
+    const thirtyDaysAgo = new Date(now.getTime() - (30 * 24 * 60 * 60 * 1000))
+    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000))
+
+    const params = new URLSearchParams({
+      timeMin: thirtyDaysAgo.toISOString(),
+      timeMax: thirtyDaysFromNow.toISOString(),
+      singleEvents: 'true',
+      orderBy: 'startTime',
+      maxResults: String(options.pageSize || 250)
+    })
+    if (options.cursor) {
+      params.set('pageToken', options.cursor)
+    }
+
+    const response = await this.makeRequest('GET', `/calendars/${this.calendarId}/events?${params.toString()}`)
+
+    const events: GoogleCalendarEvent[] = response.items || []
+    return {
+      items: events.map(event => this.mapGoogleEventToExternal(event)),
+      nextCursor: response.nextPageToken || undefined
+    }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    const baseParams: Record<string, string> = { singleEvents: 'true', maxResults: '250' }
+    if (cursor) {
+      baseParams.syncToken = cursor
+    } else {
+      // The initial request sets the scope the sync token follows from then on
+      baseParams.timeMin = new Date(Date.now() - (30 * 24 * 60 * 60 * 1000)).toISOString()
+    }
+
+    let nextSyncToken: string | undefined
+    let events: GoogleCalendarEvent[]
+    try {
+      events = await Paginator.collect(async options => {
+        const params = new URLSearchParams(baseParams)
+        if (options.cursor) {
+          params.set('pageToken', options.cursor)
+        }
+
+        const response = await this.makeRequest('GET', `/calendars/${this.calendarId}/events?${params.toString()}`)
+        // Only the last page carries the token for the next run
+        nextSyncToken = response.nextSyncToken || nextSyncToken
+        return { items: response.items || [], nextCursor: response.nextPageToken || undefined }
+      })
+    } catch (error) {
+      // 410 Gone: the sync token expired and a full resync is required
+      if (cursor && error instanceof IntegrationError && error.statusCode === 410) {
+        return this.fetchChangesSince()
+      }
+      throw error
+    }
+
+    // Incremental results include deletions as cancelled events
+    return {
+      items: events.filter(event => event.status !== 'cancelled').map(event => this.mapGoogleEventToExternal(event)),
+      deletedIds: events.filter(event => event.status === 'cancelled').map(event => event.id),
+      nextCursor: nextSyncToken,
+      fullListing: !cursor
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Google Calendar webhooks don't require signature verification
     // The watch channel provides notifications of changes
@@ -473,17 +577,8 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalEvents(): Promise<GoogleCalendarEvent[]> {
-    const now = new Date()
-    const thirtyDaysAgo = new Date(now.getTime() - (30 * 24 * 60 * 60 * 1000))
-    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000))
-
-    const response = await this.makeRequest(
-      'GET',
-      `/calendars/${this.calendarId}/events?timeMin=${thirtyDaysAgo.toISOString()}&timeMax=${thirtyDaysFromNow.toISOString()}&singleEvents=true&orderBy=startTime`
-    )
-    
-    return response.items || []
+  private async fetchExternalEvents(): Promise<ExternalEvent[]> {
+    return Paginator.collect(options => this.listEvents(options))
   }
 
   private async makeRequest(
@@ -556,6 +651,8 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       startTime,
       endTime,
       isAllDay,
+      // Google names the zone the series repeats in alongside timed starts
+      timeZone: googleEvent.start.timeZone,
       location,
       attendees,
       recurrence: this.mapGoogleRecurrence(googleEvent.recurrence),
@@ -597,6 +694,9 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
 
     let type: 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly' = 'none'
     let interval = 1
+    let endDate: Date | undefined
+    let count: number | undefined
+    let daysOfWeek: number[] | undefined
 
     for (const part of parts) {
       const [key, value] = part.split('=')
@@ -611,12 +711,32 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
         case 'INTERVAL':
           interval = parseInt(value) || 1
           break
+        case 'COUNT':
+          count = parseInt(value) || undefined
+          break
+        case 'UNTIL': {
+          const [, year, month, day, time] = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z)?$/) ?? []
+          if (year) {
+            endDate = time
+              ? new Date(`${year}-${month}-${day}T${time.slice(1, 3)}:${time.slice(3, 5)}:${time.slice(5, 7)}Z`)
+              : new Date(Number(year), Number(month) - 1, Number(day))
+          }
+          break
+        }
+        case 'BYDAY': {
+          const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+          daysOfWeek = value.split(',').map(day => dayMap.indexOf(day.slice(-2))).filter(day => day >= 0)
+          break
+        }
       }
     }
 
     return {
       type,
-      interval
+      interval,
+      ...(endDate && { endDate }),
+      ...(count && { count }),
+      ...(daysOfWeek?.length && { daysOfWeek })
     }
   }
 
@@ -644,6 +764,15 @@ export class GoogleCalendarIntegration extends BaseIntegrationService {
       parts.push(`BYDAY=${byDay}`)
     }
 
+    if (recurrence.count) {
+      parts.push(`COUNT=${recurrence.count}`)
+    } else if (recurrence.endDate) {
+      // The end date is inclusive, so the series runs until the end of that day
+      const end = new Date(recurrence.endDate)
+      const until = new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59)
+      parts.push(`UNTIL=${until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+    }
+
     return parts.join(';')
   }
 
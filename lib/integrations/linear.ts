@@ -3,8 +3,8 @@
  * Implements task management integration with Linear workspaces
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { Task } from '../db/schema'
 
 interface LinearIssue {
@@ -38,6 +38,8 @@ interface LinearIssue {
   startedAt?: string
   completedAt?: string
   canceledAt?: string
+  archivedAt?: string
+  trashed?: boolean
 }
 
 interface LinearTeam {
@@ -401,6 +403,170 @@ export class LinearIntegration extends BaseIntegrationService {
     throw new IntegrationError('Linear does not support calendar events', 'UNSUPPORTED_OPERATION')
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    const query = `
+      query GetIssues($teamId: String!, $first: Int!, $after: String) {
+        issues(
+          first: $first
+          after: $after
+          filter: {
+            team: { id: { eq: $teamId } }
+          }
+        ) {
+          nodes {
+            id
+            identifier
+            title
+            description
+            state {
+              id
+              name
+              color
+              type
+            }
+            priority
+            priorityLabel
+            assignee {
+              id
+              name
+              email
+              avatarUrl
+            }
+            labels {
+              id
+              name
+              color
+            }
+            createdAt
+            updatedAt
+            url
+            dueDate
+            startedAt
+            completedAt
+            canceledAt
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `
+
+    const response = await this.makeGraphQLRequest(query, {
+      teamId: this.teamId,
+      first: options.pageSize || 50,
+      after: options.cursor || null
+    })
+
+    const issues: LinearIssue[] = response.issues.nodes || []
+    const pageInfo = response.issues.pageInfo
+    return {
+      items: issues.map(issue => this.mapLinearIssueToExternal(issue)),
+      nextCursor: pageInfo?.hasNextPage ? pageInfo.endCursor : undefined
+    }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalEvent>> {
+    // Linear doesn't have calendar events, only issues
+    return { items: [] }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    if (!cursor) {
+      const items = await Paginator.collect(options => this.listTasks(options))
+      return {
+        items,
+        deletedIds: [],
+        nextCursor: this.getLatestUpdatedAt(items.map(item => item.updatedAt.toISOString())),
+        fullListing: true
+      }
+    }
+
+    // The cursor is the newest updatedAt seen; gte re-reads that instant so
+    // issues sharing the timestamp are not skipped (echo suppression makes it cheap)
+    const query = `
+      query GetUpdatedIssues($teamId: String!, $first: Int!, $after: String, $since: DateTimeOrDuration!) {
+        issues(
+          first: $first
+          after: $after
+          includeArchived: true
+          filter: {
+            team: { id: { eq: $teamId } }
+            updatedAt: { gte: $since }
+          }
+        ) {
+          nodes {
+            id
+            identifier
+            title
+            description
+            state {
+              id
+              name
+              color
+              type
+            }
+            priority
+            priorityLabel
+            assignee {
+              id
+              name
+              email
+              avatarUrl
+            }
+            labels {
+              id
+              name
+              color
+            }
+            createdAt
+            updatedAt
+            url
+            dueDate
+            startedAt
+            completedAt
+            canceledAt
+            archivedAt
+            trashed
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `
+
+    const issues: LinearIssue[] = await Paginator.collect(async options => {
+      const response = await this.makeGraphQLRequest(query, {
+        teamId: this.teamId,
+        first: 50,
+        after: options.cursor || null,
+        since: cursor
+      })
+      const pageInfo = response.issues.pageInfo
+      return {
+        items: response.issues.nodes || [],
+        nextCursor: pageInfo?.hasNextPage ? pageInfo.endCursor : undefined
+      }
+    })
+
+    // Archived and trashed issues no longer belong on the board
+    const isRemoved = (issue: LinearIssue) => Boolean(issue.archivedAt || issue.trashed)
+
+    return {
+      items: issues.filter(issue => !isRemoved(issue)).map(issue => this.mapLinearIssueToExternal(issue)),
+      deletedIds: issues.filter(isRemoved).map(issue => issue.id),
+      nextCursor: this.getLatestUpdatedAt(issues.map(issue => issue.updatedAt), cursor),
+      fullListing: false
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Linear webhooks are handled through GraphQL subscriptions
     // This would typically be handled by a webhook server
@@ -477,52 +643,8 @@ export class LinearIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalTasks(): Promise<LinearIssue[]> {
-    const query = `
-      query GetIssues($teamId: String!) {
-        issues(
-          filter: {
-            team: { id: { eq: $teamId } }
-          }
-        ) {
-          nodes {
-            id
-            identifier
-            title
-            description
-            state {
-              id
-              name
-              color
-              type
-            }
-            priority
-            priorityLabel
-            assignee {
-              id
-              name
-              email
-              avatarUrl
-            }
-            labels {
-              id
-              name
-              color
-            }
-            createdAt
-            updatedAt
-            url
-            dueDate
-            startedAt
-            completedAt
-            canceledAt
-          }
-        }
-      }
-    `
-
-    const response = await this.makeGraphQLRequest(query, { teamId: this.teamId })
-    return response.issues.nodes || []
+  private async fetchExternalTasks(): Promise<ExternalTask[]> {
+    return Paginator.collect(options => this.listTasks(options))
   }
 
   private async makeGraphQLRequest(query: string, variables?: any): Promise<any> {
@@ -573,6 +695,12 @@ export class LinearIntegration extends BaseIntegrationService {
     }, 3)
   }
 
+  private getLatestUpdatedAt(timestamps: string[], fallback?: string): string {
+    // ISO-8601 UTC timestamps order lexicographically
+    const latest = timestamps.reduce((max, timestamp) => timestamp > max ? timestamp : max, fallback || '')
+    return latest || new Date().toISOString()
+  }
+
   private mapLinearIssueToExternal(issue: LinearIssue): ExternalTask {
     const title = issue.title
     const description = issue.description
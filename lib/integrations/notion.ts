@@ -3,8 +3,8 @@
  * Implements task management integration with Notion workspaces
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { Task } from '../db/schema'
 import { getDatabase } from '../db'
 import { externalItems } from '../db/integrations-schema'
@@ -283,6 +283,40 @@ export class NotionIntegration extends BaseIntegrationService {
     throw new IntegrationError('Notion does not support calendar events', 'UNSUPPORTED_OPERATION')
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    const body: Record<string, any> = {
+      page_size: Math.min(options.pageSize || 100, 100)
+    }
+    if (options.cursor) {
+      body.start_cursor = options.cursor
+    }
+
+    const response = await this.makeRequest('POST', `/databases/${this.databaseId}/query`, body)
+
+    const pages: NotionTask[] = response.results || []
+    return {
+      items: pages.map(page => this.mapNotionTaskToExternal(page)),
+      nextCursor: response.has_more ? response.next_cursor : undefined
+    }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalEvent>> {
+    // Notion doesn't have calendar events, only database pages
+    return { items: [] }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask>> {
+    // Notion has no change feed that includes removals (database queries skip archived pages),
+    // so every round is a full listing the sync engine can diff for deletions
+    return {
+      items: await Paginator.collect(options => this.listTasks(options)),
+      deletedIds: [],
+      fullListing: true
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Handle different webhook events
     if (payload.type === 'page.created' || payload.type === 'page.updated') {
@@ -325,9 +359,8 @@ export class NotionIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalTasks(): Promise<NotionTask[]> {
-    const response = await this.makeRequest('GET', `/databases/${this.databaseId}/query`)
-    return response.results || []
+  private async fetchExternalTasks(): Promise<ExternalTask[]> {
+    return Paginator.collect(options => this.listTasks(options))
   }
 
   private async makeRequest(
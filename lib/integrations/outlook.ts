@@ -3,9 +3,10 @@
  * Implements calendar integration with Microsoft Outlook using Graph API
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalEvent, EventData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { CalendarEvent } from '../db/schema'
+import { TimeZones } from '../timezone'
 
 interface OutlookEvent {
   id: string
@@ -22,6 +23,8 @@ interface OutlookEvent {
     dateTime: string
     timeZone: string
   }
+  // Zone the organiser created the event in
+  originalStartTimeZone?: string
   location?: {
     displayName: string
     locationEmailAddress?: string
@@ -56,6 +59,8 @@ interface OutlookEvent {
     }
   }
   isAllDay: boolean
+  // Set on occurrences of a series: the start the series gave them
+  originalStart?: string
   showAs: 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown'
   sensitivity: 'normal' | 'personal' | 'private' | 'confidential'
   importance: 'low' | 'normal' | 'high'
@@ -294,14 +299,8 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
 
     const outlookEvent: any = {
       subject: event.title,
-      start: {
-        dateTime: event.startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: event.endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
+      start: this.toOutlookDateTime(event.startTime, event.timeZone),
+      end: this.toOutlookDateTime(event.endTime, event.timeZone),
       isAllDay: event.isAllDay
     }
 
@@ -329,7 +328,7 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
     }
 
     if (event.recurrence && event.recurrence.type !== 'none') {
-      outlookEvent.recurrence = this.mapRecurrenceToOutlook(event.recurrence)
+      outlookEvent.recurrence = this.mapRecurrenceToOutlook(event.recurrence, event.startTime, event.timeZone)
     }
 
     const response = await this.makeRequest('POST', `/me/calendar/events`, outlookEvent)
@@ -343,14 +342,8 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
 
     const updateData: any = {
       subject: event.title,
-      start: {
-        dateTime: event.startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: event.endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
+      start: this.toOutlookDateTime(event.startTime, event.timeZone),
+      end: this.toOutlookDateTime(event.endTime, event.timeZone),
       isAllDay: event.isAllDay
     }
 
@@ -377,10 +370,44 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
       }))
     }
 
+    if (event.recurrence !== undefined) {
+      updateData.recurrence = this.mapRecurrenceToOutlook(event.recurrence, event.startTime, event.timeZone) ?? null
+    }
+
     const response = await this.makeRequest('PATCH', `/me/calendar/events/${externalId}`, updateData)
     return this.mapOutlookEventToExternal(response)
   }
 
+  async updateEventOccurrence(externalId: string, originalStart: Date, occurrence: EventData | null): Promise<void> {
+    await this.ensureAuthenticated()
+
+    // Graph lists a series' occurrences in a window; pick the one the series started there
+    const dayMs = 24 * 60 * 60 * 1000
+    const window = `startDateTime=${new Date(originalStart.getTime() - dayMs).toISOString()}&endDateTime=${new Date(originalStart.getTime() + dayMs).toISOString()}`
+    const response = await this.makeRequest('GET', `/me/calendar/events/${externalId}/instances?${window}`)
+    const instance = (response.value || []).find((candidate: OutlookEvent) =>
+      candidate.originalStart && new Date(candidate.originalStart).getTime() === originalStart.getTime()
+    )
+
+    if (!instance) {
+      throw new IntegrationError('Occurrence not found', 'NOT_FOUND', 404)
+    }
+
+    if (!occurrence) {
+      await this.makeRequest('DELETE', `/me/calendar/events/${instance.id}`)
+      return
+    }
+
+    await this.makeRequest('PATCH', `/me/calendar/events/${instance.id}`, {
+      subject: occurrence.title,
+      body: { contentType: 'Text', content: occurrence.description || '' },
+      location: occurrence.location ? { displayName: occurrence.location } : null,
+      start: this.toOutlookDateTime(occurrence.startTime, occurrence.timeZone),
+      end: this.toOutlookDateTime(occurrence.endTime, occurrence.timeZone),
+      isAllDay: occurrence.isAllDay
+    })
+  }
+
   async deleteEvent(externalId: string): Promise<void> {
     await this.ensureAuthenticated()
     await this.makeRequest('DELETE', `/me/calendar/events/${externalId}`)
@@ -400,6 +427,69 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
     }
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalTask>> {
+    // Calendar integrations expose events only; tasks are mirrored through createTask
+    return { items: [] }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    let path: string
+    if (options.cursor) {
+      path = this.toRelativePath(options.cursor)
+    } else {
+      const thirtyDaysAgo = new Date(Date.now() - (30 * 24 * 60 * 60 * 1000))
+      path = `/me/calendar/events?$filter=lastModifiedDateTime ge ${thirtyDaysAgo.toISOString()}&$orderby=lastModifiedDateTime desc&$top=${options.pageSize || 50}`
+    }
+
+    const response = await this.makeRequest('GET', path)
+
+    const events: OutlookEvent[] = response.value || []
+    return {
+      items: events.map(event => this.mapOutlookEventToExternal(event)),
+      nextCursor: response['@odata.nextLink'] || undefined
+    }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalEvent>> {
+    await this.ensureAuthenticated()
+
+    let initialPath: string
+    if (cursor) {
+      initialPath = this.toRelativePath(cursor)
+    } else {
+      // calendarView delta needs a fixed window; the delta link keeps it for later rounds
+      const start = new Date(Date.now() - (30 * 24 * 60 * 60 * 1000))
+      const end = new Date(Date.now() + (365 * 24 * 60 * 60 * 1000))
+      initialPath = `/me/calendarView/delta?startDateTime=${start.toISOString()}&endDateTime=${end.toISOString()}`
+    }
+
+    let deltaLink: string | undefined
+    let events: Array<OutlookEvent & { '@removed'?: { reason: string } }>
+    try {
+      events = await Paginator.collect(async options => {
+        const response = await this.makeRequest('GET', options.cursor ? this.toRelativePath(options.cursor) : initialPath)
+        // Pages chain through @odata.nextLink until the final one hands out @odata.deltaLink
+        deltaLink = response['@odata.deltaLink'] || deltaLink
+        return { items: response.value || [], nextCursor: response['@odata.nextLink'] || undefined }
+      })
+    } catch (error) {
+      // 410 Gone: the delta token expired and Graph wants a fresh round
+      if (cursor && error instanceof IntegrationError && error.statusCode === 410) {
+        return this.fetchChangesSince()
+      }
+      throw error
+    }
+
+    return {
+      items: events.filter(event => !event['@removed']).map(event => this.mapOutlookEventToExternal(event)),
+      deletedIds: events.filter(event => event['@removed']).map(event => event.id),
+      nextCursor: deltaLink,
+      fullListing: !cursor
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Microsoft Graph subscriptions don't use webhook signatures
     if (payload.changeType && payload.resource) {
@@ -443,17 +533,13 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalEvents(): Promise<OutlookEvent[]> {
-    const now = new Date()
-    const thirtyDaysAgo = new Date(now.getTime() - (30 * 24 * 60 * 60 * 1000))
-    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000))
+  private async fetchExternalEvents(): Promise<ExternalEvent[]> {
+    return Paginator.collect(options => this.listEvents(options))
+  }
 
-    const response = await this.makeRequest(
-      'GET',
-      `/me/calendar/events?$filter=lastModifiedDateTime ge ${thirtyDaysAgo.toISOString()}&$orderby=lastModifiedDateTime desc`
-    )
-    
-    return response.value || []
+  private toRelativePath(link: string): string {
+    // Graph hands back nextLink and deltaLink as absolute URLs
+    return link.startsWith(this.apiBaseUrl) ? link.substring(this.apiBaseUrl.length) : link
   }
 
   private async makeRequest(
@@ -502,6 +588,11 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
         )
       }
 
+      // DELETE answers 204 without a body
+      if (response.status === 204) {
+        return null
+      }
+
       return response.json()
     }, 3)
   }
@@ -509,8 +600,8 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
   private mapOutlookEventToExternal(outlookEvent: OutlookEvent): ExternalEvent {
     const title = outlookEvent.subject
     const description = outlookEvent.body?.content
-    const startTime = new Date(outlookEvent.start.dateTime)
-    const endTime = new Date(outlookEvent.end.dateTime)
+    const startTime = this.fromOutlookDateTime(outlookEvent.start)
+    const endTime = this.fromOutlookDateTime(outlookEvent.end)
     const isAllDay = outlookEvent.isAllDay
     const location = outlookEvent.location?.displayName
     const attendees = outlookEvent.attendees?.map(attendee => ({
@@ -526,6 +617,7 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
       startTime,
       endTime,
       isAllDay,
+      ...(TimeZones.isValid(outlookEvent.originalStartTimeZone) && { timeZone: outlookEvent.originalStartTimeZone }),
       location,
       attendees,
       recurrence: this.mapOutlookRecurrence(outlookEvent.recurrence),
@@ -537,6 +629,18 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
     }
   }
 
+  // Graph reads dateTime as a wall time in the named zone, so it must not carry an offset
+  private toOutlookDateTime(date: Date, timeZone?: string): { dateTime: string; timeZone: string } {
+    const zone = TimeZones.resolve(timeZone)
+    return { dateTime: TimeZones.toLocalISO(date, zone), timeZone: zone }
+  }
+
+  // Responses come back in UTC unless a Prefer header asks otherwise; Windows
+  // zone names ("Pacific Standard Time") are not IANA and are read as UTC too
+  private fromOutlookDateTime(value: { dateTime: string; timeZone: string }): Date {
+    return TimeZones.fromLocalISO(value.dateTime, TimeZones.isValid(value.timeZone) ? value.timeZone : 'UTC')
+  }
+
   private mapOutlookResponseStatus(status: string): 'pending' | 'accepted' | 'declined' {
     const statusMap: Record<string, 'pending' | 'accepted' | 'declined'> = {
       'none': 'pending',
@@ -557,6 +661,7 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
       type: this.mapOutlookRecurrenceType(recurrence.pattern.type),
       interval: recurrence.pattern.interval,
       endDate: recurrence.range.endDate ? new Date(recurrence.range.endDate) : undefined,
+      count: recurrence.range.numberOfOccurrences,
       daysOfWeek: recurrence.pattern.daysOfWeek ? 
         recurrence.pattern.daysOfWeek.map(day => this.mapOutlookDayToNumber(day)) : undefined
     }
@@ -587,7 +692,7 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
     return dayMap[day.toLowerCase()] || 0
   }
 
-  private mapRecurrenceToOutlook(recurrence: EventData['recurrence']): OutlookEvent['recurrence'] | undefined {
+  private mapRecurrenceToOutlook(recurrence: EventData['recurrence'], startTime: Date, timeZone?: string): OutlookEvent['recurrence'] | undefined {
     if (!recurrence || recurrence.type === 'none') {
       return undefined
     }
@@ -600,9 +705,10 @@ export class OutlookCalendarIntegration extends BaseIntegrationService {
           recurrence.daysOfWeek.map(day => this.mapNumberToOutlookDay(day)) : undefined
       },
       range: {
-        type: recurrence.endDate ? 'endDate' : 'noEnd',
-        startDate: new Date().toISOString().split('T')[0],
-        endDate: recurrence.endDate?.toISOString().split('T')[0]
+        type: recurrence.count ? 'numbered' : recurrence.endDate ? 'endDate' : 'noEnd',
+        startDate: TimeZones.toLocalISO(startTime, TimeZones.resolve(timeZone)).split('T')[0],
+        endDate: recurrence.endDate?.toISOString().split('T')[0],
+        numberOfOccurrences: recurrence.count
       }
     } as any
   }
@@ -3,13 +3,13 @@
  * Handles two-way synchronization between DayFlow and external services
  */
 
-import { BaseIntegration, SyncResult, SyncConflict, ExternalTask, ExternalEvent, ConflictResolution } from './base'
-import { DataTransformer, ConflictDetector, RetryHandler, ValidationUtils } from './utils'
+import { BaseIntegration, IntegrationConfig, IntegrationError, SyncResult, SyncConflict, ExternalTask, ExternalEvent, ConflictResolution, SyncSnapshot, FieldConflict } from './base'
+import { DataTransformer, ConflictDetector, RetryHandler, Paginator, ValidationUtils } from './utils'
 import { UserIntegration, SyncOperation, SyncQueueItem, ExternalItem } from '../db/integrations-schema'
-import { taskRepository, calendarEventRepository } from '../data-access'
+import { taskRepository, calendarEventRepository, categoryRepository, tagRepository, NotFoundError } from '../data-access'
 import { getDatabase } from '../db'
-import { and, eq, gt, lte, sql } from 'drizzle-orm'
-import { userIntegrations, externalItems } from '../db/integrations-schema'
+import { and, asc, desc, eq, gt, inArray, lte, ne, sql } from 'drizzle-orm'
+import { userIntegrations, externalItems, syncOperations } from '../db/integrations-schema'
 import { NotionIntegration } from './notion'
 import { ClickUpIntegration } from './clickup'
 import { LinearIntegration } from './linear'
@@ -18,16 +18,12 @@ import { GoogleCalendarIntegration } from './google-calendar'
 import { OutlookCalendarIntegration } from './outlook'
 import { AppleCalendarIntegration } from './apple-calendar'
 import { FastmailCalendarIntegration } from './fastmail'
+import { FieldMapper, MappedFields } from './field-mapping'
 
 // Import Task and CalendarEvent from schema
 import type { Task, CalendarEvent } from '../db/schema'
 
-// Get database instance
-function getDB() {
-  return getDatabase()
-}
-
-interface SyncJob {
+export interface SyncJob {
   id: string
   userIntegrationId: string
   operation: 'full_sync' | 'incremental_sync' | 'task_sync' | 'event_sync'
@@ -39,32 +35,66 @@ interface SyncJob {
   result?: SyncResult
 }
 
-interface ConflictResolutionRequest {
+// Conflict as stored in sync_operations.conflicts
+type StoredSyncConflict = NonNullable<SyncOperation['conflicts']>[number]
+
+// Linked items missing from a listing are confirmed one request at a time; cap that per run
+const DELETION_CHECK_LIMIT = 50
+
+// Unresolved conflict as shown in the conflict inbox
+export interface ConflictInboxItem {
+  id: string
+  jobId: string
+  userIntegrationId: string
+  serviceName: string
+  itemType: 'task' | 'event'
+  type: string
+  detectedAt: Date
+  dayflowItem: any
+  externalItem: ExternalTask | ExternalEvent
+  fields: FieldConflict[]
+}
+
+export interface ConflictResolutionRequest {
   conflictId: string
   dayflowItemId: string
   externalItemId: string
   resolution: 'keep_dayflow' | 'keep_external' | 'merge' | 'manual'
+  // Side to take for each conflicting field when merging; unlisted fields take the external value
+  fieldChoices?: Record<string, 'dayflow' | 'external'>
   mergedData?: any
   notes?: string
 }
 
+// External item in DayFlow terms, with the integration's mapping rules applied
+interface IncomingItem {
+  data: Record<string, any>
+  tags?: string[]
+  snapshot: SyncSnapshot
+}
+
+export interface SyncEngineOptions {
+  db?: any
+}
+
 export class SyncEngine {
-  private activeJobs = new Map<string, SyncJob>()
-  private integrationFactories: Map<string, () => BaseIntegration> = new Map()
+  private readonly db?: any
+  private integrationFactories: Map<string, (config: Partial<IntegrationConfig>) => BaseIntegration> = new Map()
 
-  constructor() {
+  constructor(options: SyncEngineOptions = {}) {
+    this.db = options.db
     this.initializeIntegrationFactories()
   }
 
   private initializeIntegrationFactories(): void {
-    this.integrationFactories.set('notion', () => new NotionIntegration())
-    this.integrationFactories.set('clickup', () => new ClickUpIntegration())
-    this.integrationFactories.set('linear', () => new LinearIntegration())
-    this.integrationFactories.set('todoist', () => new TodoistIntegration())
-    this.integrationFactories.set('google-calendar', () => new GoogleCalendarIntegration())
-    this.integrationFactories.set('outlook', () => new OutlookCalendarIntegration())
-    this.integrationFactories.set('apple-calendar', () => new AppleCalendarIntegration())
-    this.integrationFactories.set('fastmail', () => new FastmailCalendarIntegration())
+    this.integrationFactories.set('notion', config => new NotionIntegration(config))
+    this.integrationFactories.set('clickup', config => new ClickUpIntegration(config))
+    this.integrationFactories.set('linear', config => new LinearIntegration(config))
+    this.integrationFactories.set('todoist', config => new TodoistIntegration(config))
+    this.integrationFactories.set('google-calendar', config => new GoogleCalendarIntegration(config))
+    this.integrationFactories.set('outlook', config => new OutlookCalendarIntegration(config))
+    this.integrationFactories.set('apple-calendar', config => new AppleCalendarIntegration(config))
+    this.integrationFactories.set('fastmail', config => new FastmailCalendarIntegration(config))
   }
 
   /**
@@ -79,27 +109,16 @@ export class SyncEngine {
       batchSize?: number
     } = {}
   ): Promise<string> {
-    const jobId = this.generateJobId()
-    const job: SyncJob = {
-      id: jobId,
-      userIntegrationId: userIntegration.id,
-      operation: 'full_sync',
-      status: 'pending',
-      startedAt: new Date(),
-      conflicts: [],
-      errors: []
-    }
-
-    this.activeJobs.set(jobId, job)
+    const job = await this.createJob(userIntegration, 'full_sync')
 
     // Execute sync in background
     this.executeSyncJob(job, userIntegration, options)
 
-    return jobId
+    return job.id
   }
 
   /**
-   * Start incremental synchronization (based on last sync timestamp)
+   * Start incremental synchronization (changes since the integration's stored sync cursor)
    */
   async startIncrementalSync(
     userIntegration: UserIntegration,
@@ -110,23 +129,12 @@ export class SyncEngine {
       batchSize?: number
     } = {}
   ): Promise<string> {
-    const jobId = this.generateJobId()
-    const job: SyncJob = {
-      id: jobId,
-      userIntegrationId: userIntegration.id,
-      operation: 'incremental_sync',
-      status: 'pending',
-      startedAt: new Date(),
-      conflicts: [],
-      errors: []
-    }
-
-    this.activeJobs.set(jobId, job)
+    const job = await this.createJob(userIntegration, 'incremental_sync')
 
     // Execute sync in background
     this.executeSyncJob(job, userIntegration, options)
 
-    return jobId
+    return job.id
   }
 
   /**
@@ -140,23 +148,12 @@ export class SyncEngine {
       taskIds?: string[]
     } = {}
   ): Promise<string> {
-    const jobId = this.generateJobId()
-    const job: SyncJob = {
-      id: jobId,
-      userIntegrationId: userIntegration.id,
-      operation: 'task_sync',
-      status: 'pending',
-      startedAt: new Date(),
-      conflicts: [],
-      errors: []
-    }
-
-    this.activeJobs.set(jobId, job)
+    const job = await this.createJob(userIntegration, 'task_sync')
 
     // Execute task sync in background
     this.executeTaskSyncJob(job, userIntegration, options)
 
-    return jobId
+    return job.id
   }
 
   /**
@@ -170,53 +167,106 @@ export class SyncEngine {
       eventIds?: string[]
     } = {}
   ): Promise<string> {
-    const jobId = this.generateJobId()
-    const job: SyncJob = {
-      id: jobId,
-      userIntegrationId: userIntegration.id,
-      operation: 'event_sync',
-      status: 'pending',
-      startedAt: new Date(),
-      conflicts: [],
-      errors: []
-    }
-
-    this.activeJobs.set(jobId, job)
+    const job = await this.createJob(userIntegration, 'event_sync')
 
     // Execute event sync in background
     this.executeEventSyncJob(job, userIntegration, options)
 
-    return jobId
+    return job.id
   }
 
   /**
-   * Get sync job status
+   * Record a pending job for a sync the queue worker will run, so the caller
+   * has an id to follow it by. Pass the id to runSync as `jobId`.
    */
-  getJobStatus(jobId: string): SyncJob | null {
-    return this.activeJobs.get(jobId) || null
+  async createPendingJob(userIntegration: UserIntegration, operation: SyncJob['operation']): Promise<string> {
+    const job = await this.createJob(userIntegration, operation)
+    return job.id
   }
 
   /**
-   * Cancel a running sync job
+   * Run a sync job to completion and return its final state.
+   * Used by the queue worker, which needs the outcome to schedule retries.
    */
-  cancelJob(jobId: string): boolean {
-    const job = this.activeJobs.get(jobId)
-    if (job && job.status === 'running') {
-      job.status = 'cancelled'
-      job.completedAt = new Date()
-      return true
+  async runSync(
+    userIntegration: UserIntegration,
+    operation: SyncJob['operation'],
+    options: any = {}
+  ): Promise<SyncJob> {
+    // A job recorded up front keeps its id across retries
+    const pending = options.jobId ? await this.getJobStatus(options.jobId) : null
+    if (pending?.status === 'cancelled') return pending
+
+    const job = pending && pending.userIntegrationId === userIntegration.id
+      ? await this.resumeJob(pending)
+      : await this.createJob(userIntegration, operation)
+
+    switch (operation) {
+      case 'task_sync':
+        await this.executeTaskSyncJob(job, userIntegration, options)
+        break
+      case 'event_sync':
+        await this.executeEventSyncJob(job, userIntegration, options)
+        break
+      default:
+        await this.executeSyncJob(job, userIntegration, options)
     }
-    return false
+
+    return job
+  }
+
+  /**
+   * Get sync job status
+   */
+  async getJobStatus(jobId: string): Promise<SyncJob | null> {
+    const [operation] = await this.getDB().select().from(syncOperations)
+      .where(eq(syncOperations.id, jobId))
+      .limit(1)
+
+    return operation ? this.toSyncJob(operation) : null
+  }
+
+  /**
+   * Cancel a pending or running sync job
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    const cancelled = await this.getDB().update(syncOperations)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(
+        eq(syncOperations.id, jobId),
+        inArray(syncOperations.status, ['pending', 'running'])
+      ))
+      .returning()
+
+    return cancelled.length > 0
+  }
+
+  /**
+   * A user's integration with a service, if they connected it
+   */
+  async findUserIntegration(userId: string, serviceName: string): Promise<UserIntegration | null> {
+    const [integration] = await this.getDB().select().from(userIntegrations)
+      .where(and(
+        eq(userIntegrations.userId, userId),
+        eq(userIntegrations.serviceName, serviceName)
+      ))
+      .limit(1)
+
+    return integration ?? null
   }
 
   /**
    * Get all active jobs for a user integration
    */
-  getActiveJobsForIntegration(userIntegrationId: string): SyncJob[] {
-    return Array.from(this.activeJobs.values()).filter(job => 
-      job.userIntegrationId === userIntegrationId && 
-      (job.status === 'pending' || job.status === 'running')
-    )
+  async getActiveJobsForIntegration(userIntegrationId: string): Promise<SyncJob[]> {
+    const operations = await this.getDB().select().from(syncOperations)
+      .where(and(
+        eq(syncOperations.userIntegrationId, userIntegrationId),
+        inArray(syncOperations.status, ['pending', 'running'])
+      ))
+      .orderBy(desc(syncOperations.startedAt))
+
+    return operations.map((operation: SyncOperation) => this.toSyncJob(operation))
   }
 
   /**
@@ -227,37 +277,52 @@ export class SyncEngine {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       // Get the job and conflict details
-      const job = this.findJobByConflict(resolution.conflictId)
-      if (!job) {
+      const operation = await this.findOperationByConflict(resolution.conflictId)
+      const storedConflict = operation?.conflicts?.find(c => c.id === resolution.conflictId)
+      if (!operation || !storedConflict) {
         return { success: false, error: 'Sync job not found' }
       }
 
+      if (storedConflict.resolution) {
+        return { success: false, error: 'Conflict already resolved' }
+      }
+
       // Get the items being resolved
-      const dayflowItem = await this.getDayFlowItem(resolution.dayflowItemId)
-      const externalItem = await this.getExternalItem(resolution.externalItemId)
+      const dayflowItem = await this.getDayFlowItem(resolution.dayflowItemId, storedConflict.itemType)
+      const externalItem = this.getExternalItem(storedConflict)
+      const [userIntegration] = await this.getDB().select().from(userIntegrations)
+        .where(eq(userIntegrations.id, operation.userIntegrationId))
+        .limit(1)
 
-      if (!dayflowItem || !externalItem) {
+      if (!dayflowItem || !externalItem || externalItem.id !== resolution.externalItemId || !userIntegration) {
         return { success: false, error: 'Items not found' }
       }
 
-      // Apply resolution based on choice
-      switch (resolution.resolution) {
-        case 'keep_dayflow':
-          await this.keepDayFlowItem(dayflowItem, externalItem)
-          break
-        case 'keep_external':
-          await this.keepExternalItem(dayflowItem, externalItem)
-          break
-        case 'merge':
-          await this.mergeItems(dayflowItem, externalItem, resolution.mergedData)
-          break
-        case 'manual':
-          await this.applyManualResolution(dayflowItem, externalItem, resolution.mergedData)
-          break
+      // A later sync or push moved the link on; the recorded values are stale
+      const baseVersion = storedConflict.conflict?.baseVersion
+      if (baseVersion !== undefined) {
+        const tracked = await this.findTrackedItem(userIntegration, externalItem.id)
+        if (tracked?.version !== baseVersion) {
+          return { success: false, error: 'Conflict is out of date; sync again to refresh it' }
+        }
+      }
+
+      const conflict = { ...storedConflict, dayflowItem, externalItem } as SyncConflict
+      if (resolution.resolution === 'manual') {
+        await this.applyManualResolution(conflict, resolution.mergedData, userIntegration)
+      } else {
+        await this.resolveConflict(conflict, resolution.resolution, userIntegration, resolution.fieldChoices)
       }
 
-      // Remove conflict from job
-      job.conflicts = job.conflicts.filter(c => c !== undefined)
+      // Mark the conflict resolved on the persisted job
+      const conflicts = (operation.conflicts || []).map(conflict =>
+        conflict.id === resolution.conflictId
+          ? { ...conflict, resolution: resolution.resolution, resolvedAt: new Date().toISOString() }
+          : conflict
+      )
+      await this.getDB().update(syncOperations)
+        .set({ conflicts })
+        .where(eq(syncOperations.id, operation.id))
 
       return { success: true }
     } catch (error) {
@@ -268,34 +333,90 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Unresolved conflicts across a user's integrations, newest first. An item that
+   * conflicted on several runs is listed once, from its latest run.
+   */
+  async listConflicts(userId: string, serviceName?: string): Promise<ConflictInboxItem[]> {
+    const rows: Array<{ operation: SyncOperation; serviceName: string }> = await this.getDB()
+      .select({ operation: syncOperations, serviceName: userIntegrations.serviceName })
+      .from(syncOperations)
+      .innerJoin(userIntegrations, eq(syncOperations.userIntegrationId, userIntegrations.id))
+      .where(and(
+        eq(userIntegrations.userId, userId),
+        serviceName ? eq(userIntegrations.serviceName, serviceName) : undefined,
+        sql`jsonb_array_length(${syncOperations.conflicts}) > 0`
+      ))
+      .orderBy(desc(syncOperations.createdAt))
+
+    const seen = new Set<string>()
+    const items: ConflictInboxItem[] = []
+
+    for (const { operation, serviceName } of rows) {
+      for (const conflict of operation.conflicts || []) {
+        const key = `${operation.userIntegrationId}:${conflict.itemType}:${conflict.externalItem?.id}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        if (conflict.resolution) continue
+
+        const externalItem = this.reviveExternalItem(conflict.externalItem)
+        items.push({
+          id: conflict.id,
+          jobId: operation.id,
+          userIntegrationId: operation.userIntegrationId,
+          serviceName,
+          itemType: conflict.itemType,
+          type: conflict.type,
+          detectedAt: operation.createdAt || operation.startedAt || new Date(),
+          dayflowItem: conflict.dayflowItem,
+          externalItem,
+          fields: conflict.fields ?? this.diffFields(conflict.dayflowItem, externalItem, conflict.itemType)
+        })
+      }
+    }
+
+    return items
+  }
+
   /**
    * Get conflict summary for a job
    */
-  getConflictSummary(jobId: string): {
+  async getConflictSummary(jobId: string): Promise<{
     total: number
     taskConflicts: number
     eventConflicts: number
     unresolved: number
-  } {
-    const job = this.activeJobs.get(jobId)
-    if (!job) {
+  }> {
+    const [operation] = await this.getDB().select().from(syncOperations)
+      .where(eq(syncOperations.id, jobId))
+      .limit(1)
+
+    if (!operation) {
       return { total: 0, taskConflicts: 0, eventConflicts: 0, unresolved: 0 }
     }
 
-    const taskConflicts = job.conflicts.filter(c => 
-      'status' in c.dayflowItem // Task conflicts have status
-    ).length
-
-    const eventConflicts = job.conflicts.filter(c => 
-      'startTime' in c.dayflowItem // Event conflicts have startTime
-    ).length
+    const conflicts: StoredSyncConflict[] = operation.conflicts || []
 
     return {
-      total: job.conflicts.length,
-      taskConflicts,
-      eventConflicts,
-      unresolved: job.conflicts.length
+      total: conflicts.length,
+      taskConflicts: conflicts.filter(c => c.itemType === 'task').length,
+      eventConflicts: conflicts.filter(c => c.itemType === 'event').length,
+      unresolved: conflicts.filter(c => !c.resolution).length
+    }
+  }
+
+  /**
+   * Apply a deletion reported by the external service (webhook or missing from a listing)
+   * to the linked DayFlow item, following the integration's deletion policy
+   */
+  async applyExternalDeletion(userIntegration: UserIntegration, externalId: string): Promise<boolean> {
+    const tracked = await this.findTrackedItem(userIntegration, externalId)
+    if (!tracked || tracked.isDeleted) {
+      return false
     }
+
+    await this.removeLinkedItem(userIntegration, tracked)
+    return true
   }
 
   // Private methods
@@ -305,9 +426,9 @@ export class SyncEngine {
     userIntegration: UserIntegration,
     options: any
   ): Promise<void> {
-    job.status = 'running'
-
     try {
+      await this.startJob(job, userIntegration)
+
       const integration = await this.createIntegration(userIntegration)
       
       // Determine sync scope
@@ -328,34 +449,35 @@ export class SyncEngine {
         completedAt: new Date()
       }
 
-      // Sync tasks if applicable
-      if (shouldSyncTasks) {
-        const taskResult = await this.syncTasks(integration, userIntegration, options)
-        this.mergeSyncResult(result, taskResult)
-      }
-
-      // Sync events if applicable
-      if (shouldSyncEvents) {
-        const eventResult = await this.syncEvents(integration, userIntegration, options)
-        this.mergeSyncResult(result, eventResult)
-      }
+      // Retry local deletions that could not be pushed when they happened
+      result.errors.push(...await this.flushPendingDeletions(integration, userIntegration))
 
-      // Apply conflict resolution if configured
-      if (userIntegration.syncSettings?.conflictResolution && userIntegration.syncSettings.conflictResolution !== 'manual') {
-        await this.applyAutoConflictResolution(job, result, userIntegration.syncSettings.conflictResolution)
-      }
+      if (job.operation === 'incremental_sync') {
+        // Change feeds only cover the kind of item the service owns
+        const itemType = integration.type === 'calendar' ? 'event' : 'task'
+        const enabled = itemType === 'task' ? shouldSyncTasks : shouldSyncEvents
 
-      job.result = result
-      job.status = 'completed'
-      job.completedAt = new Date()
+        if (enabled && !(await this.isJobCancelled(job.id))) {
+          const changeResult = await this.syncChanges(integration, userIntegration, itemType)
+          this.mergeSyncResult(result, changeResult)
+        }
+      } else {
+        // Sync tasks if applicable
+        if (shouldSyncTasks && !(await this.isJobCancelled(job.id))) {
+          const taskResult = await this.syncTasks(integration, userIntegration, options)
+          this.mergeSyncResult(result, taskResult)
+        }
 
-      // Update last sync timestamp
-      await this.updateLastSyncTimestamp(userIntegration.id)
+        // Sync events if applicable
+        if (shouldSyncEvents && !(await this.isJobCancelled(job.id))) {
+          const eventResult = await this.syncEvents(integration, userIntegration, options)
+          this.mergeSyncResult(result, eventResult)
+        }
+      }
 
+      await this.completeJob(job, result, userIntegration, options.conflictResolution)
     } catch (error) {
-      job.status = 'failed'
-      job.completedAt = new Date()
-      job.errors.push(error)
+      await this.failJob(job, error, userIntegration)
       console.error(`Sync job ${job.id} failed:`, error)
     }
   }
@@ -365,26 +487,15 @@ export class SyncEngine {
     userIntegration: UserIntegration,
     options: any
   ): Promise<void> {
-    job.status = 'running'
-
     try {
+      await this.startJob(job, userIntegration)
+
       const integration = await this.createIntegration(userIntegration)
       const result = await this.syncTasks(integration, userIntegration, options)
-      
-      if (userIntegration.syncSettings?.conflictResolution && userIntegration.syncSettings.conflictResolution !== 'manual') {
-        await this.applyAutoConflictResolution(job, result, userIntegration.syncSettings.conflictResolution)
-      }
-
-      job.result = result
-      job.status = 'completed'
-      job.completedAt = new Date()
-
-      await this.updateLastSyncTimestamp(userIntegration.id)
 
+      await this.completeJob(job, result, userIntegration, options.conflictResolution)
     } catch (error) {
-      job.status = 'failed'
-      job.completedAt = new Date()
-      job.errors.push(error)
+      await this.failJob(job, error, userIntegration)
       console.error(`Task sync job ${job.id} failed:`, error)
     }
   }
@@ -394,30 +505,196 @@ export class SyncEngine {
     userIntegration: UserIntegration,
     options: any
   ): Promise<void> {
-    job.status = 'running'
-
     try {
+      await this.startJob(job, userIntegration)
+
       const integration = await this.createIntegration(userIntegration)
       const result = await this.syncEvents(integration, userIntegration, options)
-      
-      if (userIntegration.syncSettings?.conflictResolution && userIntegration.syncSettings.conflictResolution !== 'manual') {
-        await this.applyAutoConflictResolution(job, result, userIntegration.syncSettings.conflictResolution)
-      }
-
-      job.result = result
-      job.status = 'completed'
-      job.completedAt = new Date()
-
-      await this.updateLastSyncTimestamp(userIntegration.id)
 
+      await this.completeJob(job, result, userIntegration, options.conflictResolution)
     } catch (error) {
-      job.status = 'failed'
-      job.completedAt = new Date()
-      job.errors.push(error)
+      await this.failJob(job, error, userIntegration)
       console.error(`Event sync job ${job.id} failed:`, error)
     }
   }
 
+  private async createJob(
+    userIntegration: UserIntegration,
+    operation: SyncJob['operation']
+  ): Promise<SyncJob> {
+    const [created] = await this.getDB().insert(syncOperations).values({
+      userIntegrationId: userIntegration.id,
+      operation,
+      status: 'pending',
+      startedAt: new Date(),
+      conflicts: [],
+      createdAt: new Date()
+    }).returning()
+
+    return this.toSyncJob(created)
+  }
+
+  // A retry starts the job over; an earlier attempt may have left it failed
+  private async resumeJob(job: SyncJob): Promise<SyncJob> {
+    const startedAt = new Date()
+    await this.getDB().update(syncOperations)
+      .set({ status: 'pending', startedAt, completedAt: null, error: null })
+      .where(and(
+        eq(syncOperations.id, job.id),
+        ne(syncOperations.status, 'cancelled')
+      ))
+
+    return { ...job, status: 'pending', startedAt, completedAt: undefined, result: undefined, conflicts: [], errors: [] }
+  }
+
+  private async startJob(job: SyncJob, userIntegration: UserIntegration): Promise<void> {
+    job.status = 'running'
+    await this.persistJob(job)
+
+    await this.getDB().update(userIntegrations)
+      .set({ syncStatus: 'syncing', syncError: null })
+      .where(eq(userIntegrations.id, userIntegration.id))
+  }
+
+  private async completeJob(
+    job: SyncJob,
+    result: SyncResult,
+    userIntegration: UserIntegration,
+    // A strategy asked for with this sync, over the integration's setting
+    conflictResolution?: ConflictResolution
+  ): Promise<void> {
+    // Every detected conflict is tracked on the job until it is resolved
+    result.conflicts.forEach(conflict => {
+      conflict.id = conflict.id || crypto.randomUUID()
+    })
+    job.conflicts = [...result.conflicts]
+
+    // Apply conflict resolution if configured
+    const strategy = conflictResolution ?? userIntegration.syncSettings?.conflictResolution
+    if (strategy && strategy !== 'manual') {
+      await this.applyAutoConflictResolution(result, strategy, userIntegration)
+    }
+
+    result.completedAt = new Date()
+    job.result = result
+    job.errors.push(...result.errors)
+    job.status = 'completed'
+    job.completedAt = result.completedAt
+    await this.persistJob(job)
+
+    // Update last sync timestamp
+    await this.updateLastSyncTimestamp(userIntegration.id)
+  }
+
+  private async failJob(job: SyncJob, error: unknown, userIntegration: UserIntegration): Promise<void> {
+    job.status = 'failed'
+    job.completedAt = new Date()
+    job.errors.push(error)
+
+    try {
+      await this.persistJob(job)
+      await this.getDB().update(userIntegrations)
+        .set({ syncStatus: 'error', syncError: this.formatJobErrors(job) })
+        .where(eq(userIntegrations.id, userIntegration.id))
+    } catch (persistError) {
+      console.error(`Failed to record failure of sync job ${job.id}:`, persistError)
+    }
+  }
+
+  /**
+   * Write the job's current state to sync_operations. Only jobs that are still
+   * pending or running are updated, so a concurrent cancel is never overwritten.
+   */
+  private async persistJob(job: SyncJob): Promise<void> {
+    await this.getDB().update(syncOperations)
+      .set({
+        status: job.status,
+        completedAt: job.completedAt ?? null,
+        itemsProcessed: job.result?.itemsProcessed ?? 0,
+        itemsCreated: job.result?.itemsCreated ?? 0,
+        itemsUpdated: job.result?.itemsUpdated ?? 0,
+        itemsDeleted: job.result?.itemsDeleted ?? 0,
+        conflicts: job.conflicts.map(conflict => this.serializeConflict(conflict)),
+        error: this.formatJobErrors(job)
+      })
+      .where(and(
+        eq(syncOperations.id, job.id),
+        inArray(syncOperations.status, ['pending', 'running'])
+      ))
+  }
+
+  private async isJobCancelled(jobId: string): Promise<boolean> {
+    const [operation] = await this.getDB().select({ status: syncOperations.status }).from(syncOperations)
+      .where(eq(syncOperations.id, jobId))
+      .limit(1)
+
+    return operation?.status === 'cancelled'
+  }
+
+  private toSyncJob(operation: SyncOperation): SyncJob {
+    const conflicts: StoredSyncConflict[] = operation.conflicts || []
+    const errors = operation.error ? operation.error.split('\n') : []
+    const startedAt = operation.startedAt || operation.createdAt || new Date()
+    const completedAt = operation.completedAt || undefined
+
+    const job: SyncJob = {
+      id: operation.id,
+      userIntegrationId: operation.userIntegrationId,
+      operation: operation.operation as SyncJob['operation'],
+      status: operation.status as SyncJob['status'],
+      startedAt,
+      completedAt,
+      conflicts: conflicts.map(conflict => ({
+        id: conflict.id,
+        type: conflict.type as SyncConflict['type'],
+        dayflowItem: conflict.dayflowItem,
+        externalItem: this.reviveExternalItem(conflict.externalItem),
+        conflict: conflict.conflict,
+        fields: conflict.fields,
+        resolution: conflict.resolution as SyncConflict['resolution']
+      })),
+      errors
+    }
+
+    if (operation.status === 'completed') {
+      job.result = {
+        operationId: operation.id,
+        status: errors.length > 0 ? 'partial_success' : 'success',
+        itemsProcessed: operation.itemsProcessed || 0,
+        itemsCreated: operation.itemsCreated || 0,
+        itemsUpdated: operation.itemsUpdated || 0,
+        itemsDeleted: operation.itemsDeleted || 0,
+        conflicts: job.conflicts,
+        errors: errors.map(message => ({ type: 'api_error' as const, message })),
+        startedAt,
+        completedAt
+      }
+    }
+
+    return job
+  }
+
+  private serializeConflict(conflict: SyncConflict): StoredSyncConflict {
+    return {
+      id: conflict.id || crypto.randomUUID(),
+      type: conflict.type,
+      itemType: 'startTime' in conflict.externalItem ? 'event' : 'task',
+      dayflowItem: conflict.dayflowItem,
+      externalItem: conflict.externalItem,
+      conflict: conflict.conflict,
+      ...(conflict.fields && { fields: conflict.fields }),
+      ...(conflict.resolution && { resolution: conflict.resolution })
+    }
+  }
+
+  private formatJobErrors(job: SyncJob): string | null {
+    if (job.errors.length === 0) return null
+
+    return job.errors
+      .map(error => error instanceof Error ? error.message : (error?.message || String(error)))
+      .join('\n')
+  }
+
   private async syncTasks(
     integration: BaseIntegration,
     userIntegration: UserIntegration,
@@ -425,7 +702,19 @@ export class SyncEngine {
   ): Promise<SyncResult> {
     // Get external tasks
     const externalTasks = await this.fetchExternalTasks(integration)
-    
+    const result = await this.applyExternalTasks(externalTasks, userIntegration)
+
+    if (integration.type === 'task_management') {
+      await this.detectExternalDeletions(integration, userIntegration, 'task', externalTasks, result)
+    }
+
+    return result
+  }
+
+  private async applyExternalTasks(
+    externalTasks: ExternalTask[],
+    userIntegration: UserIntegration
+  ): Promise<SyncResult> {
     const result: SyncResult = {
       operationId: `tasks-${Date.now()}`,
       status: 'success',
@@ -441,10 +730,21 @@ export class SyncEngine {
 
     for (const externalTask of externalTasks) {
       try {
+        const tracked = await this.findTrackedItem(userIntegration, externalTask.id)
+
+        // Deleted on our side (tombstone), mirrors another kind of DayFlow item,
+        // unchanged since our last sync, or our own write coming back
+        if (tracked && (tracked.isDeleted || tracked.itemType !== 'task' || this.isEcho(tracked, externalTask))) {
+          continue
+        }
+
         // Check for existing DayFlow task
-        const dayflowTask = await this.findMatchingDayFlowTask(externalTask, userIntegration)
-        
-        if (dayflowTask) {
+        const dayflowTask = await this.findMatchingDayFlowTask(externalTask, userIntegration, tracked)
+        const incoming = await this.prepareIncoming(externalTask, 'task', userIntegration)
+
+        if (dayflowTask && tracked?.externalData?.base) {
+          await this.mergeLinkedItem(dayflowTask, externalTask, 'task', incoming, tracked, userIntegration, result)
+        } else if (dayflowTask) {
           // Check for conflicts
           const conflictDetection = ConflictDetector.detectTaskConflicts(dayflowTask, externalTask)
           
@@ -460,18 +760,19 @@ export class SyncEngine {
           } else {
             // No conflicts, check if update needed
             if (this.isUpdateNeeded(dayflowTask, externalTask)) {
-              const updatedTask = await this.updateDayFlowTask(dayflowTask, externalTask, userIntegration)
+              const updatedTask = await this.updateDayFlowTask(dayflowTask, incoming, userIntegration)
               if (updatedTask) {
                 result.itemsUpdated++
               }
             }
+            await this.trackExternalItem(userIntegration, externalTask, 'task', dayflowTask.id, tracked, incoming.snapshot)
           }
         } else {
           // New task, create it
-          const newTask = await this.createDayFlowTask(externalTask, userIntegration)
+          const newTask = await this.createDayFlowTask(incoming, userIntegration)
           if (newTask) {
             result.itemsCreated++
-            await this.trackExternalItem(userIntegration.id, externalTask.id, 'task', newTask.id)
+            await this.trackExternalItem(userIntegration, externalTask, 'task', newTask.id, tracked, incoming.snapshot)
           }
         }
       } catch (error) {
@@ -493,7 +794,19 @@ export class SyncEngine {
   ): Promise<SyncResult> {
     // Get external events
     const externalEvents = await this.fetchExternalEvents(integration)
-    
+    const result = await this.applyExternalEvents(externalEvents, userIntegration)
+
+    if (integration.type === 'calendar') {
+      await this.detectExternalDeletions(integration, userIntegration, 'event', externalEvents, result)
+    }
+
+    return result
+  }
+
+  private async applyExternalEvents(
+    externalEvents: ExternalEvent[],
+    userIntegration: UserIntegration
+  ): Promise<SyncResult> {
     const result: SyncResult = {
       operationId: `events-${Date.now()}`,
       status: 'success',
@@ -509,10 +822,21 @@ export class SyncEngine {
 
     for (const externalEvent of externalEvents) {
       try {
+        const tracked = await this.findTrackedItem(userIntegration, externalEvent.id)
+
+        // Deleted on our side (tombstone), mirrors another kind of DayFlow item,
+        // unchanged since our last sync, or our own write coming back
+        if (tracked && (tracked.isDeleted || tracked.itemType !== 'event' || this.isEcho(tracked, externalEvent))) {
+          continue
+        }
+
         // Check for existing DayFlow event
-        const dayflowEvent = await this.findMatchingDayFlowEvent(externalEvent, userIntegration)
-        
-        if (dayflowEvent) {
+        const dayflowEvent = await this.findMatchingDayFlowEvent(externalEvent, userIntegration, tracked)
+        const incoming = await this.prepareIncoming(externalEvent, 'event', userIntegration)
+
+        if (dayflowEvent && tracked?.externalData?.base) {
+          await this.mergeLinkedItem(dayflowEvent, externalEvent, 'event', incoming, tracked, userIntegration, result)
+        } else if (dayflowEvent) {
           // Check for conflicts
           const conflictDetection = ConflictDetector.detectEventConflicts(dayflowEvent, externalEvent)
           
@@ -528,18 +852,19 @@ export class SyncEngine {
           } else {
             // No conflicts, check if update needed
             if (this.isUpdateNeeded(dayflowEvent, externalEvent)) {
-              const updatedEvent = await this.updateDayFlowEvent(dayflowEvent, externalEvent, userIntegration)
+              const updatedEvent = await this.updateDayFlowEvent(dayflowEvent, incoming, userIntegration)
               if (updatedEvent) {
                 result.itemsUpdated++
               }
             }
+            await this.trackExternalItem(userIntegration, externalEvent, 'event', dayflowEvent.id, tracked, incoming.snapshot)
           }
         } else {
           // New event, create it
-          const newEvent = await this.createDayFlowEvent(externalEvent, userIntegration)
+          const newEvent = await this.createDayFlowEvent(incoming, userIntegration)
           if (newEvent) {
             result.itemsCreated++
-            await this.trackExternalItem(userIntegration.id, externalEvent.id, 'event', newEvent.id)
+            await this.trackExternalItem(userIntegration, externalEvent, 'event', newEvent.id, tracked, incoming.snapshot)
           }
         }
       } catch (error) {
@@ -554,25 +879,74 @@ export class SyncEngine {
     return result
   }
 
+  /**
+   * Apply only what changed since the stored cursor, then advance it
+   */
+  private async syncChanges(
+    integration: BaseIntegration,
+    userIntegration: UserIntegration,
+    itemType: 'task' | 'event'
+  ): Promise<SyncResult> {
+    const changes = await integration.fetchChangesSince(userIntegration.syncCursor || undefined)
+
+    const result = itemType === 'task'
+      ? await this.applyExternalTasks(changes.items as ExternalTask[], userIntegration)
+      : await this.applyExternalEvents(changes.items as ExternalEvent[], userIntegration)
+
+    for (const externalId of changes.deletedIds) {
+      try {
+        if (await this.applyExternalDeletion(userIntegration, externalId)) {
+          result.itemsDeleted++
+        }
+      } catch (error) {
+        result.errors.push({
+          type: 'api_error' as const,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          details: { externalId, itemType }
+        })
+      }
+    }
+
+    // Absence from the response only means something when it lists everything
+    if (changes.fullListing) {
+      await this.detectExternalDeletions(integration, userIntegration, itemType, changes.items, result)
+    }
+
+    // Keep the old checkpoint after failures so the next run fetches those changes again
+    if (result.errors.length === 0 && changes.nextCursor && changes.nextCursor !== userIntegration.syncCursor) {
+      await this.getDB().update(userIntegrations)
+        .set({ syncCursor: changes.nextCursor, updatedAt: new Date() })
+        .where(eq(userIntegrations.id, userIntegration.id))
+    }
+
+    return result
+  }
+
   private async fetchExternalTasks(integration: BaseIntegration): Promise<ExternalTask[]> {
-    // This would be implemented based on the service
-    // For now, return empty array
-    return []
+    return Paginator.collect(options => integration.listTasks(options))
   }
 
   private async fetchExternalEvents(integration: BaseIntegration): Promise<ExternalEvent[]> {
-    // This would be implemented based on the service
-    // For now, return empty array
-    return []
+    return Paginator.collect(options => integration.listEvents(options))
   }
 
-  private async createIntegration(userIntegration: UserIntegration): Promise<BaseIntegration> {
+  /**
+   * Build an authenticated integration client for a user integration
+   */
+  async createIntegration(userIntegration: UserIntegration): Promise<BaseIntegration> {
     const factory = this.integrationFactories.get(userIntegration.serviceName)
     if (!factory) {
       throw new Error(`Unsupported integration service: ${userIntegration.serviceName}`)
     }
 
-    const integration = factory()
+    // Integrations read their service settings (projectId, calendarUrl, ...)
+    // from config.fieldMapping: the integration's configuration, overridden by
+    // anything set in syncSettings.fieldMapping
+    const settings = userIntegration.syncSettings
+    const integration = factory({
+      ...settings,
+      fieldMapping: { ...userIntegration.configuration, ...settings?.fieldMapping },
+    } as Partial<IntegrationConfig>)
     await integration.authenticate(
       userIntegration.accessToken!,
       userIntegration.refreshToken || undefined,
@@ -582,21 +956,152 @@ export class SyncEngine {
     return integration
   }
 
+  private async findTrackedItem(
+    userIntegration: UserIntegration,
+    externalId: string
+  ): Promise<ExternalItem | null> {
+    const [tracked] = await this.getDB().select().from(externalItems)
+      .where(and(
+        eq(externalItems.externalId, externalId),
+        eq(externalItems.externalService, userIntegration.serviceName),
+        eq(externalItems.userIntegrationId, userIntegration.id)
+      ))
+      .limit(1)
+
+    return tracked || null
+  }
+
+  private isEcho(tracked: ExternalItem, externalItem: ExternalTask | ExternalEvent): boolean {
+    return tracked.externalData?.fingerprint === DataTransformer.fingerprint(externalItem)
+  }
+
+  private async detectExternalDeletions(
+    integration: BaseIntegration,
+    userIntegration: UserIntegration,
+    itemType: 'task' | 'event',
+    listed: Array<ExternalTask | ExternalEvent>,
+    result: SyncResult
+  ): Promise<void> {
+    const listedIds = new Set(listed.map(item => item.id))
+    const links: ExternalItem[] = await this.getDB().select().from(externalItems)
+      .where(and(
+        eq(externalItems.userIntegrationId, userIntegration.id),
+        eq(externalItems.itemType, itemType),
+        eq(externalItems.isDeleted, false)
+      ))
+      .orderBy(asc(externalItems.lastSyncAt))
+
+    // Listings can be windowed (calendars) or exclude completed items (Todoist),
+    // so absence alone is not proof of deletion
+    const missing = links.filter(link => !listedIds.has(link.externalId)).slice(0, DELETION_CHECK_LIMIT)
+
+    for (const link of missing) {
+      try {
+        const current = itemType === 'task'
+          ? await integration.getTask(link.externalId)
+          : await integration.getEvent(link.externalId)
+
+        if (current && !this.isRemovedExternally(current)) {
+          await this.getDB().update(externalItems)
+            .set({ lastSyncAt: new Date() })
+            .where(eq(externalItems.id, link.id))
+          continue
+        }
+
+        await this.removeLinkedItem(userIntegration, link)
+        result.itemsDeleted++
+      } catch (error) {
+        result.errors.push({
+          type: 'api_error' as const,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          details: { externalId: link.externalId, itemType: link.itemType }
+        })
+      }
+    }
+  }
+
+  private isRemovedExternally(item: ExternalTask | ExternalEvent): boolean {
+    // Some services keep deleted items readable with a flag instead of returning 404
+    return item.data?.status === 'cancelled' || item.data?.is_deleted === true || item.data?.archived === true
+  }
+
+  private async removeLinkedItem(userIntegration: UserIntegration, link: ExternalItem): Promise<void> {
+    // Tombstone first so the local change below is not pushed back to this service
+    await this.getDB().update(externalItems)
+      .set({ isDeleted: true, lastSyncAt: new Date(), updatedAt: new Date() })
+      .where(eq(externalItems.id, link.id))
+
+    if (!link.itemId) return
+
+    const policy = userIntegration.syncSettings?.deletionPolicy ?? 'delete'
+    const options = { origin: userIntegration.id }
+
+    try {
+      if (policy === 'archive') {
+        // Keep a local copy. Tasks drop out of active lists; events have no
+        // cancelled state, so they stay on the calendar as local-only events
+        // behind the tombstone above and are never re-linked or pushed again
+        if (link.itemType === 'task') {
+          await taskRepository.update(link.itemId, { status: 'cancelled' }, options)
+        }
+      } else if (link.itemType === 'task') {
+        await taskRepository.delete(link.itemId, options)
+      } else {
+        await calendarEventRepository.delete(link.itemId, options)
+      }
+    } catch (error) {
+      // Already gone locally
+      if (!(error instanceof NotFoundError)) throw error
+    }
+  }
+
+  private async flushPendingDeletions(
+    integration: BaseIntegration,
+    userIntegration: UserIntegration
+  ): Promise<SyncResult['errors']> {
+    const pending: ExternalItem[] = await this.getDB().select().from(externalItems)
+      .where(and(
+        eq(externalItems.userIntegrationId, userIntegration.id),
+        eq(externalItems.isDeleted, true),
+        sql`${externalItems.externalData}->>'pendingDelete' = 'true'`
+      ))
+
+    const errors: SyncResult['errors'] = []
+    for (const link of pending) {
+      try {
+        if (link.itemType === 'task') {
+          await integration.deleteTask(link.externalId)
+        } else {
+          await integration.deleteEvent(link.externalId)
+        }
+      } catch (error) {
+        // Already deleted on the service counts as done
+        if (!(error instanceof IntegrationError && error.code === 'NOT_FOUND')) {
+          errors.push({
+            type: 'api_error' as const,
+            message: error instanceof Error ? error.message : 'Unknown error',
+            details: { externalId: link.externalId, itemType: link.itemType }
+          })
+          continue
+        }
+      }
+
+      await this.getDB().update(externalItems)
+        .set({ externalData: { ...link.externalData, pendingDelete: false }, lastSyncAt: new Date(), updatedAt: new Date() })
+        .where(eq(externalItems.id, link.id))
+    }
+
+    return errors
+  }
+
   private async findMatchingDayFlowTask(
     externalTask: ExternalTask,
-    userIntegration: UserIntegration
+    userIntegration: UserIntegration,
+    tracked: ExternalItem | null
   ): Promise<Task | null> {
     // Search by external ID first
-    const existing = await getDB().query.externalItems?.findFirst?.({
-      where: and(
-        eq(externalItems.externalId, externalTask.id),
-        eq(externalItems.externalService, userIntegration.serviceName),
-        eq(externalItems.userIntegrationId, userIntegration.id)
-      )
-    }) || null
-
-    if (existing?.itemId) {
-      return taskRepository.findById(existing.itemId)
+    if (tracked?.itemId) {
+      return taskRepository.findById(tracked.itemId)
     }
 
     // Fallback to fuzzy matching
@@ -609,19 +1114,12 @@ export class SyncEngine {
 
   private async findMatchingDayFlowEvent(
     externalEvent: ExternalEvent,
-    userIntegration: UserIntegration
+    userIntegration: UserIntegration,
+    tracked: ExternalItem | null
   ): Promise<CalendarEvent | null> {
     // Search by external ID first
-    const existing = await getDB().query.externalItems?.findFirst?.({
-      where: and(
-        eq(externalItems.externalId, externalEvent.id),
-        eq(externalItems.externalService, userIntegration.serviceName),
-        eq(externalItems.userIntegrationId, userIntegration.id)
-      )
-    }) || null
-
-    if (existing?.itemId) {
-      return calendarEventRepository.findById(existing.itemId)
+    if (tracked?.itemId) {
+      return calendarEventRepository.findById(tracked.itemId)
     }
 
     // Fallback to fuzzy matching
@@ -634,51 +1132,187 @@ export class SyncEngine {
   }
 
   private async createDayFlowTask(
-    externalTask: ExternalTask,
+    incoming: IncomingItem,
     userIntegration: UserIntegration
   ): Promise<Task | null> {
-    const taskData = DataTransformer.externalTaskToTask(externalTask, userIntegration.userId)
-    return taskRepository.create({
-      ...taskData,
+    const created = await taskRepository.create({
+      ...incoming.data,
       createdAt: new Date(),
       updatedAt: new Date()
-    } as any)
+    } as any, { origin: userIntegration.id })
+
+    await this.applyMappedTags(created.id, 'task', userIntegration.userId, incoming.tags)
+    return created
   }
 
   private async createDayFlowEvent(
-    externalEvent: ExternalEvent,
+    incoming: IncomingItem,
     userIntegration: UserIntegration
   ): Promise<CalendarEvent | null> {
-    const eventData = DataTransformer.externalEventToEvent(externalEvent, userIntegration.userId)
-    return calendarEventRepository.create({
-      ...eventData,
+    const created = await calendarEventRepository.create({
+      ...incoming.data,
       createdAt: new Date(),
       updatedAt: new Date()
-    } as any)
+    } as any, { origin: userIntegration.id })
+
+    await this.applyMappedTags(created.id, 'event', userIntegration.userId, incoming.tags)
+    return created
   }
 
   private async updateDayFlowTask(
     dayflowTask: Task,
-    externalTask: ExternalTask,
+    incoming: IncomingItem,
     userIntegration: UserIntegration
   ): Promise<Task | null> {
-    const taskData = DataTransformer.externalTaskToTask(externalTask, dayflowTask.userId)
-    return taskRepository.update(dayflowTask.id, {
-      ...taskData,
+    const updated = await taskRepository.update(dayflowTask.id, {
+      ...incoming.data,
+      userId: dayflowTask.userId,
       updatedAt: new Date()
-    } as any)
+    } as any, { origin: userIntegration.id })
+
+    await this.applyMappedTags(dayflowTask.id, 'task', dayflowTask.userId, incoming.tags)
+    return updated
   }
 
   private async updateDayFlowEvent(
     dayflowEvent: CalendarEvent,
-    externalEvent: ExternalEvent,
+    incoming: IncomingItem,
     userIntegration: UserIntegration
   ): Promise<CalendarEvent | null> {
-    const eventData = DataTransformer.externalEventToEvent(externalEvent, dayflowEvent.userId)
-    return calendarEventRepository.update(dayflowEvent.id, {
-      ...eventData,
+    const updated = await calendarEventRepository.update(dayflowEvent.id, {
+      ...incoming.data,
+      userId: dayflowEvent.userId,
       updatedAt: new Date()
-    } as any)
+    } as any, { origin: userIntegration.id })
+
+    await this.applyMappedTags(dayflowEvent.id, 'event', dayflowEvent.userId, incoming.tags)
+    return updated
+  }
+
+  private async prepareIncoming(
+    externalItem: ExternalTask | ExternalEvent,
+    itemType: 'task' | 'event',
+    userIntegration: UserIntegration
+  ): Promise<IncomingItem> {
+    const transformed = itemType === 'task'
+      ? DataTransformer.externalTaskToTask(externalItem as ExternalTask, userIntegration.userId)
+      : DataTransformer.externalEventToEvent(externalItem as ExternalEvent, userIntegration.userId)
+    const mapped = await this.mapFields(externalItem, itemType, userIntegration)
+    const data = { ...transformed, ...mapped.fields }
+
+    return { data, tags: mapped.tags, snapshot: DataTransformer.snapshot(data, itemType) }
+  }
+
+  /**
+   * Merge a linked item against the snapshot both sides last agreed on. Changes
+   * made on one side are applied; fields changed on both sides are held as a
+   * conflict and nothing is written until it is resolved.
+   */
+  private async mergeLinkedItem(
+    dayflowItem: Task | CalendarEvent,
+    externalItem: ExternalTask | ExternalEvent,
+    itemType: 'task' | 'event',
+    incoming: IncomingItem,
+    tracked: ExternalItem,
+    userIntegration: UserIntegration,
+    result: SyncResult
+  ): Promise<void> {
+    const merge = ConflictDetector.threeWayMerge(
+      tracked.externalData?.base || {},
+      DataTransformer.snapshot(dayflowItem, itemType),
+      incoming.snapshot
+    )
+
+    if (merge.conflicts.length > 0) {
+      result.conflicts.push({
+        type: 'field_conflict',
+        dayflowItem,
+        externalItem,
+        conflict: { ...merge, baseVersion: tracked.version },
+        fields: merge.conflicts
+      })
+      return
+    }
+
+    if (merge.externalChanges.length > 0 &&
+      await this.applySnapshot(dayflowItem, itemType, merge.merged, incoming, userIntegration)) {
+      result.itemsUpdated++
+    }
+
+    // The service still holds its own values for fields only changed in DayFlow,
+    // so those stay local changes until they are pushed
+    await this.trackExternalItem(userIntegration, externalItem, itemType, dayflowItem.id, tracked, incoming.snapshot)
+  }
+
+  // Write the snapshot fields that differ from the DayFlow item, plus mapped category and tags
+  private async applySnapshot(
+    dayflowItem: Task | CalendarEvent,
+    itemType: 'task' | 'event',
+    snapshot: SyncSnapshot,
+    incoming: IncomingItem,
+    userIntegration: UserIntegration
+  ): Promise<boolean> {
+    const current = DataTransformer.snapshot(dayflowItem, itemType)
+    const changed = Object.keys(snapshot).filter(field => snapshot[field] !== current[field])
+    if (changed.length === 0) return false
+
+    const updates = {
+      ...DataTransformer.fromSnapshot(Object.fromEntries(changed.map(field => [field, snapshot[field]]))),
+      ...(incoming.data.categoryId && { categoryId: incoming.data.categoryId }),
+      updatedAt: new Date()
+    }
+    const options = { origin: userIntegration.id }
+
+    if (itemType === 'task') {
+      await taskRepository.update(dayflowItem.id, updates as any, options)
+    } else {
+      await calendarEventRepository.update(dayflowItem.id, updates as any, options)
+    }
+
+    await this.applyMappedTags(dayflowItem.id, itemType, dayflowItem.userId, incoming.tags)
+    return true
+  }
+
+  /**
+   * Apply the integration's mapping rules; a mapped category name becomes a categoryId,
+   * created on first use
+   */
+  private async mapFields(
+    externalItem: ExternalTask | ExternalEvent,
+    itemType: 'task' | 'event',
+    userIntegration: UserIntegration
+  ): Promise<MappedFields> {
+    const mapped = FieldMapper.apply(externalItem, userIntegration.syncSettings?.mappingRules, itemType)
+
+    if (mapped.category) {
+      const category = await categoryRepository.findByName(userIntegration.userId, mapped.category) ??
+        await categoryRepository.create({ userId: userIntegration.userId, name: mapped.category })
+      mapped.fields.categoryId = category.id
+    }
+
+    return mapped
+  }
+
+  private async applyMappedTags(
+    itemId: string,
+    itemType: 'task' | 'event',
+    userId: string,
+    tagNames?: string[]
+  ): Promise<void> {
+    if (!tagNames?.length) return
+
+    // Mapped tags are only ever added, so tags set in DayFlow survive a sync
+    const existing: Array<{ id: string; name: string }> = await tagRepository.findByUserId(userId)
+    for (const name of tagNames) {
+      const tag = existing.find(candidate => candidate.name.toLowerCase() === name.toLowerCase()) ??
+        await tagRepository.create({ userId, name })
+
+      if (itemType === 'task') {
+        await taskRepository.addTag(itemId, tag.id)
+      } else {
+        await calendarEventRepository.addTag(itemId, tag.id)
+      }
+    }
   }
 
   private isUpdateNeeded(dayflowItem: Task | CalendarEvent, externalItem: ExternalTask | ExternalEvent): boolean {
@@ -737,76 +1371,148 @@ export class SyncEngine {
   }
 
   private async applyAutoConflictResolution(
-    job: SyncJob,
     result: SyncResult,
-    strategy: ConflictResolution
+    strategy: ConflictResolution,
+    userIntegration: UserIntegration
   ): Promise<void> {
     for (const conflict of result.conflicts) {
-      switch (strategy) {
-        case 'latest':
-          const dayflowTime = conflict.dayflowItem.updatedAt?.getTime() || 0
-          const externalTime = 'updatedAt' in conflict.externalItem && conflict.externalItem.updatedAt ? conflict.externalItem.updatedAt.getTime() : 0
-          const latestItem = (dayflowTime >= externalTime)
-            ? conflict.dayflowItem
-            : conflict.externalItem
-          await this.applyResolution(job, conflict, latestItem === conflict.dayflowItem ? 'keep_dayflow' : 'keep_external')
-          break
-        case 'source':
-          await this.applyResolution(job, conflict, 'keep_external')
-          break
-        case 'merge':
-          // Simple merge strategy - combine fields
-          await this.mergeItems(conflict.dayflowItem, conflict.externalItem, {})
-          break
+      try {
+        switch (strategy) {
+          case 'latest':
+            const dayflowTime = conflict.dayflowItem.updatedAt?.getTime() || 0
+            const externalTime = 'updatedAt' in conflict.externalItem && conflict.externalItem.updatedAt ? conflict.externalItem.updatedAt.getTime() : 0
+            await this.applyResolution(conflict, dayflowTime >= externalTime ? 'keep_dayflow' : 'keep_external', userIntegration)
+            break
+          case 'source':
+            await this.applyResolution(conflict, 'keep_external', userIntegration)
+            break
+          case 'merge':
+            // Without per-field choices, fields changed on both sides take the external value
+            await this.applyResolution(conflict, 'merge', userIntegration)
+            break
+        }
+      } catch (error) {
+        // Left unresolved on the job for the user to pick up
+        result.errors.push({
+          type: 'api_error' as const,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          item: conflict.externalItem
+        })
       }
     }
   }
 
   private async applyResolution(
-    job: SyncJob,
     conflict: SyncConflict,
-    resolution: 'keep_dayflow' | 'keep_external' | 'merge' | 'manual'
+    resolution: 'keep_dayflow' | 'keep_external' | 'merge',
+    userIntegration: UserIntegration
   ): Promise<void> {
-    switch (resolution) {
-      case 'keep_dayflow':
-        // Keep existing DayFlow item, ignore external changes
-        break
-      case 'keep_external':
-        // Update DayFlow item with external data
-        if ('status' in conflict.dayflowItem) {
-          await this.updateDayFlowTask(conflict.dayflowItem as Task, conflict.externalItem as ExternalTask, {} as UserIntegration)
-        } else {
-          await this.updateDayFlowEvent(conflict.dayflowItem as CalendarEvent, conflict.externalItem as ExternalEvent, {} as UserIntegration)
-        }
-        break
-      case 'merge':
-        // Apply merge logic
-        break
-      case 'manual':
-        // Leave for manual resolution
-        return
+    await this.resolveConflict(conflict, resolution, userIntegration)
+
+    // Record the resolution on the job
+    conflict.resolution = resolution
+  }
+
+  /**
+   * Write the outcome of a conflict to DayFlow. Three-way conflicts keep every
+   * one-sided change and only pick a side for the fields changed on both.
+   */
+  private async resolveConflict(
+    conflict: SyncConflict,
+    resolution: 'keep_dayflow' | 'keep_external' | 'merge',
+    userIntegration: UserIntegration,
+    fieldChoices: Record<string, 'dayflow' | 'external'> = {}
+  ): Promise<void> {
+    const { dayflowItem, externalItem } = conflict
+    const itemType = 'startTime' in externalItem ? 'event' : 'task'
+    const incoming = await this.prepareIncoming(externalItem, itemType, userIntegration)
+
+    if (conflict.fields && conflict.conflict?.merged) {
+      const snapshot: SyncSnapshot = { ...conflict.conflict.merged }
+      for (const field of conflict.fields) {
+        const side = resolution === 'keep_dayflow' ? 'dayflow'
+          : resolution === 'keep_external' ? 'external'
+          : fieldChoices[field.field] ?? 'external'
+        snapshot[field.field] = field[side]
+      }
+      await this.applySnapshot(dayflowItem, itemType, snapshot, incoming, userIntegration)
+    } else if (resolution === 'merge' && Object.keys(fieldChoices).length > 0) {
+      // Conflicts found without a base snapshot: pick between the two current versions
+      const dayflow = DataTransformer.snapshot(dayflowItem, itemType)
+      const snapshot: SyncSnapshot = { ...incoming.snapshot }
+      for (const [field, side] of Object.entries(fieldChoices)) {
+        if (side === 'dayflow' && field in dayflow) snapshot[field] = dayflow[field]
+      }
+      await this.applySnapshot(dayflowItem, itemType, snapshot, incoming, userIntegration)
+    } else if (resolution !== 'keep_dayflow') {
+      // Conflicts found without a base snapshot: take the external item as a whole
+      if (itemType === 'task') {
+        await this.updateDayFlowTask(dayflowItem as Task, incoming, userIntegration)
+      } else {
+        await this.updateDayFlowEvent(dayflowItem as CalendarEvent, incoming, userIntegration)
+      }
     }
 
-    // Remove from conflicts array
-    const index = job.conflicts.indexOf(conflict)
-    if (index > -1) {
-      job.conflicts.splice(index, 1)
+    await this.settleResolution(dayflowItem.id, itemType, externalItem, incoming, userIntegration)
+  }
+
+  /**
+   * Push DayFlow values that won a resolution to a two-way service, then record
+   * what the service now holds as the base for the next merge
+   */
+  private async settleResolution(
+    dayflowItemId: string,
+    itemType: 'task' | 'event',
+    externalItem: ExternalTask | ExternalEvent,
+    incoming: IncomingItem,
+    userIntegration: UserIntegration
+  ): Promise<void> {
+    let agreed = { item: externalItem, snapshot: incoming.snapshot }
+    const resolved = await this.getDayFlowItem(dayflowItemId, itemType)
+    if (resolved && (userIntegration.syncSettings?.syncDirection ?? 'two_way') === 'two_way' &&
+      JSON.stringify(DataTransformer.snapshot(resolved, itemType)) !== JSON.stringify(incoming.snapshot)) {
+      const integration = await this.createIntegration(userIntegration)
+      const pushed = itemType === 'task'
+        ? await integration.updateTask(externalItem.id, DataTransformer.taskToTaskData(resolved as Task))
+        : await integration.updateEvent(externalItem.id, DataTransformer.eventToEventData(resolved as CalendarEvent))
+      agreed = { item: pushed, snapshot: (await this.prepareIncoming(pushed, itemType, userIntegration)).snapshot }
     }
+
+    const tracked = await this.findTrackedItem(userIntegration, externalItem.id)
+    await this.trackExternalItem(userIntegration, agreed.item, itemType, dayflowItemId, tracked, agreed.snapshot)
   }
 
   private async trackExternalItem(
-    userIntegrationId: string,
-    externalId: string,
+    userIntegration: UserIntegration,
+    externalItem: ExternalTask | ExternalEvent,
     itemType: 'task' | 'event',
-    itemId: string
+    itemId: string,
+    tracked: ExternalItem | null,
+    snapshot: SyncSnapshot
   ): Promise<void> {
-    await getDB().insert(externalItems).values({
-      userIntegrationId,
-      externalId,
-      externalService: '', // Would be determined from user integration
+    // The snapshot is the base for the next three-way merge; version counts each new base
+    const externalData = { fingerprint: DataTransformer.fingerprint(externalItem), base: snapshot }
+
+    if (tracked) {
+      await this.getDB().update(externalItems)
+        .set({
+          itemId,
+          externalData,
+          version: sql`coalesce(${externalItems.version}, 1) + 1`,
+          lastSyncAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(externalItems.id, tracked.id))
+      return
+    }
+
+    await this.getDB().insert(externalItems).values({
+      userIntegrationId: userIntegration.id,
+      externalId: externalItem.id,
+      externalService: userIntegration.serviceName,
       itemType,
       itemId,
-      externalData: {},
+      externalData,
       lastSyncAt: new Date(),
       createdAt: new Date(),
       updatedAt: new Date()
@@ -814,15 +1520,11 @@ export class SyncEngine {
   }
 
   private async updateLastSyncTimestamp(userIntegrationId: string): Promise<void> {
-    await getDB().update(userIntegrations)
+    await this.getDB().update(userIntegrations)
       .set({ lastSyncAt: new Date(), syncStatus: 'idle' })
       .where(eq(userIntegrations.id, userIntegrationId))
   }
 
-  private generateJobId(): string {
-    return `sync-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-  }
-
   private mergeSyncResult(result: SyncResult, newResult: SyncResult): void {
     result.itemsProcessed += newResult.itemsProcessed
     result.itemsCreated += newResult.itemsCreated
@@ -832,69 +1534,77 @@ export class SyncEngine {
     result.errors.push(...newResult.errors)
   }
 
-  private findJobByConflict(conflictId: string): SyncJob | null {
-    for (const job of this.activeJobs.values()) {
-      if (job.conflicts.some(c => c === undefined)) {
-        return job
-      }
-    }
-    return null
-  }
+  private async findOperationByConflict(conflictId: string): Promise<SyncOperation | null> {
+    const [operation] = await this.getDB().select().from(syncOperations)
+      .where(sql`${syncOperations.conflicts} @> ${JSON.stringify([{ id: conflictId }])}::jsonb`)
+      .limit(1)
 
-  private async getDayFlowItem(itemId: string): Promise<Task | CalendarEvent | null> {
-    // Try as task first, then as event
-    const task = await taskRepository.findById(itemId)
-    if (task) return task
-    
-    return calendarEventRepository.findById(itemId)
+    return operation || null
   }
 
-  private async getExternalItem(itemId: string): Promise<ExternalTask | ExternalEvent | null> {
-    // This would fetch from the external item tracking
-    return null
+  private async getDayFlowItem(itemId: string, itemType: 'task' | 'event'): Promise<Task | CalendarEvent | null> {
+    return itemType === 'task'
+      ? taskRepository.findById(itemId)
+      : calendarEventRepository.findById(itemId)
   }
 
-  private async keepDayFlowItem(dayflowItem: any, externalItem: any): Promise<void> {
-    // Keep existing DayFlow item, update tracking
-    await this.updateExternalItemTracking(dayflowItem.id, externalItem.id)
+  // Differing fields of a conflict recorded before base snapshots were kept
+  private diffFields(dayflowItem: any, externalItem: ExternalTask | ExternalEvent, itemType: 'task' | 'event'): FieldConflict[] {
+    const dayflow = DataTransformer.snapshot(dayflowItem, itemType)
+    const external = DataTransformer.snapshot(
+      itemType === 'task'
+        ? DataTransformer.externalTaskToTask(externalItem as ExternalTask, dayflowItem.userId)
+        : DataTransformer.externalEventToEvent(externalItem as ExternalEvent, dayflowItem.userId),
+      itemType
+    )
+
+    return Object.keys(dayflow)
+      .filter(field => dayflow[field] !== external[field])
+      .map(field => ({ field, base: null, dayflow: dayflow[field], external: external[field] }))
   }
 
-  private async keepExternalItem(dayflowItem: any, externalItem: any): Promise<void> {
-    // Update DayFlow item with external data
-    if ('status' in dayflowItem) {
-      await this.updateDayFlowTask(dayflowItem, externalItem, {} as UserIntegration)
-    } else {
-      await this.updateDayFlowEvent(dayflowItem, externalItem, {} as UserIntegration)
-    }
+  private getExternalItem(conflict: StoredSyncConflict): ExternalTask | ExternalEvent | null {
+    // The external side is snapshotted on the job when the conflict is detected
+    return conflict.externalItem ? this.reviveExternalItem(conflict.externalItem) : null
   }
 
-  private async mergeItems(dayflowItem: any, externalItem: any, mergedData: any): Promise<void> {
-    // Simple merge - prefer external data for conflicts
-    const merged = { ...dayflowItem, ...externalItem, ...mergedData }
-    
-    if ('status' in dayflowItem) {
-      await this.updateDayFlowTask(dayflowItem, externalItem, {} as UserIntegration)
-    } else {
-      await this.updateDayFlowEvent(dayflowItem, externalItem, {} as UserIntegration)
+  private reviveExternalItem(item: any): ExternalTask | ExternalEvent {
+    // Dates come back from the JSON column as ISO strings
+    const revived = { ...item }
+    for (const field of ['dueDate', 'completedAt', 'createdAt', 'updatedAt', 'startTime', 'endTime']) {
+      if (revived[field]) {
+        revived[field] = new Date(revived[field])
+      }
+    }
+    if (revived.recurrence?.endDate) {
+      revived.recurrence = { ...revived.recurrence, endDate: new Date(revived.recurrence.endDate) }
     }
+    return revived
   }
 
-  private async applyManualResolution(dayflowItem: any, externalItem: any, manualData: any): Promise<void> {
+  private async applyManualResolution(
+    conflict: SyncConflict,
+    manualData: any,
+    userIntegration: UserIntegration
+  ): Promise<void> {
     // Apply manually resolved data
+    const { dayflowItem, externalItem } = conflict
+    const itemType = 'startTime' in externalItem ? 'event' : 'task'
     const resolved = { ...dayflowItem, ...manualData }
-    
-    if ('status' in dayflowItem) {
-      await taskRepository.update(dayflowItem.id, resolved as any)
+    const options = { origin: userIntegration.id }
+
+    if (itemType === 'task') {
+      await taskRepository.update(dayflowItem.id, resolved as any, options)
     } else {
-      await calendarEventRepository.update(dayflowItem.id, resolved as any)
+      await calendarEventRepository.update(dayflowItem.id, resolved as any, options)
     }
+
+    const incoming = await this.prepareIncoming(externalItem, itemType, userIntegration)
+    await this.settleResolution(dayflowItem.id, itemType, externalItem, incoming, userIntegration)
   }
 
-  private async updateExternalItemTracking(dayflowId: string, externalId: string): Promise<void> {
-    // Update tracking to prefer DayFlow item
-    await getDB().update(externalItems)
-      .set({ lastSyncAt: new Date() })
-      .where(eq(externalItems.itemId, dayflowId))
+  private getDB() {
+    return this.db ?? getDatabase()
   }
 }
 
@@ -916,6 +1626,6 @@ export async function startIncrementalSync(
   return syncEngine.startIncrementalSync(userIntegration, options)
 }
 
-export function getSyncJobStatus(jobId: string): SyncJob | null {
+export async function getSyncJobStatus(jobId: string): Promise<SyncJob | null> {
   return syncEngine.getJobStatus(jobId)
 }
\ No newline at end of file
@@ -0,0 +1,341 @@
+/**
+ * Durable Sync Queue Worker
+ * Claims rows from sync_queue, runs them through the SyncEngine and
+ * reschedules failures with exponential backoff
+ */
+
+import { and, asc, eq, gt, inArray, isNull, lt, lte, notExists, or, sql } from 'drizzle-orm'
+import { getDatabase } from '../db'
+import { syncOperations, syncQueue, userIntegrations, SyncQueueItem } from '../db/integrations-schema'
+import { syncEngine, SyncEngine, SyncJob } from './sync-engine'
+
+export type SyncQueueOperation = SyncJob['operation']
+
+export interface SyncQueueWorkerOptions {
+  batchSize?: number
+  pollIntervalMs?: number
+  baseBackoffMs?: number
+  maxBackoffMs?: number
+  // Rows left in 'processing' longer than this are treated as crashed and reclaimed
+  claimTimeoutMs?: number
+  db?: any
+  engine?: Pick<SyncEngine, 'runSync'>
+}
+
+export interface SyncQueueTickResult {
+  scheduled: number
+  reclaimed: number
+  claimed: number
+  completed: number
+  retried: number
+  deadLettered: number
+}
+
+// Periodic syncs yield to user-triggered work (default priority 5)
+const AUTO_SYNC_PRIORITY = 7
+
+export class SyncQueueWorker {
+  private readonly batchSize: number
+  private readonly pollIntervalMs: number
+  private readonly baseBackoffMs: number
+  private readonly maxBackoffMs: number
+  private readonly claimTimeoutMs: number
+  private readonly db?: any
+  private readonly engine: Pick<SyncEngine, 'runSync'>
+
+  private timer: ReturnType<typeof setInterval> | null = null
+  private ticking = false
+
+  constructor(options: SyncQueueWorkerOptions = {}) {
+    this.batchSize = options.batchSize ?? 5
+    this.pollIntervalMs = options.pollIntervalMs ?? 30_000
+    this.baseBackoffMs = options.baseBackoffMs ?? 60_000
+    this.maxBackoffMs = options.maxBackoffMs ?? 60 * 60_000
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 15 * 60_000
+    this.db = options.db
+    this.engine = options.engine ?? syncEngine
+  }
+
+  /**
+   * Add a sync operation to the queue
+   */
+  async enqueue(
+    userIntegrationId: string,
+    operation: SyncQueueOperation,
+    options: {
+      payload?: Record<string, any>
+      priority?: number
+      scheduledAt?: Date
+      maxAttempts?: number
+    } = {}
+  ): Promise<SyncQueueItem> {
+    const now = new Date()
+    const [item] = await this.getDB().insert(syncQueue).values({
+      userIntegrationId,
+      operation,
+      payload: options.payload ?? {},
+      priority: options.priority ?? 5,
+      status: 'pending',
+      scheduledAt: options.scheduledAt ?? now,
+      maxAttempts: options.maxAttempts ?? 3,
+      createdAt: now,
+      updatedAt: now
+    }).returning()
+
+    return item
+  }
+
+  /**
+   * Run one pass: schedule periodic syncs, recover stale claims and process a batch
+   */
+  async tick(now: Date = new Date()): Promise<SyncQueueTickResult> {
+    const result: SyncQueueTickResult = {
+      scheduled: 0,
+      reclaimed: 0,
+      claimed: 0,
+      completed: 0,
+      retried: 0,
+      deadLettered: 0
+    }
+
+    result.scheduled = await this.scheduleAutoSyncs(now)
+    result.reclaimed = await this.reclaimStaleItems(now)
+
+    const items = await this.claimBatch(now)
+    result.claimed = items.length
+
+    for (const item of items) {
+      const outcome = await this.processItem(item)
+      if (outcome === 'completed') result.completed++
+      else if (outcome === 'retried') result.retried++
+      else result.deadLettered++
+    }
+
+    return result
+  }
+
+  /**
+   * Poll the queue on an interval until stopped
+   */
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      if (this.ticking) return
+      this.ticking = true
+      this.tick()
+        .catch(error => console.error('Sync queue tick failed:', error))
+        .finally(() => {
+          this.ticking = false
+        })
+    }, this.pollIntervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Claim due rows atomically. SKIP LOCKED lets concurrent workers pull
+   * disjoint batches without blocking on each other.
+   */
+  async claimBatch(now: Date = new Date()): Promise<SyncQueueItem[]> {
+    const db = this.getDB()
+
+    const claimable = db.select({ id: syncQueue.id }).from(syncQueue)
+      .where(and(
+        eq(syncQueue.status, 'pending'),
+        lte(syncQueue.scheduledAt, now)
+      ))
+      .orderBy(asc(syncQueue.priority), asc(syncQueue.scheduledAt))
+      .limit(this.batchSize)
+      .for('update', { skipLocked: true })
+
+    return db.update(syncQueue)
+      .set({
+        status: 'processing',
+        startedAt: now,
+        attempts: sql`coalesce(${syncQueue.attempts}, 0) + 1`,
+        updatedAt: now
+      })
+      .where(inArray(syncQueue.id, claimable))
+      .returning()
+  }
+
+  /**
+   * Enqueue an incremental sync for every auto-sync integration whose interval has elapsed.
+   * Integrations with an operation waiting or running, or dead-lettered since
+   * their last good sync, are left to the queue's backoff. The check and the
+   * insert are one statement that locks the candidate rows, so concurrent
+   * workers never both enqueue the same integration.
+   */
+  async scheduleAutoSyncs(now: Date = new Date()): Promise<number> {
+    const db = this.getDB()
+    const settings = userIntegrations.syncSettings
+    const intervalMinutes = sql`greatest(coalesce(nullif((${settings}->>'syncInterval')::numeric, 0), 15), 1)`
+
+    const blocked = db.select({ id: syncQueue.id }).from(syncQueue)
+      .where(and(
+        eq(syncQueue.userIntegrationId, userIntegrations.id),
+        or(
+          inArray(syncQueue.status, ['pending', 'processing']),
+          and(
+            eq(syncQueue.status, 'dead_letter'),
+            or(isNull(userIntegrations.lastSyncAt), gt(syncQueue.updatedAt, userIntegrations.lastSyncAt))
+          )
+        )
+      ))
+
+    // Insert-select needs every sync_queue column, in table order
+    const at = sql`${now.toISOString()}::timestamptz`
+    const due = db.select({
+      id: sql`gen_random_uuid()`.as('id'),
+      userIntegrationId: userIntegrations.id,
+      operation: sql`${'incremental_sync'}::text`.as('operation'),
+      payload: sql`'{}'::json`.as('payload'),
+      priority: sql`${AUTO_SYNC_PRIORITY}::integer`.as('priority'),
+      status: sql`${'pending'}::text`.as('status'),
+      scheduledAt: sql`${at}`.as('scheduled_at'),
+      startedAt: sql`null::timestamptz`.as('started_at'),
+      completedAt: sql`null::timestamptz`.as('completed_at'),
+      attempts: sql`0`.as('attempts'),
+      maxAttempts: sql`3`.as('max_attempts'),
+      lastError: sql`null::text`.as('last_error'),
+      createdAt: sql`${at}`.as('created_at'),
+      updatedAt: sql`${at}`.as('updated_at')
+    })
+      .from(userIntegrations)
+      .where(and(
+        eq(userIntegrations.isActive, true),
+        sql`(${settings}->>'autoSync')::boolean`,
+        sql`coalesce(${userIntegrations.lastSyncAt}, 'epoch'::timestamptz) + ${intervalMinutes} * interval '1 minute' <= ${at}`,
+        notExists(blocked)
+      ))
+      .for('update', { skipLocked: true })
+
+    const scheduled: Array<{ id: string }> = await db.insert(syncQueue).select(due).returning({ id: syncQueue.id })
+    return scheduled.length
+  }
+
+  /**
+   * Whether work started at `startedAt` has outlived a claim, so no worker is
+   * still running it
+   */
+  isStale(startedAt: Date, now: Date = new Date()): boolean {
+    return now.getTime() - startedAt.getTime() > this.claimTimeoutMs
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ... capped at maxBackoffMs
+   */
+  getBackoffDelay(attempts: number): number {
+    return Math.min(this.baseBackoffMs * Math.pow(2, Math.max(attempts - 1, 0)), this.maxBackoffMs)
+  }
+
+  // Private methods
+
+  private async processItem(item: SyncQueueItem): Promise<'completed' | 'retried' | 'dead_letter'> {
+    const db = this.getDB()
+
+    try {
+      const [integration] = await db.select().from(userIntegrations)
+        .where(eq(userIntegrations.id, item.userIntegrationId))
+        .limit(1)
+
+      if (!integration || !integration.isActive) {
+        // Nothing to retry against; park it for inspection
+        await this.markDeadLetter(item, 'Integration not found or inactive')
+        return 'dead_letter'
+      }
+
+      const job = await this.engine.runSync(integration, item.operation as SyncQueueOperation, item.payload ?? {})
+      if (job.status === 'failed') {
+        throw new Error(job.errors.map(error => error?.message || String(error)).join('\n') || 'Sync job failed')
+      }
+
+      await db.update(syncQueue)
+        .set({ status: 'completed', completedAt: new Date(), lastError: null, updatedAt: new Date() })
+        .where(eq(syncQueue.id, item.id))
+
+      return 'completed'
+    } catch (error) {
+      return this.handleFailure(item, error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  private async handleFailure(
+    item: SyncQueueItem,
+    message: string,
+    now: Date = new Date()
+  ): Promise<'retried' | 'dead_letter'> {
+    const attempts = item.attempts ?? 0
+    const maxAttempts = item.maxAttempts ?? 3
+
+    if (attempts >= maxAttempts) {
+      await this.markDeadLetter(item, message)
+      return 'dead_letter'
+    }
+
+    await this.getDB().update(syncQueue)
+      .set({
+        status: 'pending',
+        scheduledAt: new Date(now.getTime() + this.getBackoffDelay(attempts)),
+        lastError: message,
+        updatedAt: now
+      })
+      .where(eq(syncQueue.id, item.id))
+
+    return 'retried'
+  }
+
+  private async markDeadLetter(item: SyncQueueItem, message: string): Promise<void> {
+    const db = this.getDB()
+    await db.update(syncQueue)
+      .set({ status: 'dead_letter', completedAt: new Date(), lastError: message, updatedAt: new Date() })
+      .where(eq(syncQueue.id, item.id))
+
+    // The job the caller is following will not be retried again
+    const jobId = item.payload?.jobId
+    if (jobId) {
+      await db.update(syncOperations)
+        .set({ status: 'failed', completedAt: new Date(), error: message })
+        .where(and(
+          eq(syncOperations.id, jobId),
+          inArray(syncOperations.status, ['pending', 'running'])
+        ))
+    }
+  }
+
+  private async reclaimStaleItems(now: Date): Promise<number> {
+    const stale: SyncQueueItem[] = await this.getDB().select().from(syncQueue)
+      .where(and(
+        eq(syncQueue.status, 'processing'),
+        lt(syncQueue.startedAt, new Date(now.getTime() - this.claimTimeoutMs))
+      ))
+
+    for (const item of stale) {
+      await this.handleFailure(item, 'Worker claim timed out', now)
+    }
+
+    return stale.length
+  }
+
+  private getDB() {
+    return this.db ?? getDatabase()
+  }
+}
+
+// Export singleton instance
+export const syncQueueWorker = new SyncQueueWorker()
+
+// Helper functions
+export async function enqueueSync(
+  userIntegrationId: string,
+  operation: SyncQueueOperation,
+  options?: Parameters<SyncQueueWorker['enqueue']>[2]
+): Promise<SyncQueueItem> {
+  return syncQueueWorker.enqueue(userIntegrationId, operation, options)
+}
@@ -3,8 +3,8 @@
  * Implements task management integration with Todoist workspaces
  */
 
-import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, IntegrationError, RateLimitError, ValidationError } from './base'
-import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, WebhookUtils, OAuthUtils } from './utils'
+import { BaseIntegrationService, IntegrationConfig, ExternalTask, TaskData, SyncResult, ListOptions, ListPage, ChangeSet, IntegrationError, RateLimitError, ValidationError } from './base'
+import { RateLimiter, DataTransformer, ConflictDetector, RetryHandler, Paginator, WebhookUtils, OAuthUtils } from './utils'
 import { Task } from '../db/schema'
 
 interface TodoistTask {
@@ -38,6 +38,25 @@ interface TodoistTask {
   url_overrides?: Record<string, string>
 }
 
+// Item shape returned by the Sync API, which differs from REST v2 tasks
+interface TodoistSyncItem {
+  id: string
+  project_id: string
+  content: string
+  description?: string
+  priority: number
+  due?: { date: string; datetime?: string } | null
+  labels: string[]
+  parent_id?: string
+  section_id?: string
+  child_order: number
+  checked: boolean
+  is_deleted: boolean
+  added_at: string
+  updated_at?: string
+  completed_at?: string | null
+}
+
 interface TodoistProject {
   id: string
   name: string
@@ -99,6 +118,7 @@ export class TodoistIntegration extends BaseIntegrationService {
   readonly authUrl = 'https://todoist.com/oauth2/authorize'
   readonly tokenUrl = 'https://todoist.com/oauth2/access_token'
   readonly apiBaseUrl = 'https://api.todoist.com/rest/v2'
+  readonly syncApiUrl = 'https://api.todoist.com/sync/v9/sync'
 
   private projectId?: string
   private rateLimiter: RateLimiter
@@ -339,6 +359,53 @@ export class TodoistIntegration extends BaseIntegrationService {
     throw new IntegrationError('Todoist does not support calendar events', 'UNSUPPORTED_OPERATION')
   }
 
+  async listTasks(options: ListOptions = {}): Promise<ListPage<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    const params = new URLSearchParams({
+      project_id: this.projectId!,
+      limit: String(options.pageSize || 200)
+    })
+    if (options.cursor) {
+      params.set('cursor', options.cursor)
+    }
+
+    const response = await this.makeRequest('GET', `/tasks?${params.toString()}`)
+
+    // REST v2 returns a bare array; the unified API wraps pages in results/next_cursor
+    const tasks: TodoistTask[] = Array.isArray(response) ? response : (response?.results || [])
+    return {
+      items: tasks.map(task => this.mapTodoistTaskToExternal(task)),
+      nextCursor: Array.isArray(response) ? undefined : (response?.next_cursor || undefined)
+    }
+  }
+
+  async listEvents(options: ListOptions = {}): Promise<ListPage<import('./base').ExternalEvent>> {
+    // Todoist doesn't have calendar events, only tasks
+    return { items: [] }
+  }
+
+  async fetchChangesSince(cursor?: string): Promise<ChangeSet<ExternalTask>> {
+    await this.ensureAuthenticated()
+
+    // '*' asks the Sync API for everything; a previous sync_token returns only the delta
+    const response = await this.makeRequest('POST', this.syncApiUrl, {
+      sync_token: cursor || '*',
+      resource_types: ['items']
+    })
+
+    const items: TodoistSyncItem[] = (response.items || [])
+      .filter((item: TodoistSyncItem) => !this.projectId || item.project_id === this.projectId)
+
+    return {
+      items: items.filter(item => !item.is_deleted).map(item => this.mapTodoistTaskToExternal(this.mapSyncItemToTask(item))),
+      deletedIds: items.filter(item => item.is_deleted).map(item => item.id),
+      nextCursor: response.sync_token,
+      // Todoist answers an unknown or expired token with a full sync
+      fullListing: response.full_sync === true
+    }
+  }
+
   async handleWebhook(payload: any, signature?: string): Promise<void> {
     // Handle different webhook events
     if (payload.event_name === 'added' || payload.event_name === 'updated') {
@@ -380,9 +447,8 @@ export class TodoistIntegration extends BaseIntegrationService {
 
   // Private helper methods
 
-  private async fetchExternalTasks(): Promise<TodoistTask[]> {
-    const response = await this.makeRequest('GET', `/tasks?project_id=${this.projectId}&page_size=200`)
-    return response || []
+  private async fetchExternalTasks(): Promise<ExternalTask[]> {
+    return Paginator.collect(options => this.listTasks(options))
   }
 
   private async makeRequest(
@@ -393,7 +459,8 @@ export class TodoistIntegration extends BaseIntegrationService {
     await this.rateLimiter.acquire()
 
     return RetryHandler.withRetry(async () => {
-      const url = `${this.apiBaseUrl}${path}`
+      // The Sync API lives outside the REST base URL
+      const url = /^https?:\/\//.test(path) ? path : `${this.apiBaseUrl}${path}`
       const headers: Record<string, string> = {
         'Authorization': `Bearer ${this.accessToken}`,
         'Content-Type': 'application/json'
@@ -463,6 +530,31 @@ export class TodoistIntegration extends BaseIntegrationService {
     }
   }
 
+  private mapSyncItemToTask(item: TodoistSyncItem): TodoistTask {
+    return {
+      id: item.id,
+      project_id: item.project_id,
+      content: item.content,
+      description: item.description,
+      priority: item.priority,
+      due_date: item.due?.date,
+      due_datetime: item.due?.datetime,
+      labels: item.labels,
+      parent_id: item.parent_id,
+      section_id: item.section_id,
+      order: item.child_order,
+      checked: item.checked,
+      is_deleted: item.is_deleted,
+      comment_count: 0,
+      created_at: item.added_at,
+      creator_id: '',
+      created_by_id: '',
+      date_added: item.added_at,
+      date_modified: item.updated_at || item.added_at,
+      date_completed: item.completed_at || undefined
+    }
+  }
+
   private mapStatusToTodoist(status: TaskData['status']): boolean {
     return status === 'completed'
   }
@@ -3,7 +3,7 @@
  * Common utilities for rate limiting, error handling, data transformation, and sync operations
  */
 
-import { BaseIntegration, IntegrationError, RateLimitError, ValidationError, ExternalTask, ExternalEvent } from './base'
+import { BaseIntegration, IntegrationError, RateLimitError, ValidationError, ExternalTask, ExternalEvent, ListOptions, ListPage, TaskData, EventData, SyncSnapshot, ThreeWayMergeResult } from './base'
 
 // Import Task and CalendarEvent from schema
 import type { Task, CalendarEvent } from '../db/schema'
@@ -58,6 +58,13 @@ export class RateLimiter {
   }
 }
 
+// Fields kept in the last-synced snapshot; scheduling fields on tasks are DayFlow-only
+const SNAPSHOT_FIELDS: Record<'task' | 'event', string[]> = {
+  task: ['title', 'description', 'status', 'priority', 'dueDate'],
+  event: ['title', 'description', 'startTime', 'endTime', 'isAllDay', 'location']
+}
+const SNAPSHOT_DATE_FIELDS = ['dueDate', 'startTime', 'endTime']
+
 // Data transformation utilities
 export class DataTransformer {
   // Transform external task to DayFlow task format
@@ -107,6 +114,7 @@ export class DataTransformer {
       startTime: externalEvent.startTime,
       endTime: externalEvent.endTime,
       isAllDay: externalEvent.isAllDay || false,
+      ...(externalEvent.timeZone && { timeZone: externalEvent.timeZone }),
       location: externalEvent.location || undefined,
       attendees: externalEvent.attendees?.map(attendee => ({
         email: attendee.email,
@@ -117,7 +125,8 @@ export class DataTransformer {
         type: externalEvent.recurrence.type as 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly',
         interval: externalEvent.recurrence.interval,
         endDate: externalEvent.recurrence.endDate,
-        daysOfWeek: externalEvent.recurrence.daysOfWeek
+        daysOfWeek: externalEvent.recurrence.daysOfWeek,
+        ...(externalEvent.recurrence.count && { count: externalEvent.recurrence.count })
       } : { type: 'none' },
       userId,
     }
@@ -134,6 +143,7 @@ export class DataTransformer {
       startTime: event.startTime,
       endTime: event.endTime,
       isAllDay: event.isAllDay || false,
+      timeZone: event.timeZone || undefined,
       location: event.location || undefined,
       attendees: event.attendees || [],
       recurrence: event.recurrence || { type: 'none' },
@@ -146,6 +156,71 @@ export class DataTransformer {
     }
   }
 
+  // Transform DayFlow task to the payload accepted by createTask/updateTask
+  static taskToTaskData(task: Task): TaskData {
+    return {
+      title: task.title,
+      description: task.description || undefined,
+      status: task.status as TaskData['status'],
+      priority: task.priority as TaskData['priority'],
+      dueDate: task.dueDate || undefined,
+      completedAt: task.completedAt || undefined,
+      startTime: task.startTime || undefined,
+      endTime: task.endTime || undefined
+    }
+  }
+
+  // Transform DayFlow event to the payload accepted by createEvent/updateEvent
+  static eventToEventData(event: CalendarEvent): EventData {
+    return {
+      title: event.title,
+      description: event.description || undefined,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      isAllDay: event.isAllDay || false,
+      timeZone: event.timeZone || undefined,
+      location: event.location || undefined,
+      attendees: event.attendees || [],
+      recurrence: event.recurrence
+        ? {
+            ...event.recurrence,
+            // Stored as JSON, so the end date comes back as a string
+            endDate: event.recurrence.endDate ? new Date(event.recurrence.endDate) : undefined
+          }
+        : { type: 'none' }
+    }
+  }
+
+  // Stable digest of the synced fields, used to recognise our own writes coming back
+  static fingerprint(item: ExternalTask | ExternalEvent): string {
+    const time = (value?: Date) => value ? new Date(value).toISOString() : null
+    const fields = 'startTime' in item
+      ? [item.title, item.description || null, time(item.startTime), time(item.endTime), item.isAllDay, item.location || null]
+      : [item.title, item.description || null, item.status, item.priority, time(item.dueDate), time(item.completedAt)]
+
+    return JSON.stringify(fields)
+  }
+
+  // Synced fields of a DayFlow item (or an external item already in DayFlow terms), comparable across sides
+  static snapshot(item: Partial<Task> | Partial<CalendarEvent>, itemType: 'task' | 'event'): SyncSnapshot {
+    const snapshot: SyncSnapshot = {}
+    for (const field of SNAPSHOT_FIELDS[itemType]) {
+      const value = (item as Record<string, any>)[field]
+      snapshot[field] = value instanceof Date
+        ? value.toISOString()
+        : value === undefined || value === '' ? null : value
+    }
+    return snapshot
+  }
+
+  // Snapshot values back to column values
+  static fromSnapshot(snapshot: SyncSnapshot): Record<string, any> {
+    return Object.fromEntries(Object.entries(snapshot).map(([field, value]) => [
+      field,
+      SNAPSHOT_DATE_FIELDS.includes(field) && typeof value === 'string' ? new Date(value) : value
+    ]))
+  }
+
   private static mapExternalStatus(externalStatus: string): Task['status'] {
     const statusMap: Record<string, Task['status']> = {
       'pending': 'pending',
@@ -344,6 +419,37 @@ export class ConflictDetector {
     return { conflicts, similarity: comparisonCount > 0 ? similarity / comparisonCount : 0 }
   }
 
+  /**
+   * Merge both sides against the snapshot they last agreed on. A field changed on
+   * one side takes that side's value; only fields changed on both sides, to
+   * different values, are conflicts.
+   */
+  static threeWayMerge(base: SyncSnapshot, dayflow: SyncSnapshot, external: SyncSnapshot): ThreeWayMergeResult {
+    const result: ThreeWayMergeResult = { merged: {}, dayflowChanges: [], externalChanges: [], conflicts: [] }
+
+    for (const field of Object.keys({ ...dayflow, ...external })) {
+      const ours = dayflow[field] ?? null
+      const theirs = external[field] ?? null
+      // Fields missing from an older snapshot count as changed on both sides
+      const original = field in base ? base[field] ?? null : undefined
+
+      if (ours === theirs) {
+        result.merged[field] = ours
+      } else if (ours === original) {
+        result.merged[field] = theirs
+        result.externalChanges.push(field)
+      } else if (theirs === original) {
+        result.merged[field] = ours
+        result.dayflowChanges.push(field)
+      } else {
+        result.merged[field] = ours
+        result.conflicts.push({ field, base: original ?? null, dayflow: ours, external: theirs })
+      }
+    }
+
+    return result
+  }
+
   private static calculateSimilarity(str1: string, str2: string): number {
     if (!str1 || !str2) return 0
     
@@ -442,6 +548,49 @@ export class RetryHandler {
   }
 }
 
+// Pagination utilities
+export class Paginator {
+  // Walk every page of a cursor-based listing, yielding items as they arrive
+  static async *iterate<T>(
+    fetchPage: (options: ListOptions) => Promise<ListPage<T>>,
+    options: { pageSize?: number; maxPages?: number } = {}
+  ): AsyncGenerator<T> {
+    const maxPages = options.maxPages ?? 100
+    const seenCursors = new Set<string>()
+    let cursor: string | undefined
+
+    for (let page = 0; page < maxPages; page++) {
+      const result = await fetchPage({ cursor, pageSize: options.pageSize })
+      yield* result.items
+
+      if (!result.nextCursor) {
+        return
+      }
+
+      // Guard against services that hand back the same cursor forever
+      if (seenCursors.has(result.nextCursor)) {
+        throw new IntegrationError('Pagination cursor repeated', 'PAGINATION_LOOP', undefined, { cursor: result.nextCursor })
+      }
+      seenCursors.add(result.nextCursor)
+      cursor = result.nextCursor
+    }
+
+    throw new IntegrationError(`Pagination exceeded ${maxPages} pages`, 'PAGINATION_LIMIT')
+  }
+
+  // Collect every page of a cursor-based listing into a single array
+  static async collect<T>(
+    fetchPage: (options: ListOptions) => Promise<ListPage<T>>,
+    options: { pageSize?: number; maxPages?: number } = {}
+  ): Promise<T[]> {
+    const items: T[] = []
+    for await (const item of Paginator.iterate(fetchPage, options)) {
+      items.push(item)
+    }
+    return items
+  }
+}
+
 // Validation utilities
 export class ValidationUtils {
   static validateExternalId(externalId: string): void {
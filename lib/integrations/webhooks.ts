@@ -5,8 +5,9 @@
 
 import { WebhookUtils, RetryHandler } from './utils'
 import { IntegrationError, ValidationError } from './base'
-import { UserIntegration, IntegrationAuditLog } from '../db/integrations-schema'
+import { UserIntegration, IntegrationAuditLog, userIntegrations } from '../db/integrations-schema'
 import { getDatabase } from '../db'
+import { syncEngine } from './sync-engine'
 import { and, eq, inArray } from 'drizzle-orm'
 
 // Get database instance
@@ -139,6 +140,22 @@ export class WebhookManager {
       eventType: 'calendar.event.updated',
       handler: this.handleOutlookEvent.bind(this)
     })
+
+    // Deletions, applied to the linked DayFlow item per the integration's deletion policy
+    const deletionEvents: Array<[string, string]> = [
+      ['notion', 'page.deleted'],
+      ['clickup', 'taskDeleted'],
+      ['linear', 'issue.remove'],
+      ['todoist', 'item.deleted'],
+      ['outlook', 'calendar.deleted']
+    ]
+    for (const [serviceName, eventType] of deletionEvents) {
+      this.registerProcessor({
+        serviceName,
+        eventType,
+        handler: this.handleDeletionEvent.bind(this)
+      })
+    }
   }
 
   /**
@@ -377,7 +394,7 @@ export class WebhookManager {
       case 'notion':
         return {
           ...baseEvent,
-          type: payload.object === 'page' ? 'page.updated' : 'unknown',
+          type: payload.type || (payload.object === 'page' ? 'page.updated' : 'unknown'),
           action: payload.event_type || 'updated',
           data: payload
         } as WebhookEvent
@@ -393,11 +410,20 @@ export class WebhookManager {
       case 'linear':
         return {
           ...baseEvent,
-          type: `${payload.type}.${payload.action}`,
+          type: `${String(payload.type).toLowerCase()}.${payload.action}`,
           action: payload.action,
           data: payload
         } as WebhookEvent
 
+      case 'todoist':
+        return {
+          ...baseEvent,
+          // item:added -> item.added
+          type: String(payload.event_name || 'unknown').replace(':', '.'),
+          action: payload.event_name,
+          data: payload
+        } as WebhookEvent
+
       case 'google-calendar':
         return {
           ...baseEvent,
@@ -430,9 +456,11 @@ export class WebhookManager {
 
   private async getUserIntegration(userIntegrationId: string): Promise<UserIntegration | null> {
     try {
-      // This would query the database for the user integration
-      // Implementation depends on the database setup
-      return null // Placeholder
+      const [integration] = await getDB().select().from(userIntegrations)
+        .where(eq(userIntegrations.id, userIntegrationId))
+        .limit(1)
+
+      return integration || null
     } catch (error) {
       throw new IntegrationError('Failed to fetch user integration', 'DATABASE_ERROR', undefined, error)
     }
@@ -538,6 +566,33 @@ export class WebhookManager {
     console.log('Handling Outlook event:', event.type, event.data)
     // Implementation would trigger sync for the affected event
   }
+
+  private async handleDeletionEvent(event: WebhookEvent, integration: UserIntegration): Promise<void> {
+    const externalId = this.getDeletedItemId(event)
+    if (!externalId) {
+      throw new ValidationError(`Deletion event ${event.type} has no item id`, 'id')
+    }
+
+    await syncEngine.applyExternalDeletion(integration, externalId)
+  }
+
+  private getDeletedItemId(event: WebhookEvent): string | undefined {
+    const payload = event.data
+    switch (event.source) {
+      case 'notion':
+        return payload.entity?.id
+      case 'clickup':
+        return payload.task_id
+      case 'linear':
+        return payload.data?.id
+      case 'todoist':
+        return payload.event_data?.id != null ? String(payload.event_data.id) : undefined
+      case 'outlook':
+        return payload.resourceData?.id
+      default:
+        return undefined
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,396 @@
+/**
+ * Recurrence Expansion
+ * Turns the `recurrence` rule stored on events and tasks into occurrences
+ * inside a window, applying skipped and overridden occurrences.
+ *
+ * Rules are evaluated in wall-clock time, so a 09:00 weekly meeting stays
+ * at 09:00 across daylight saving changes: in the item's own `timeZone`
+ * when it has one, otherwise in the local zone. Plain Date arithmetic is
+ * used throughout rather than date-fns.
+ */
+
+import { TimeZones } from './timezone'
+
+export type RecurrenceType = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+// Mirrors the recurrence JSON column; dates arrive as strings from JSON
+export interface RecurrenceRule {
+  type: RecurrenceType
+  interval?: number
+  endDate?: Date | string
+  daysOfWeek?: number[]
+  count?: number
+  daysOfMonth?: number[]
+  weekOfMonth?: number
+  // Tasks only: whether completing one rolls forward from its due date or from the completion
+  repeatFrom?: 'due_date' | 'completion_date'
+}
+
+export interface RecurringItem {
+  id: string
+  startTime?: Date | string | null
+  endTime?: Date | string | null
+  dueDate?: Date | string | null
+  recurrence?: RecurrenceRule | null
+  // IANA zone the item was scheduled in
+  timeZone?: string | null
+}
+
+// Structural view of a recurrence_exceptions row
+export interface OccurrenceException {
+  eventId?: string | null
+  taskId?: string | null
+  originalStart: Date | string
+  isSkipped: boolean
+  overrides?: {
+    startTime?: string
+    endTime?: string
+    [field: string]: unknown
+  } | null
+}
+
+// Date fields keep the master's shape: startTime/endTime for events and
+// scheduled tasks, dueDate for tasks that only have a due date
+export type Occurrence<T> = T & {
+  // The recurring row this occurrence was generated from
+  masterId: string
+  // Start the rule generated, which identifies the occurrence even after it is moved
+  originalStart: Date
+  isException: boolean
+}
+
+// Matches getCurrentWeek: weeks run Monday to Sunday
+const WEEK_START = 1
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Guards against rules whose filters can never match (e.g. day 30 of a February rule)
+const MAX_PERIODS = 50000
+
+export class RecurrenceExpander {
+  static isRecurring(item: { recurrence?: RecurrenceRule | null }): boolean {
+    return Boolean(item.recurrence && item.recurrence.type !== 'none')
+  }
+
+  // Tasks without a start time recur on their due date
+  static anchorOf(item: RecurringItem): Date | null {
+    const value = item.startTime ?? item.dueDate
+    return value ? new Date(value) : null
+  }
+
+  static isOccurrence<T extends object>(item: T): item is Occurrence<T> {
+    return 'masterId' in item
+  }
+
+  static occurrenceId(masterId: string, originalStart: Date): string {
+    return `${masterId}_${originalStart.getTime()}`
+  }
+
+  static parseOccurrenceId(id: string): { masterId: string; originalStart: Date } | null {
+    const match = id.match(/^(.+)_(\d+)$/)
+    return match ? { masterId: match[1], originalStart: new Date(Number(match[2])) } : null
+  }
+
+  /**
+   * Expand every recurring item into its occurrences overlapping [from, to].
+   * Non-recurring items and already expanded occurrences are passed through
+   * untouched; callers filter those by their own rules.
+   */
+  static expandAll<T extends RecurringItem>(
+    items: T[],
+    from: Date,
+    to: Date,
+    exceptions: OccurrenceException[] = []
+  ): Array<T | Occurrence<T>> {
+    const byItem = new Map<string, OccurrenceException[]>()
+    for (const exception of exceptions) {
+      const itemId = exception.eventId ?? exception.taskId
+      if (!itemId) continue
+      byItem.set(itemId, [...(byItem.get(itemId) ?? []), exception])
+    }
+
+    // Occurrences keep their master's rule but are never expanded again
+    return items.flatMap(item =>
+      RecurrenceExpander.isRecurring(item) && !RecurrenceExpander.isOccurrence(item)
+        ? RecurrenceExpander.expand(item, from, to, byItem.get(item.id))
+        : [item]
+    )
+  }
+
+  /**
+   * Occurrences of one recurring item overlapping [from, to], sorted by start
+   */
+  static expand<T extends RecurringItem>(
+    item: T,
+    from: Date,
+    to: Date,
+    exceptions: OccurrenceException[] = []
+  ): Occurrence<T>[] {
+    const anchor = RecurrenceExpander.anchorOf(item)
+    if (!anchor || !item.recurrence) return []
+
+    const duration = item.endTime ? new Date(item.endTime).getTime() - anchor.getTime() : 0
+    const overlaps = (occurrence: Occurrence<T>) => {
+      const start = RecurrenceExpander.anchorOf(occurrence)!.getTime()
+      const end = occurrence.endTime ? new Date(occurrence.endTime).getTime() : start
+      return start <= to.getTime() && (end > from.getTime() || start >= from.getTime())
+    }
+
+    const pending = new Map(exceptions.map(exception => [new Date(exception.originalStart).getTime(), exception]))
+    const results: Occurrence<T>[] = []
+
+    const starts = RecurrenceExpander.occurrences(item.recurrence, anchor, new Date(from.getTime() - duration), to, item.timeZone)
+    for (const start of starts) {
+      const exception = pending.get(start.getTime())
+      pending.delete(start.getTime())
+      if (exception?.isSkipped) continue
+
+      const occurrence = RecurrenceExpander.buildOccurrence(item, anchor, start, exception)
+      if (overlaps(occurrence)) results.push(occurrence)
+    }
+
+    // Overrides can move an occurrence from outside the window into it
+    for (const exception of pending.values()) {
+      if (exception.isSkipped || !exception.overrides?.startTime) continue
+
+      const originalStart = new Date(exception.originalStart)
+      if (!RecurrenceExpander.occursAt(item.recurrence, anchor, originalStart, item.timeZone)) continue
+
+      const occurrence = RecurrenceExpander.buildOccurrence(item, anchor, originalStart, exception)
+      if (overlaps(occurrence)) results.push(occurrence)
+    }
+
+    return results.sort((a, b) => RecurrenceExpander.anchorOf(a)!.getTime() - RecurrenceExpander.anchorOf(b)!.getTime())
+  }
+
+  /**
+   * Starts generated by the rule within [from, to], counting `count` from the
+   * first occurrence rather than from the window. With a `timeZone` the rule
+   * is evaluated on that zone's wall clock.
+   */
+  static occurrences(rule: RecurrenceRule, dtstart: Date, from: Date, to: Date, timeZone?: string | null): Date[] {
+    if (!TimeZones.isValid(timeZone)) {
+      return RecurrenceExpander.localOccurrences(rule, dtstart, from, to)
+    }
+
+    const floating = (date: Date) => TimeZones.toFloating(date, timeZone)
+    const localRule = rule.endDate ? { ...rule, endDate: floating(new Date(rule.endDate)) } : rule
+    return RecurrenceExpander.localOccurrences(localRule, floating(dtstart), floating(from), floating(to))
+      .map(start => TimeZones.fromFloating(start, timeZone))
+  }
+
+  // First start the rule generates after `after`, or null once the rule has ended
+  static nextAfter(rule: RecurrenceRule, dtstart: Date, after: Date, timeZone?: string | null): Date | null {
+    if (rule.type === 'none') return null
+
+    // Long enough for the sparsest rules: Feb 29 yearly, or the 31st monthly
+    const horizon = new Date(after)
+    horizon.setFullYear(horizon.getFullYear() + 8 * Math.max(1, rule.interval || 1))
+
+    const [next] = RecurrenceExpander.occurrences(rule, dtstart, new Date(after.getTime() + 1), horizon, timeZone)
+    return next ?? null
+  }
+
+  static occursAt(rule: RecurrenceRule, dtstart: Date, start: Date, timeZone?: string | null): boolean {
+    return RecurrenceExpander.occurrences(rule, dtstart, start, start, timeZone).some(candidate =>
+      candidate.getTime() === start.getTime()
+    )
+  }
+
+  /**
+   * The occurrence starting at `originalStart` as it currently reads, with
+   * its exception applied; null for items without a start or due date
+   */
+  static occurrence<T extends RecurringItem>(item: T, originalStart: Date, exception?: OccurrenceException | null): Occurrence<T> | null {
+    const anchor = RecurrenceExpander.anchorOf(item)
+    return anchor ? RecurrenceExpander.buildOccurrence(item, anchor, originalStart, exception ?? undefined) : null
+  }
+
+  private static localOccurrences(rule: RecurrenceRule, dtstart: Date, from: Date, to: Date): Date[] {
+    if (rule.type === 'none') {
+      return dtstart >= from && dtstart <= to ? [dtstart] : []
+    }
+
+    const interval = Math.max(1, rule.interval || 1)
+    const until = rule.endDate ? RecurrenceExpander.endOfDay(new Date(rule.endDate)) : undefined
+    const limit = until && until < to ? until : to
+    const results: Date[] = []
+    let generated = 0
+
+    // Without a count nothing before the window matters, so skip ahead to it
+    const firstPeriod = rule.count ? 0 : Math.max(0, RecurrenceExpander.periodsBetween(rule.type, dtstart, from) / interval - 1)
+
+    for (let period = Math.floor(firstPeriod); period < Math.floor(firstPeriod) + MAX_PERIODS; period++) {
+      if (RecurrenceExpander.periodStart(rule.type, dtstart, period * interval) > limit) break
+
+      for (const candidate of RecurrenceExpander.candidates(rule, dtstart, period * interval)) {
+        if (candidate < dtstart) continue
+        if (candidate > limit) return results
+
+        generated++
+        if (rule.count && generated > rule.count) return results
+        if (candidate >= from) results.push(candidate)
+      }
+    }
+
+    return results
+  }
+
+  // Starts of one period (day, week, month or year) `offset` periods after dtstart's
+  private static candidates(rule: RecurrenceRule, dtstart: Date, offset: number): Date[] {
+    const at = (year: number, month: number, day: number) => new Date(
+      year, month, day,
+      dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds(), dtstart.getMilliseconds()
+    )
+
+    switch (rule.type) {
+      case 'daily': {
+        const date = at(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + offset)
+        const daysInMonth = RecurrenceExpander.daysInMonth(date.getFullYear(), date.getMonth())
+        if (rule.daysOfWeek?.length && !rule.daysOfWeek.includes(date.getDay())) return []
+        if (rule.daysOfMonth?.length && !RecurrenceExpander.resolveDaysOfMonth(rule.daysOfMonth, daysInMonth).includes(date.getDate())) return []
+        return [date]
+      }
+
+      case 'weekly': {
+        const weekStart = dtstart.getDate() - ((dtstart.getDay() - WEEK_START + 7) % 7) + offset * 7
+        const weekdays = rule.daysOfWeek?.length ? rule.daysOfWeek : [dtstart.getDay()]
+        return weekdays
+          .map(weekday => at(dtstart.getFullYear(), dtstart.getMonth(), weekStart + ((weekday - WEEK_START + 7) % 7)))
+          .sort((a, b) => a.getTime() - b.getTime())
+      }
+
+      case 'monthly': {
+        const month = new Date(dtstart.getFullYear(), dtstart.getMonth() + offset, 1)
+        return RecurrenceExpander.daysInPeriodMonth(rule, dtstart, month.getFullYear(), month.getMonth())
+          .map(day => at(month.getFullYear(), month.getMonth(), day))
+      }
+
+      case 'yearly': {
+        const year = dtstart.getFullYear() + offset
+        return RecurrenceExpander.daysInPeriodMonth(rule, dtstart, year, dtstart.getMonth())
+          .map(day => at(year, dtstart.getMonth(), day))
+      }
+
+      default:
+        return []
+    }
+  }
+
+  // Days of the month a monthly or yearly rule lands on, ascending
+  private static daysInPeriodMonth(rule: RecurrenceRule, dtstart: Date, year: number, month: number): number[] {
+    const daysInMonth = RecurrenceExpander.daysInMonth(year, month)
+    let days: number[]
+
+    if (rule.daysOfWeek?.length && rule.weekOfMonth) {
+      days = rule.daysOfWeek
+        .map(weekday => RecurrenceExpander.nthWeekday(year, month, weekday, rule.weekOfMonth!))
+        .filter((day): day is number => day !== undefined)
+    } else if (rule.daysOfWeek?.length) {
+      days = Array.from({ length: daysInMonth }, (_, index) => index + 1)
+        .filter(day => rule.daysOfWeek!.includes(new Date(year, month, day).getDay()))
+    } else if (rule.daysOfMonth?.length) {
+      days = RecurrenceExpander.resolveDaysOfMonth(rule.daysOfMonth, daysInMonth)
+    } else {
+      // Like RFC 5545, months without dtstart's day (the 31st, Feb 29) are skipped
+      days = dtstart.getDate() <= daysInMonth ? [dtstart.getDate()] : []
+    }
+
+    // Both given: the weekday must also fall on one of the days of the month
+    if (rule.daysOfWeek?.length && rule.daysOfMonth?.length) {
+      const allowed = RecurrenceExpander.resolveDaysOfMonth(rule.daysOfMonth, daysInMonth)
+      days = days.filter(day => allowed.includes(day))
+    }
+
+    return [...new Set(days)].sort((a, b) => a - b)
+  }
+
+  private static resolveDaysOfMonth(daysOfMonth: number[], daysInMonth: number): number[] {
+    return daysOfMonth
+      .map(day => (day < 0 ? daysInMonth + day + 1 : day))
+      .filter(day => day >= 1 && day <= daysInMonth)
+  }
+
+  // Day of the month of the nth (or, negative, nth-from-last) weekday
+  private static nthWeekday(year: number, month: number, weekday: number, nth: number): number | undefined {
+    const daysInMonth = RecurrenceExpander.daysInMonth(year, month)
+    let day: number
+
+    if (nth > 0) {
+      const first = (weekday - new Date(year, month, 1).getDay() + 7) % 7 + 1
+      day = first + (nth - 1) * 7
+    } else {
+      const last = daysInMonth - ((new Date(year, month, daysInMonth).getDay() - weekday + 7) % 7)
+      day = last + (nth + 1) * 7
+    }
+
+    return day >= 1 && day <= daysInMonth ? day : undefined
+  }
+
+  private static periodStart(type: RecurrenceType, dtstart: Date, offset: number): Date {
+    switch (type) {
+      case 'daily':
+        return new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + offset)
+      case 'weekly':
+        return new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() - ((dtstart.getDay() - WEEK_START + 7) % 7) + offset * 7)
+      case 'monthly':
+        return new Date(dtstart.getFullYear(), dtstart.getMonth() + offset, 1)
+      default:
+        return new Date(dtstart.getFullYear() + offset, 0, 1)
+    }
+  }
+
+  // Whole periods from dtstart to date; only used to skip ahead, so rough is fine
+  private static periodsBetween(type: RecurrenceType, dtstart: Date, date: Date): number {
+    const months = (date.getFullYear() - dtstart.getFullYear()) * 12 + date.getMonth() - dtstart.getMonth()
+
+    switch (type) {
+      case 'daily':
+        return Math.floor((date.getTime() - dtstart.getTime()) / DAY_MS)
+      case 'weekly':
+        return Math.floor((date.getTime() - dtstart.getTime()) / (7 * DAY_MS))
+      case 'monthly':
+        return months
+      default:
+        return Math.floor(months / 12)
+    }
+  }
+
+  private static buildOccurrence<T extends RecurringItem>(
+    item: T,
+    anchor: Date,
+    originalStart: Date,
+    exception?: OccurrenceException
+  ): Occurrence<T> {
+    const shift = (value: Date | string | null | undefined) =>
+      value ? new Date(originalStart.getTime() + new Date(value).getTime() - anchor.getTime()) : null
+
+    const { startTime, endTime, ...overrides } = exception?.overrides ?? {}
+    const start = startTime ? new Date(startTime) : originalStart
+    const dates: Partial<Record<'startTime' | 'endTime' | 'dueDate', Date | null>> = item.startTime
+      ? {
+          startTime: start,
+          endTime: endTime ? new Date(endTime) : shift(item.endTime),
+          ...('dueDate' in item && { dueDate: shift(item.dueDate) })
+        }
+      : { dueDate: start }
+
+    return {
+      ...item,
+      ...overrides,
+      ...dates,
+      id: RecurrenceExpander.occurrenceId(item.id, originalStart),
+      masterId: item.id,
+      originalStart,
+      isException: Boolean(exception)
+    }
+  }
+
+  private static daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate()
+  }
+
+  private static endOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Recurring Task Completion
+ * Completing a recurring task finishes its current occurrence and rolls the
+ * task forward to the next one, the way Todoist's "every" and "every!" work:
+ *
+ * - `due_date` (default): the next occurrence after the current due date,
+ *   so a weekly review stays on its weekday however late it was done
+ * - `completion_date`: the rule restarts on the day of completion, so
+ *   "water the plants every 3 days" counts from the last watering
+ *
+ * The time of day always comes from the task, and the completion day is read
+ * on the task's `timeZone` clock when it has one. The finished occurrence is
+ * kept in the task_completions history by the repository.
+ */
+
+import { RecurrenceExpander, RecurrenceRule, RecurringItem } from './recurrence'
+import { TimeZones } from './timezone'
+
+// Changes that turn a completed task into its next occurrence
+export interface NextTaskInstance {
+  startTime?: Date
+  endTime?: Date
+  dueDate?: Date
+  recurrence?: RecurrenceRule
+  status: 'pending'
+  completedAt: null
+  progress: 0
+}
+
+export interface TaskRollForward {
+  // Due (or start) date of the occurrence that was finished
+  occurrenceDate: Date
+  // Null once the rule has no further occurrences; the task then stays completed
+  next: NextTaskInstance | null
+}
+
+export class RecurringTasks {
+  // Tasks without a start or due date have nothing to roll forward
+  static rollsForward(task: RecurringItem): boolean {
+    return RecurrenceExpander.isRecurring(task) && RecurrenceExpander.anchorOf(task) !== null
+  }
+
+  static complete(task: RecurringItem, completedAt: Date): TaskRollForward {
+    const rule = task.recurrence!
+    const anchor = RecurrenceExpander.anchorOf(task)!
+    const next = RecurringTasks.nextStart(rule, anchor, completedAt, task.timeZone)
+
+    if (!next) return { occurrenceDate: anchor, next: null }
+
+    const instance: NextTaskInstance = { status: 'pending', completedAt: null, progress: 0 }
+    const moveAlong = (value: Date | string | null | undefined) =>
+      value ? new Date(next.getTime() + new Date(value).getTime() - anchor.getTime()) : undefined
+
+    if (task.startTime) {
+      instance.startTime = next
+      if (task.endTime) instance.endTime = moveAlong(task.endTime)
+      if (task.dueDate) instance.dueDate = moveAlong(task.dueDate)
+    } else {
+      instance.dueDate = next
+    }
+
+    // The count runs from the first occurrence, which is now the next one
+    if (rule.count) instance.recurrence = { ...rule, count: rule.count - 1 }
+
+    return { occurrenceDate: anchor, next: instance }
+  }
+
+  private static nextStart(rule: RecurrenceRule, anchor: Date, completedAt: Date, timeZone?: string | null): Date | null {
+    if (rule.repeatFrom !== 'completion_date') {
+      return RecurrenceExpander.nextAfter(rule, anchor, anchor, timeZone)
+    }
+
+    if (rule.count !== undefined && rule.count <= 1) return null
+
+    if (TimeZones.isValid(timeZone)) {
+      const day = TimeZones.wallClock(completedAt, timeZone)
+      const time = TimeZones.wallClock(anchor, timeZone)
+      const restart = TimeZones.fromWallClock(
+        timeZone, day.year, day.month, day.day,
+        time.hour, time.minute, time.second, anchor.getMilliseconds()
+      )
+      const endOfCompletionDay = new Date(TimeZones.fromWallClock(timeZone, day.year, day.month, day.day + 1).getTime() - 1)
+
+      return RecurrenceExpander.nextAfter({ ...rule, count: undefined }, restart, endOfCompletionDay, timeZone)
+    }
+
+    // Restart the rule on the completion day, at the task's time of day
+    const restart = new Date(
+      completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate(),
+      anchor.getHours(), anchor.getMinutes(), anchor.getSeconds(), anchor.getMilliseconds()
+    )
+    const endOfCompletionDay = new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate() + 1, 0, 0, 0, -1)
+
+    return RecurrenceExpander.nextAfter({ ...rule, count: undefined }, restart, endOfCompletionDay)
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Series Editing
+ * Plans edits and deletions of one occurrence of a recurring event or task
+ * for the three scopes calendar apps offer: this occurrence only, this and
+ * the following ones, or the whole series.
+ *
+ * Plans are plain data, so the browser store and the API apply the same
+ * rules to their own storage. Occurrences are addressed by the start their
+ * rule generated (`originalStart`), which stays the same after a move.
+ */
+
+import { RecurrenceExpander, RecurrenceRule, RecurringItem, OccurrenceException } from './recurrence'
+import { TimeZones } from './timezone'
+
+export type EditScope = 'this' | 'following' | 'all'
+
+export const EDIT_SCOPES: EditScope[] = ['this', 'following', 'all']
+
+export type OccurrenceOverrides = NonNullable<OccurrenceException['overrides']>
+
+export interface SeriesEditPlan<T> {
+  // Changes to the existing master row
+  update?: Partial<T>
+  // Master of a new series taking over from the occurrence ('following'); has no id yet
+  create?: Partial<T>
+  // Exception row to save for the occurrence ('this')
+  exception?: {
+    originalStart: Date
+    isSkipped: boolean
+    overrides: OccurrenceOverrides
+  }
+  // Exceptions of the master from this start on now belong to the new series
+  // (or to no series) and are dropped
+  dropExceptionsFrom?: Date
+  deleteMaster?: boolean
+}
+
+// Fields besides the dates that one occurrence can override (recurrence_exceptions.overrides)
+const OVERRIDE_FIELDS = ['title', 'description', 'location', 'isAllDay', 'priority', 'status'] as const
+
+// Columns that identify a row rather than describe it; a split-off series gets its own
+const IDENTITY_FIELDS = ['id', 'icalUid', 'createdAt', 'updatedAt', 'masterId', 'originalStart', 'isException']
+
+const DATE_FIELDS = ['startTime', 'endTime', 'dueDate']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Fields = Record<string, unknown>
+
+export class SeriesEditor {
+  static isScope(value: unknown): value is EditScope {
+    return EDIT_SCOPES.includes(value as EditScope)
+  }
+
+  // Request bodies carry dates as ISO strings; unparseable ones become Invalid Date
+  static reviveDates<T extends Fields>(changes: T): T {
+    const revived: Fields = { ...changes }
+    for (const field of DATE_FIELDS) {
+      if (typeof revived[field] === 'string') revived[field] = new Date(revived[field] as string)
+    }
+
+    const recurrence = revived.recurrence as RecurrenceRule | null | undefined
+    if (recurrence?.endDate) revived.recurrence = { ...recurrence, endDate: new Date(recurrence.endDate) }
+
+    return revived as T
+  }
+
+  static hasInvalidDates(changes: Fields): boolean {
+    return DATE_FIELDS.some(field => changes[field] instanceof Date && isNaN((changes[field] as Date).getTime()))
+  }
+
+  /**
+   * Plan applying `changes` to the occurrence of `master` at `originalStart`.
+   * `existing` is the occurrence's current exception, whose overrides a
+   * 'this' edit builds on.
+   */
+  static planUpdate<T extends RecurringItem>(
+    master: T,
+    originalStart: Date,
+    scope: EditScope,
+    changes: Partial<T>,
+    existing?: OccurrenceException | null
+  ): SeriesEditPlan<T> {
+    switch (SeriesEditor.effectiveScope(master, originalStart, scope)) {
+      case 'this':
+        return {
+          exception: {
+            originalStart,
+            isSkipped: false,
+            overrides: {
+              ...(existing && !existing.isSkipped ? existing.overrides : {}),
+              ...SeriesEditor.toOverrides(master, changes)
+            }
+          }
+        }
+
+      case 'following': {
+        const { before, after } = SeriesEditor.splitRule(master, originalStart)
+        return {
+          update: { recurrence: before } as Partial<T>,
+          create: SeriesEditor.newSeries(master, originalStart, after, changes),
+          dropExceptionsFrom: originalStart
+        }
+      }
+
+      default:
+        return { update: SeriesEditor.shiftSeries(master, originalStart, changes) }
+    }
+  }
+
+  static planDelete<T extends RecurringItem>(master: T, originalStart: Date, scope: EditScope): SeriesEditPlan<T> {
+    switch (SeriesEditor.effectiveScope(master, originalStart, scope)) {
+      case 'this':
+        return { exception: { originalStart, isSkipped: true, overrides: {} } }
+
+      case 'following':
+        return {
+          update: { recurrence: SeriesEditor.splitRule(master, originalStart).before } as Partial<T>,
+          dropExceptionsFrom: originalStart
+        }
+
+      default:
+        return { deleteMaster: true }
+    }
+  }
+
+  /**
+   * End the rule just before `originalStart` and start the rest of the series
+   * there. Counted rules hand their remaining count on; otherwise the old rule
+   * ends the day before, which is exact because rules repeat at most daily.
+   */
+  static splitRule(master: RecurringItem, originalStart: Date): { before: RecurrenceRule; after: RecurrenceRule } {
+    const rule = master.recurrence!
+    const anchor = RecurrenceExpander.anchorOf(master)!
+
+    if (rule.count) {
+      const done = RecurrenceExpander.occurrences(rule, anchor, anchor, new Date(originalStart.getTime() - 1), master.timeZone).length
+      return { before: { ...rule, count: done }, after: { ...rule, count: rule.count - done } }
+    }
+
+    // The day before on the clock the rule is evaluated on
+    const timeZone = TimeZones.resolve(master.timeZone)
+    const clock = TimeZones.wallClock(originalStart, timeZone)
+    const dayBefore = TimeZones.fromWallClock(timeZone, clock.year, clock.month, clock.day - 1)
+    return { before: { ...rule, endDate: dayBefore }, after: rule }
+  }
+
+  // Splitting at the first occurrence is the same as editing the whole series
+  private static effectiveScope(master: RecurringItem, originalStart: Date, scope: EditScope): EditScope {
+    const anchor = RecurrenceExpander.anchorOf(master)
+    if (!anchor || !RecurrenceExpander.isRecurring(master)) return 'all'
+    if (scope === 'following' && originalStart.getTime() <= anchor.getTime()) return 'all'
+    return scope
+  }
+
+  private static toOverrides(master: RecurringItem, changes: Fields): OccurrenceOverrides {
+    const overrides: OccurrenceOverrides = {}
+    for (const field of OVERRIDE_FIELDS) {
+      if (changes[field] !== undefined) overrides[field] = changes[field]
+    }
+
+    // Occurrences of due-date-only tasks move through their due date
+    const start = master.startTime ? changes.startTime : changes.dueDate
+    const end = master.startTime ? changes.endTime : undefined
+    if (start) {
+      overrides.startTime = new Date(start as Date).toISOString()
+      if (!end && master.startTime && master.endTime) {
+        const length = new Date(master.endTime).getTime() - new Date(master.startTime).getTime()
+        overrides.endTime = new Date(new Date(start as Date).getTime() + length).toISOString()
+      }
+    }
+    if (end) overrides.endTime = new Date(end as Date).toISOString()
+
+    return overrides
+  }
+
+  // Master row for the rest of the series, starting at the (possibly moved) occurrence
+  private static newSeries<T extends RecurringItem>(master: T, originalStart: Date, rule: RecurrenceRule, changes: Partial<T>): Partial<T> {
+    const occurrence = RecurrenceExpander.occurrence(master, originalStart)!
+    const dates = SeriesEditor.movedDates(occurrence, changes)
+
+    // Empty columns are left to their defaults on the new row
+    const fields = Object.entries({ ...occurrence, ...changes, ...dates, recurrence: changes.recurrence ?? rule })
+      .filter(([field, value]) => !IDENTITY_FIELDS.includes(field) && value !== null && value !== undefined)
+
+    return Object.fromEntries(fields) as Partial<T>
+  }
+
+  /**
+   * Apply an edit made on one occurrence to the master. A move shifts the
+   * series by the same number of days and to the new time of day, and
+   * weekday rules follow the move (Monday to Tuesday moves a BYDAY=MO rule
+   * to TU). Days of the month are left as they are.
+   */
+  private static shiftSeries<T extends RecurringItem>(master: T, originalStart: Date, changes: Partial<T>): Partial<T> {
+    const updates: Fields = { ...changes }
+    const anchorField = master.startTime ? 'startTime' : 'dueDate'
+    const anchor = RecurrenceExpander.anchorOf(master)
+    const moved = SeriesEditor.movedDates({ ...master, [anchorField]: originalStart, endTime: SeriesEditor.shift(master.endTime, anchor, originalStart) }, changes)
+    const newStart = moved[anchorField]
+
+    if (!anchor || !newStart) return updates as Partial<T>
+
+    const dayDelta = Math.round(
+      (SeriesEditor.startOfDay(newStart).getTime() - SeriesEditor.startOfDay(originalStart).getTime()) / DAY_MS
+    )
+    const start = new Date(
+      anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + dayDelta,
+      newStart.getHours(), newStart.getMinutes(), newStart.getSeconds(), newStart.getMilliseconds()
+    )
+
+    updates[anchorField] = start
+    if (anchorField === 'startTime') {
+      if (moved.endTime) updates.endTime = new Date(start.getTime() + moved.endTime.getTime() - newStart.getTime())
+      if ('dueDate' in master && master.dueDate && changes.dueDate === undefined) {
+        updates.dueDate = SeriesEditor.shift(master.dueDate, anchor, start)
+      }
+    }
+
+    const rule = master.recurrence
+    if (rule && !changes.recurrence && rule.type !== 'daily' && rule.daysOfWeek?.length && dayDelta % 7 !== 0) {
+      updates.recurrence = {
+        ...rule,
+        daysOfWeek: rule.daysOfWeek.map(weekday => (((weekday + dayDelta) % 7) + 7) % 7)
+      }
+    }
+
+    return updates as Partial<T>
+  }
+
+  // New start and end of an occurrence after `changes`; a move without an end keeps the length
+  private static movedDates(occurrence: RecurringItem, changes: Fields): { startTime?: Date; endTime?: Date; dueDate?: Date } {
+    if (!occurrence.startTime) {
+      return changes.dueDate ? { dueDate: new Date(changes.dueDate as Date) } : {}
+    }
+    if (!changes.startTime && !changes.endTime) return {}
+
+    const start = new Date((changes.startTime ?? occurrence.startTime) as Date)
+    const end = changes.endTime
+      ? new Date(changes.endTime as Date)
+      : SeriesEditor.shift(occurrence.endTime, new Date(occurrence.startTime), start)
+
+    return { startTime: start, ...(end && { endTime: end }) }
+  }
+
+  private static shift(value: Date | string | null | undefined, from: Date | null, to: Date): Date | undefined {
+    return value && from ? new Date(new Date(value).getTime() + to.getTime() - from.getTime()) : undefined
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  }
+}
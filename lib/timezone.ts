@@ -0,0 +1,232 @@
+/**
+ * Time Zones
+ * Wall-clock arithmetic in IANA time zones on top of Intl, without a tz
+ * database of our own.
+ *
+ * Instants stay plain Dates; a zone only decides which calendar day and
+ * clock time an instant falls on. Day and week boundaries are computed from
+ * wall-clock fields, so days that are 23 or 25 hours long across a DST
+ * change still start at midnight.
+ */
+
+export interface WallClock {
+  year: number
+  // 1-12
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+  // 0 = Sunday
+  weekday: number
+}
+
+// Offered in the settings; the browser's own zone is added when missing
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+export class TimeZones {
+  // The zone of the machine running the code
+  static local(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  }
+
+  static isValid(timeZone: string | null | undefined): timeZone is string {
+    if (!timeZone) return false
+    try {
+      TimeZones.getFormatter(timeZone)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // Unknown or missing zones fall back to the local one
+  static resolve(timeZone?: string | null): string {
+    return TimeZones.isValid(timeZone) ? timeZone : TimeZones.local()
+  }
+
+  /**
+   * Offset of the zone from UTC in milliseconds at the given instant
+   */
+  static getOffset(timeZone: string, date: Date): number {
+    const clock = TimeZones.wallClock(date, timeZone)
+    const wallClock = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000
+  }
+
+  static wallClock(date: Date, timeZone: string): WallClock {
+    const parts = TimeZones.getFormatter(timeZone).formatToParts(date)
+    const get = (type: string) => parts.find(part => part.type === type)?.value ?? ''
+
+    return {
+      year: Number(get('year')),
+      month: Number(get('month')),
+      day: Number(get('day')),
+      hour: Number(get('hour')) % 24,
+      minute: Number(get('minute')),
+      second: Number(get('second')),
+      millisecond: ((date.getTime() % 1000) + 1000) % 1000,
+      weekday: WEEKDAYS.indexOf(get('weekday'))
+    }
+  }
+
+  /**
+   * Instant at a wall-clock time in the zone. Out-of-range fields roll over
+   * (hour 25 is 01:00 the next day). A time skipped by a DST change lands
+   * the same distance after the change (02:30 becomes 03:30); a time that
+   * happens twice resolves to the first one.
+   */
+  static fromWallClock(
+    timeZone: string,
+    year: number,
+    month: number,
+    day: number,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond = 0
+  ): Date {
+    const local = Date.UTC(year, month - 1, day, hour, minute, second, millisecond)
+    const before = TimeZones.getOffset(timeZone, new Date(local - DAY_MS))
+    const after = TimeZones.getOffset(timeZone, new Date(local + DAY_MS))
+
+    const matches = [before, after]
+      .map(offset => local - offset)
+      .filter(instant => TimeZones.getOffset(timeZone, new Date(instant)) === local - instant)
+      .sort((a, b) => a - b)
+
+    return new Date(matches[0] ?? local - before)
+  }
+
+  static startOfDay(date: Date, timeZone: string): Date {
+    const clock = TimeZones.wallClock(date, timeZone)
+    return TimeZones.fromWallClock(timeZone, clock.year, clock.month, clock.day)
+  }
+
+  // Same clock time `days` calendar days later
+  static addDays(date: Date, days: number, timeZone: string): Date {
+    const clock = TimeZones.wallClock(date, timeZone)
+    return TimeZones.fromWallClock(
+      timeZone, clock.year, clock.month, clock.day + days,
+      clock.hour, clock.minute, clock.second, clock.millisecond
+    )
+  }
+
+  static startOfWeek(date: Date, timeZone: string, weekStartsOn = 1): Date {
+    const clock = TimeZones.wallClock(date, timeZone)
+    const back = (clock.weekday - weekStartsOn + 7) % 7
+    return TimeZones.fromWallClock(timeZone, clock.year, clock.month, clock.day - back)
+  }
+
+  static isSameDay(a: Date, b: Date, timeZone: string): boolean {
+    const first = TimeZones.wallClock(a, timeZone)
+    const second = TimeZones.wallClock(b, timeZone)
+    return first.year === second.year && first.month === second.month && first.day === second.day
+  }
+
+  // Minutes since the zone's midnight on the clock face (09:30 -> 570)
+  static minutesIntoDay(date: Date, timeZone: string): number {
+    const clock = TimeZones.wallClock(date, timeZone)
+    return clock.hour * 60 + clock.minute
+  }
+
+  static format(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions, locale = 'en-US'): string {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(date)
+  }
+
+  // 'HH:mm', or 'h:mm AM' for the 12-hour clock
+  static formatTime(date: Date, timeZone: string, timeFormat: '12h' | '24h' = '24h'): string {
+    if (timeFormat === '12h') {
+      return TimeZones.format(date, timeZone, { hour: 'numeric', minute: '2-digit', hour12: true })
+    }
+    const clock = TimeZones.wallClock(date, timeZone)
+    return `${String(clock.hour).padStart(2, '0')}:${String(clock.minute).padStart(2, '0')}`
+  }
+
+  // Short label such as "EST" or "GMT+5:30" at the given instant
+  static label(timeZone: string, date: Date = new Date()): string {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date)
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone
+  }
+
+  // 'YYYY-MM-DDTHH:mm:ss' on the zone's clock, for APIs that take a wall time plus a zone name
+  static toLocalISO(date: Date, timeZone: string): string {
+    const clock = TimeZones.wallClock(date, timeZone)
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+    return `${pad(clock.year, 4)}-${pad(clock.month)}-${pad(clock.day)}T${pad(clock.hour)}:${pad(clock.minute)}:${pad(clock.second)}`
+  }
+
+  // Reads a wall time without an offset ('2026-03-08T09:00:00.0000000') in the zone
+  static fromLocalISO(value: string, timeZone: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/)
+    if (!match) return new Date(value)
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0'] = match
+    return TimeZones.fromWallClock(
+      timeZone, Number(year), Number(month), Number(day),
+      Number(hour), Number(minute), Number(second), Number(fraction.padEnd(3, '0'))
+    )
+  }
+
+  /**
+   * A Date whose local fields read the zone's wall clock, for code that
+   * does calendar arithmetic with local getters (the recurrence expander).
+   * `fromFloating` turns the result back into a real instant.
+   */
+  static toFloating(date: Date, timeZone: string): Date {
+    const clock = TimeZones.wallClock(date, timeZone)
+    return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second, clock.millisecond)
+  }
+
+  static fromFloating(floating: Date, timeZone: string): Date {
+    return TimeZones.fromWallClock(
+      timeZone,
+      floating.getFullYear(), floating.getMonth() + 1, floating.getDate(),
+      floating.getHours(), floating.getMinutes(), floating.getSeconds(), floating.getMilliseconds()
+    )
+  }
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone)
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      })
+      formatters.set(timeZone, formatter)
+    }
+    return formatter
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { TimeZones } from '../timezone'
 
 // Base schemas
 export const idSchema = z.string().uuid('Invalid ID format')
@@ -70,6 +71,7 @@ const baseCalendarEventSchema = z.object({
   description: z.string().max(1000, 'Description too long').optional(),
   startTime: timestampSchema,
   endTime: timestampSchema,
+  timeZone: z.string().refine(TimeZones.isValid, 'Unknown time zone').nullable().optional(),
   isAllDay: z.boolean().default(false),
   location: z.string().max(500, 'Location too long').optional(),
   userId: idSchema,
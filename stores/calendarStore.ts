@@ -2,6 +2,7 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import {
   CalendarWeek,
+  CalendarMonth,
   CalendarEvent,
   Task,
   EventOrTask,
@@ -13,6 +14,15 @@ import {
   getCurrentWeek,
   getPreviousWeek,
   getNextWeek,
+  getWeekFromDate,
+  getMonthFromDate,
+  getPreviousMonth,
+  getNextMonth,
+  getDayStart,
+  getPreviousDay,
+  getNextDay,
+  calculateEndTime,
+  DEFAULT_TASK_DURATION,
   getEventsForWeek,
   detectEventCollisions,
   checkEventCollision,
@@ -21,19 +31,44 @@ import {
   DEFAULT_VIEW_SETTINGS,
   createDefaultEvents,
 } from '@/lib/date-utils'
+import { RecurrenceExpander, type OccurrenceException } from '@/lib/recurrence'
+import { SeriesEditor, type EditScope, type SeriesEditPlan } from '@/lib/series-edit'
+import { TimeZones } from '@/lib/timezone'
+import {
+  AutoScheduler,
+  DEFAULT_SCHEDULING_CONSTRAINTS,
+  type SchedulingConstraints,
+  type ScheduleProposal,
+} from '@/lib/auto-scheduler'
+
+// Until the app has sign-in every view acts as this user, the owner of the demo data
+export const DEMO_USER_ID = 'user-1'
 
 interface WeeklyCalendarStore {
+  // User the calendar belongs to; sent as x-user-id by views that call the API
+  userId: string
+
   // Current week state
   currentWeek: CalendarWeek
+  // Month picked in the month view; null follows the current week
+  currentMonth: CalendarMonth | null
+  // Day picked in the day view; null follows the current week
+  currentDay: Date | null
   selectedEvent: EventOrTask | null
   
   // Events and tasks
   events: CalendarEvent[]
   tasks: Task[]
+  // Skipped and changed occurrences of recurring events and tasks
+  exceptions: OccurrenceException[]
   
   // View settings
   viewSettings: CalendarViewSettings
   
+  // Auto-scheduling: the user's limits, and the blocks shown for review
+  schedulingConstraints: SchedulingConstraints
+  scheduleProposal: ScheduleProposal | null
+  
   // UI state
   isLoading: boolean
   error: string | null
@@ -44,6 +79,16 @@ interface WeeklyCalendarStore {
   goToNextWeek: () => void
   goToCurrentWeek: () => void
   
+  // Actions - Month Navigation
+  goToPreviousMonth: () => void
+  goToNextMonth: () => void
+  getCurrentMonth: () => CalendarMonth
+  
+  // Actions - Day Navigation
+  goToPreviousDay: () => void
+  goToNextDay: () => void
+  getCurrentDay: () => Date
+  
   // Actions - Event Management
   addEvent: (event: Omit<CalendarEvent, 'id' | 'createdAt' | 'updatedAt'>) => void
   updateEvent: (id: string, updates: Partial<CalendarEvent>) => void
@@ -51,7 +96,23 @@ interface WeeklyCalendarStore {
   addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => void
   updateTask: (id: string, updates: Partial<Task>) => void
   deleteTask: (id: string) => void
-  moveEvent: (eventId: string, newStartTime: Date, newEndTime: Date) => Promise<boolean>
+  // Occurrences of recurring items (ids from RecurrenceExpander) need a scope.
+  // `isAllDay` switches the item between the all-day lane and the timeline
+  moveEvent: (eventId: string, newStartTime: Date, newEndTime: Date, scope?: EditScope, isAllDay?: boolean) => Promise<boolean>
+  updateOccurrence: (occurrenceId: string, updates: Partial<EventOrTask>, scope: EditScope) => void
+  deleteOccurrence: (occurrenceId: string, scope: EditScope) => void
+  // Give a task without a time its slot on the calendar; the end defaults to its estimate
+  scheduleTask: (taskId: string, startTime: Date, endTime?: Date) => boolean
+  // Take a task's time off the calendar and put it back in the backlog
+  unscheduleTask: (taskId: string) => boolean
+  
+  // Actions - Auto-scheduling
+  setSchedulingConstraints: (constraints: Partial<SchedulingConstraints>) => void
+  // Fill the current week's free time with blocks for backlog tasks, for review
+  proposeSchedule: () => ScheduleProposal
+  // Book the proposed blocks; false if any of them no longer fit
+  acceptScheduleProposal: () => boolean
+  discardScheduleProposal: () => void
   
   // Actions - Data Access
   getEventsForCurrentWeek: () => EventOrTask[]
@@ -71,10 +132,55 @@ interface WeeklyCalendarStore {
   clearAllData: () => void
 }
 
+type SeriesState = Pick<WeeklyCalendarStore, 'events' | 'tasks' | 'exceptions'>
+
+// Carry out a SeriesEditor plan on the series `masterId` held in the store
+function applySeriesPlan(state: SeriesState, masterId: string, plan: SeriesEditPlan<EventOrTask>): SeriesState {
+  const isEvent = state.events.some(event => event.id === masterId)
+  const parentField = isEvent ? 'eventId' : 'taskId'
+  const ownedBy = (exception: OccurrenceException) => exception[parentField] === masterId
+  const startsAt = (exception: OccurrenceException) => new Date(exception.originalStart).getTime()
+  const now = new Date()
+
+  let items: EventOrTask[] = isEvent ? state.events : state.tasks
+  let exceptions = state.exceptions
+
+  if (plan.deleteMaster) {
+    items = items.filter(item => item.id !== masterId)
+    exceptions = exceptions.filter(exception => !ownedBy(exception))
+  } else {
+    if (plan.update) {
+      items = items.map(item => (item.id === masterId ? { ...item, ...plan.update, updatedAt: now } as EventOrTask : item))
+    }
+    if (plan.create) {
+      items = [...items, { ...plan.create, id: crypto.randomUUID(), createdAt: now, updatedAt: now } as EventOrTask]
+    }
+    if (plan.dropExceptionsFrom) {
+      const from = plan.dropExceptionsFrom.getTime()
+      exceptions = exceptions.filter(exception => !(ownedBy(exception) && startsAt(exception) >= from))
+    }
+    if (plan.exception) {
+      const at = plan.exception.originalStart.getTime()
+      exceptions = [
+        ...exceptions.filter(exception => !(ownedBy(exception) && startsAt(exception) === at)),
+        { [parentField]: masterId, ...plan.exception }
+      ]
+    }
+  }
+
+  return isEvent
+    ? { events: items as CalendarEvent[], tasks: state.tasks, exceptions }
+    : { events: state.events, tasks: items as Task[], exceptions }
+}
+
+const middleOf = (range: { startDate: Date; endDate: Date }) =>
+  new Date((new Date(range.startDate).getTime() + new Date(range.endDate).getTime()) / 2)
+
 export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
   persist(
     (set, get) => ({
       // Initial state
+      userId: DEMO_USER_ID,
       currentWeek: {
         startDate: new Date('2024-01-01T00:00:00Z'),
         endDate: new Date('2024-01-07T23:59:59Z'),
@@ -88,35 +194,85 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
           { date: new Date('2024-01-07'), dayOfWeek: 0, dayName: 'Sun', events: [], isToday: false, isCurrentWeek: true },
         ]
       },
+      currentMonth: null,
+      currentDay: null,
       selectedEvent: null,
       events: [],
       tasks: [],
+      exceptions: [],
       viewSettings: DEFAULT_VIEW_SETTINGS,
+      schedulingConstraints: DEFAULT_SCHEDULING_CONSTRAINTS,
+      scheduleProposal: null,
       isLoading: false,
       error: null,
       
       // Week navigation
       setCurrentWeek: (week) => {
-        set({ currentWeek: week })
+        set({ currentWeek: week, currentMonth: null, currentDay: null })
       },
       
       goToPreviousWeek: () => {
-        const { currentWeek } = get()
-        set({ currentWeek: getPreviousWeek(currentWeek) })
+        const { currentWeek, viewSettings } = get()
+        set({ currentWeek: getPreviousWeek(currentWeek, viewSettings.timeZone), currentMonth: null, currentDay: null })
       },
       
       goToNextWeek: () => {
-        const { currentWeek } = get()
-        set({ currentWeek: getNextWeek(currentWeek) })
+        const { currentWeek, viewSettings } = get()
+        set({ currentWeek: getNextWeek(currentWeek, viewSettings.timeZone), currentMonth: null, currentDay: null })
       },
       
       goToCurrentWeek: () => {
-        set({ currentWeek: getCurrentWeek() })
+        set({ currentWeek: getCurrentWeek(new Date(), get().viewSettings.timeZone), currentMonth: null, currentDay: null })
+      },
+      
+      // Month navigation; the week follows to the month's first week
+      goToPreviousMonth: () => {
+        const { viewSettings } = get()
+        const month = getPreviousMonth(get().getCurrentMonth(), viewSettings.timeZone)
+        set({ currentMonth: month, currentDay: null, currentWeek: getWeekFromDate(month.startDate, viewSettings.timeZone) })
+      },
+      
+      goToNextMonth: () => {
+        const { viewSettings } = get()
+        const month = getNextMonth(get().getCurrentMonth(), viewSettings.timeZone)
+        set({ currentMonth: month, currentDay: null, currentWeek: getWeekFromDate(month.startDate, viewSettings.timeZone) })
+      },
+      
+      getCurrentMonth: () => {
+        const { currentMonth, currentWeek, viewSettings } = get()
+        if (currentMonth) return currentMonth
+        
+        return getMonthFromDate(middleOf(currentWeek), viewSettings.timeZone)
+      },
+      
+      // Day navigation; the week follows the day across week boundaries
+      goToPreviousDay: () => {
+        const { viewSettings } = get()
+        const day = getPreviousDay(get().getCurrentDay(), viewSettings.timeZone)
+        set({ currentDay: day, currentMonth: null, currentWeek: getWeekFromDate(day, viewSettings.timeZone) })
+      },
+      
+      goToNextDay: () => {
+        const { viewSettings } = get()
+        const day = getNextDay(get().getCurrentDay(), viewSettings.timeZone)
+        set({ currentDay: day, currentMonth: null, currentWeek: getWeekFromDate(day, viewSettings.timeZone) })
+      },
+      
+      getCurrentDay: () => {
+        const { currentDay, currentWeek, viewSettings } = get()
+        if (currentDay) return currentDay
+        
+        // Today while it is in the shown week, otherwise the week's first day
+        const now = new Date()
+        const inWeek = now >= new Date(currentWeek.startDate) && now <= new Date(currentWeek.endDate)
+        return getDayStart(inWeek ? now : new Date(currentWeek.startDate), viewSettings.timeZone)
       },
       
       // Event management
       addEvent: (eventData) => {
         const newEvent: CalendarEvent = {
+          // Remember the zone the event was planned in, so it repeats on that clock
+          timeZone: TimeZones.resolve(get().viewSettings.timeZone),
           ...eventData,
           id: crypto.randomUUID(),
           createdAt: new Date(),
@@ -197,9 +353,34 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
       },
       
       // Move event with collision detection
-      moveEvent: async (eventId, newStartTime, newEndTime) => {
-        const { events, tasks } = get()
+      moveEvent: async (eventId, newStartTime, newEndTime, scope = 'this', isAllDay) => {
+        const { events, tasks, exceptions } = get()
         const allEvents = [...events, ...tasks]
+        const changes = {
+          startTime: newStartTime,
+          endTime: newEndTime,
+          ...(isAllDay === undefined ? {} : { isAllDay }),
+        }
+
+        const target = RecurrenceExpander.parseOccurrenceId(eventId)
+        const master = target && allEvents.find(e => e.id === target.masterId)
+        if (target && master) {
+          // Check against the occurrences around the new time rather than the stored masters
+          const { timeZone } = get().viewSettings
+          const dayStart = getDayStart(newStartTime, timeZone)
+          const dayEnd = getNextDay(newEndTime, timeZone)
+          const nearby = RecurrenceExpander.expandAll(allEvents, dayStart, dayEnd, exceptions)
+          const occurrence = RecurrenceExpander.occurrence(master, target.originalStart)
+
+          if (checkEventCollision({ ...occurrence!, ...changes }, nearby, eventId)) {
+            set({ error: 'Cannot move event: time conflict detected' })
+            return false
+          }
+
+          get().updateOccurrence(eventId, changes, scope)
+          return true
+        }
+
         const eventToMove = allEvents.find(e => e.id === eventId)
         
         if (!eventToMove) {
@@ -210,8 +391,7 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
         // Create updated event
         const updatedEvent = {
           ...eventToMove,
-          startTime: newStartTime,
-          endTime: newEndTime,
+          ...changes,
           updatedAt: new Date(),
         }
         
@@ -222,32 +402,160 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
         }
         
         // Update the event
-        if ('isAllDay' in eventToMove) {
+        // Tasks can carry isAllDay too once dropped in the all-day lane
+        if (events.some(e => e.id === eventId)) {
           // It's a CalendarEvent
-          get().updateEvent(eventId, { startTime: newStartTime, endTime: newEndTime })
+          get().updateEvent(eventId, changes)
         } else {
           // It's a Task
-          get().updateTask(eventId, { startTime: newStartTime, endTime: newEndTime })
+          get().updateTask(eventId, changes)
         }
         
         set({ error: null })
         return true
       },
       
+      scheduleTask: (taskId, startTime, endTime) => {
+        const { events, tasks, exceptions } = get()
+        const target = RecurrenceExpander.parseOccurrenceId(taskId)
+        const task = tasks.find(t => t.id === (target ? target.masterId : taskId))
+        
+        if (!task) {
+          set({ error: 'Task not found' })
+          return false
+        }
+        
+        endTime ??= calculateEndTime(startTime, task.estimatedDuration ?? DEFAULT_TASK_DURATION)
+        
+        // Repeating items only clash through their occurrences; the task's own series never does
+        const nearby = RecurrenceExpander.expandAll([...events, ...tasks], startTime, endTime, exceptions)
+          .filter(item => (RecurrenceExpander.isOccurrence(item) ? item.masterId : item.id) !== task.id)
+        if (checkEventCollision({ ...task, startTime, endTime }, nearby, task.id)) {
+          set({ error: 'Cannot schedule task: time conflict detected' })
+          return false
+        }
+        
+        // Only this occurrence of a repeating task gets the time
+        if (target) {
+          get().updateOccurrence(taskId, { startTime, endTime }, 'this')
+        } else {
+          get().updateTask(taskId, { startTime, endTime })
+        }
+        set({ error: null })
+        return true
+      },
+      
+      unscheduleTask: (taskId) => {
+        const task = get().tasks.find(t => t.id === taskId)
+
+        if (!task) {
+          set({ error: RecurrenceExpander.parseOccurrenceId(taskId)
+            ? 'Repeating tasks cannot go back to the backlog'
+            : 'Task not found' })
+          return false
+        }
+        if (RecurrenceExpander.isRecurring(task)) {
+          set({ error: 'Repeating tasks cannot go back to the backlog' })
+          return false
+        }
+
+        get().updateTask(taskId, { startTime: null, endTime: null, isAllDay: false })
+        set({ error: null })
+        return true
+      },
+      
+      // Auto-scheduling
+      setSchedulingConstraints: (constraints) => {
+        set((state) => ({ schedulingConstraints: { ...state.schedulingConstraints, ...constraints } }))
+      },
+      
+      proposeSchedule: () => {
+        const { events, tasks, exceptions, currentWeek, viewSettings, schedulingConstraints } = get()
+        const proposal = AutoScheduler.propose({
+          tasks,
+          events: [...events, ...tasks],
+          exceptions,
+          start: new Date(currentWeek.startDate),
+          end: new Date(currentWeek.endDate),
+          now: new Date(),
+          timeZone: viewSettings.timeZone,
+        }, schedulingConstraints)
+        
+        set({ scheduleProposal: proposal })
+        return proposal
+      },
+      
+      acceptScheduleProposal: () => {
+        const { scheduleProposal } = get()
+        if (!scheduleProposal) {
+          return false
+        }
+        
+        // The calendar may have changed while the proposal was on screen
+        const booked = scheduleProposal.blocks.filter(block =>
+          get().scheduleTask(block.taskId, block.startTime, block.endTime)
+        )
+        const missed = scheduleProposal.blocks.length - booked.length
+        set({
+          scheduleProposal: null,
+          error: missed > 0 ? `${missed} proposed block${missed === 1 ? '' : 's'} no longer fit and were skipped` : null,
+        })
+        return missed === 0
+      },
+      
+      discardScheduleProposal: () => {
+        set({ scheduleProposal: null })
+      },
+      
+      updateOccurrence: (occurrenceId, updates, scope) => {
+        const target = RecurrenceExpander.parseOccurrenceId(occurrenceId)
+        const { events, tasks, exceptions } = get()
+        const master = target && [...events, ...tasks].find(e => e.id === target.masterId)
+
+        if (!target || !master) {
+          set({ error: 'Event not found' })
+          return
+        }
+
+        const existing = exceptions.find(exception =>
+          (exception.eventId ?? exception.taskId) === master.id &&
+          new Date(exception.originalStart).getTime() === target.originalStart.getTime()
+        )
+        const plan = SeriesEditor.planUpdate(master, target.originalStart, scope, updates, existing)
+        set((state) => ({ ...applySeriesPlan(state, master.id, plan), error: null }))
+      },
+
+      deleteOccurrence: (occurrenceId, scope) => {
+        const target = RecurrenceExpander.parseOccurrenceId(occurrenceId)
+        const { events, tasks } = get()
+        const master = target && [...events, ...tasks].find(e => e.id === target.masterId)
+
+        if (!target || !master) {
+          set({ error: 'Event not found' })
+          return
+        }
+
+        const plan = SeriesEditor.planDelete(master, target.originalStart, scope)
+        set((state) => ({
+          ...applySeriesPlan(state, master.id, plan),
+          selectedEvent: state.selectedEvent?.id === occurrenceId ? null : state.selectedEvent,
+        }))
+      },
+      
       // Data access methods
       getEventsForCurrentWeek: () => {
-        const { currentWeek, events, tasks } = get()
-        const weekEvents = getEventsForWeek(currentWeek, [...events, ...tasks])
+        const { currentWeek, events, tasks, exceptions } = get()
+        const weekEvents = getEventsForWeek(currentWeek, [...events, ...tasks], exceptions)
         return sortEventsByTime(weekEvents)
       },
       
       getEventsForDay: (dayIndex) => {
-        const { currentWeek, events, tasks } = get()
+        const { currentWeek, events, tasks, exceptions, viewSettings } = get()
         const day = currentWeek.days[dayIndex]
         if (!day) return []
         
         const allEvents = [...events, ...tasks]
-        const dayEvents = getEventsForDay(allEvents, day.date)
+        const dayEvents = getEventsForDay(allEvents, day.date, exceptions, viewSettings.timeZone)
         return sortEventsByTime(dayEvents)
       },
       
@@ -287,9 +595,21 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
       },
       
       setViewSettings: (settings) => {
-        set((state) => ({
-          viewSettings: { ...state.viewSettings, ...settings },
-        }))
+        set((state) => {
+          const viewSettings = { ...state.viewSettings, ...settings }
+          if (viewSettings.timeZone === state.viewSettings.timeZone) {
+            return { viewSettings }
+          }
+
+          // Days start at a different instant in the new zone; the middle of the
+          // shown week falls in the same week on either side of the change
+          return {
+            viewSettings,
+            currentWeek: getCurrentWeek(middleOf(state.currentWeek), viewSettings.timeZone),
+            currentMonth: state.currentMonth && getMonthFromDate(middleOf(state.currentMonth), viewSettings.timeZone),
+            currentDay: state.currentDay && getDayStart(new Date(new Date(state.currentDay).getTime() + 12 * 60 * 60 * 1000), viewSettings.timeZone),
+          }
+        })
       },
       
       setLoading: (loading) => {
@@ -316,6 +636,7 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
         set({
           events: [],
           tasks: [],
+          exceptions: [],
           selectedEvent: null,
           error: null,
         })
@@ -326,7 +647,9 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
       partialize: (state) => ({
         events: state.events,
         tasks: state.tasks,
+        exceptions: state.exceptions,
         viewSettings: state.viewSettings,
+        schedulingConstraints: state.schedulingConstraints,
         currentWeek: state.currentWeek,
       }),
       // Use custom storage to handle date deserialization
@@ -376,6 +699,7 @@ export const useWeeklyCalendarStore = create<WeeklyCalendarStore>()(
 export const useCurrentWeekEvents = () => useWeeklyCalendarStore(state => state.getEventsForCurrentWeek())
 export const useCalendarEvents = () => useWeeklyCalendarStore(state => state.events)
 export const useCalendarTasks = () => useWeeklyCalendarStore(state => state.tasks)
+export const useCurrentUserId = () => useWeeklyCalendarStore(state => state.userId)
 export const useCurrentWeek = () => useWeeklyCalendarStore(state => state.currentWeek)
 export const useViewSettings = () => useWeeklyCalendarStore(state => state.viewSettings)
 export const useSelectedEvent = () => useWeeklyCalendarStore(state => state.selectedEvent)
@@ -0,0 +1,362 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { externalItems, userIntegrations, type UserIntegration } from '@/lib/db/integrations-schema'
+import type { Task, CalendarEvent } from '@/lib/db/schema'
+import type { BaseIntegration, ExternalEvent, ExternalTask } from '@/lib/integrations/base'
+import { ChangeCapture } from '@/lib/integrations/change-capture'
+import type { SyncEngine } from '@/lib/integrations/sync-engine'
+import { DataTransformer } from '@/lib/integrations/utils'
+import { createTestDatabase } from '../utils/pglite'
+
+let testDb: Awaited<ReturnType<typeof createTestDatabase>>
+let db: typeof testDb.db
+let calls: Array<{ service: string; method: string; args: any[] }>
+let failingServices: Set<string>
+
+const userId = crypto.randomUUID()
+
+type FakeIntegration = Pick<BaseIntegration,
+  'type' | 'createTask' | 'updateTask' | 'deleteTask' | 'createEvent' | 'updateEvent' | 'deleteEvent' | 'updateEventOccurrence'>
+type SyncSettings = NonNullable<UserIntegration['syncSettings']>
+
+function createFakeIntegration(userIntegration: UserIntegration): FakeIntegration {
+  const service = userIntegration.serviceName
+  const type = service === 'google-calendar' ? 'calendar' : 'task_management'
+  const record = (method: string, args: any[]) => {
+    if (failingServices.has(service)) throw new Error(`${service} unavailable`)
+    calls.push({ service, method, args })
+  }
+
+  return {
+    type,
+    async createTask(task): Promise<ExternalTask> {
+      record('createTask', [task])
+      return { id: `${service}-new`, ...task, createdAt: new Date(), updatedAt: new Date('2026-01-01T10:00:00Z'), data: {} }
+    },
+    async updateTask(externalId, task): Promise<ExternalTask> {
+      record('updateTask', [externalId, task])
+      return { id: externalId, ...task, createdAt: new Date(), updatedAt: new Date('2026-01-02T10:00:00Z'), data: {} }
+    },
+    async deleteTask(externalId) {
+      record('deleteTask', [externalId])
+    },
+    async createEvent(event): Promise<ExternalEvent> {
+      record('createEvent', [event])
+      return { id: `${service}-event`, ...event, data: {} }
+    },
+    async updateEvent(externalId, event): Promise<ExternalEvent> {
+      record('updateEvent', [externalId, event])
+      return { id: externalId, ...event, data: {} }
+    },
+    async deleteEvent(externalId) {
+      record('deleteEvent', [externalId])
+    },
+    async updateEventOccurrence(externalId, originalStart, occurrence) {
+      record('updateEventOccurrence', [externalId, originalStart, occurrence])
+    }
+  }
+}
+
+const engine: Pick<SyncEngine, 'createIntegration'> = {
+  async createIntegration(userIntegration) {
+    // Only the methods change capture calls are faked
+    return createFakeIntegration(userIntegration) as BaseIntegration
+  }
+}
+
+function createCapture() {
+  return new ChangeCapture({ db, engine })
+}
+
+async function createIntegration(serviceName: string, settings: Partial<SyncSettings> = {}) {
+  const [integration] = await db.insert(userIntegrations).values({
+    userId,
+    serviceId: crypto.randomUUID(),
+    serviceName,
+    displayName: serviceName,
+    syncSettings: {
+      autoSync: false,
+      syncInterval: 15,
+      syncDirection: 'two_way',
+      syncTasks: true,
+      syncEvents: true,
+      conflictResolution: 'manual',
+      fieldMapping: {},
+      ...settings
+    }
+  }).returning()
+  return integration
+}
+
+async function linkItem(integration: UserIntegration, externalId: string, itemId: string, itemType = 'task') {
+  const [link] = await db.insert(externalItems).values({
+    userIntegrationId: integration.id,
+    externalId,
+    externalService: integration.serviceName,
+    itemType,
+    itemId,
+    externalData: {}
+  }).returning()
+  return link
+}
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    title: 'Write report',
+    description: null,
+    status: 'pending',
+    priority: 'high',
+    dueDate: new Date('2026-01-05T09:00:00Z'),
+    completedAt: null,
+    startTime: null,
+    endTime: null,
+    progress: 0,
+    estimatedDuration: null,
+    actualDuration: null,
+    recurrence: { type: 'none' },
+    reminder: { enabled: false, minutesBefore: 15 },
+    categoryId: null,
+    icalUid: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides
+  }
+}
+
+function createEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    title: 'Standup',
+    description: null,
+    startTime: new Date('2026-01-05T09:00:00Z'),
+    endTime: new Date('2026-01-05T09:15:00Z'),
+    timeZone: null,
+    isAllDay: false,
+    location: null,
+    meetingUrl: null,
+    attendees: [],
+    recurrence: { type: 'none' },
+    reminder: { enabled: false, minutesBefore: 15 },
+    categoryId: null,
+    icalUid: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides
+  }
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase()
+  db = testDb.db
+})
+
+beforeEach(async () => {
+  await testDb.truncate()
+  calls = []
+  failingServices = new Set()
+})
+
+afterAll(async () => {
+  await testDb.close()
+})
+
+describe('ChangeCapture', () => {
+  describe('created', () => {
+    it('should create new local tasks on the default task service and record the link', async () => {
+      await createIntegration('google-calendar', { defaultTarget: true })
+      const todoist = await createIntegration('todoist', { defaultTarget: true })
+      const task = createTask()
+
+      await createCapture().handleChange({ entity: 'task', type: 'created', record: task })
+
+      expect(calls.map(call => `${call.service}.${call.method}`)).toEqual(['todoist.createTask'])
+      expect(calls[0].args[0]).toMatchObject({ title: 'Write report', status: 'pending', priority: 'high' })
+
+      const [link] = await db.select().from(externalItems).where(eq(externalItems.itemId, task.id))
+      expect(link).toMatchObject({ userIntegrationId: todoist.id, externalId: 'todoist-new', externalService: 'todoist', itemType: 'task' })
+      expect(link.externalData?.fingerprint).toBeString()
+      expect(link.lastModifiedAt?.toISOString()).toBe('2026-01-01T10:00:00.000Z')
+    })
+
+    it('should create a new item only on the service that owns its category', async () => {
+      const categoryId = crypto.randomUUID()
+      await createIntegration('todoist', { defaultTarget: true })
+      const linear = await createIntegration('linear', { categoryIds: [categoryId] })
+
+      await createCapture().handleChange({ entity: 'task', type: 'created', record: createTask({ categoryId }) })
+
+      expect(calls.map(call => `${call.service}.${call.method}`)).toEqual(['linear.createTask'])
+      const links = await db.select().from(externalItems)
+      expect(links.map(link => link.userIntegrationId)).toEqual([linear.id])
+    })
+
+    it('should not push new items that no service owns', async () => {
+      await createIntegration('todoist')
+      await createIntegration('linear', { categoryIds: [crypto.randomUUID()] })
+
+      await createCapture().handleChange({ entity: 'task', type: 'created', record: createTask({ categoryId: crypto.randomUUID() }) })
+
+      expect(calls).toHaveLength(0)
+    })
+
+    it('should not push items created by an inbound sync', async () => {
+      const todoist = await createIntegration('todoist', { defaultTarget: true })
+      await createIntegration('linear', { defaultTarget: true })
+
+      await createCapture().handleChange({ entity: 'task', type: 'created', record: createTask(), origin: todoist.id })
+
+      expect(calls).toHaveLength(0)
+    })
+
+    it('should skip integrations that are not two-way or exclude the item type', async () => {
+      await createIntegration('todoist', { syncDirection: 'one_way', defaultTarget: true })
+      await createIntegration('linear', { syncDirection: 'two_way', syncTasks: false, defaultTarget: true })
+
+      await createCapture().handleChange({ entity: 'task', type: 'created', record: createTask() })
+
+      expect(calls).toHaveLength(0)
+    })
+  })
+
+  describe('updated', () => {
+    it('should update the linked external task and remember the written fingerprint', async () => {
+      const todoist = await createIntegration('todoist')
+      const task = createTask({ title: 'Write final report' })
+      const link = await linkItem(todoist, 'td-1', task.id)
+
+      await createCapture().handleChange({ entity: 'task', type: 'updated', record: task })
+
+      expect(calls).toHaveLength(1)
+      expect(calls[0]).toMatchObject({ service: 'todoist', method: 'updateTask' })
+      expect(calls[0].args[0]).toBe('td-1')
+      expect(calls[0].args[1].title).toBe('Write final report')
+
+      const [stored] = await db.select().from(externalItems).where(eq(externalItems.id, link.id))
+      const echoed = { id: 'td-1', ...DataTransformer.taskToTaskData(task), createdAt: new Date(), updatedAt: new Date(), data: {} }
+      expect(stored.externalData?.fingerprint).toBe(DataTransformer.fingerprint(echoed))
+      expect(stored.externalData?.base).toEqual({
+        title: 'Write final report',
+        description: null,
+        status: 'pending',
+        priority: 'high',
+        dueDate: '2026-01-05T09:00:00.000Z'
+      })
+      expect(stored.version).toBe(2)
+    })
+
+    it('should not send a change back to the integration it came from', async () => {
+      const todoist = await createIntegration('todoist')
+      const google = await createIntegration('google-calendar')
+      const task = createTask()
+      await linkItem(todoist, 'td-1', task.id)
+      await linkItem(google, 'gc-1', task.id)
+
+      await createCapture().handleChange({ entity: 'task', type: 'updated', record: task, origin: todoist.id })
+
+      expect(calls.map(call => `${call.service}.${call.method}`)).toEqual(['google-calendar.updateTask'])
+    })
+
+    it('should keep pushing to other services when one fails', async () => {
+      const todoist = await createIntegration('todoist')
+      const linear = await createIntegration('linear')
+      const task = createTask()
+      await linkItem(todoist, 'td-1', task.id)
+      await linkItem(linear, 'ln-1', task.id)
+      failingServices.add('todoist')
+
+      await createCapture().handleChange({ entity: 'task', type: 'updated', record: task })
+
+      expect(calls.map(call => `${call.service}.${call.method}`)).toEqual(['linear.updateTask'])
+    })
+  })
+
+  describe('occurrences', () => {
+    const standup = () => createEvent({ recurrence: { type: 'weekly', interval: 1 } })
+
+    it('should push a changed occurrence instead of the whole series', async () => {
+      const google = await createIntegration('google-calendar')
+      const event = standup()
+      await linkItem(google, 'gc-1', event.id, 'event')
+      const originalStart = new Date('2026-01-12T09:00:00Z')
+
+      await createCapture().handleChange({
+        entity: 'event',
+        type: 'updated',
+        record: event,
+        occurrence: { originalStart, record: { ...event, title: 'Standup (demo)', startTime: originalStart, endTime: new Date('2026-01-12T09:15:00Z') } }
+      })
+
+      expect(calls.map(call => `${call.service}.${call.method}`)).toEqual(['google-calendar.updateEventOccurrence'])
+      expect(calls[0].args[0]).toBe('gc-1')
+      expect(calls[0].args[1]).toEqual(originalStart)
+      expect(calls[0].args[2]).toMatchObject({ title: 'Standup (demo)', startTime: originalStart })
+    })
+
+    it('should push a skipped occurrence as a cancellation', async () => {
+      const google = await createIntegration('google-calendar')
+      const event = standup()
+      await linkItem(google, 'gc-1', event.id, 'event')
+
+      await createCapture().handleChange({
+        entity: 'event',
+        type: 'updated',
+        record: event,
+        occurrence: { originalStart: new Date('2026-01-12T09:00:00Z'), record: null }
+      })
+
+      expect(calls).toHaveLength(1)
+      expect(calls[0].args[2]).toBeNull()
+    })
+  })
+
+  describe('deleted', () => {
+    it('should delete the external copy and mark the link deleted', async () => {
+      const google = await createIntegration('google-calendar')
+      const event = createEvent()
+      const link = await linkItem(google, 'gc-1', event.id, 'event')
+
+      await createCapture().handleChange({ entity: 'event', type: 'deleted', record: event })
+
+      expect(calls).toEqual([{ service: 'google-calendar', method: 'deleteEvent', args: ['gc-1'] }])
+      const [stored] = await db.select().from(externalItems).where(eq(externalItems.id, link.id))
+      expect(stored.isDeleted).toBe(true)
+      expect(stored.externalData?.pendingDelete).toBe(false)
+
+      // Deleted links are not pushed to again
+      calls = []
+      await createCapture().handleChange({ entity: 'event', type: 'updated', record: event })
+      expect(calls).toHaveLength(0)
+    })
+
+    it('should leave a pending tombstone when the service is unreachable', async () => {
+      const todoist = await createIntegration('todoist')
+      const task = createTask()
+      const link = await linkItem(todoist, 'td-1', task.id)
+      failingServices.add('todoist')
+
+      await createCapture().handleChange({ entity: 'task', type: 'deleted', record: task })
+
+      const [stored] = await db.select().from(externalItems).where(eq(externalItems.id, link.id))
+      expect(stored.isDeleted).toBe(true)
+      expect(stored.externalData?.pendingDelete).toBe(true)
+    })
+
+    it('should tombstone links it does not push to', async () => {
+      const todoist = await createIntegration('todoist', { syncDirection: 'one_way' })
+      const linear = await createIntegration('linear')
+      const task = createTask()
+      const oneWay = await linkItem(todoist, 'td-1', task.id)
+      const origin = await linkItem(linear, 'ln-1', task.id)
+
+      await createCapture().handleChange({ entity: 'task', type: 'deleted', record: task, origin: linear.id })
+
+      expect(calls).toHaveLength(0)
+      const stored = await db.select().from(externalItems)
+      expect(stored.every(item => item.isDeleted && item.externalData?.pendingDelete === false)).toBe(true)
+      expect(stored.map(item => item.id).sort()).toEqual([oneWay.id, origin.id].sort())
+    })
+  })
+})
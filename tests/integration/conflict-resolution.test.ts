@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, spyOn } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { externalItems, syncOperations, userIntegrations } from '@/lib/db/integrations-schema'
+import type { Task } from '@/lib/db/schema'
+import { TaskRepository } from '@/lib/data-access'
+import type { BaseIntegration, ConflictResolution, ExternalTask, SyncResult, TaskData } from '@/lib/integrations/base'
+import { SyncEngine } from '@/lib/integrations/sync-engine'
+import { DataTransformer } from '@/lib/integrations/utils'
+import { createTestDatabase } from '../utils/pglite'
+
+const userId = '123e4567-e89b-12d3-a456-426614174001'
+
+let testDb: Awaited<ReturnType<typeof createTestDatabase>>
+let db: typeof testDb.db
+let engine: SyncEngine
+let tasks: Map<string, Task>
+let pushed: Array<{ externalId: string; task: TaskData }>
+let restore: Array<() => void>
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    title: 'Report (DayFlow)',
+    description: null,
+    status: 'pending',
+    priority: 'high',
+    dueDate: null,
+    completedAt: null,
+    startTime: null,
+    endTime: null,
+    progress: 0,
+    estimatedDuration: null,
+    actualDuration: null,
+    recurrence: { type: 'none' },
+    reminder: { enabled: false, minutesBefore: 15 },
+    categoryId: null,
+    icalUid: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides
+  }
+}
+
+function createExternalTask(overrides: Partial<ExternalTask> = {}): ExternalTask {
+  return {
+    id: 'todoist-1',
+    title: 'Report (Todoist)',
+    status: 'pending',
+    priority: 'high',
+    createdAt: new Date('2026-01-01T09:00:00Z'),
+    updatedAt: new Date('2026-01-02T09:00:00Z'),
+    data: {},
+    ...overrides
+  }
+}
+
+async function createIntegration(owner = userId) {
+  const [integration] = await db.insert(userIntegrations).values({
+    userId: owner,
+    serviceId: crypto.randomUUID(),
+    serviceName: 'todoist',
+    displayName: 'Todoist',
+    syncSettings: {
+      autoSync: false,
+      syncInterval: 15,
+      syncDirection: 'two_way',
+      syncTasks: true,
+      syncEvents: true,
+      conflictResolution: 'manual',
+      fieldMapping: {}
+    }
+  }).returning()
+  return integration
+}
+
+// The conflict a sync records when the title changed on both sides since both agreed on "Draft"
+async function createConflict(owner = userId, resolution?: string) {
+  const integration = await createIntegration(owner)
+  const task = createTask({ userId: owner })
+  tasks.set(task.id, task)
+  const external = createExternalTask()
+  const base = { ...DataTransformer.snapshot(task, 'task'), title: 'Draft' }
+
+  const [link] = await db.insert(externalItems).values({
+    userIntegrationId: integration.id,
+    externalId: external.id,
+    externalService: 'todoist',
+    itemType: 'task',
+    itemId: task.id,
+    externalData: { base },
+    version: 1
+  }).returning()
+
+  const conflictId = crypto.randomUUID()
+  const [job] = await db.insert(syncOperations).values({
+    userIntegrationId: integration.id,
+    operation: 'incremental_sync',
+    status: 'completed',
+    conflicts: [{
+      id: conflictId,
+      type: 'field_conflict',
+      itemType: 'task',
+      dayflowItem: task,
+      externalItem: external,
+      conflict: { merged: DataTransformer.snapshot(task, 'task'), baseVersion: 1 },
+      fields: [{ field: 'title', base: 'Draft', dayflow: task.title, external: external.title }],
+      resolution
+    }]
+  }).returning()
+
+  return { integration, task, external, link, job, conflictId }
+}
+
+async function getLink(id: string) {
+  const [link] = await db.select().from(externalItems).where(eq(externalItems.id, id))
+  return link
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase()
+  db = testDb.db
+})
+
+beforeEach(async () => {
+  await testDb.truncate()
+  engine = new SyncEngine({ db })
+  tasks = new Map()
+  pushed = []
+
+  // DayFlow tasks live in memory; the service echoes back what it is sent
+  const fake: Pick<BaseIntegration, 'updateTask'> = {
+    async updateTask(externalId, task) {
+      pushed.push({ externalId, task })
+      return createExternalTask({ id: externalId, title: task.title, updatedAt: new Date() })
+    }
+  }
+  const spies = [
+    spyOn(TaskRepository.prototype, 'findById').mockImplementation(async (id: string) => tasks.get(id) ?? null),
+    spyOn(TaskRepository.prototype, 'update').mockImplementation(async (id: string, data: Partial<Task>) => {
+      const updated = { ...tasks.get(id)!, ...data }
+      tasks.set(id, updated)
+      return updated
+    }),
+    spyOn(engine, 'createIntegration').mockResolvedValue(fake as BaseIntegration)
+  ]
+  restore = spies.map(spy => () => spy.mockRestore())
+})
+
+afterEach(() => {
+  restore.forEach(undo => undo())
+})
+
+afterAll(async () => {
+  await testDb.close()
+})
+
+describe('SyncEngine conflict resolution', () => {
+  describe('listConflicts', () => {
+    it('should list the user\'s unresolved conflicts with their fields', async () => {
+      const { conflictId, task, job } = await createConflict()
+      await createConflict(userId, 'keep_external')
+      await createConflict('123e4567-e89b-12d3-a456-426614174002')
+
+      const conflicts = await engine.listConflicts(userId)
+
+      expect(conflicts.map(conflict => conflict.id)).toEqual([conflictId])
+      expect(conflicts[0]).toMatchObject({
+        jobId: job.id,
+        serviceName: 'todoist',
+        itemType: 'task',
+        fields: [{ field: 'title', base: 'Draft', dayflow: task.title, external: 'Report (Todoist)' }]
+      })
+      expect((conflicts[0].externalItem as ExternalTask).updatedAt).toBeInstanceOf(Date)
+    })
+
+    it('should filter by service', async () => {
+      await createConflict()
+
+      expect(await engine.listConflicts(userId, 'linear')).toEqual([])
+    })
+  })
+
+  describe('applyConflictResolution', () => {
+    it('should take the service\'s value and record it as the new base', async () => {
+      const { conflictId, task, external, link, job } = await createConflict()
+
+      const result = await engine.applyConflictResolution({
+        conflictId,
+        dayflowItemId: task.id,
+        externalItemId: external.id,
+        resolution: 'keep_external'
+      })
+
+      expect(result).toEqual({ success: true })
+      expect(tasks.get(task.id)?.title).toBe('Report (Todoist)')
+      // Both sides already agree, so nothing goes back to the service
+      expect(pushed).toHaveLength(0)
+
+      const settled = await getLink(link.id)
+      expect(settled.version).toBe(2)
+      expect(settled.externalData?.base?.title).toBe('Report (Todoist)')
+
+      const [stored] = await db.select().from(syncOperations).where(eq(syncOperations.id, job.id))
+      expect(stored.conflicts?.[0].resolution).toBe('keep_external')
+    })
+
+    it('should push the DayFlow value to the service and record what it holds', async () => {
+      const { conflictId, task, external, link } = await createConflict()
+
+      const result = await engine.applyConflictResolution({
+        conflictId,
+        dayflowItemId: task.id,
+        externalItemId: external.id,
+        resolution: 'keep_dayflow'
+      })
+
+      expect(result).toEqual({ success: true })
+      expect(tasks.get(task.id)?.title).toBe('Report (DayFlow)')
+      expect(pushed).toEqual([{ externalId: 'todoist-1', task: expect.objectContaining({ title: 'Report (DayFlow)' }) }])
+      expect((await getLink(link.id)).externalData?.base?.title).toBe('Report (DayFlow)')
+    })
+
+    it('should not resolve a conflict twice', async () => {
+      const { conflictId, task, external } = await createConflict()
+      const request = { conflictId, dayflowItemId: task.id, externalItemId: external.id, resolution: 'keep_external' as const }
+
+      await engine.applyConflictResolution(request)
+
+      expect(await engine.applyConflictResolution(request)).toEqual({ success: false, error: 'Conflict already resolved' })
+    })
+
+    it('should refuse a conflict a later sync has moved past', async () => {
+      const { conflictId, task, external, link } = await createConflict()
+      await db.update(externalItems).set({ version: 2 }).where(eq(externalItems.id, link.id))
+
+      const result = await engine.applyConflictResolution({
+        conflictId,
+        dayflowItemId: task.id,
+        externalItemId: external.id,
+        resolution: 'keep_external'
+      })
+
+      expect(result).toEqual({ success: false, error: 'Conflict is out of date; sync again to refresh it' })
+      expect(tasks.get(task.id)?.title).toBe('Report (DayFlow)')
+    })
+  })
+
+  describe('automatic resolution', () => {
+    it('should use the strategy asked for with the sync over the saved one', async () => {
+      const integration = await createIntegration()
+      const task = createTask()
+      const result: SyncResult = {
+        operationId: '',
+        status: 'success',
+        itemsProcessed: 1,
+        itemsCreated: 0,
+        itemsUpdated: 0,
+        itemsDeleted: 0,
+        conflicts: [{ type: 'title_mismatch', dayflowItem: task, externalItem: createExternalTask(), conflict: {} }],
+        errors: [],
+        startedAt: new Date()
+      }
+      spyOn(engine as unknown as { syncTasks(): Promise<SyncResult> }, 'syncTasks').mockResolvedValue(result)
+      const applied = spyOn(
+        engine as unknown as { applyAutoConflictResolution(result: SyncResult, strategy: ConflictResolution): Promise<void> },
+        'applyAutoConflictResolution'
+      ).mockResolvedValue()
+
+      await engine.runSync(integration, 'task_sync', { conflictResolution: 'source' })
+      // The integration itself leaves conflicts to the user
+      await engine.runSync(integration, 'task_sync')
+
+      expect(applied.mock.calls.map(([, strategy]) => strategy)).toEqual(['source'])
+    })
+  })
+})
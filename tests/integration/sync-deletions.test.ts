@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, spyOn } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { externalItems, userIntegrations, type UserIntegration } from '@/lib/db/integrations-schema'
+import { TaskRepository, CalendarEventRepository } from '@/lib/data-access'
+import { SyncEngine } from '@/lib/integrations/sync-engine'
+import { createTestDatabase } from '../utils/pglite'
+
+type SyncSettings = NonNullable<UserIntegration['syncSettings']>
+
+let testDb: Awaited<ReturnType<typeof createTestDatabase>>
+let db: typeof testDb.db
+let calls: string[]
+let restore: Array<() => void>
+
+async function createIntegration(settings: Partial<SyncSettings> = {}) {
+  const [integration] = await db.insert(userIntegrations).values({
+    userId: crypto.randomUUID(),
+    serviceId: crypto.randomUUID(),
+    serviceName: 'google-calendar',
+    displayName: 'Google Calendar',
+    syncSettings: {
+      autoSync: false,
+      syncInterval: 15,
+      syncDirection: 'two_way',
+      syncTasks: true,
+      syncEvents: true,
+      conflictResolution: 'manual',
+      fieldMapping: {},
+      ...settings
+    }
+  }).returning()
+  return integration
+}
+
+async function linkItem(integration: UserIntegration, itemType: 'task' | 'event') {
+  const [link] = await db.insert(externalItems).values({
+    userIntegrationId: integration.id,
+    externalId: `${itemType}-1`,
+    externalService: integration.serviceName,
+    itemType,
+    itemId: crypto.randomUUID(),
+    externalData: {}
+  }).returning()
+  return link
+}
+
+async function removeLinkedItem(settings: Partial<SyncSettings>, itemType: 'task' | 'event') {
+  const integration = await createIntegration(settings)
+  const link = await linkItem(integration, itemType)
+  await new SyncEngine({ db })['removeLinkedItem'](integration, link)
+
+  const [tombstone] = await db.select().from(externalItems).where(eq(externalItems.id, link.id))
+  return { integration, link, tombstone }
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase()
+  db = testDb.db
+})
+
+beforeEach(async () => {
+  await testDb.truncate()
+  calls = []
+  // Record the local writes instead of making them against the app database
+  const spies = [TaskRepository, CalendarEventRepository].flatMap(repository => (['update', 'delete'] as const).map(method =>
+    spyOn(repository.prototype, method).mockImplementation(async (id: string, ...args: unknown[]) => {
+      calls.push(`${repository.name}.${method} ${id} ${JSON.stringify(args)}`)
+      return undefined as never
+    })
+  ))
+  restore = spies.map(spy => () => spy.mockRestore())
+})
+
+afterEach(() => {
+  restore.forEach(undo => undo())
+})
+
+afterAll(async () => {
+  await testDb.close()
+})
+
+describe('SyncEngine deletions', () => {
+  it('should delete local items by default', async () => {
+    const { integration, link, tombstone } = await removeLinkedItem({}, 'event')
+
+    expect(calls).toEqual([`CalendarEventRepository.delete ${link.itemId} [{"origin":"${integration.id}"}]`])
+    expect(tombstone.isDeleted).toBe(true)
+  })
+
+  it('should cancel archived tasks', async () => {
+    const { integration, link, tombstone } = await removeLinkedItem({ deletionPolicy: 'archive' }, 'task')
+
+    expect(calls).toEqual([`TaskRepository.update ${link.itemId} [{"status":"cancelled"},{"origin":"${integration.id}"}]`])
+    expect(tombstone.isDeleted).toBe(true)
+  })
+
+  it('should keep archived events as unlinked local copies', async () => {
+    const { tombstone } = await removeLinkedItem({ deletionPolicy: 'archive' }, 'event')
+
+    expect(calls).toEqual([])
+    // The tombstone stops the event being pushed back or linked again
+    expect(tombstone.isDeleted).toBe(true)
+    expect(tombstone.lastSyncAt).toBeInstanceOf(Date)
+  })
+})
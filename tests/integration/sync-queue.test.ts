@@ -0,0 +1,330 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, spyOn } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { syncOperations, syncQueue, userIntegrations, type UserIntegration } from '@/lib/db/integrations-schema'
+import { SyncQueueWorker, type SyncQueueWorkerOptions } from '@/lib/integrations/sync-queue'
+import type { BaseIntegration, SyncResult } from '@/lib/integrations/base'
+import { SyncEngine, type SyncJob } from '@/lib/integrations/sync-engine'
+import { createTestDatabase } from '../utils/pglite'
+
+const MINUTE = 60_000
+
+let testDb: Awaited<ReturnType<typeof createTestDatabase>>
+let db: typeof testDb.db
+let runs: Array<{ integrationId: string; operation: string }>
+let nextJobStatus: 'completed' | 'failed'
+
+const engine: Pick<SyncEngine, 'runSync'> = {
+  async runSync(integration, operation): Promise<SyncJob> {
+    runs.push({ integrationId: integration.id, operation })
+    return {
+      id: crypto.randomUUID(),
+      userIntegrationId: integration.id,
+      operation,
+      status: nextJobStatus,
+      startedAt: new Date(),
+      conflicts: [],
+      errors: nextJobStatus === 'failed' ? [new Error('Service unavailable')] : []
+    }
+  }
+}
+
+function createWorker(options: SyncQueueWorkerOptions = {}) {
+  return new SyncQueueWorker({ db, engine, baseBackoffMs: MINUTE, maxBackoffMs: 10 * MINUTE, ...options })
+}
+
+type SyncSettings = NonNullable<UserIntegration['syncSettings']>
+
+async function createIntegration(settings: Partial<SyncSettings> = {}, lastSyncAt?: Date) {
+  const syncSettings: SyncSettings = {
+    autoSync: false,
+    syncInterval: 15,
+    syncDirection: 'two_way',
+    syncTasks: true,
+    syncEvents: true,
+    conflictResolution: 'manual',
+    fieldMapping: {},
+    ...settings
+  }
+  const [integration] = await db.insert(userIntegrations).values({
+    userId: crypto.randomUUID(),
+    serviceId: crypto.randomUUID(),
+    serviceName: 'todoist',
+    displayName: 'Todoist',
+    syncSettings,
+    lastSyncAt
+  }).returning()
+  return integration
+}
+
+async function getItem(id: string) {
+  const [item] = await db.select().from(syncQueue).where(eq(syncQueue.id, id))
+  return item
+}
+
+async function getJob(id: string) {
+  const [job] = await db.select().from(syncOperations).where(eq(syncOperations.id, id))
+  return job
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase()
+  db = testDb.db
+})
+
+beforeEach(async () => {
+  await testDb.truncate()
+  runs = []
+  nextJobStatus = 'completed'
+})
+
+afterAll(async () => {
+  await testDb.close()
+})
+
+describe('SyncQueueWorker', () => {
+  describe('claiming', () => {
+    it('should claim due rows in priority order and mark them processing', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker({ batchSize: 2 })
+      const now = new Date()
+
+      const low = await worker.enqueue(integration.id, 'full_sync', { priority: 9, scheduledAt: new Date(now.getTime() - MINUTE) })
+      const high = await worker.enqueue(integration.id, 'task_sync', { priority: 1, scheduledAt: new Date(now.getTime() - MINUTE) })
+      const normal = await worker.enqueue(integration.id, 'event_sync', { scheduledAt: new Date(now.getTime() - MINUTE) })
+
+      const claimed = await worker.claimBatch(now)
+
+      expect(claimed.map(item => item.id).sort()).toEqual([high.id, normal.id].sort())
+      expect(claimed.every(item => item.status === 'processing' && item.attempts === 1)).toBe(true)
+      expect((await getItem(low.id)).status).toBe('pending')
+    })
+
+    it('should not claim rows scheduled in the future', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker()
+      const now = new Date()
+
+      await worker.enqueue(integration.id, 'full_sync', { scheduledAt: new Date(now.getTime() + MINUTE) })
+
+      expect(await worker.claimBatch(now)).toHaveLength(0)
+    })
+
+    it('should hand concurrent workers disjoint rows', async () => {
+      const integration = await createIntegration()
+      const first = createWorker({ batchSize: 2 })
+      const second = createWorker({ batchSize: 2 })
+      const past = new Date(Date.now() - MINUTE)
+
+      for (let i = 0; i < 3; i++) {
+        await first.enqueue(integration.id, 'full_sync', { scheduledAt: past })
+      }
+
+      const [a, b] = await Promise.all([first.claimBatch(), second.claimBatch()])
+      const ids = [...a, ...b].map(item => item.id)
+
+      expect(ids).toHaveLength(3)
+      expect(new Set(ids).size).toBe(3)
+    })
+  })
+
+  describe('processing', () => {
+    it('should run claimed rows through the sync engine and complete them', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker()
+      const item = await worker.enqueue(integration.id, 'task_sync')
+
+      const result = await worker.tick()
+
+      expect(result.completed).toBe(1)
+      expect(runs).toEqual([{ integrationId: integration.id, operation: 'task_sync' }])
+      const stored = await getItem(item.id)
+      expect(stored.status).toBe('completed')
+      expect(stored.completedAt).toBeInstanceOf(Date)
+    })
+
+    it('should reschedule failures with exponential backoff', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker()
+      const item = await worker.enqueue(integration.id, 'full_sync')
+      nextJobStatus = 'failed'
+
+      const before = Date.now()
+      const first = await worker.tick()
+      const afterFirst = await getItem(item.id)
+
+      expect(first.retried).toBe(1)
+      expect(afterFirst.status).toBe('pending')
+      expect(afterFirst.attempts).toBe(1)
+      expect(afterFirst.lastError).toBe('Service unavailable')
+      expect(afterFirst.scheduledAt!.getTime()).toBeGreaterThanOrEqual(before + MINUTE)
+
+      // Second failure waits twice as long
+      const second = await worker.tick(new Date(afterFirst.scheduledAt!.getTime() + 1))
+      const afterSecond = await getItem(item.id)
+
+      expect(second.retried).toBe(1)
+      expect(afterSecond.attempts).toBe(2)
+      expect(afterSecond.scheduledAt!.getTime()).toBeGreaterThanOrEqual(before + 2 * MINUTE)
+    })
+
+    it('should move exhausted rows to dead_letter', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker()
+      const jobId = await new SyncEngine({ db }).createPendingJob(integration, 'full_sync')
+      const item = await worker.enqueue(integration.id, 'full_sync', { maxAttempts: 1, payload: { jobId } })
+      nextJobStatus = 'failed'
+
+      const result = await worker.tick()
+      const stored = await getItem(item.id)
+
+      expect(result.deadLettered).toBe(1)
+      expect(stored.status).toBe('dead_letter')
+      expect(stored.lastError).toBe('Service unavailable')
+      // The job the caller follows ends with it, so it no longer counts as in progress
+      expect(await getJob(jobId)).toMatchObject({ status: 'failed', error: 'Service unavailable' })
+
+      // Dead-lettered rows are never claimed again
+      expect(await worker.claimBatch(new Date(Date.now() + 24 * 60 * MINUTE))).toHaveLength(0)
+    })
+
+    it('should dead-letter rows whose integration is inactive', async () => {
+      const integration = await createIntegration()
+      await db.update(userIntegrations).set({ isActive: false }).where(eq(userIntegrations.id, integration.id))
+      const worker = createWorker()
+      const jobId = await new SyncEngine({ db }).createPendingJob(integration, 'full_sync')
+      const item = await worker.enqueue(integration.id, 'full_sync', { payload: { jobId } })
+
+      await worker.tick()
+
+      expect(runs).toHaveLength(0)
+      expect((await getItem(item.id)).status).toBe('dead_letter')
+      expect((await getJob(jobId)).status).toBe('failed')
+    })
+
+    it('should reclaim rows abandoned by a crashed worker', async () => {
+      const integration = await createIntegration()
+      const worker = createWorker({ claimTimeoutMs: 5 * MINUTE })
+      const item = await worker.enqueue(integration.id, 'full_sync')
+      await worker.claimBatch()
+
+      const later = new Date(Date.now() + 10 * MINUTE)
+      const result = await worker.tick(later)
+
+      expect(result.reclaimed).toBe(1)
+      const stored = await getItem(item.id)
+      expect(stored.status).toBe('pending')
+      expect(stored.lastError).toBe('Worker claim timed out')
+    })
+
+    it('should record a retried job as completed once it succeeds', async () => {
+      const integration = await createIntegration()
+      const syncEngine = new SyncEngine({ db })
+      const synced: SyncResult = {
+        operationId: '',
+        status: 'success',
+        itemsProcessed: 0,
+        itemsCreated: 0,
+        itemsUpdated: 0,
+        itemsDeleted: 0,
+        conflicts: [],
+        errors: [],
+        startedAt: new Date()
+      }
+      // The service is down for the first attempt only
+      spyOn(syncEngine, 'createIntegration')
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValue({} as BaseIntegration)
+      spyOn(syncEngine as unknown as { syncTasks(): Promise<SyncResult> }, 'syncTasks').mockResolvedValue(synced)
+      const worker = createWorker({ engine: syncEngine })
+      const jobId = await syncEngine.createPendingJob(integration, 'task_sync')
+      const item = await worker.enqueue(integration.id, 'task_sync', { payload: { jobId } })
+
+      expect((await worker.tick()).retried).toBe(1)
+      expect((await syncEngine.getJobStatus(jobId))?.status).toBe('failed')
+
+      const retry = await getItem(item.id)
+      expect((await worker.tick(new Date(retry.scheduledAt!.getTime() + 1))).completed).toBe(1)
+      expect(await syncEngine.getJobStatus(jobId)).toMatchObject({ status: 'completed', errors: [] })
+    })
+  })
+
+  describe('periodic scheduling', () => {
+    it('should enqueue incremental syncs for integrations whose interval elapsed', async () => {
+      const now = new Date()
+      const due = await createIntegration({ autoSync: true, syncInterval: 15 }, new Date(now.getTime() - 20 * MINUTE))
+      const neverSynced = await createIntegration({ autoSync: true, syncInterval: 15 })
+      await createIntegration({ autoSync: true, syncInterval: 15 }, new Date(now.getTime() - 5 * MINUTE))
+      await createIntegration({ autoSync: false, syncInterval: 15 }, new Date(now.getTime() - 60 * MINUTE))
+      const worker = createWorker()
+
+      const scheduled = await worker.scheduleAutoSyncs(now)
+      const queued = await db.select().from(syncQueue)
+
+      expect(scheduled).toBe(2)
+      expect(queued.map(item => item.userIntegrationId).sort()).toEqual([due.id, neverSynced.id].sort())
+      expect(queued.every(item => item.operation === 'incremental_sync')).toBe(true)
+
+      // A periodic sync that is already queued is not duplicated
+      expect(await worker.scheduleAutoSyncs(now)).toBe(0)
+    })
+
+    it('should not add a periodic sync while another operation is queued', async () => {
+      const integration = await createIntegration({ autoSync: true, syncInterval: 15 })
+      const worker = createWorker()
+      await worker.enqueue(integration.id, 'full_sync')
+
+      expect(await worker.scheduleAutoSyncs()).toBe(0)
+    })
+
+    it('should leave failing integrations to the retry backoff', async () => {
+      const now = new Date()
+      await createIntegration({ autoSync: true, syncInterval: 15 })
+      const worker = createWorker()
+      nextJobStatus = 'failed'
+
+      expect(await worker.tick(now)).toMatchObject({ scheduled: 1, retried: 1 })
+
+      // lastSyncAt never moved, but the waiting retry keeps later ticks from adding more
+      expect(await worker.scheduleAutoSyncs(new Date(now.getTime() + 30 * MINUTE))).toBe(0)
+      expect(await db.select().from(syncQueue)).toHaveLength(1)
+    })
+
+    it('should not re-enqueue dead-lettered integrations until a sync succeeds', async () => {
+      const now = new Date()
+      const integration = await createIntegration({ autoSync: true, syncInterval: 15 }, new Date(now.getTime() - 20 * MINUTE))
+      const worker = createWorker()
+      await worker.enqueue(integration.id, 'incremental_sync', { maxAttempts: 1, scheduledAt: now })
+      nextJobStatus = 'failed'
+
+      expect((await worker.tick(now)).deadLettered).toBe(1)
+      expect(await worker.scheduleAutoSyncs(new Date(now.getTime() + 60 * MINUTE))).toBe(0)
+
+      // A later good sync (e.g. a manual one) puts it back on its interval
+      await db.update(userIntegrations)
+        .set({ lastSyncAt: new Date(now.getTime() + MINUTE) })
+        .where(eq(userIntegrations.id, integration.id))
+      expect(await worker.scheduleAutoSyncs(new Date(now.getTime() + 20 * MINUTE))).toBe(1)
+    })
+  })
+
+  describe('staleness', () => {
+    it('should treat work older than a claim as abandoned', () => {
+      const worker = createWorker({ claimTimeoutMs: 5 * MINUTE })
+      const now = new Date()
+
+      expect(worker.isStale(new Date(now.getTime() - 4 * MINUTE), now)).toBe(false)
+      expect(worker.isStale(new Date(now.getTime() - 6 * MINUTE), now)).toBe(true)
+    })
+  })
+
+  describe('backoff', () => {
+    it('should double the delay per attempt up to the cap', () => {
+      const worker = createWorker()
+
+      expect(worker.getBackoffDelay(1)).toBe(MINUTE)
+      expect(worker.getBackoffDelay(2)).toBe(2 * MINUTE)
+      expect(worker.getBackoffDelay(3)).toBe(4 * MINUTE)
+      expect(worker.getBackoffDelay(10)).toBe(10 * MINUTE)
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, spyOn } from 'bun:test'
+import { NextRequest } from 'next/server'
+import { userIntegrations } from '@/lib/db/integrations-schema'
+import { syncEngine, type SyncJob } from '@/lib/integrations/sync-engine'
+import { syncQueueWorker } from '@/lib/integrations/sync-queue'
+import { GET, POST } from '@/app/api/integrations/[service]/sync/route'
+import { createTestDatabase } from '../utils/pglite'
+
+const userId = '123e4567-e89b-12d3-a456-426614174001'
+const otherUserId = '123e4567-e89b-12d3-a456-426614174002'
+
+let testDb: Awaited<ReturnType<typeof createTestDatabase>>
+let db: typeof testDb.db
+let enqueued: Array<{ userIntegrationId: string; operation: string; payload?: Record<string, unknown> }>
+let restore: Array<() => void>
+
+async function createIntegration(owner = userId) {
+  const [integration] = await db.insert(userIntegrations).values({
+    userId: owner,
+    serviceId: crypto.randomUUID(),
+    serviceName: 'todoist',
+    displayName: 'Todoist'
+  }).returning()
+  return integration
+}
+
+function createJob(userIntegrationId: string, overrides: Partial<SyncJob> = {}): SyncJob {
+  return {
+    id: crypto.randomUUID(),
+    userIntegrationId,
+    operation: 'incremental_sync',
+    status: 'running',
+    startedAt: new Date(),
+    conflicts: [],
+    errors: [],
+    ...overrides
+  }
+}
+
+function request(method: 'GET' | 'POST', query = '', body?: unknown) {
+  return new NextRequest(`http://localhost/api/integrations/todoist/sync${query}`, {
+    method,
+    headers: { 'x-user-id': userId },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+}
+
+const context = { params: Promise.resolve({ service: 'todoist' }) }
+
+beforeAll(async () => {
+  testDb = await createTestDatabase()
+  db = testDb.db
+})
+
+beforeEach(async () => {
+  await testDb.truncate()
+  enqueued = []
+  const spies = [
+    // The engine looks the integration up in PGlite; the jobs themselves are faked
+    spyOn(syncEngine as unknown as { getDB(): typeof db }, 'getDB').mockReturnValue(db),
+    spyOn(syncEngine, 'getActiveJobsForIntegration').mockResolvedValue([]),
+    spyOn(syncEngine, 'createPendingJob').mockResolvedValue('1b4e28ba-2fa1-11d2-883f-0016d3cca427'),
+    spyOn(syncEngine, 'getConflictSummary').mockResolvedValue({ total: 0, taskConflicts: 0, eventConflicts: 0, unresolved: 0 }),
+    spyOn(syncQueueWorker, 'enqueue').mockImplementation(async (userIntegrationId, operation, options) => {
+      enqueued.push({ userIntegrationId, operation, payload: options?.payload })
+      return undefined as never
+    })
+  ]
+  restore = spies.map(spy => () => spy.mockRestore())
+})
+
+afterEach(() => {
+  restore.forEach(undo => undo())
+})
+
+afterAll(async () => {
+  await testDb.close()
+})
+
+describe('/api/integrations/[service]/sync', () => {
+  describe('POST', () => {
+    it('should queue the sync and answer with the pending job', async () => {
+      const integration = await createIntegration()
+
+      const response = await POST(request('POST', '', { syncType: 'full' }), context)
+
+      expect(response.status).toBe(202)
+      expect(await response.json()).toEqual({
+        syncId: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+        service: 'todoist',
+        syncType: 'full',
+        status: 'pending'
+      })
+      expect(enqueued).toEqual([{
+        userIntegrationId: integration.id,
+        operation: 'full_sync',
+        payload: { jobId: '1b4e28ba-2fa1-11d2-883f-0016d3cca427' }
+      }])
+    })
+
+    it('should refuse a second sync while one is still running', async () => {
+      const integration = await createIntegration()
+      const active = createJob(integration.id)
+      spyOn(syncEngine, 'getActiveJobsForIntegration').mockResolvedValue([active])
+
+      const response = await POST(request('POST'), context)
+
+      expect(response.status).toBe(409)
+      expect(await response.json()).toEqual({ error: 'Sync already in progress', syncId: active.id })
+      expect(enqueued).toHaveLength(0)
+    })
+
+    it('should not be blocked by a job a crashed worker left running', async () => {
+      const integration = await createIntegration()
+      const abandoned = createJob(integration.id, { startedAt: new Date(Date.now() - 60 * 60_000) })
+      spyOn(syncEngine, 'getActiveJobsForIntegration').mockResolvedValue([abandoned])
+
+      const response = await POST(request('POST'), context)
+
+      expect(response.status).toBe(202)
+      expect(enqueued).toHaveLength(1)
+    })
+
+    it('should pass the conflict strategy on to the sync and reject unknown ones', async () => {
+      await createIntegration()
+
+      expect((await POST(request('POST', '', { conflictResolution: 'newest' }), context)).status).toBe(400)
+      expect((await POST(request('POST', '', { conflictResolution: 'latest' }), context)).status).toBe(202)
+      expect(enqueued[0].payload).toMatchObject({ conflictResolution: 'latest' })
+    })
+  })
+
+  describe('GET', () => {
+    it('should reject a syncId that is not a uuid', async () => {
+      const getJobStatus = spyOn(syncEngine, 'getJobStatus')
+
+      const response = await GET(request('GET', '?syncId=not-a-job'), context)
+
+      expect(response.status).toBe(400)
+      expect(getJobStatus).not.toHaveBeenCalled()
+      getJobStatus.mockRestore()
+    })
+
+    it('should report the job of another user as missing', async () => {
+      await createIntegration()
+      const foreign = createJob((await createIntegration(otherUserId)).id)
+      const getJobStatus = spyOn(syncEngine, 'getJobStatus').mockResolvedValue(foreign)
+
+      const response = await GET(request('GET', `?syncId=${foreign.id}`), context)
+
+      expect(response.status).toBe(404)
+      expect(await response.json()).toEqual({ error: 'Sync job not found' })
+      getJobStatus.mockRestore()
+    })
+
+    it('should report the status of the user\'s own job', async () => {
+      const integration = await createIntegration()
+      const job = createJob(integration.id)
+      const getJobStatus = spyOn(syncEngine, 'getJobStatus').mockResolvedValue(job)
+
+      const response = await GET(request('GET', `?syncId=${job.id}`), context)
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({ syncId: job.id, service: 'todoist', status: 'running' })
+      getJobStatus.mockRestore()
+    })
+  })
+})
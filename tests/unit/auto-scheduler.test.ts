@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'bun:test'
+import { AutoScheduler, DEFAULT_SCHEDULING_CONSTRAINTS, type ScheduleInput, type ScheduledBlock } from '@/lib/auto-scheduler'
+import type { CalendarEvent, EventOrTask, Task } from '@/types/calendar'
+import { detectEventCollisions } from '@/lib/date-utils'
+
+// A zone keeps these on TimeZones rather than the mocked date-fns in utils.test
+const BERLIN = 'Europe/Berlin'
+
+// Berlin is an hour ahead of UTC in early March; times below are on its clock
+const at = (day: number, time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return new Date(Date.UTC(2026, 2, day, hour - 1, minute))
+}
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  status: 'pending',
+  priority: 'medium',
+  progress: 0,
+  userId: 'user-1',
+  startTime: null,
+  endTime: null,
+  dueDate: null,
+  estimatedDuration: 60,
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  createdAt: at(1, '00:00'),
+  updatedAt: at(1, '00:00'),
+  ...overrides
+})
+
+const event = (id: string, start: Date, end: Date, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  title: id,
+  startTime: start,
+  endTime: end,
+  isAllDay: false,
+  userId: 'user-1',
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  createdAt: at(1, '00:00'),
+  updatedAt: at(1, '00:00'),
+  ...overrides
+})
+
+// Monday 9th to Sunday 15th of March, planned from early on Monday
+const input = (tasks: Task[], events: EventOrTask[] = [], overrides: Partial<ScheduleInput> = {}): ScheduleInput => ({
+  tasks,
+  events,
+  start: at(9, '00:00'),
+  end: at(16, '00:00'),
+  now: at(9, '07:00'),
+  timeZone: BERLIN,
+  ...overrides
+})
+
+const times = (blocks: ScheduledBlock[]) => Object.fromEntries(blocks.map(block => [block.taskId, [block.startTime, block.endTime]]))
+
+describe('AutoScheduler', () => {
+  it('should place the most urgent tasks first, around events and their buffer', () => {
+    const { blocks } = AutoScheduler.propose(input(
+      [task('low', { priority: 'low' }), task('urgent', { priority: 'urgent' })],
+      [event('standup', at(9, '10:00'), at(9, '10:30'))]
+    ))
+
+    // 09:00-10:00 would touch the stand-up's buffer, so the first block waits until after it
+    expect(times(blocks)).toEqual({
+      urgent: [at(9, '10:45'), at(9, '11:45')],
+      low: [at(9, '12:00'), at(9, '13:00')]
+    })
+  })
+
+  it('should timebox estimates longer than the focus limit', () => {
+    const [block] = AutoScheduler.propose(input([task('report', { estimatedDuration: 240 })])).blocks
+
+    expect(block.endTime.getTime() - block.startTime.getTime()).toBe(90 * 60 * 1000)
+    expect(block.isTimeboxed).toBe(true)
+  })
+
+  it('should keep to working hours after the no-meetings hour and never plan in the past', () => {
+    const constraints = { ...DEFAULT_SCHEDULING_CONSTRAINTS, noMeetingsBeforeHour: 11 }
+
+    expect(AutoScheduler.propose(input([task('a')]), constraints).blocks[0].startTime).toEqual(at(9, '11:00'))
+    // Late on Monday the next free morning is Tuesday's
+    expect(AutoScheduler.propose(input([task('a')], [], { now: at(9, '16:30') })).blocks[0].startTime).toEqual(at(10, '09:00'))
+  })
+
+  it('should skip days off and report tasks that do not fit anywhere', () => {
+    const constraints = { ...DEFAULT_SCHEDULING_CONSTRAINTS, workDays: [6], maxFocusMinutes: 600 }
+    const { blocks, unplaced } = AutoScheduler.propose(
+      input([task('short'), task('huge', { priority: 'high', estimatedDuration: 600 })]),
+      constraints
+    )
+
+    expect(times(blocks)).toEqual({ short: [at(14, '09:00'), at(14, '10:00')] })
+    expect(unplaced.map(t => t.id)).toEqual(['huge'])
+  })
+
+  it('should flag blocks that end after the task is due', () => {
+    const { blocks } = AutoScheduler.propose(input(
+      [task('first', { priority: 'high' }), task('due', { dueDate: at(9, '10:00') })]
+    ))
+
+    expect(blocks.map(block => [block.taskId, block.isLate])).toEqual([['first', false], ['due', true]])
+  })
+
+  it('should ignore all-day events and give the same proposal every time', () => {
+    const args = input(
+      [task('a'), task('b', { priority: 'high' }), task('c', { estimatedDuration: 45 })],
+      [event('holiday', at(9, '00:00'), at(10, '00:00'), { isAllDay: true })]
+    )
+
+    expect(AutoScheduler.propose(args)).toEqual(AutoScheduler.propose(args))
+    expect(AutoScheduler.propose(args).blocks[0].startTime).toEqual(at(9, '09:00'))
+  })
+
+  it('should only propose blocks the calendar\'s overlap test accepts', () => {
+    const events = [
+      event('long', at(9, '09:00'), at(9, '12:00')),
+      event('inside', at(9, '10:00'), at(9, '10:30')),
+      event('late', at(9, '13:10'), at(9, '14:50'))
+    ]
+    const { blocks } = AutoScheduler.propose(input(['a', 'b', 'c', 'd'].map(id => task(id, { estimatedDuration: 50 })), events))
+
+    const proposed = blocks.map(block => task(block.taskId, { startTime: block.startTime, endTime: block.endTime }))
+    expect(blocks).toHaveLength(4)
+    for (const item of proposed) {
+      expect([...events, ...proposed].filter(other => other !== item && detectEventCollisions([other, item]).length > 0)).toEqual([])
+    }
+  })
+})
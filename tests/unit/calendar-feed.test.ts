@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'bun:test'
+import { ICalendar } from '@/lib/ical'
+import { CalendarFeeds } from '@/lib/calendar-feed'
+import type { Task, CalendarEvent, RecurrenceException } from '@/lib/db/schema'
+
+const NOW = new Date('2026-06-01T12:00:00Z')
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: '11111111-2222-3333-4444-555555555555',
+  userId: 'user-1',
+  title: 'Team sync',
+  description: null,
+  startTime: new Date('2026-06-02T09:00:00Z'),
+  endTime: new Date('2026-06-02T09:30:00Z'),
+  timeZone: null,
+  isAllDay: false,
+  location: null,
+  meetingUrl: null,
+  attendees: [],
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  categoryId: 'cat-work',
+  icalUid: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides
+})
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  userId: 'user-1',
+  title: 'Write report',
+  description: null,
+  status: 'pending',
+  priority: 'high',
+  dueDate: null,
+  startTime: new Date('2026-06-03T13:00:00Z'),
+  endTime: new Date('2026-06-03T15:00:00Z'),
+  completedAt: null,
+  progress: 0,
+  estimatedDuration: null,
+  actualDuration: null,
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  categoryId: null,
+  icalUid: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides
+})
+
+describe('CalendarFeeds', () => {
+  it('should generate long url-safe tokens', () => {
+    const first = CalendarFeeds.generateToken()
+    const second = CalendarFeeds.generateToken()
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(first).not.toBe(second)
+    expect(CalendarFeeds.feedPath(first)).toBe(`/api/calendar/feed/${first}.ics`)
+  })
+
+  it('should name the calendar and ask clients to refresh hourly', () => {
+    const calendar = ICalendar.parse(CalendarFeeds.buildFeed('Work, shared', [], [], new Map(), NOW))
+
+    expect(ICalendar.find(calendar, 'X-WR-CALNAME')?.value).toBe('Work\\, shared')
+    expect(ICalendar.find(calendar, 'REFRESH-INTERVAL')?.value).toBe('PT1H')
+    expect(ICalendar.find(calendar, 'REFRESH-INTERVAL')?.params.VALUE).toBe('DURATION')
+  })
+
+  it('should serve time-blocked tasks as events and skip unscheduled ones', () => {
+    const calendar = ICalendar.parse(CalendarFeeds.buildFeed('DayFlow', [event()], [
+      task(),
+      task({ id: 'bbbbbbbb-bbbb-cccc-dddd-eeeeeeeeeeee', startTime: null, endTime: null, dueDate: NOW })
+    ], new Map([['cat-work', 'Work']]), NOW))
+
+    const events = ICalendar.readEvents(calendar)
+    expect(ICalendar.readTodos(calendar)).toHaveLength(0)
+    expect(events.map(item => item.uid)).toEqual([
+      'event-11111111-2222-3333-4444-555555555555@dayflow.app',
+      'task-aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee@dayflow.app'
+    ])
+    expect(events[0].categories).toEqual(['Work'])
+    expect(events[1].start.toISOString()).toBe('2026-06-03T13:00:00.000Z')
+    expect(events[1].end.toISOString()).toBe('2026-06-03T15:00:00.000Z')
+  })
+
+  it('should mark cancelled task blocks as cancelled', () => {
+    const [block] = ICalendar.readEvents(ICalendar.parse(
+      CalendarFeeds.buildFeed('DayFlow', [], [task({ status: 'cancelled' })], new Map(), NOW)
+    ))
+
+    expect(block.status).toBe('cancelled')
+  })
+
+  it('should leave out old one-off items but keep recurring ones', () => {
+    const calendar = ICalendar.parse(CalendarFeeds.buildFeed('DayFlow', [
+      event({ id: '00000000-0000-0000-0000-000000000001', startTime: new Date('2025-01-01T09:00:00Z'), endTime: new Date('2025-01-01T10:00:00Z') }),
+      event({
+        id: '00000000-0000-0000-0000-000000000002',
+        startTime: new Date('2025-01-06T09:00:00Z'),
+        endTime: new Date('2025-01-06T10:00:00Z'),
+        recurrence: { type: 'weekly', interval: 1 }
+      })
+    ], [], new Map(), NOW))
+
+    const events = ICalendar.readEvents(calendar)
+    expect(events).toHaveLength(1)
+    expect(events[0].uid).toBe('event-00000000-0000-0000-0000-000000000002@dayflow.app')
+    expect(events[0].recurrence?.frequency).toBe('weekly')
+  })
+
+  it('should leave out skipped occurrences and serve changed ones', () => {
+    const weekly = task({ recurrence: { type: 'weekly', interval: 1 } })
+    const exceptions: RecurrenceException[] = [
+      {
+        id: crypto.randomUUID(),
+        userId: 'user-1',
+        eventId: null,
+        taskId: weekly.id,
+        originalStart: new Date('2026-06-10T13:00:00Z'),
+        isSkipped: true,
+        overrides: {},
+        createdAt: null,
+        updatedAt: null
+      },
+      {
+        id: crypto.randomUUID(),
+        userId: 'user-1',
+        eventId: null,
+        taskId: weekly.id,
+        originalStart: new Date('2026-06-17T13:00:00Z'),
+        isSkipped: false,
+        overrides: { startTime: '2026-06-18T08:00:00.000Z', endTime: '2026-06-18T10:00:00.000Z', status: 'cancelled' },
+        createdAt: null,
+        updatedAt: null
+      }
+    ]
+
+    const [block, changed] = ICalendar.readEvents(ICalendar.parse(
+      CalendarFeeds.buildFeed('DayFlow', [], [weekly], new Map(), NOW, exceptions)
+    ))
+
+    expect(block.exceptionDates).toEqual([new Date('2026-06-10T13:00:00Z')])
+    expect(changed.uid).toBe(block.uid)
+    expect(changed.recurrenceId).toEqual(new Date('2026-06-17T13:00:00Z'))
+    expect(changed.start).toEqual(new Date('2026-06-18T08:00:00Z'))
+    expect(changed.status).toBe('cancelled')
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'bun:test'
+import { getUnscheduledTasksForDay, getTimeFromMinutes, getNextDay, groupEventsByDay, getAllDayEventsInRange, getTaskBacklog } from '@/lib/date-utils'
+import type { CalendarEvent, Task, TaskBacklogFilter } from '@/types/calendar'
+
+// A zone keeps these on TimeZones rather than the mocked date-fns in utils.test
+const BERLIN = 'Europe/Berlin'
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  status: 'pending',
+  priority: 'medium',
+  progress: 0,
+  userId: 'user-1',
+  startTime: null,
+  endTime: null,
+  dueDate: new Date('2026-03-10T16:00:00Z'),
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+  ...overrides
+})
+
+const event = (id: string, start: string, end: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  title: id,
+  startTime: new Date(start),
+  endTime: new Date(end),
+  isAllDay: false,
+  userId: 'user-1',
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+  ...overrides
+})
+
+describe('getUnscheduledTasksForDay', () => {
+  it('should list open tasks due that day without a time, most urgent first', () => {
+    const tasks = [
+      task('low', { priority: 'low' }),
+      task('urgent', { priority: 'urgent' }),
+      task('scheduled', { startTime: new Date('2026-03-10T09:00:00Z'), endTime: new Date('2026-03-10T10:00:00Z') }),
+      task('done', { status: 'completed' }),
+      task('tomorrow', { dueDate: new Date('2026-03-11T09:00:00Z') }),
+      // 23:30 UTC is already the next day in Berlin
+      task('late', { dueDate: new Date('2026-03-10T23:30:00Z') })
+    ]
+
+    const titles = getUnscheduledTasksForDay(tasks, new Date('2026-03-10T12:00:00Z'), [], BERLIN).map(t => t.title)
+
+    expect(titles).toEqual(['urgent', 'low'])
+  })
+
+  it('should include the day\'s occurrence of a repeating task', () => {
+    const weekly = task('review', { dueDate: new Date('2026-03-03T16:00:00Z'), recurrence: { type: 'weekly' } })
+
+    const [occurrence] = getUnscheduledTasksForDay([weekly], new Date('2026-03-10T12:00:00Z'), [], BERLIN)
+
+    expect(occurrence).toMatchObject({ masterId: 'review', dueDate: new Date('2026-03-10T16:00:00Z') })
+  })
+})
+
+describe('day timeline slots', () => {
+  it('should place quarter hours on the zone clock and step over DST', () => {
+    // Berlin springs forward on March 29th, 2026
+    const day = new Date('2026-03-28T23:00:00Z')
+
+    expect(getTimeFromMinutes(day, 9 * 60 + 45, BERLIN)).toEqual(new Date('2026-03-29T07:45:00Z'))
+    expect(getNextDay(day, BERLIN)).toEqual(new Date('2026-03-29T22:00:00Z'))
+  })
+})
+
+describe('groupEventsByDay', () => {
+  it('should bucket items by their start day in the zone, in time order', () => {
+    const item = (id: string, start: string) => event(id, start, start)
+    const days = groupEventsByDay([
+      item('lunch', '2026-03-10T11:00:00Z'),
+      // 23:30 UTC on the 10th is already the 11th in Berlin
+      item('night', '2026-03-10T23:30:00Z'),
+      item('breakfast', '2026-03-10T07:00:00Z'),
+      task('someday')
+    ], BERLIN)
+
+    expect(days.map(day => day.date)).toEqual([new Date('2026-03-09T23:00:00Z'), new Date('2026-03-10T23:00:00Z')])
+    expect(days.map(day => day.events.map(event => event.id))).toEqual([['breakfast', 'lunch'], ['night']])
+  })
+})
+
+describe('getAllDayEventsInRange', () => {
+  it('should pick all-day and day-long items overlapping the range, even ones begun earlier', () => {
+    const item = (id: string, start: string, end: string, isAllDay = false) => event(id, start, end, { isAllDay })
+    const week = { start: new Date('2026-03-09T00:00:00Z'), end: new Date('2026-03-16T00:00:00Z') }
+
+    const ids = getAllDayEventsInRange([
+      item('holiday', '2026-03-10T00:00:00Z', '2026-03-11T00:00:00Z', true),
+      item('conference', '2026-03-07T09:00:00Z', '2026-03-10T17:00:00Z'),
+      item('meeting', '2026-03-10T09:00:00Z', '2026-03-10T10:00:00Z'),
+      // Ends exactly as the week starts
+      item('last-week', '2026-03-08T00:00:00Z', '2026-03-09T00:00:00Z', true)
+    ], week.start, week.end).map(event => event.id)
+
+    expect(ids).toEqual(['holiday', 'conference'])
+  })
+})
+
+describe('getTaskBacklog', () => {
+  // Midday on Tuesday the 10th in Berlin
+  const now = new Date('2026-03-10T11:00:00Z')
+  const filter = (overrides: Partial<TaskBacklogFilter> = {}): TaskBacklogFilter => ({ categoryId: 'all', priority: 'all', due: 'all', ...overrides })
+  const tasks = [
+    task('report', { priority: 'high', categoryId: 'work' }),
+    task('groceries', { priority: 'low', categoryId: 'personal', dueDate: null }),
+    task('taxes', { priority: 'urgent', categoryId: 'personal', dueDate: new Date('2026-03-02T09:00:00Z') }),
+    task('trip', { categoryId: 'travel', dueDate: new Date('2026-03-15T09:00:00Z') }),
+    task('placed', { startTime: new Date('2026-03-10T09:00:00Z'), endTime: new Date('2026-03-10T10:00:00Z') }),
+    task('standup', { recurrence: { type: 'daily' } }),
+    task('filed', { status: 'cancelled' })
+  ]
+  const titles = (overrides: Partial<TaskBacklogFilter>) => getTaskBacklog(tasks, filter(overrides), BERLIN, now).map(t => t.title)
+
+  it('should list open one-off tasks without a time, most urgent first', () => {
+    expect(titles({})).toEqual(['taxes', 'report', 'trip', 'groceries'])
+  })
+
+  it('should narrow by category and priority', () => {
+    expect(titles({ categoryId: 'personal' })).toEqual(['taxes', 'groceries'])
+    expect(titles({ priority: 'medium' })).toEqual(['trip'])
+  })
+
+  it('should narrow by due date relative to today in the zone', () => {
+    expect(titles({ due: 'overdue' })).toEqual(['taxes'])
+    expect(titles({ due: 'today' })).toEqual(['report'])
+    expect(titles({ due: 'week' })).toEqual(['report', 'trip'])
+    expect(titles({ due: 'none' })).toEqual(['groceries'])
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'bun:test'
+import { EventLayout, type EventPlacement } from '@/lib/event-layout'
+
+// Times as "HH:mm" on one day keep the cases readable
+const at = (time: string) => new Date(`2026-03-10T${time}:00Z`)
+const event = (id: string, start: string, end: string) => ({ id, startTime: at(start), endTime: at(end) })
+
+const byId = (placements: EventPlacement[]) =>
+  Object.fromEntries(placements.map(({ event, lane, span, lanes }) => [event.id, { lane, span, lanes }]))
+
+describe('EventLayout', () => {
+  it('should give events that do not overlap the full width', () => {
+    const placements = EventLayout.layout([event('a', '09:00', '10:00'), event('b', '10:00', '11:00')])
+
+    expect(placements.map(p => [p.left, p.width])).toEqual([[0, 1], [0, 1]])
+  })
+
+  it('should split a cluster into lanes and reuse lanes that have freed up', () => {
+    // c starts after a ends, so it takes a's lane while b still runs
+    const placements = byId(EventLayout.layout([
+      event('a', '09:00', '10:00'),
+      event('b', '09:30', '11:00'),
+      event('c', '10:00', '10:30')
+    ]))
+
+    expect(placements).toEqual({
+      a: { lane: 0, span: 1, lanes: 2 },
+      b: { lane: 1, span: 1, lanes: 2 },
+      c: { lane: 0, span: 1, lanes: 2 }
+    })
+  })
+
+  it('should keep events chained through a neighbour in one cluster', () => {
+    // a and c never overlap but both overlap b, so all share the same lane count
+    const placements = byId(EventLayout.layout([
+      event('a', '09:00', '10:00'),
+      event('b', '09:45', '11:00'),
+      event('c', '10:30', '12:00'),
+      event('d', '10:30', '11:30')
+    ]))
+
+    expect(placements.a.lanes).toBe(3)
+    expect(placements.c).toEqual({ lane: 0, span: 1, lanes: 3 })
+    expect(placements.d).toEqual({ lane: 2, span: 1, lanes: 3 })
+  })
+
+  it('should widen events into lanes that stay free for their length', () => {
+    const placements = EventLayout.layout([
+      event('long', '09:00', '12:00'),
+      event('first', '09:00', '10:00'),
+      event('second', '09:00', '10:00'),
+      event('late', '11:00', '11:30')
+    ])
+    const late = placements.find(p => p.event.id === 'late')!
+
+    expect(late.lane).toBe(1)
+    expect(late.span).toBe(2)
+    expect(late.left).toBeCloseTo(1 / 3)
+    expect(late.width).toBeCloseTo(2 / 3)
+  })
+
+  it('should put the longer of two events starting together on the left', () => {
+    const placements = byId(EventLayout.layout([event('short', '09:00', '09:30'), event('long', '09:00', '11:00')]))
+
+    expect(placements.long.lane).toBe(0)
+    expect(placements.short.lane).toBe(1)
+  })
+
+  it('should treat short events as their minimum drawn length', () => {
+    // 10 minutes apart, but each is drawn 30 minutes tall
+    const events = [event('a', '09:00', '09:05'), event('b', '09:10', '09:40')]
+
+    expect(EventLayout.layout(events)[1].lanes).toBe(1)
+    expect(EventLayout.layout(events, { minDurationMinutes: 30 })[1].lanes).toBe(2)
+  })
+
+  it('should leave out items without both times', () => {
+    const placements = EventLayout.layout([{ id: 'task', startTime: at('09:00'), endTime: null }, event('a', '09:00', '10:00')])
+
+    expect(placements.map(p => p.event.id)).toEqual(['a'])
+  })
+})
+
+describe('EventLayout.allDayBars', () => {
+  // Monday 9th to Friday 13th of March, in UTC
+  const days = [9, 10, 11, 12, 13].map(day => ({
+    start: new Date(Date.UTC(2026, 2, day)),
+    end: new Date(Date.UTC(2026, 2, day + 1))
+  }))
+  const span = (id: string, start: string, end: string) => ({ id, startTime: new Date(start), endTime: new Date(end) })
+
+  it('should cover the days an event touches, ending before the next day starts', () => {
+    const [bar] = EventLayout.allDayBars([span('trip', '2026-03-10T00:00:00Z', '2026-03-12T00:00:00Z')], days)
+
+    expect(bar).toMatchObject({ column: 1, span: 2, row: 0, continuesBefore: false, continuesAfter: false })
+  })
+
+  it('should clip events running past the shown days and mark them', () => {
+    const [bar] = EventLayout.allDayBars([span('leave', '2026-03-05T00:00:00Z', '2026-03-17T00:00:00Z')], days)
+
+    expect(bar).toMatchObject({ column: 0, span: 5, continuesBefore: true, continuesAfter: true })
+  })
+
+  it('should stack overlapping bars and reuse rows that are free again', () => {
+    const bars = EventLayout.allDayBars([
+      span('short', '2026-03-09T00:00:00Z', '2026-03-10T00:00:00Z'),
+      span('long', '2026-03-09T00:00:00Z', '2026-03-12T00:00:00Z'),
+      span('later', '2026-03-10T00:00:00Z', '2026-03-11T00:00:00Z'),
+      span('after', '2026-03-12T00:00:00Z', '2026-03-13T00:00:00Z')
+    ], days)
+    const rows = Object.fromEntries(bars.map(bar => [bar.event.id, bar.row]))
+
+    expect(rows).toEqual({ long: 0, short: 1, later: 1, after: 0 })
+  })
+
+  it('should leave out events outside the shown days', () => {
+    const bars = EventLayout.allDayBars([span('weekend', '2026-03-14T00:00:00Z', '2026-03-16T00:00:00Z')], days)
+
+    expect(bars).toEqual([])
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'bun:test'
+import { FieldMapper } from '@/lib/integrations/field-mapping'
+import { ValidationError } from '@/lib/integrations/base'
+
+function createTask(overrides = {}) {
+  return {
+    id: 'ext-1',
+    title: 'Write report',
+    status: 'Open',
+    priority: 'Normal',
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    updatedAt: new Date('2026-01-01T10:00:00Z'),
+    tags: [],
+    data: {},
+    ...overrides
+  }
+}
+
+describe('FieldMapper', () => {
+  describe('apply', () => {
+    it('should map Notion properties onto task fields and categories', () => {
+      const task = createTask({
+        data: {
+          properties: {
+            Stage: { id: 'a', type: 'status', status: { name: 'Shipped' } },
+            Area: { id: 'b', type: 'select', select: { name: 'Work' } },
+            Estimate: { id: 'c', type: 'number', number: 90 },
+            Deadline: { id: 'd', type: 'date', date: { start: '2026-02-01' } },
+            Labels: { id: 'e', type: 'multi_select', multi_select: [{ name: 'Q1' }, { name: 'Docs' }] },
+            Notes: { id: 'f', type: 'rich_text', rich_text: [{ plain_text: 'Draft ' }, { plain_text: 'ready' }] }
+          }
+        }
+      })
+
+      const mapped = FieldMapper.apply(task, [
+        { source: 'property:Stage', target: 'status', transform: 'lookup', values: { Shipped: 'completed', '*': 'pending' } },
+        { source: 'property:Area', target: 'category' },
+        { source: 'property:Estimate', target: 'estimatedDuration' },
+        { source: 'property:Deadline', target: 'dueDate' },
+        { source: 'property:Labels', target: 'tags', transform: 'lowercase' },
+        { source: 'property:Notes', target: 'description' }
+      ], 'task')
+
+      expect(mapped.fields).toEqual({
+        status: 'completed',
+        estimatedDuration: 90,
+        dueDate: new Date('2026-02-01'),
+        description: 'Draft ready'
+      })
+      expect(mapped.category).toBe('Work')
+      expect(mapped.tags).toEqual(['q1', 'docs'])
+    })
+
+    it('should resolve ClickUp dropdown and label custom fields to option names', () => {
+      const task = createTask({
+        data: {
+          custom_fields: [
+            {
+              id: 'cf-1',
+              name: 'Urgency',
+              type: 'drop_down',
+              value: 2,
+              type_config: { options: [{ id: 'o1', name: 'Low', orderindex: 0 }, { id: 'o2', name: 'High', orderindex: 2 }] }
+            },
+            {
+              id: 'cf-2',
+              name: 'Teams',
+              type: 'labels',
+              value: ['l2'],
+              type_config: { options: [{ id: 'l1', label: 'Design' }, { id: 'l2', label: 'Platform' }] }
+            }
+          ]
+        }
+      })
+
+      const mapped = FieldMapper.apply(task, [
+        { source: 'custom_field:Urgency', target: 'priority', transform: 'lowercase' },
+        { source: 'custom_field:cf-2', target: 'tags' }
+      ], 'task')
+
+      expect(mapped.fields).toEqual({ priority: 'high' })
+      expect(mapped.tags).toEqual(['Platform'])
+    })
+
+    it('should turn Linear labels into a category and tags through a lookup', () => {
+      const task = createTask({ tags: ['Bug', 'Frontend'] })
+
+      const mapped = FieldMapper.apply(task, [
+        { source: 'tags', target: 'category', transform: 'lookup', values: { Bug: 'Maintenance' } },
+        { source: 'tags', target: 'tags' }
+      ], 'task')
+
+      expect(mapped.category).toBe('Maintenance')
+      expect(mapped.tags).toEqual(['Bug', 'Frontend'])
+    })
+
+    it('should ignore values that do not fit the target and targets the item type lacks', () => {
+      const event = {
+        id: 'ev-1',
+        title: 'Standup',
+        startTime: new Date('2026-01-05T09:00:00Z'),
+        endTime: new Date('2026-01-05T09:15:00Z'),
+        isAllDay: false,
+        data: { room: 'Blue', percent: '140' }
+      }
+
+      const mapped = FieldMapper.apply(event, [
+        { source: 'data.room', target: 'location', transform: 'uppercase' },
+        { source: 'data.percent', target: 'progress' },
+        { source: 'title', target: 'status' }
+      ])
+
+      expect(mapped.fields).toEqual({ location: 'BLUE' })
+
+      const taskMapped = FieldMapper.apply(createTask({ data: { percent: '140' } }), [
+        { source: 'data.percent', target: 'progress', transform: 'number' },
+        { source: 'title', target: 'status' }
+      ], 'task')
+      expect(taskMapped.fields).toEqual({ progress: 100 })
+    })
+
+    it('should let a later rule win on the same target', () => {
+      const mapped = FieldMapper.apply(createTask({ data: { a: 'First', b: 'Second' } }), [
+        { source: 'data.a', target: 'title' },
+        { source: 'data.b', target: 'title' },
+        { source: 'data.missing', target: 'title' }
+      ], 'task')
+
+      expect(mapped.fields.title).toBe('Second')
+    })
+  })
+
+  describe('transform', () => {
+    it('should split comma-separated text into trimmed values', () => {
+      expect(FieldMapper.transform('a, b ,,c', { transform: 'split' })).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should drop values that cannot be converted', () => {
+      expect(FieldMapper.transform('soon', { transform: 'date' })).toBeUndefined()
+      expect(FieldMapper.transform('n/a', { transform: 'number' })).toBeUndefined()
+      expect(FieldMapper.transform('Other', { transform: 'lookup', values: { Done: 'completed' } })).toBeUndefined()
+    })
+  })
+
+  describe('validateRules', () => {
+    it('should normalise valid rules', () => {
+      expect(FieldMapper.validateRules([{ source: ' property:Stage ', target: 'status', transform: 'lookup', values: { Done: 'completed' } }]))
+        .toEqual([{ source: 'property:Stage', target: 'status', transform: 'lookup', values: { Done: 'completed' } }])
+    })
+
+    it('should reject malformed rules with the offending field', () => {
+      const cases: Array<[rules: unknown, field: string]> = [
+        [{ rules: 'nope' }, 'mappingRules'],
+        [[{ source: '', target: 'title' }], 'source'],
+        [[{ source: 'tags', target: 'colour' }], 'target'],
+        [[{ source: 'tags', target: 'tags', transform: 'reverse' }], 'transform'],
+        [[{ source: 'tags', target: 'category', transform: 'lookup' }], 'values']
+      ]
+
+      for (const [rules, field] of cases) {
+        try {
+          FieldMapper.validateRules(rules)
+          throw new Error('expected validation to fail')
+        } catch (error) {
+          expect(error).toBeInstanceOf(ValidationError)
+          expect((error as ValidationError).field).toBe(field)
+        }
+      }
+    })
+  })
+})
@@ -0,0 +1,400 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { ICalParser, ICalSerializer, ICalendar, ICalParseError, ICalTimeZone, type ICalEventInput } from '@/lib/ical'
+import { AppleCalendarIntegration } from '@/lib/integrations/apple-calendar'
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+const NEW_YORK = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Eastern Time',
+  'BEGIN:STANDARD',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'END:STANDARD',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0400',
+  'END:DAYLIGHT',
+  'END:VTIMEZONE'
+]
+
+describe('ICalParser', () => {
+  it('should unfold continuation lines and unescape text', () => {
+    const [event] = ICalendar.readEvents(ICalendar.parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:fold-1',
+      'DTSTART:20260105T090000Z',
+      'SUMMARY:Quarterly planning\\, budget',
+      '  and hiring',
+      'DESCRIPTION:Line one\\nLine two\\; done',
+      'END:VEVENT'
+    )))
+
+    expect(event.summary).toBe('Quarterly planning, budget and hiring')
+    expect(event.description).toBe('Line one\nLine two; done')
+  })
+
+  it('should read quoted and multi-valued parameters', () => {
+    const property = ICalParser.parseLine('ATTENDEE;CN="Doe, Jane";DELEGATED-FROM="mailto:a@x.com","mailto:b@x.com":mailto:jane@x.com')
+
+    expect(property).toEqual({
+      name: 'ATTENDEE',
+      params: { CN: 'Doe, Jane', 'DELEGATED-FROM': ['mailto:a@x.com', 'mailto:b@x.com'] },
+      value: 'mailto:jane@x.com'
+    })
+  })
+
+  it('should resolve TZID through the calendar VTIMEZONE across DST', () => {
+    const events = ICalendar.readEvents(ICalendar.parse(calendar(
+      ...NEW_YORK,
+      'BEGIN:VEVENT',
+      'UID:winter',
+      'DTSTART;TZID=Eastern Time:20260115T090000',
+      'DTEND;TZID=Eastern Time:20260115T100000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:summer',
+      'DTSTART;TZID=Eastern Time:20260715T090000',
+      'DURATION:PT45M',
+      'END:VEVENT'
+    )))
+
+    expect(events[0].start).toEqual(new Date('2026-01-15T14:00:00Z'))
+    expect(events[0].timeZone).toBe('Eastern Time')
+    expect(events[1].start).toEqual(new Date('2026-07-15T13:00:00Z'))
+    expect(events[1].end).toEqual(new Date('2026-07-15T13:45:00Z'))
+  })
+
+  it('should fall back to IANA zone names and treat floating times as UTC', () => {
+    const [zoned, floating] = ICalendar.readEvents(ICalendar.parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:berlin',
+      'DTSTART;TZID=Europe/Berlin:20260701T090000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:floating',
+      'DTSTART:20260701T090000',
+      'END:VEVENT'
+    )))
+
+    expect(zoned.start).toEqual(new Date('2026-07-01T07:00:00Z'))
+    expect(floating.start).toEqual(new Date('2026-07-01T09:00:00Z'))
+  })
+
+  it('should read all-day events, recurrence rules, EXDATE lists and overrides', () => {
+    const events = ICalendar.readEvents(ICalendar.parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'DTSTART;VALUE=DATE:20260105',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,-1FR;UNTIL=20260630',
+      'EXDATE;VALUE=DATE:20260119,20260202',
+      'EXDATE;VALUE=DATE:20260216',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID;VALUE=DATE:20260302',
+      'DTSTART;VALUE=DATE:20260303',
+      'SUMMARY:Moved',
+      'END:VEVENT'
+    )))
+
+    expect(events[0].isAllDay).toBe(true)
+    expect(events[0].end).toEqual(new Date('2026-01-06T00:00:00Z'))
+    expect(events[0].recurrence).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      until: new Date('2026-06-30T00:00:00Z'),
+      byDay: [{ weekday: 1 }, { weekday: 5, ordinal: -1 }]
+    })
+    expect(events[0].exceptionDates).toEqual([
+      new Date('2026-01-19T00:00:00Z'),
+      new Date('2026-02-02T00:00:00Z'),
+      new Date('2026-02-16T00:00:00Z')
+    ])
+    expect(events[1].recurrenceId).toEqual(new Date('2026-03-02T00:00:00Z'))
+  })
+
+  it('should read alarms and attendees', () => {
+    const [event] = ICalendar.readEvents(ICalendar.parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:review',
+      'DTSTART:20260105T090000Z',
+      'ORGANIZER;CN=Sam:mailto:sam@example.com',
+      'ATTENDEE;CN=Jane;PARTSTAT=ACCEPTED;ROLE=OPT-PARTICIPANT;RSVP=TRUE:mailto:jane@example.com',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT15M',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'BEGIN:VALARM',
+      'ACTION:AUDIO',
+      'TRIGGER;VALUE=DATE-TIME:20260105T080000Z',
+      'END:VALARM',
+      'END:VEVENT'
+    )))
+
+    expect(event.organizer).toMatchObject({ email: 'sam@example.com', name: 'Sam' })
+    expect(event.attendees).toEqual([
+      { email: 'jane@example.com', name: 'Jane', status: 'accepted', role: 'opt-participant', rsvp: true }
+    ])
+    expect(event.alarms).toEqual([
+      { action: 'display', trigger: { type: 'relative', seconds: -900, related: 'start' }, description: 'Reminder' },
+      { action: 'audio', trigger: { type: 'absolute', date: new Date('2026-01-05T08:00:00Z') }, description: undefined }
+    ])
+  })
+
+  it('should read VTODO components', () => {
+    const [todo] = ICalendar.readTodos(ICalendar.parse(calendar(
+      'BEGIN:VTODO',
+      'UID:todo-1',
+      'SUMMARY:File taxes',
+      'DUE;VALUE=DATE:20260415',
+      'STATUS:IN-PROCESS',
+      'PRIORITY:1',
+      'PERCENT-COMPLETE:40',
+      'CATEGORIES:Finance,Home',
+      'END:VTODO'
+    )))
+
+    expect(todo).toMatchObject({
+      uid: 'todo-1',
+      summary: 'File taxes',
+      due: new Date('2026-04-15T00:00:00Z'),
+      isAllDay: true,
+      status: 'in-process',
+      priority: 1,
+      percentComplete: 40,
+      categories: ['Finance', 'Home']
+    })
+  })
+
+  it('should reject unbalanced components', () => {
+    expect(() => ICalParser.parse('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR')).toThrow(ICalParseError)
+    expect(() => ICalParser.parse('BEGIN:VEVENT\r\nEND:VEVENT')).toThrow('No VCALENDAR component found')
+  })
+})
+
+describe('ICalSerializer', () => {
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = ICalSerializer.fold(`DESCRIPTION:${'é'.repeat(80)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+    expect(ICalParser.unfold(folded)).toEqual([`DESCRIPTION:${'é'.repeat(80)}`])
+  })
+
+  it('should format dates in UTC and durations', () => {
+    expect(ICalSerializer.formatDate(new Date('2026-01-05T09:30:00Z'))).toBe('20260105T093000Z')
+    expect(ICalSerializer.formatDate(new Date('2026-01-05T00:00:00Z'), true)).toBe('20260105')
+    expect(ICalSerializer.formatDuration(-900)).toBe('-PT15M')
+    expect(ICalSerializer.formatDuration(93600)).toBe('P1DT2H')
+  })
+
+  it('should round-trip a calendar it does not fully understand', () => {
+    const text = calendar(
+      'PRODID:-//Example//EN',
+      ...NEW_YORK,
+      'BEGIN:VEVENT',
+      'UID:keep-me',
+      'DTSTART;TZID=Eastern Time:20260115T090000',
+      'SUMMARY:Planning\\, Q1',
+      'X-APPLE-TRAVEL-ADVISORY-BEHAVIOR:AUTOMATIC',
+      'ATTENDEE;CN="Doe, Jane";PARTSTAT=TENTATIVE:mailto:jane@example.com',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT10M',
+      'END:VALARM',
+      'END:VEVENT'
+    ) + '\r\n'
+
+    expect(ICalSerializer.serialize(ICalParser.parse(text))).toBe(text)
+  })
+})
+
+describe('ICalendar.writeEvent', () => {
+  const input: ICalEventInput = {
+    uid: 'evt-1',
+    summary: 'Design review; round 2',
+    description: 'Bring notes',
+    start: new Date('2026-01-05T09:00:00Z'),
+    end: new Date('2026-01-05T10:00:00Z'),
+    isAllDay: false,
+    attendees: [{ email: 'jane@example.com', name: 'Jane Doe', status: 'accepted' }],
+    recurrence: { frequency: 'weekly', interval: 1, byDay: [{ weekday: 1 }], count: 4 }
+  }
+
+  it('should write well-formed ATTENDEE and RRULE lines', () => {
+    const text = ICalendar.serialize(ICalendar.createCalendar('-//DayFlow//Test//EN', [ICalendar.writeEvent(input)]))
+
+    const lines = ICalParser.unfold(text)
+
+    expect(lines).toContain('ATTENDEE;CN=Jane Doe;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=TRUE:mailto:jane@example.com')
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=MO')
+    expect(lines).toContain('SUMMARY:Design review\\; round 2')
+
+    const [event] = ICalendar.readEvents(ICalendar.parse(text))
+    expect(event).toMatchObject({ uid: 'evt-1', summary: input.summary, start: input.start, end: input.end })
+  })
+
+  it('should keep alarms, unknown properties and untouched fields when updating', () => {
+    const [existing] = ICalendar.parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:evt-1',
+      'SEQUENCE:3',
+      'DTSTART:20260105T090000Z',
+      'SUMMARY:Old title',
+      'EXDATE:20260112T090000Z',
+      'X-CUSTOM:kept',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT5M',
+      'END:VALARM',
+      'END:VEVENT'
+    )).components
+
+    const updated = ICalendar.writeEvent({ ...input, attendees: undefined }, existing)
+    const [event] = ICalendar.readEvents({ name: 'VCALENDAR', properties: [], components: [updated] })
+
+    expect(event.summary).toBe(input.summary)
+    expect(event.sequence).toBe(4)
+    expect(event.exceptionDates).toEqual([new Date('2026-01-12T09:00:00Z')])
+    expect(event.alarms).toHaveLength(1)
+    expect(ICalendar.find(updated, 'X-CUSTOM')?.value).toBe('kept')
+  })
+
+  it('should write zoned times with a TZID and a matching VTIMEZONE', () => {
+    const zoned = { ...input, attendees: undefined, start: new Date('2026-01-05T14:00:00Z'), end: new Date('2026-01-05T15:00:00Z'), timeZone: 'America/New_York' }
+    const text = ICalendar.serialize(ICalendar.createCalendar('-//DayFlow//Test//EN', [ICalendar.writeEvent(zoned)]))
+    const lines = ICalParser.unfold(text)
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260105T090000')
+    expect(lines).toContain('DTEND;TZID=America/New_York:20260105T100000')
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU')
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU')
+
+    // The generated VTIMEZONE resolves summer times with the daylight offset
+    const parsed = ICalendar.parse(text)
+    const [event] = ICalendar.readEvents(parsed)
+    expect(event).toMatchObject({ start: zoned.start, end: zoned.end, timeZone: 'America/New_York' })
+
+    const vtimezone = parsed.components.find(component => component.name === 'VTIMEZONE')
+    expect(ICalTimeZone.resolveWithVTimeZone(Date.UTC(2026, 6, 6, 9), vtimezone!)).toEqual(new Date('2026-07-06T13:00:00Z'))
+  })
+
+  it('should describe zones without DST with a single observance', () => {
+    const vtimezone = ICalTimeZone.toComponent('Asia/Kolkata', 2026)
+
+    expect(vtimezone.components.map(component => component.name)).toEqual(['STANDARD'])
+    expect(ICalendar.find(vtimezone.components[0], 'TZOFFSETTO')?.value).toBe('+0530')
+  })
+})
+
+describe('ICalendar occurrence overrides', () => {
+  const series = () => ICalendar.parse(calendar(
+    'BEGIN:VEVENT',
+    'UID:series-1',
+    'DTSTART:20260105T090000Z',
+    'DTEND:20260105T093000Z',
+    'SUMMARY:Standup',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO',
+    'END:VEVENT'
+  ))
+
+  const moved = (summary: string) => ({
+    uid: 'series-1',
+    recurrenceId: new Date('2026-01-12T09:00:00Z'),
+    summary,
+    start: new Date('2026-01-13T10:00:00Z'),
+    end: new Date('2026-01-13T10:30:00Z'),
+    isAllDay: false
+  })
+
+  it('should add one override per RECURRENCE-ID and replace it on later edits', () => {
+    const once = ICalendar.writeOverride(series(), moved('Standup (moved)'))
+    const twice = ICalendar.writeOverride(once, moved('Standup (demo)'))
+
+    const events = ICalendar.readEvents(twice)
+    expect(events).toHaveLength(2)
+    expect(events[0].recurrenceId).toBeUndefined()
+    expect(events[1]).toMatchObject({ uid: 'series-1', summary: 'Standup (demo)', recurrenceId: new Date('2026-01-12T09:00:00Z') })
+  })
+
+  it('should exclude a cancelled occurrence and drop its override', () => {
+    const overridden = ICalendar.writeOverride(series(), moved('Standup (moved)'))
+    const cancelled = ICalendar.excludeOccurrence(overridden, 'series-1', new Date('2026-01-12T09:00:00Z'))
+
+    const events = ICalendar.readEvents(cancelled)
+    expect(events).toHaveLength(1)
+    expect(events[0].exceptionDates).toEqual([new Date('2026-01-12T09:00:00Z')])
+  })
+})
+
+describe('AppleCalendarIntegration.updateEvent', () => {
+  let server: ReturnType<typeof Bun.serve> | null = null
+  let previousFetch: typeof fetch
+
+  beforeEach(() => {
+    previousFetch = globalThis.fetch
+    globalThis.fetch = Bun.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = previousFetch
+    server?.stop(true)
+    server = null
+  })
+
+  it('should keep the UID and server-side alarms of the stored event', async () => {
+    const stored = calendar(
+      'PRODID:-//Apple Inc.//macOS//EN',
+      'BEGIN:VEVENT',
+      'UID:apple-uid-1',
+      'DTSTART:20260105T090000Z',
+      'DTEND:20260105T100000Z',
+      'SUMMARY:Standup',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT10M',
+      'END:VALARM',
+      'END:VEVENT'
+    )
+    const puts: string[] = []
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        if (req.method === 'PUT') {
+          puts.push(await req.text())
+          return new Response(null, { status: 204 })
+        }
+        return new Response(stored, { headers: { 'Content-Type': 'text/calendar', 'ETag': '"7"' } })
+      }
+    })
+
+    const integration = new AppleCalendarIntegration({ fieldMapping: { calendarUrl: `http://localhost:${server.port}/cal` } })
+    await integration.authenticate('app-password')
+    const event = await integration.updateEvent('apple-uid-1', {
+      title: 'Standup (moved)',
+      startTime: new Date('2026-01-05T09:30:00Z'),
+      endTime: new Date('2026-01-05T10:00:00Z'),
+      isAllDay: false,
+      attendees: [{ email: 'jane@example.com', name: 'Jane' }]
+    })
+
+    expect(event.id).toBe('apple-uid-1')
+    expect(event.title).toBe('Standup (moved)')
+    const [written] = ICalendar.readEvents(ICalendar.parse(puts[0]))
+    expect(written.uid).toBe('apple-uid-1')
+    expect(written.start).toEqual(new Date('2026-01-05T09:30:00Z'))
+    expect(written.alarms).toHaveLength(1)
+    expect(written.attendees).toEqual([
+      { email: 'jane@example.com', name: 'Jane', status: 'needs-action', role: 'req-participant', rsvp: true }
+    ])
+  })
+})
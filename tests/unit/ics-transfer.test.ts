@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'bun:test'
+import { ICalendar, ICalParser } from '@/lib/ical'
+import { IcsTransfer, ICS_PRODID } from '@/lib/ics-transfer'
+import type { Task, CalendarEvent, RecurrenceException } from '@/lib/db/schema'
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+const baseEvent: CalendarEvent = {
+  id: '11111111-2222-3333-4444-555555555555',
+  userId: 'user-1',
+  title: 'Design review',
+  description: 'Walk through the new flows',
+  startTime: new Date('2026-03-10T14:00:00Z'),
+  endTime: new Date('2026-03-10T15:00:00Z'),
+  timeZone: null,
+  isAllDay: false,
+  location: 'Room 4',
+  meetingUrl: null,
+  attendees: [],
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  categoryId: null,
+  icalUid: null,
+  createdAt: null,
+  updatedAt: null
+}
+
+const baseTask: Task = {
+  id: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  userId: 'user-1',
+  title: 'File taxes',
+  description: null,
+  status: 'in_progress',
+  priority: 'urgent',
+  dueDate: new Date('2026-04-15T17:00:00Z'),
+  startTime: null,
+  endTime: null,
+  completedAt: null,
+  progress: 40,
+  estimatedDuration: null,
+  actualDuration: null,
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  categoryId: null,
+  icalUid: null,
+  createdAt: null,
+  updatedAt: null
+}
+
+const exception = (originalStart: string, overrides: Partial<RecurrenceException> = {}): RecurrenceException => ({
+  id: crypto.randomUUID(),
+  userId: 'user-1',
+  eventId: baseEvent.id,
+  taskId: null,
+  originalStart: new Date(originalStart),
+  isSkipped: false,
+  overrides: {},
+  createdAt: null,
+  updatedAt: null,
+  ...overrides
+})
+
+describe('IcsTransfer', () => {
+  describe('eventFromICal', () => {
+    it('should map a VEVENT to event columns and keep its UID', () => {
+      const [event] = ICalendar.readEvents(ICalendar.parse(calendar(
+        'BEGIN:VEVENT',
+        'UID:standup-42@example.com',
+        'DTSTART:20260105T090000Z',
+        'DTEND:20260105T091500Z',
+        'SUMMARY:Standup',
+        'LOCATION:Zoom',
+        'URL:https://meet.example.com/standup',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+        'ATTENDEE;CN=Sam;PARTSTAT=ACCEPTED:mailto:sam@example.com',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-PT10M',
+        'END:VALARM',
+        'END:VEVENT'
+      )))
+
+      const row = IcsTransfer.eventFromICal(event)
+
+      expect(row.title).toBe('Standup')
+      expect(row.icalUid).toBe('standup-42@example.com')
+      expect(row.startTime.toISOString()).toBe('2026-01-05T09:00:00.000Z')
+      expect(row.location).toBe('Zoom')
+      expect(row.meetingUrl).toBe('https://meet.example.com/standup')
+      expect(row.recurrence).toEqual({ type: 'weekly', interval: 1, daysOfWeek: [1, 3] })
+      expect(row.attendees).toEqual([{ email: 'sam@example.com', name: 'Sam', status: 'accepted' }])
+      expect(row.reminder).toEqual({ enabled: true, minutesBefore: 10 })
+    })
+
+    it('should keep nth-weekday and count rules', () => {
+      const [event] = ICalendar.readEvents(ICalendar.parse(calendar(
+        'BEGIN:VEVENT',
+        'UID:board-1',
+        'DTSTART:20260113T170000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=6',
+        'END:VEVENT'
+      )))
+
+      const row = IcsTransfer.eventFromICal(event)
+      expect(row.recurrence).toEqual({ type: 'monthly', interval: 1, count: 6, daysOfWeek: [2], weekOfMonth: 2 })
+
+      const component = IcsTransfer.eventToICal({ ...baseEvent, recurrence: row.recurrence ?? null })
+      expect(ICalendar.find(component, 'RRULE')?.value).toBe('FREQ=MONTHLY;COUNT=6;BYDAY=2TU')
+    })
+
+    it('should clip long text to the column limits', () => {
+      const [event] = ICalendar.readEvents(ICalendar.parse(calendar(
+        'BEGIN:VEVENT',
+        'UID:long-1',
+        'DTSTART:20260105T090000Z',
+        `SUMMARY:${'x'.repeat(250)}`,
+        'END:VEVENT'
+      )))
+
+      const row = IcsTransfer.eventFromICal(event)
+      expect(row.title.length).toBe(200)
+      expect(row.description).toBeUndefined()
+    })
+  })
+
+  describe('taskFromICal', () => {
+    it('should map VTODO status, priority and completion', () => {
+      const [todo] = ICalendar.readTodos(ICalendar.parse(calendar(
+        'BEGIN:VTODO',
+        'UID:todo-1',
+        'SUMMARY:Renew passport',
+        'DUE:20260601T120000Z',
+        'STATUS:COMPLETED',
+        'COMPLETED:20260520T080000Z',
+        'PRIORITY:2',
+        'CATEGORIES:Errands',
+        'END:VTODO'
+      )))
+
+      const row = IcsTransfer.taskFromICal(todo)
+
+      expect(row.title).toBe('Renew passport')
+      expect(row.status).toBe('completed')
+      expect(row.priority).toBe('high')
+      expect(row.progress).toBe(100)
+      expect(row.dueDate?.toISOString()).toBe('2026-06-01T12:00:00.000Z')
+      expect(row.completedAt?.toISOString()).toBe('2026-05-20T08:00:00.000Z')
+      expect(row.icalUid).toBe('todo-1')
+    })
+
+    it('should default to a pending medium task', () => {
+      const [todo] = ICalendar.readTodos(ICalendar.parse(calendar(
+        'BEGIN:VTODO',
+        'UID:todo-2',
+        'END:VTODO'
+      )))
+
+      const row = IcsTransfer.taskFromICal(todo)
+      expect(row.title).toBe('Untitled task')
+      expect(row.status).toBe('pending')
+      expect(row.priority).toBe('medium')
+      expect(row.completedAt).toBeNull()
+    })
+  })
+
+  describe('eventToICal', () => {
+    it('should give DayFlow events a stable UID and a reminder alarm', () => {
+      const component = IcsTransfer.eventToICal({
+        ...baseEvent,
+        meetingUrl: 'https://meet.example.com/review',
+        reminder: { enabled: true, minutesBefore: 30 }
+      }, 'Work')
+      const text = ICalParser.unfold(ICalendar.serialize(ICalendar.createCalendar(ICS_PRODID, [component])))
+
+      expect(text).toContain('UID:event-11111111-2222-3333-4444-555555555555@dayflow.app')
+      expect(text).toContain('CATEGORIES:Work')
+      expect(text).toContain('URL:https://meet.example.com/review')
+      expect(text).toContain('TRIGGER:-PT30M')
+    })
+
+    it('should keep the UID of imported events', () => {
+      const component = IcsTransfer.eventToICal({ ...baseEvent, icalUid: 'abc@google.com' })
+      expect(ICalendar.find(component, 'UID')?.value).toBe('abc@google.com')
+    })
+
+    it('should write all-day events with an exclusive end date', () => {
+      const component = IcsTransfer.eventToICal({
+        ...baseEvent,
+        isAllDay: true,
+        startTime: new Date('2026-03-10T00:00:00Z'),
+        endTime: new Date('2026-03-10T23:59:59Z')
+      })
+
+      expect(ICalendar.find(component, 'DTSTART')?.value).toBe('20260310')
+      expect(ICalendar.find(component, 'DTEND')?.value).toBe('20260311')
+    })
+  })
+
+  describe('buildCalendar', () => {
+    it('should round-trip events and tasks through a .ics file', () => {
+      const text = IcsTransfer.buildCalendar(
+        [{ ...baseEvent, recurrence: { type: 'daily', interval: 2 } }],
+        [baseTask],
+        new Map()
+      )
+      const parsed = ICalendar.parse(text)
+
+      expect(ICalendar.find(parsed, 'PRODID')?.value).toBe(ICS_PRODID)
+      expect(ICalendar.find(parsed, 'X-WR-CALNAME')?.value).toBe('DayFlow')
+
+      const [event] = ICalendar.readEvents(parsed)
+      const eventRow = IcsTransfer.eventFromICal(event)
+      expect(eventRow.title).toBe('Design review')
+      expect(eventRow.description).toBe('Walk through the new flows')
+      expect(eventRow.endTime.toISOString()).toBe('2026-03-10T15:00:00.000Z')
+      expect(eventRow.recurrence).toEqual({ type: 'daily', interval: 2 })
+
+      const [todo] = ICalendar.readTodos(parsed)
+      const taskRow = IcsTransfer.taskFromICal(todo)
+      expect(todo.uid).toBe('task-aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee@dayflow.app')
+      expect(taskRow.status).toBe('in_progress')
+      expect(taskRow.priority).toBe('urgent')
+      expect(taskRow.progress).toBe(40)
+    })
+
+    it('should carry skipped and changed occurrences as EXDATEs and overrides', () => {
+      const text = IcsTransfer.buildCalendar(
+        [{ ...baseEvent, recurrence: { type: 'daily', interval: 1 } }],
+        [],
+        new Map(),
+        [
+          exception('2026-03-12T14:00:00Z', { isSkipped: true }),
+          exception('2026-03-14T14:00:00Z', {
+            overrides: { title: 'Design review (moved)', startTime: '2026-03-14T16:00:00.000Z', endTime: '2026-03-14T17:30:00.000Z' }
+          })
+        ]
+      )
+
+      const [master, moved] = ICalendar.readEvents(ICalendar.parse(text))
+      expect(master.recurrenceId).toBeUndefined()
+      expect(master.exceptionDates).toEqual([new Date('2026-03-12T14:00:00Z')])
+
+      // The override shares the series' UID and names the occurrence it replaces
+      expect(moved.uid).toBe(master.uid)
+      expect(moved.recurrenceId).toEqual(new Date('2026-03-14T14:00:00Z'))
+      expect(moved.recurrence).toBeUndefined()
+      expect(moved.summary).toBe('Design review (moved)')
+      expect(moved.start).toEqual(new Date('2026-03-14T16:00:00Z'))
+      expect(moved.end).toEqual(new Date('2026-03-14T17:30:00Z'))
+      expect(moved.location).toBe('Room 4')
+    })
+  })
+})
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { TodoistIntegration } from '@/lib/integrations/todoist'
+import { LinearIntegration } from '@/lib/integrations/linear'
+import { GoogleCalendarIntegration } from '@/lib/integrations/google-calendar'
+import { OutlookCalendarIntegration } from '@/lib/integrations/outlook'
+import { AppleCalendarIntegration } from '@/lib/integrations/apple-calendar'
+
+interface RecordedRequest {
+  method: string
+  url: URL
+  body: string
+}
+
+let server: ReturnType<typeof Bun.serve> | null = null
+let previousFetch: typeof fetch
+
+// Start a stand-in service; unmatched routes answer with an empty JSON object
+function startStandIn(handler: (request: RecordedRequest) => Response | null) {
+  const requests: RecordedRequest[] = []
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const recorded = { method: req.method, url: new URL(req.url), body: await req.text() }
+      requests.push(recorded)
+      return handler(recorded) || Response.json({})
+    }
+  })
+  return { baseUrl: `http://localhost:${server.port}`, requests }
+}
+
+// Point an integration with a fixed API host at the stand-in
+function withBaseUrl<T>(integration: T, baseUrl: string): T {
+  ;(integration as any).apiBaseUrl = baseUrl
+  return integration
+}
+
+const googleEvent = (id: string, status = 'confirmed') => ({
+  id,
+  status,
+  summary: `Event ${id}`,
+  start: { dateTime: '2024-01-15T09:00:00Z' },
+  end: { dateTime: '2024-01-15T10:00:00Z' }
+})
+
+const xml = (body: string) => new Response(body, { status: 207, headers: { 'Content-Type': 'application/xml' } })
+
+// Other suites replace global fetch with mocks; talk to the stand-ins for real
+beforeEach(() => {
+  previousFetch = globalThis.fetch
+  globalThis.fetch = Bun.fetch
+})
+
+afterEach(() => {
+  globalThis.fetch = previousFetch
+  server?.stop(true)
+  server = null
+})
+
+describe('fetchChangesSince', () => {
+  describe('Google Calendar', () => {
+    it('should list a window and keep the sync token from the last page', async () => {
+      const { baseUrl, requests } = startStandIn(({ url }) => {
+        if (url.pathname !== '/calendars/primary/events') return null
+        return url.searchParams.get('pageToken')
+          ? Response.json({ items: [googleEvent('g2')], nextSyncToken: 'sync-1' })
+          : Response.json({ items: [googleEvent('g1')], nextPageToken: 'page-2' })
+      })
+
+      const integration = withBaseUrl(new GoogleCalendarIntegration(), baseUrl)
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince()
+
+      expect(changes.items.map(event => event.id)).toEqual(['g1', 'g2'])
+      expect(changes.nextCursor).toBe('sync-1')
+      expect(changes.fullListing).toBe(true)
+      const [first] = requests.filter(r => r.url.pathname === '/calendars/primary/events')
+      expect(first.url.searchParams.get('timeMin')).toBeString()
+      expect(first.url.searchParams.has('syncToken')).toBe(false)
+    })
+
+    it('should send the sync token and report cancelled events as deletions', async () => {
+      const { baseUrl, requests } = startStandIn(({ url }) =>
+        url.pathname === '/calendars/primary/events'
+          ? Response.json({ items: [googleEvent('g1'), googleEvent('g2', 'cancelled')], nextSyncToken: 'sync-2' })
+          : null
+      )
+
+      const integration = withBaseUrl(new GoogleCalendarIntegration(), baseUrl)
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince('sync-1')
+
+      expect(changes.items.map(event => event.id)).toEqual(['g1'])
+      expect(changes.deletedIds).toEqual(['g2'])
+      expect(changes.nextCursor).toBe('sync-2')
+      expect(changes.fullListing).toBe(false)
+      const [first] = requests.filter(r => r.url.pathname === '/calendars/primary/events')
+      expect(first.url.searchParams.get('syncToken')).toBe('sync-1')
+      expect(first.url.searchParams.has('timeMin')).toBe(false)
+    })
+
+    it('should start over when the sync token has expired', async () => {
+      const { baseUrl } = startStandIn(({ url }) => {
+        if (url.pathname !== '/calendars/primary/events') return null
+        return url.searchParams.get('syncToken')
+          ? Response.json({ error: { message: 'Sync token is no longer valid' } }, { status: 410 })
+          : Response.json({ items: [googleEvent('g1')], nextSyncToken: 'fresh' })
+      })
+
+      const integration = withBaseUrl(new GoogleCalendarIntegration(), baseUrl)
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince('stale')
+
+      expect(changes.fullListing).toBe(true)
+      expect(changes.nextCursor).toBe('fresh')
+      expect(changes.items.map(event => event.id)).toEqual(['g1'])
+    })
+  })
+
+  describe('Outlook', () => {
+    it('should follow nextLink to the deltaLink and report removed events', async () => {
+      const outlookEvent = (id: string) => ({
+        id,
+        subject: `Meeting ${id}`,
+        start: { dateTime: '2024-01-15T09:00:00Z' },
+        end: { dateTime: '2024-01-15T10:00:00Z' },
+        isAllDay: false
+      })
+
+      let baseUrl = ''
+      const standIn = startStandIn(({ url }) => {
+        if (url.pathname !== '/me/calendarView/delta') return null
+        return url.searchParams.get('$skiptoken')
+          ? Response.json({
+            value: [{ id: 'o2', '@removed': { reason: 'deleted' } }],
+            '@odata.deltaLink': `${baseUrl}/me/calendarView/delta?$deltatoken=d2`
+          })
+          : Response.json({ value: [outlookEvent('o1')], '@odata.nextLink': `${baseUrl}/me/calendarView/delta?$skiptoken=s1` })
+      })
+      baseUrl = standIn.baseUrl
+
+      const integration = withBaseUrl(new OutlookCalendarIntegration(), baseUrl)
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince(`${baseUrl}/me/calendarView/delta?$deltatoken=d1`)
+
+      expect(changes.items.map(event => event.id)).toEqual(['o1'])
+      expect(changes.deletedIds).toEqual(['o2'])
+      expect(changes.nextCursor).toBe(`${baseUrl}/me/calendarView/delta?$deltatoken=d2`)
+      const [first] = standIn.requests.filter(r => r.url.pathname === '/me/calendarView/delta')
+      expect(first.url.searchParams.get('$deltatoken')).toBe('d1')
+    })
+  })
+
+  describe('CalDAV', () => {
+    const ics = (uid: string) => [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T100000Z',
+      `SUMMARY:Event ${uid}`,
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n')
+
+    const collectionState = (ctag: string, token: string) => xml(`<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:response><d:href>/cal/events/</d:href><d:propstat><d:prop><cs:getctag>${ctag}</cs:getctag><d:sync-token>${token}</d:sync-token></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+</d:multistatus>`)
+
+    it('should skip the REPORT when the ctag has not moved', async () => {
+      const { baseUrl, requests } = startStandIn(({ method }) =>
+        method === 'PROPFIND' ? collectionState('c1', 'token-1') : null
+      )
+
+      const integration = new AppleCalendarIntegration({ fieldMapping: { calendarUrl: `${baseUrl}/cal` } })
+      await integration.authenticate('app-password')
+      const cursor = JSON.stringify({ ctag: 'c1', syncToken: 'token-1' })
+      const changes = await integration.fetchChangesSince(cursor)
+
+      expect(changes).toEqual({ items: [], deletedIds: [], nextCursor: cursor, fullListing: false })
+      expect(requests.some(r => r.method === 'REPORT')).toBe(false)
+    })
+
+    it('should fetch changed and removed resources with sync-collection', async () => {
+      const { baseUrl, requests } = startStandIn(({ method }) => {
+        if (method === 'PROPFIND') return collectionState('c2', 'token-2')
+        if (method !== 'REPORT') return null
+        return xml(`<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">
+  <d:response><d:href>/cal/events/a.ics</d:href><d:propstat><d:prop><d:getetag>"3"</d:getetag><cal:calendar-data>${ics('a')}</cal:calendar-data></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+  <d:response><d:href>/cal/events/b.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>
+  <d:sync-token>token-3</d:sync-token>
+</d:multistatus>`)
+      })
+
+      const integration = new AppleCalendarIntegration({ fieldMapping: { calendarUrl: `${baseUrl}/cal` } })
+      await integration.authenticate('app-password')
+      const changes = await integration.fetchChangesSince(JSON.stringify({ ctag: 'c1', syncToken: 'token-1' }))
+
+      expect(changes.items.map(event => event.id)).toEqual(['a'])
+      expect(changes.deletedIds).toEqual(['b'])
+      expect(changes.fullListing).toBe(false)
+      expect(JSON.parse(changes.nextCursor!)).toEqual({ ctag: 'c2', syncToken: 'token-3' })
+      expect(requests.find(r => r.method === 'REPORT')?.body).toContain('<d:sync-token>token-1</d:sync-token>')
+    })
+  })
+
+  describe('Todoist', () => {
+    it('should call the Sync API with the stored token and split out deletions', async () => {
+      const syncItem = (id: string, overrides = {}) => ({
+        id,
+        project_id: 'p1',
+        content: `Task ${id}`,
+        priority: 2,
+        labels: [],
+        child_order: 1,
+        checked: false,
+        is_deleted: false,
+        added_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+        ...overrides
+      })
+
+      const { baseUrl, requests } = startStandIn(({ url }) =>
+        url.pathname === '/sync'
+          ? Response.json({
+            sync_token: 'next-token',
+            full_sync: false,
+            items: [syncItem('1'), syncItem('2', { is_deleted: true }), syncItem('3', { project_id: 'other' })]
+          })
+          : null
+      )
+
+      const integration = withBaseUrl(new TodoistIntegration({ fieldMapping: { projectId: 'p1' } }), baseUrl)
+      ;(integration as any).syncApiUrl = `${baseUrl}/sync`
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince('prev-token')
+
+      expect(changes.items.map(task => task.id)).toEqual(['1'])
+      expect(changes.items[0].updatedAt).toEqual(new Date('2024-01-02T00:00:00Z'))
+      expect(changes.deletedIds).toEqual(['2'])
+      expect(changes.nextCursor).toBe('next-token')
+      expect(changes.fullListing).toBe(false)
+      expect(JSON.parse(requests.find(r => r.url.pathname === '/sync')!.body)).toEqual({ sync_token: 'prev-token', resource_types: ['items'] })
+    })
+  })
+
+  describe('Linear', () => {
+    it('should filter by updatedAt and treat archived issues as deleted', async () => {
+      const issue = (id: string, updatedAt: string, overrides = {}) => ({
+        id,
+        identifier: `ENG-${id}`,
+        title: `Issue ${id}`,
+        state: { id: 's', name: 'Todo', color: '#000', type: 'unstarted' },
+        priority: 2,
+        priorityLabel: 'Medium',
+        labels: [],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt,
+        url: `https://linear.app/issue/${id}`,
+        ...overrides
+      })
+
+      let variables: Record<string, unknown> = {}
+      const { baseUrl } = startStandIn(({ body }) => {
+        const request = JSON.parse(body)
+        if (!request.query.includes('issues(')) return Response.json({ data: { viewer: { id: 'u1' } } })
+        variables = request.variables
+        return Response.json({
+          data: {
+            issues: {
+              nodes: [
+                issue('1', '2024-02-03T00:00:00.000Z'),
+                issue('2', '2024-02-05T00:00:00.000Z', { archivedAt: '2024-02-05T00:00:00.000Z' })
+              ],
+              pageInfo: { hasNextPage: false, endCursor: null }
+            }
+          }
+        })
+      })
+
+      const integration = withBaseUrl(new LinearIntegration({ fieldMapping: { teamId: 'team-1' } }), baseUrl)
+      await integration.authenticate('token')
+      const changes = await integration.fetchChangesSince('2024-02-01T00:00:00.000Z')
+
+      expect(variables.since).toBe('2024-02-01T00:00:00.000Z')
+      expect(changes.items.map(task => task.id)).toEqual(['1'])
+      expect(changes.deletedIds).toEqual(['2'])
+      expect(changes.nextCursor).toBe('2024-02-05T00:00:00.000Z')
+    })
+  })
+})
@@ -0,0 +1,378 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { Paginator } from '@/lib/integrations/utils'
+import { IntegrationError, type ListOptions, type ListPage } from '@/lib/integrations/base'
+import { TodoistIntegration } from '@/lib/integrations/todoist'
+import { LinearIntegration } from '@/lib/integrations/linear'
+import { ClickUpIntegration } from '@/lib/integrations/clickup'
+import { NotionIntegration } from '@/lib/integrations/notion'
+import { GoogleCalendarIntegration } from '@/lib/integrations/google-calendar'
+import { OutlookCalendarIntegration } from '@/lib/integrations/outlook'
+import { AppleCalendarIntegration } from '@/lib/integrations/apple-calendar'
+import { SyncEngine } from '@/lib/integrations/sync-engine'
+
+interface RecordedRequest {
+  method: string
+  url: URL
+  body: string
+}
+
+let server: ReturnType<typeof Bun.serve> | null = null
+let previousFetch: typeof fetch
+
+// Start a stand-in service; unmatched routes answer with an empty JSON object
+function startStandIn(handler: (request: RecordedRequest) => Response | null) {
+  const requests: RecordedRequest[] = []
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const recorded = { method: req.method, url: new URL(req.url), body: await req.text() }
+      requests.push(recorded)
+      return handler(recorded) || Response.json({})
+    }
+  })
+  return { baseUrl: `http://localhost:${server.port}`, requests }
+}
+
+// Point an integration with a fixed API host at the stand-in
+function withBaseUrl<T>(integration: T, baseUrl: string): T {
+  ;(integration as any).apiBaseUrl = baseUrl
+  return integration
+}
+
+const todoistTask = (id: string) => ({
+  id,
+  content: `Task ${id}`,
+  priority: 2,
+  labels: [],
+  checked: false,
+  date_added: '2024-01-01T00:00:00Z',
+  date_modified: '2024-01-02T00:00:00Z'
+})
+
+const googleEvent = (id: string) => ({
+  id,
+  summary: `Event ${id}`,
+  start: { dateTime: '2024-01-15T09:00:00Z' },
+  end: { dateTime: '2024-01-15T10:00:00Z' }
+})
+
+// Other suites replace global fetch with mocks; talk to the stand-ins for real
+beforeEach(() => {
+  previousFetch = globalThis.fetch
+  globalThis.fetch = Bun.fetch
+})
+
+afterEach(() => {
+  globalThis.fetch = previousFetch
+  server?.stop(true)
+  server = null
+})
+
+describe('Paginator', () => {
+  it('should follow cursors until the last page', async () => {
+    const pages: Record<string, { items: number[]; nextCursor?: string }> = {
+      start: { items: [1, 2], nextCursor: 'b' },
+      b: { items: [3], nextCursor: 'c' },
+      c: { items: [4] }
+    }
+
+    const items = await Paginator.collect(async ({ cursor }) => pages[cursor || 'start'])
+
+    expect(items).toEqual([1, 2, 3, 4])
+  })
+
+  it('should stop when a service repeats a cursor', async () => {
+    const collect = Paginator.collect(async () => ({ items: [1], nextCursor: 'same' }))
+
+    await expect(collect).rejects.toBeInstanceOf(IntegrationError)
+  })
+
+  it('should enforce the page limit', async () => {
+    let page = 0
+    const collect = Paginator.collect(async () => ({ items: [page], nextCursor: String(++page) }), { maxPages: 3 })
+
+    await expect(collect).rejects.toThrow('Pagination exceeded 3 pages')
+  })
+
+  it('should ask for each cursor once and stop after the last page', async () => {
+    const requested: ListOptions[] = []
+    const pages: Record<string, ListPage<string>> = {
+      start: { items: ['a'], nextCursor: 'b' },
+      b: { items: ['b'] }
+    }
+
+    const items = await Paginator.collect(async (options) => {
+      requested.push(options)
+      return pages[options.cursor || 'start']
+    }, { pageSize: 50 })
+
+    expect(items).toEqual(['a', 'b'])
+    expect(requested).toEqual([{ cursor: undefined, pageSize: 50 }, { cursor: 'b', pageSize: 50 }])
+  })
+
+  it('should treat an empty page token as the last page', async () => {
+    let calls = 0
+    const items = await Paginator.collect(async ({ cursor }) => {
+      calls++
+      return cursor ? { items: [2], nextCursor: '' } : { items: [1], nextCursor: 'token-2' }
+    })
+
+    expect(items).toEqual([1, 2])
+    expect(calls).toBe(2)
+  })
+
+  it('should return nothing for an empty listing', async () => {
+    const items = await Paginator.collect<number>(async () => ({ items: [] }))
+
+    expect(items).toEqual([])
+  })
+
+  it('should keep going past empty pages that still carry a cursor', async () => {
+    const pages: Record<string, ListPage<number>> = {
+      start: { items: [], nextCursor: 'b' },
+      b: { items: [], nextCursor: 'c' },
+      c: { items: [1] }
+    }
+
+    const items = await Paginator.collect(async ({ cursor }) => pages[cursor || 'start'])
+
+    expect(items).toEqual([1])
+  })
+
+  it('should allow exactly the page limit', async () => {
+    let page = 0
+    const items = await Paginator.collect(async () => {
+      page++
+      return { items: [page], nextCursor: page < 3 ? String(page) : undefined }
+    }, { maxPages: 3 })
+
+    expect(items).toEqual([1, 2, 3])
+  })
+
+  it('should yield the pages it fetched before hitting the limit', async () => {
+    let page = 0
+    const seen: number[] = []
+    const iterate = async () => {
+      for await (const item of Paginator.iterate(async () => ({ items: [page], nextCursor: String(++page) }), { maxPages: 2 })) {
+        seen.push(item)
+      }
+    }
+
+    await expect(iterate()).rejects.toMatchObject({ code: 'PAGINATION_LIMIT' })
+    expect(seen).toEqual([0, 1])
+  })
+
+  it('should stop at 100 pages by default', async () => {
+    let calls = 0
+    const collect = Paginator.collect(async () => ({ items: [], nextCursor: String(++calls) }))
+
+    await expect(collect).rejects.toThrow('Pagination exceeded 100 pages')
+    expect(calls).toBe(100)
+  })
+})
+
+describe('Integration listing', () => {
+  it('should follow Todoist next_cursor pages', async () => {
+    const { baseUrl, requests } = startStandIn(({ url }) => {
+      if (url.pathname !== '/tasks') return null
+      return url.searchParams.get('cursor') === 'page-2'
+        ? Response.json({ results: [todoistTask('3')], next_cursor: null })
+        : Response.json({ results: [todoistTask('1'), todoistTask('2')], next_cursor: 'page-2' })
+    })
+
+    const integration = withBaseUrl(new TodoistIntegration({ fieldMapping: { projectId: 'p1' } }), baseUrl)
+    await integration.authenticate('token')
+    const tasks = await Paginator.collect(options => integration.listTasks(options))
+
+    expect(tasks.map(task => task.id)).toEqual(['1', '2', '3'])
+    expect(tasks[0].title).toBe('Task 1')
+    expect(requests.filter(r => r.url.pathname === '/tasks').every(r => r.url.searchParams.get('project_id') === 'p1')).toBe(true)
+  })
+
+  it('should treat a bare Todoist array as a single page', async () => {
+    const { baseUrl } = startStandIn(({ url }) =>
+      url.pathname === '/tasks' ? Response.json([todoistTask('1')]) : null
+    )
+
+    const integration = withBaseUrl(new TodoistIntegration({ fieldMapping: { projectId: 'p1' } }), baseUrl)
+    await integration.authenticate('token')
+    const page = await integration.listTasks()
+
+    expect(page.items).toHaveLength(1)
+    expect(page.nextCursor).toBeUndefined()
+  })
+
+  it('should follow Linear pageInfo cursors', async () => {
+    const issue = (id: string) => ({
+      id,
+      identifier: `ENG-${id}`,
+      title: `Issue ${id}`,
+      state: { id: 's', name: 'Todo', color: '#000', type: 'unstarted' },
+      priority: 2,
+      priorityLabel: 'Medium',
+      labels: [],
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-02T00:00:00Z',
+      url: `https://linear.app/issue/${id}`
+    })
+
+    const { baseUrl } = startStandIn(({ body }) => {
+      const { query, variables } = JSON.parse(body)
+      if (!query.includes('issues(')) return Response.json({ data: { viewer: { id: 'u1' } } })
+      return variables.after === 'cursor-1'
+        ? Response.json({ data: { issues: { nodes: [issue('2')], pageInfo: { hasNextPage: false, endCursor: 'cursor-2' } } } })
+        : Response.json({ data: { issues: { nodes: [issue('1')], pageInfo: { hasNextPage: true, endCursor: 'cursor-1' } } } })
+    })
+
+    const integration = withBaseUrl(new LinearIntegration({ fieldMapping: { teamId: 'team-1' } }), baseUrl)
+    await integration.authenticate('token')
+    const tasks = await Paginator.collect(options => integration.listTasks(options))
+
+    expect(tasks.map(task => task.id)).toEqual(['1', '2'])
+  })
+
+  it('should walk ClickUp pages until last_page', async () => {
+    const clickUpTask = (id: string) => ({
+      id,
+      name: `Task ${id}`,
+      status: { status: 'open' },
+      tags: [],
+      date_created: '1704067200000',
+      date_updated: '1704153600000'
+    })
+
+    const { baseUrl, requests } = startStandIn(({ url }) => {
+      if (url.pathname !== '/list/l1/task') return null
+      const page = url.searchParams.get('page')
+      return Response.json({ tasks: [clickUpTask(`t${page}`)], last_page: page === '1' })
+    })
+
+    const integration = withBaseUrl(new ClickUpIntegration({ fieldMapping: { listId: 'l1' } }), baseUrl)
+    await integration.authenticate('token')
+    const tasks = await Paginator.collect(options => integration.listTasks(options))
+
+    expect(tasks.map(task => task.id)).toEqual(['t0', 't1'])
+    expect(requests.filter(r => r.url.pathname === '/list/l1/task')).toHaveLength(2)
+  })
+
+  it('should query Notion databases with start_cursor', async () => {
+    const notionPage = (id: string) => ({
+      id,
+      properties: { Name: { title: [{ text: { content: `Page ${id}` } }] } },
+      created_time: '2024-01-01T00:00:00Z',
+      last_edited_time: '2024-01-02T00:00:00Z'
+    })
+
+    const { baseUrl, requests } = startStandIn(({ method, url, body }) => {
+      if (url.pathname !== '/databases/db1/query') return null
+      expect(method).toBe('POST')
+      return JSON.parse(body).start_cursor === 'next'
+        ? Response.json({ results: [notionPage('b')], has_more: false, next_cursor: null })
+        : Response.json({ results: [notionPage('a')], has_more: true, next_cursor: 'next' })
+    })
+
+    const integration = withBaseUrl(new NotionIntegration({ fieldMapping: { databaseId: 'db1' } }), baseUrl)
+    await integration.authenticate('token')
+    const tasks = await Paginator.collect(options => integration.listTasks(options))
+
+    expect(tasks.map(task => task.title)).toEqual(['Page a', 'Page b'])
+    expect(requests.filter(r => r.url.pathname === '/databases/db1/query')).toHaveLength(2)
+  })
+
+  it('should follow Google Calendar nextPageToken', async () => {
+    const { baseUrl } = startStandIn(({ url }) => {
+      if (url.pathname !== '/calendars/primary/events') return null
+      return url.searchParams.get('pageToken') === 'token-2'
+        ? Response.json({ items: [googleEvent('g2')] })
+        : Response.json({ items: [googleEvent('g1')], nextPageToken: 'token-2' })
+    })
+
+    const integration = withBaseUrl(new GoogleCalendarIntegration(), baseUrl)
+    await integration.authenticate('token')
+    const events = await Paginator.collect(options => integration.listEvents(options))
+
+    expect(events.map(event => event.id)).toEqual(['g1', 'g2'])
+    expect(events[0].startTime).toEqual(new Date('2024-01-15T09:00:00Z'))
+  })
+
+  it('should follow Outlook @odata.nextLink', async () => {
+    const outlookEvent = (id: string) => ({
+      id,
+      subject: `Meeting ${id}`,
+      start: { dateTime: '2024-01-15T09:00:00Z' },
+      end: { dateTime: '2024-01-15T10:00:00Z' },
+      isAllDay: false
+    })
+
+    let baseUrl = ''
+    const standIn = startStandIn(({ url }) => {
+      if (url.pathname !== '/me/calendar/events') return null
+      return url.searchParams.get('$skip') === '1'
+        ? Response.json({ value: [outlookEvent('o2')] })
+        : Response.json({ value: [outlookEvent('o1')], '@odata.nextLink': `${baseUrl}/me/calendar/events?$skip=1` })
+    })
+    baseUrl = standIn.baseUrl
+
+    const integration = withBaseUrl(new OutlookCalendarIntegration(), baseUrl)
+    await integration.authenticate('token')
+    const events = await Paginator.collect(options => integration.listEvents(options))
+
+    expect(events.map(event => event.id)).toEqual(['o1', 'o2'])
+  })
+
+  it('should read every resource from a CalDAV REPORT', async () => {
+    const ics = (uid: string) => [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T100000Z',
+      `SUMMARY:Event ${uid}`,
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n')
+
+    const multistatus = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">
+  <d:response><d:href>/cal/events/a.ics</d:href><d:propstat><d:prop><d:getetag>"1"</d:getetag><cal:calendar-data>${ics('a')}</cal:calendar-data></d:prop></d:propstat></d:response>
+  <d:response><d:href>/cal/events/b.ics</d:href><d:propstat><d:prop><d:getetag>"2"</d:getetag><cal:calendar-data>${ics('b')}</cal:calendar-data></d:prop></d:propstat></d:response>
+</d:multistatus>`
+
+    const { baseUrl, requests } = startStandIn(({ method }) =>
+      method === 'REPORT'
+        ? new Response(multistatus, { status: 207, headers: { 'Content-Type': 'application/xml' } })
+        : null
+    )
+
+    const integration = new AppleCalendarIntegration({ fieldMapping: { calendarUrl: `${baseUrl}/cal` } })
+    await integration.authenticate('app-password')
+    const page = await integration.listEvents()
+
+    expect(page.items.map(event => event.id)).toEqual(['a', 'b'])
+    expect(page.items[1].data.etag).toBe('"2"')
+    expect(page.items[0].startTime).toEqual(new Date('2024-01-15T09:00:00Z'))
+    expect(page.nextCursor).toBeUndefined()
+    expect(requests.find(r => r.method === 'REPORT')?.url.pathname).toBe('/cal/events/')
+  })
+})
+
+describe('SyncEngine external fetch', () => {
+  it('should collect every page through the integration list methods', async () => {
+    const { baseUrl } = startStandIn(({ url }) => {
+      if (url.pathname !== '/calendars/primary/events') return null
+      return url.searchParams.get('pageToken')
+        ? Response.json({ items: [googleEvent('g2'), googleEvent('g3')] })
+        : Response.json({ items: [googleEvent('g1')], nextPageToken: 'more' })
+    })
+
+    const integration = withBaseUrl(new GoogleCalendarIntegration(), baseUrl)
+    await integration.authenticate('token')
+
+    const engine = new SyncEngine()
+    const events = await engine['fetchExternalEvents'](integration)
+    const tasks = await engine['fetchExternalTasks'](integration)
+
+    expect(events.map(event => event.id)).toEqual(['g1', 'g2', 'g3'])
+    expect(tasks).toEqual([])
+  })
+})
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'bun:test'
+import { RecurrenceExpander, type RecurrenceRule, type RecurringItem } from '@/lib/recurrence'
+
+// Local wall-clock dates keep these independent of the machine's time zone
+const local = (year: number, month: number, day: number, hour = 9, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute)
+
+const days = (dates: Date[]) => dates.map(date => `${date.getMonth() + 1}/${date.getDate()}`)
+
+interface TestItem extends RecurringItem {
+  title: string
+}
+
+const event = (recurrence: RecurrenceRule, overrides: Partial<TestItem> = {}): TestItem => ({
+  id: 'event-1',
+  title: 'Standup',
+  startTime: local(2026, 1, 5),
+  endTime: local(2026, 1, 5, 9, 30),
+  recurrence,
+  ...overrides
+})
+
+describe('RecurrenceExpander', () => {
+  describe('occurrences', () => {
+    it('should repeat weekly on the given weekdays', () => {
+      const starts = RecurrenceExpander.occurrences(
+        { type: 'weekly', daysOfWeek: [1, 3] },
+        local(2026, 1, 5),
+        local(2026, 1, 1, 0),
+        local(2026, 1, 18, 23)
+      )
+
+      expect(days(starts)).toEqual(['1/5', '1/7', '1/12', '1/14'])
+      expect(starts.every(start => start.getHours() === 9)).toBe(true)
+    })
+
+    it('should honour the interval and count from the first occurrence', () => {
+      const rule: RecurrenceRule = { type: 'daily', interval: 2, count: 3 }
+
+      expect(days(RecurrenceExpander.occurrences(rule, local(2026, 1, 5), local(2026, 1, 1), local(2026, 2, 1)))).toEqual(['1/5', '1/7', '1/9'])
+      // The window starting later does not reset the count
+      expect(days(RecurrenceExpander.occurrences(rule, local(2026, 1, 5), local(2026, 1, 8), local(2026, 2, 1)))).toEqual(['1/9'])
+    })
+
+    it('should stop after the end date, including occurrences on that day', () => {
+      const starts = RecurrenceExpander.occurrences(
+        { type: 'daily', endDate: local(2026, 1, 7, 0) },
+        local(2026, 1, 5),
+        local(2026, 1, 1),
+        local(2026, 2, 1)
+      )
+
+      expect(days(starts)).toEqual(['1/5', '1/6', '1/7'])
+    })
+
+    it('should find the nth weekday of the month', () => {
+      const secondTuesday = RecurrenceExpander.occurrences(
+        { type: 'monthly', daysOfWeek: [2], weekOfMonth: 2 },
+        local(2026, 1, 13),
+        local(2026, 1, 1),
+        local(2026, 4, 30)
+      )
+      const lastFriday = RecurrenceExpander.occurrences(
+        { type: 'monthly', daysOfWeek: [5], weekOfMonth: -1 },
+        local(2026, 1, 30),
+        local(2026, 1, 1),
+        local(2026, 4, 30)
+      )
+
+      expect(days(secondTuesday)).toEqual(['1/13', '2/10', '3/10', '4/14'])
+      expect(days(lastFriday)).toEqual(['1/30', '2/27', '3/27', '4/24'])
+    })
+
+    it('should resolve days of the month counted from the end', () => {
+      const starts = RecurrenceExpander.occurrences(
+        { type: 'monthly', daysOfMonth: [1, -1] },
+        local(2026, 1, 1),
+        local(2026, 1, 1),
+        local(2026, 3, 1, 23)
+      )
+
+      expect(days(starts)).toEqual(['1/1', '1/31', '2/1', '2/28', '3/1'])
+    })
+
+    it('should skip months and years without the start day', () => {
+      const monthly = RecurrenceExpander.occurrences({ type: 'monthly' }, local(2026, 1, 31), local(2026, 1, 1), local(2026, 5, 31, 23))
+      const yearly = RecurrenceExpander.occurrences({ type: 'yearly' }, local(2024, 2, 29), local(2024, 1, 1), local(2032, 12, 31))
+
+      expect(days(monthly)).toEqual(['1/31', '3/31', '5/31'])
+      expect(yearly.map(date => date.getFullYear())).toEqual([2024, 2028, 2032])
+    })
+
+    it('should jump ahead to far-away windows without a count', () => {
+      const starts = RecurrenceExpander.occurrences({ type: 'daily' }, local(2000, 1, 1), local(2026, 3, 2, 0), local(2026, 3, 3, 23))
+
+      expect(days(starts)).toEqual(['3/2', '3/3'])
+    })
+
+    it('should keep the clock time of the event zone across its DST change', () => {
+      // Mondays at 09:00 in New York; clocks spring forward on March 8th
+      const starts = RecurrenceExpander.occurrences(
+        { type: 'weekly', daysOfWeek: [1] },
+        new Date('2026-03-02T14:00:00Z'),
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-17T00:00:00Z'),
+        'America/New_York'
+      )
+
+      expect(starts).toEqual([
+        new Date('2026-03-02T14:00:00Z'),
+        new Date('2026-03-09T13:00:00Z'),
+        new Date('2026-03-16T13:00:00Z')
+      ])
+    })
+
+    it('should pick weekdays on the event zone calendar', () => {
+      // Monday 08:00 in Tokyo is Sunday 23:00 UTC
+      const occurrences = RecurrenceExpander.expand(
+        event({ type: 'weekly', daysOfWeek: [1] }, {
+          startTime: new Date('2026-01-04T23:00:00Z'),
+          endTime: new Date('2026-01-05T00:00:00Z'),
+          timeZone: 'Asia/Tokyo'
+        }),
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-01-13T00:00:00Z')
+      )
+
+      expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([
+        new Date('2026-01-04T23:00:00Z'),
+        new Date('2026-01-11T23:00:00Z')
+      ])
+    })
+  })
+
+  describe('expand', () => {
+    it('should generate occurrences with their own ids and shifted end times', () => {
+      const occurrences = RecurrenceExpander.expand(
+        event({ type: 'weekly' }),
+        local(2026, 1, 10, 0),
+        local(2026, 1, 18, 0)
+      )
+
+      expect(occurrences).toHaveLength(1)
+      expect(occurrences[0].masterId).toBe('event-1')
+      expect(occurrences[0].startTime).toEqual(local(2026, 1, 12))
+      expect(occurrences[0].endTime).toEqual(local(2026, 1, 12, 9, 30))
+      expect(RecurrenceExpander.parseOccurrenceId(occurrences[0].id)).toEqual({
+        masterId: 'event-1',
+        originalStart: local(2026, 1, 12)
+      })
+    })
+
+    it('should include an occurrence that started before the window but is still running', () => {
+      const occurrences = RecurrenceExpander.expand(
+        event({ type: 'daily' }, { endTime: local(2026, 1, 5, 11) }),
+        local(2026, 1, 6, 10),
+        local(2026, 1, 6, 10, 30)
+      )
+
+      expect(occurrences.map(occurrence => occurrence.startTime)).toEqual([local(2026, 1, 6)])
+    })
+
+    it('should drop skipped occurrences and apply overrides', () => {
+      const occurrences = RecurrenceExpander.expand(
+        event({ type: 'daily' }),
+        local(2026, 1, 5, 0),
+        local(2026, 1, 7, 23),
+        [
+          { eventId: 'event-1', originalStart: local(2026, 1, 6).toISOString(), isSkipped: true, overrides: {} },
+          {
+            eventId: 'event-1',
+            originalStart: local(2026, 1, 7),
+            isSkipped: false,
+            overrides: { title: 'Standup (moved)', startTime: local(2026, 1, 7, 14).toISOString(), endTime: local(2026, 1, 7, 14, 30).toISOString() }
+          }
+        ]
+      )
+
+      expect(occurrences.map(occurrence => occurrence.title)).toEqual(['Standup', 'Standup (moved)'])
+      expect(occurrences[1].startTime).toEqual(local(2026, 1, 7, 14))
+      expect(occurrences[1].originalStart).toEqual(local(2026, 1, 7))
+      expect(occurrences[1].isException).toBe(true)
+    })
+
+    it('should bring in an occurrence moved into the window from outside it', () => {
+      const occurrences = RecurrenceExpander.expand(
+        event({ type: 'weekly' }),
+        local(2026, 1, 16, 0),
+        local(2026, 1, 16, 23),
+        [{
+          eventId: 'event-1',
+          originalStart: local(2026, 1, 12),
+          isSkipped: false,
+          overrides: { startTime: local(2026, 1, 16, 9).toISOString(), endTime: local(2026, 1, 16, 9, 30).toISOString() }
+        }]
+      )
+
+      expect(occurrences).toHaveLength(1)
+      expect(occurrences[0].originalStart).toEqual(local(2026, 1, 12))
+    })
+
+    it('should recur tasks without a start time on their due date', () => {
+      const rent: TestItem = { id: 'task-1', title: 'Pay rent', startTime: null, endTime: null, dueDate: local(2026, 1, 1, 17), recurrence: { type: 'monthly' } }
+      const [occurrence] = RecurrenceExpander.expand(
+        rent,
+        local(2026, 2, 1, 0),
+        local(2026, 2, 28, 23)
+      )
+
+      expect(occurrence.dueDate).toEqual(local(2026, 2, 1, 17))
+      expect(occurrence.startTime).toBeNull()
+    })
+  })
+
+  describe('expandAll', () => {
+    it('should pass non-recurring items through and route exceptions to their item', () => {
+      const single: TestItem = { id: 'event-2', title: 'Lunch', startTime: local(2026, 1, 6, 12), endTime: local(2026, 1, 6, 13), recurrence: { type: 'none' } }
+      const items = RecurrenceExpander.expandAll(
+        [event({ type: 'daily' }), single],
+        local(2026, 1, 5, 0),
+        local(2026, 1, 6, 23),
+        [
+          { eventId: 'event-1', originalStart: local(2026, 1, 5), isSkipped: true },
+          { eventId: 'event-2', originalStart: local(2026, 1, 6, 12), isSkipped: true }
+        ]
+      )
+
+      expect(items.map(item => item.id)).toEqual([
+        RecurrenceExpander.occurrenceId('event-1', local(2026, 1, 6)),
+        'event-2'
+      ])
+    })
+  })
+})
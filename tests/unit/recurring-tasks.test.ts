@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'bun:test'
+import { RecurrenceExpander, type RecurrenceRule, type RecurringItem } from '@/lib/recurrence'
+import { RecurringTasks } from '@/lib/recurring-tasks'
+
+const local = (year: number, month: number, day: number, hour = 9, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute)
+
+interface TestTask extends RecurringItem {
+  title: string
+  status: string
+  progress: number
+}
+
+const task = (recurrence: RecurrenceRule, overrides: Partial<TestTask> = {}): TestTask => ({
+  id: 'task-1',
+  title: 'Water the plants',
+  status: 'in_progress',
+  progress: 60,
+  startTime: null,
+  endTime: null,
+  dueDate: local(2026, 3, 2, 18),
+  recurrence,
+  ...overrides
+})
+
+describe('RecurringTasks', () => {
+  describe('rollsForward', () => {
+    it('should only roll recurring tasks that have a date', () => {
+      expect(RecurringTasks.rollsForward(task({ type: 'daily' }))).toBe(true)
+      expect(RecurringTasks.rollsForward(task({ type: 'none' }))).toBe(false)
+      expect(RecurringTasks.rollsForward(task({ type: 'daily' }, { dueDate: null }))).toBe(false)
+    })
+  })
+
+  describe('complete', () => {
+    it('should move to the next occurrence after the due date and reopen the task', () => {
+      // Completed three days late; the weekly rule keeps its weekday
+      const { occurrenceDate, next } = RecurringTasks.complete(task({ type: 'weekly' }), local(2026, 3, 5, 8))
+
+      expect(occurrenceDate).toEqual(local(2026, 3, 2, 18))
+      expect(next).toEqual({ status: 'pending', completedAt: null, progress: 0, dueDate: local(2026, 3, 9, 18) })
+    })
+
+    it('should restart the rule on the completion day when repeating from completion', () => {
+      const { next } = RecurringTasks.complete(
+        task({ type: 'daily', interval: 3, repeatFrom: 'completion_date' }),
+        local(2026, 3, 5, 8)
+      )
+
+      expect(next?.dueDate).toEqual(local(2026, 3, 8, 18))
+    })
+
+    it('should read the completion day on the task\'s zone clock', () => {
+      // 01:00 on Friday in Tokyo is still Thursday in UTC and west of it
+      const { next } = RecurringTasks.complete(
+        task({ type: 'daily', interval: 3, repeatFrom: 'completion_date' }, {
+          dueDate: new Date('2026-03-02T09:00:00Z'),
+          timeZone: 'Asia/Tokyo'
+        }),
+        new Date('2026-03-05T16:00:00Z')
+      )
+
+      // 18:00 in Tokyo three days after Friday
+      expect(next?.dueDate).toEqual(new Date('2026-03-09T09:00:00Z'))
+    })
+
+    it('should pick the next listed weekday after the completion day', () => {
+      const { next } = RecurringTasks.complete(
+        task({ type: 'weekly', daysOfWeek: [1, 3, 5], repeatFrom: 'completion_date' }),
+        local(2026, 3, 3, 22)
+      )
+
+      expect(next?.dueDate).toEqual(local(2026, 3, 4, 18))
+    })
+
+    it('should move scheduled tasks with their length and due date', () => {
+      const { next } = RecurringTasks.complete(task({ type: 'daily' }, {
+        startTime: local(2026, 3, 2, 7),
+        endTime: local(2026, 3, 2, 7, 30),
+        dueDate: local(2026, 3, 2, 12)
+      }), local(2026, 3, 2, 7, 45))
+
+      expect(next?.startTime).toEqual(local(2026, 3, 3, 7))
+      expect(next?.endTime).toEqual(local(2026, 3, 3, 7, 30))
+      expect(next?.dueDate).toEqual(local(2026, 3, 3, 12))
+    })
+
+    it('should count down counted rules and stop after the last occurrence', () => {
+      const first = RecurringTasks.complete(task({ type: 'daily', count: 2 }), local(2026, 3, 2, 19))
+      expect(first.next?.recurrence).toEqual({ type: 'daily', count: 1 })
+
+      const last = RecurringTasks.complete(task({ type: 'daily', count: 1 }, { dueDate: first.next?.dueDate }), local(2026, 3, 3, 19))
+      expect(last.next).toBeNull()
+
+      const fromCompletion = RecurringTasks.complete(task({ type: 'daily', count: 1, repeatFrom: 'completion_date' }), local(2026, 3, 2, 19))
+      expect(fromCompletion.next).toBeNull()
+    })
+
+    it('should stop at the end date', () => {
+      const { next } = RecurringTasks.complete(task({ type: 'weekly', endDate: local(2026, 3, 8, 0) }), local(2026, 3, 2, 19))
+
+      expect(next).toBeNull()
+    })
+
+    it('should leave the rolled task expanding from its new due date', () => {
+      const rolled = { ...task({ type: 'monthly', count: 3 }), ...RecurringTasks.complete(task({ type: 'monthly', count: 3 }), local(2026, 3, 2)).next }
+      const occurrences = RecurrenceExpander.expand(rolled, local(2026, 1, 1, 0), local(2026, 12, 31, 23))
+
+      expect(occurrences.map(occurrence => new Date(occurrence.dueDate!).getMonth() + 1)).toEqual([4, 5])
+    })
+  })
+
+  describe('RecurrenceExpander.nextAfter', () => {
+    it('should find sparse occurrences and return null for non-recurring rules', () => {
+      expect(RecurrenceExpander.nextAfter({ type: 'yearly' }, local(2024, 2, 29), local(2024, 2, 29))).toEqual(local(2028, 2, 29))
+      expect(RecurrenceExpander.nextAfter({ type: 'none' }, local(2026, 1, 1), local(2026, 1, 1))).toBeNull()
+    })
+  })
+})
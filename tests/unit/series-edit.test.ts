@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'bun:test'
+import { RecurrenceExpander, type RecurrenceRule, type RecurringItem } from '@/lib/recurrence'
+import { SeriesEditor } from '@/lib/series-edit'
+
+const local = (year: number, month: number, day: number, hour = 9, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute)
+
+interface TestEvent extends RecurringItem {
+  icalUid: string | null
+  title: string
+  description: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Mondays at 9:00 from January 5th
+const standup = (recurrence: Partial<RecurrenceRule> = {}, overrides: Partial<TestEvent> = {}): TestEvent => ({
+  id: 'event-1',
+  icalUid: 'standup@example.com',
+  title: 'Standup',
+  description: null,
+  startTime: local(2026, 1, 5),
+  endTime: local(2026, 1, 5, 9, 30),
+  recurrence: { type: 'weekly', interval: 1, daysOfWeek: [1], ...recurrence },
+  createdAt: local(2025, 12, 1),
+  updatedAt: local(2025, 12, 1),
+  ...overrides
+})
+
+describe('SeriesEditor', () => {
+  describe('planUpdate', () => {
+    it('should store a moved occurrence as an exception that keeps its length', () => {
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 12), 'this', { startTime: local(2026, 1, 13, 10) })
+
+      expect(plan.update).toBeUndefined()
+      expect(plan.exception).toEqual({
+        originalStart: local(2026, 1, 12),
+        isSkipped: false,
+        overrides: {
+          startTime: local(2026, 1, 13, 10).toISOString(),
+          endTime: local(2026, 1, 13, 10, 30).toISOString()
+        }
+      })
+    })
+
+    it('should build on the overrides already stored for the occurrence', () => {
+      const existing = { eventId: 'event-1', originalStart: local(2026, 1, 12), isSkipped: false, overrides: { location: 'Room 2' } }
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 12), 'this', { title: 'Standup (demo)' }, existing)
+
+      expect(plan.exception?.overrides).toEqual({ location: 'Room 2', title: 'Standup (demo)' })
+    })
+
+    it('should move due-date-only task occurrences through their due date', () => {
+      const task: RecurringItem & { title: string } = { id: 'task-1', title: 'Pay rent', startTime: null, endTime: null, dueDate: local(2026, 1, 1, 17), recurrence: { type: 'monthly' } }
+      const plan = SeriesEditor.planUpdate(task, local(2026, 2, 1, 17), 'this', { dueDate: local(2026, 2, 3, 17) })
+
+      expect(plan.exception?.overrides).toEqual({ startTime: local(2026, 2, 3, 17).toISOString() })
+    })
+
+    it('should end the series before the occurrence and start a new one there', () => {
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 19), 'following', { title: 'Sync', startTime: local(2026, 1, 19, 10) })
+
+      expect(plan.update).toEqual({ recurrence: { type: 'weekly', interval: 1, daysOfWeek: [1], endDate: local(2026, 1, 18, 0) } })
+      expect(plan.dropExceptionsFrom).toEqual(local(2026, 1, 19))
+      expect(plan.create).toEqual({
+        title: 'Sync',
+        startTime: local(2026, 1, 19, 10),
+        endTime: local(2026, 1, 19, 10, 30),
+        recurrence: { type: 'weekly', interval: 1, daysOfWeek: [1] }
+      })
+
+      // The two series together still cover every Monday, once
+      const window: [Date, Date] = [local(2026, 1, 1, 0), local(2026, 2, 1, 0)]
+      const before = RecurrenceExpander.occurrences(plan.update!.recurrence!, local(2026, 1, 5), ...window)
+      const after = RecurrenceExpander.occurrences(plan.create!.recurrence!, new Date(plan.create!.startTime!), ...window)
+      expect([...before, ...after].map(date => date.getDate())).toEqual([5, 12, 19, 26])
+    })
+
+    it('should hand the remaining count to the new series', () => {
+      const plan = SeriesEditor.planUpdate(standup({ count: 6 }), local(2026, 1, 19), 'following', { title: 'Sync' })
+
+      expect(plan.update?.recurrence?.count).toBe(2)
+      expect(plan.create?.recurrence?.count).toBe(4)
+    })
+
+    it('should treat "following" from the first occurrence as the whole series', () => {
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 5), 'following', { title: 'Sync' })
+
+      expect(plan.create).toBeUndefined()
+      expect(plan.update).toEqual({ title: 'Sync' })
+    })
+
+    it('should shift the whole series and its weekdays with a moved occurrence', () => {
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 12), 'all', { startTime: local(2026, 1, 13, 10) })
+
+      expect(plan.update?.startTime).toEqual(local(2026, 1, 6, 10))
+      expect(plan.update?.endTime).toEqual(local(2026, 1, 6, 10, 30))
+      expect(plan.update?.recurrence?.daysOfWeek).toEqual([2])
+    })
+
+    it('should leave the weekdays of a series moved by whole weeks', () => {
+      const plan = SeriesEditor.planUpdate(standup(), local(2026, 1, 12), 'all', { startTime: local(2026, 1, 19, 8) })
+
+      expect(plan.update?.startTime).toEqual(local(2026, 1, 12, 8))
+      expect(plan.update?.recurrence).toBeUndefined()
+    })
+  })
+
+  describe('planDelete', () => {
+    it('should skip one occurrence, end the series or delete it', () => {
+      expect(SeriesEditor.planDelete(standup(), local(2026, 1, 12), 'this')).toEqual({
+        exception: { originalStart: local(2026, 1, 12), isSkipped: true, overrides: {} }
+      })
+      expect(SeriesEditor.planDelete(standup(), local(2026, 1, 12), 'following')).toEqual({
+        update: { recurrence: { type: 'weekly', interval: 1, daysOfWeek: [1], endDate: local(2026, 1, 11, 0) } },
+        dropExceptionsFrom: local(2026, 1, 12)
+      })
+      expect(SeriesEditor.planDelete(standup(), local(2026, 1, 12), 'all')).toEqual({ deleteMaster: true })
+    })
+
+    it('should apply any scope to the whole item when it does not repeat', () => {
+      const single = standup({ type: 'none' })
+
+      expect(SeriesEditor.planDelete(single, local(2026, 1, 5), 'this')).toEqual({ deleteMaster: true })
+    })
+  })
+
+  describe('reviveDates', () => {
+    it('should parse ISO strings from request bodies', () => {
+      const body: { startTime?: Date | string; recurrence?: RecurrenceRule } = {
+        startTime: '2026-01-13T10:00:00.000Z',
+        recurrence: { type: 'daily', endDate: '2026-02-01T00:00:00.000Z' }
+      }
+      const changes = SeriesEditor.reviveDates(body)
+
+      expect(changes.startTime).toEqual(new Date('2026-01-13T10:00:00.000Z'))
+      expect(changes.recurrence?.endDate).toEqual(new Date('2026-02-01T00:00:00.000Z'))
+      expect(SeriesEditor.hasInvalidDates(changes)).toBe(false)
+      expect(SeriesEditor.hasInvalidDates(SeriesEditor.reviveDates({ endTime: 'soon' }))).toBe(true)
+    })
+  })
+})
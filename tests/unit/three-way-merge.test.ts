@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test'
+import { ConflictDetector, DataTransformer } from '@/lib/integrations/utils'
+
+const base = {
+  title: 'Write report',
+  description: null,
+  status: 'pending',
+  priority: 'medium',
+  dueDate: '2026-01-05T09:00:00.000Z'
+}
+
+describe('DataTransformer.snapshot', () => {
+  it('should keep only synced fields with dates as ISO strings and blanks as null', () => {
+    const snapshot = DataTransformer.snapshot({
+      id: 'task-1',
+      title: 'Write report',
+      description: '',
+      status: 'pending',
+      priority: 'medium',
+      dueDate: new Date('2026-01-05T09:00:00Z'),
+      startTime: new Date('2026-01-05T08:00:00Z')
+    }, 'task')
+
+    expect(snapshot).toEqual(base)
+  })
+
+  it('should round-trip date fields through fromSnapshot', () => {
+    const values = DataTransformer.fromSnapshot({ title: 'Standup', startTime: '2026-01-05T09:00:00.000Z', location: null })
+
+    expect(values.startTime).toEqual(new Date('2026-01-05T09:00:00Z'))
+    expect(values.title).toBe('Standup')
+    expect(values.location).toBeNull()
+  })
+})
+
+describe('ConflictDetector.threeWayMerge', () => {
+  it('should take each one-sided change without conflicts', () => {
+    const result = ConflictDetector.threeWayMerge(
+      base,
+      { ...base, title: 'Write final report' },
+      { ...base, status: 'completed' }
+    )
+
+    expect(result.conflicts).toEqual([])
+    expect(result.dayflowChanges).toEqual(['title'])
+    expect(result.externalChanges).toEqual(['status'])
+    expect(result.merged).toEqual({ ...base, title: 'Write final report', status: 'completed' })
+  })
+
+  it('should not treat the same change on both sides as a conflict', () => {
+    const result = ConflictDetector.threeWayMerge(
+      base,
+      { ...base, priority: 'high' },
+      { ...base, priority: 'high' }
+    )
+
+    expect(result.conflicts).toEqual([])
+    expect(result.merged.priority).toBe('high')
+  })
+
+  it('should report fields changed on both sides with all three values', () => {
+    const result = ConflictDetector.threeWayMerge(
+      base,
+      { ...base, title: 'Write final report', description: 'Local notes' },
+      { ...base, title: 'Write quarterly report', status: 'in_progress' }
+    )
+
+    expect(result.conflicts).toEqual([
+      { field: 'title', base: 'Write report', dayflow: 'Write final report', external: 'Write quarterly report' }
+    ])
+    expect(result.dayflowChanges).toEqual(['description'])
+    expect(result.externalChanges).toEqual(['status'])
+    // Conflicting fields keep the DayFlow value until resolved
+    expect(result.merged.title).toBe('Write final report')
+  })
+
+  it('should treat fields missing from an older snapshot as changed on both sides', () => {
+    const result = ConflictDetector.threeWayMerge(
+      { title: 'Standup' },
+      { title: 'Standup', location: 'Room 1' },
+      { title: 'Standup', location: 'Room 2' }
+    )
+
+    expect(result.conflicts).toEqual([{ field: 'location', base: null, dayflow: 'Room 1', external: 'Room 2' }])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test'
+import { TimeZones } from '@/lib/timezone'
+import { getWeekFromDate, getTimeFromSlot, snapToNearestSlot, formatTimeRange, getMonthFromDate, moveToDay } from '@/lib/date-utils'
+
+// New York springs forward on March 8th and falls back on November 1st, 2026
+const NEW_YORK = 'America/New_York'
+
+describe('TimeZones', () => {
+  it('should validate zone names and fall back to the local zone', () => {
+    expect(TimeZones.isValid('Europe/Berlin')).toBe(true)
+    expect(TimeZones.isValid('Mars/Olympus_Mons')).toBe(false)
+    expect(TimeZones.isValid(null)).toBe(false)
+    expect(TimeZones.resolve('Mars/Olympus_Mons')).toBe(TimeZones.local())
+  })
+
+  it('should read the wall clock and offset of an instant', () => {
+    const instant = new Date('2026-07-01T13:30:00Z')
+
+    expect(TimeZones.wallClock(instant, NEW_YORK)).toMatchObject({ year: 2026, month: 7, day: 1, hour: 9, minute: 30, weekday: 3 })
+    expect(TimeZones.getOffset(NEW_YORK, instant)).toBe(-4 * 60 * 60 * 1000)
+    expect(TimeZones.getOffset('Asia/Kolkata', instant)).toBe(5.5 * 60 * 60 * 1000)
+  })
+
+  it('should move times skipped by DST past the change and take the first of repeated times', () => {
+    // 02:30 does not exist on March 8th; 01:30 happens twice on November 1st
+    expect(TimeZones.fromWallClock(NEW_YORK, 2026, 3, 8, 2, 30)).toEqual(new Date('2026-03-08T07:30:00Z'))
+    expect(TimeZones.fromWallClock(NEW_YORK, 2026, 11, 1, 1, 30)).toEqual(new Date('2026-11-01T05:30:00Z'))
+  })
+
+  it('should keep the clock time when adding days across DST', () => {
+    const friday = new Date('2026-03-06T14:00:00Z')
+
+    expect(TimeZones.addDays(friday, 3, NEW_YORK)).toEqual(new Date('2026-03-09T13:00:00Z'))
+    expect(TimeZones.startOfDay(new Date('2026-03-08T18:00:00Z'), NEW_YORK)).toEqual(new Date('2026-03-08T05:00:00Z'))
+  })
+
+  it('should start weeks on the zone calendar', () => {
+    // Monday 01:00 in Tokyo is still Sunday in UTC
+    const monday = new Date('2026-03-08T16:00:00Z')
+
+    expect(TimeZones.startOfWeek(monday, 'Asia/Tokyo')).toEqual(new Date('2026-03-08T15:00:00Z'))
+    expect(TimeZones.isSameDay(monday, new Date('2026-03-09T14:59:00Z'), 'Asia/Tokyo')).toBe(true)
+  })
+
+  it('should round-trip floating dates and local ISO strings', () => {
+    const instant = new Date('2026-11-01T06:30:00Z')
+
+    expect(TimeZones.fromFloating(TimeZones.toFloating(instant, 'Europe/Berlin'), 'Europe/Berlin')).toEqual(instant)
+    expect(TimeZones.toLocalISO(instant, NEW_YORK)).toBe('2026-11-01T01:30:00')
+    expect(TimeZones.fromLocalISO('2026-07-01T09:00:00.0000000', NEW_YORK)).toEqual(new Date('2026-07-01T13:00:00Z'))
+  })
+})
+
+describe('zoned date utilities', () => {
+  it('should build a DST week of seven midnights', () => {
+    const week = getWeekFromDate(new Date('2026-03-10T12:00:00Z'), NEW_YORK)
+
+    expect(week.startDate).toEqual(new Date('2026-03-09T04:00:00Z'))
+    expect(week.days.map(day => day.dayName)).toEqual(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'])
+
+    // The week before is an hour longer
+    const before = getWeekFromDate(new Date('2026-03-03T12:00:00Z'), NEW_YORK)
+    expect(before.days[6].date).toEqual(new Date('2026-03-08T05:00:00Z'))
+    expect(week.startDate.getTime() - before.startDate.getTime()).toBe((7 * 24 - 1) * 60 * 60 * 1000)
+  })
+
+  it('should place slots and snap on the zone clock', () => {
+    const weekStart = new Date('2026-03-02T05:00:00Z')
+
+    // Day 7 of that week is the Sunday DST starts
+    expect(getTimeFromSlot(7, 9, NEW_YORK, weekStart)).toEqual(new Date('2026-03-08T13:00:00Z'))
+    // 09:50 in Kolkata rounds to 10:00 there, not to the UTC hour
+    expect(snapToNearestSlot(new Date('2026-07-01T04:20:00Z'), 60, 'Asia/Kolkata')).toEqual(new Date('2026-07-01T04:30:00Z'))
+    expect(formatTimeRange(new Date('2026-07-01T13:00:00Z'), new Date('2026-07-01T14:30:00Z'), NEW_YORK)).toBe('09:00 - 10:30')
+  })
+
+  it('should cover a month with whole weeks on the zone calendar', () => {
+    // March 1st, 2026 is a Sunday, so the grid starts in February
+    const month = getMonthFromDate(new Date('2026-03-15T12:00:00Z'), NEW_YORK)
+
+    expect(month.startDate).toEqual(new Date('2026-03-01T05:00:00Z'))
+    expect(month.weeks).toHaveLength(6)
+    expect(month.weeks[0].startDate).toEqual(new Date('2026-02-23T05:00:00Z'))
+    expect(month.weeks[0].days.map(day => day.isCurrentMonth)).toEqual([false, false, false, false, false, false, true])
+    expect(month.weeks[5].days[1].isCurrentMonth).toBe(true)
+    expect(month.weeks[5].days[2].isCurrentMonth).toBe(false)
+  })
+
+  it('should keep the clock time when moving to another day', () => {
+    // 09:00 on the Friday before DST moves to 09:00 on the Monday after
+    expect(moveToDay(new Date('2026-03-06T14:00:00Z'), new Date('2026-03-09T04:00:00Z'), NEW_YORK)).toEqual(new Date('2026-03-09T13:00:00Z'))
+  })
+
+  it('should stay within a repeated hour when snapping', () => {
+    // 01:52 happens twice the night clocks fall back, first in EDT and then in EST
+    expect(snapToNearestSlot(new Date('2026-11-01T05:52:00Z'), 15, NEW_YORK)).toEqual(new Date('2026-11-01T05:45:00Z'))
+    expect(snapToNearestSlot(new Date('2026-11-01T06:52:00Z'), 15, NEW_YORK)).toEqual(new Date('2026-11-01T06:45:00Z'))
+  })
+
+  it('should land on the whole minute when snapping', () => {
+    expect(snapToNearestSlot(new Date('2026-03-09T14:07:41.250Z'), 15, NEW_YORK)).toEqual(new Date('2026-03-09T14:00:00Z'))
+  })
+})
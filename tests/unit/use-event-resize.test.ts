@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from 'bun:test'
+import type React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useEventResize, type ResizeEdge } from '@/hooks/use-event-resize'
+import type { CalendarEvent, EventOrTask } from '@/types/calendar'
+import { installDom } from '../utils/dom'
+
+// A zone keeps these on TimeZones rather than the mocked date-fns in utils.test
+const BERLIN = 'Europe/Berlin'
+
+// Berlin is an hour ahead of UTC in early March; times below are on its clock
+const at = (day: number, time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return new Date(Date.UTC(2026, 2, day, hour - 1, minute))
+}
+
+const event = (start: Date, end: Date): CalendarEvent => ({
+  id: 'meeting',
+  title: 'Meeting',
+  startTime: start,
+  endTime: end,
+  isAllDay: false,
+  userId: 'user-1',
+  recurrence: { type: 'none' },
+  reminder: { enabled: false, minutesBefore: 15 },
+  createdAt: at(1, '00:00'),
+  updatedAt: at(1, '00:00')
+})
+
+let uninstallDom: () => void
+
+beforeAll(() => {
+  uninstallDom = installDom()
+})
+
+afterAll(() => {
+  uninstallDom()
+})
+
+// One pixel per minute, so pointer travel reads as minutes
+function setup(canResize: (event: EventOrTask, startTime: Date, endTime: Date) => boolean = () => true) {
+  const onResize = mock((_event: EventOrTask, _startTime: Date, _endTime: Date) => {})
+  const hook = renderHook(() => useEventResize({ pixelsPerMinute: 1, timeZone: BERLIN, canResize, onResize }))
+
+  const drag = (target: EventOrTask, edge: ResizeEdge, minutes: number) => {
+    const press = { clientY: 500, stopPropagation: mock(), preventDefault: mock() }
+    act(() => hook.result.current.startResize(press as unknown as React.PointerEvent, target, edge))
+    act(() => {
+      window.dispatchEvent(new window.MouseEvent('pointermove', { clientY: 500 + minutes }))
+    })
+    const preview = hook.result.current.preview
+    act(() => {
+      window.dispatchEvent(new window.MouseEvent('pointerup', { clientY: 500 + minutes }))
+    })
+    return { press, preview }
+  }
+
+  return { hook, onResize, drag }
+}
+
+describe('useEventResize', () => {
+  it('should snap the moving edge to quarter hours and report it on release', () => {
+    const { hook, onResize, drag } = setup()
+    const meeting = event(at(9, '10:00'), at(9, '11:00'))
+
+    const { press, preview } = drag(meeting, 'end', 37)
+
+    expect(preview).toEqual({ eventId: 'meeting', startTime: at(9, '10:00'), endTime: at(9, '11:30'), isValid: true })
+    expect(onResize).toHaveBeenCalledWith(meeting, at(9, '10:00'), at(9, '11:30'))
+    expect(hook.result.current.preview).toBeNull()
+    // Keeps dnd-kit from treating the press as a move
+    expect(press.stopPropagation).toHaveBeenCalled()
+    hook.unmount()
+  })
+
+  it('should not let either edge shrink the event below a quarter hour', () => {
+    const { hook, onResize, drag } = setup()
+    const meeting = event(at(9, '10:00'), at(9, '11:00'))
+
+    drag(meeting, 'end', -80)
+    drag(meeting, 'start', 120)
+
+    expect(onResize.mock.calls).toEqual([
+      [meeting, at(9, '10:00'), at(9, '10:15')],
+      [meeting, at(9, '10:45'), at(9, '11:00')]
+    ])
+    hook.unmount()
+  })
+
+  it('should carry the end past midnight into the next day', () => {
+    const { hook, onResize, drag } = setup()
+    const late = event(at(9, '23:00'), at(9, '23:45'))
+
+    drag(late, 'end', 44)
+
+    expect(onResize).toHaveBeenCalledWith(late, at(9, '23:00'), at(10, '00:30'))
+    hook.unmount()
+  })
+
+  it('should drop releases that clash or leave the times as they were', () => {
+    const { hook, onResize, drag } = setup((_event, startTime) => startTime.getTime() >= at(9, '09:00').getTime())
+    const meeting = event(at(9, '10:00'), at(9, '11:00'))
+
+    expect(drag(meeting, 'start', -90).preview?.isValid).toBe(false)
+    drag(meeting, 'end', 5)
+
+    expect(onResize).not.toHaveBeenCalled()
+    hook.unmount()
+  })
+})
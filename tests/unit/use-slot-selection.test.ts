@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from 'bun:test'
+import type React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useSlotSelection } from '@/hooks/use-slot-selection'
+import { installDom } from '../utils/dom'
+
+// A zone keeps these on TimeZones rather than the mocked date-fns in utils.test
+const BERLIN = 'Europe/Berlin'
+
+// Berlin is an hour ahead of UTC in early March; times below are on its clock
+const at = (day: number, time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return new Date(Date.UTC(2026, 2, day, hour - 1, minute))
+}
+
+const monday = at(9, '00:00')
+
+let uninstallDom: () => void
+
+beforeAll(() => {
+  uninstallDom = installDom()
+})
+
+afterAll(() => {
+  uninstallDom()
+})
+
+// The timeline starts at 08:00 with one pixel per minute; jsdom puts its top at 0
+function setup() {
+  const onSelect = mock((_startTime: Date, _endTime: Date) => {})
+  const hook = renderHook(() => useSlotSelection({
+    pixelsPerMinute: 1,
+    firstMinute: 8 * 60,
+    lastMinute: 20 * 60,
+    timeZone: BERLIN,
+    onSelect
+  }))
+  const column = document.createElement('div')
+  document.body.appendChild(column)
+
+  const press = (target: HTMLElement, clientY: number) => {
+    act(() => hook.result.current.onPointerDown({ button: 0, clientY, target, currentTarget: column } as unknown as React.PointerEvent<HTMLElement>, monday))
+  }
+  const move = (clientY: number) => act(() => {
+    window.dispatchEvent(new window.MouseEvent('pointermove', { clientY }))
+  })
+  const release = () => act(() => {
+    window.dispatchEvent(new window.MouseEvent('pointerup'))
+  })
+  const click = () => {
+    const stopPropagation = mock()
+    hook.result.current.onClickCapture({ stopPropagation } as unknown as React.MouseEvent)
+    return stopPropagation
+  }
+
+  return { hook, column, onSelect, press, move, release, click }
+}
+
+describe('useSlotSelection', () => {
+  it('should select whole quarter hours between the press and the pointer', () => {
+    const { hook, column, onSelect, press, move, release, click } = setup()
+
+    press(column, 100)
+    move(190)
+
+    expect(hook.result.current.selection).toEqual({ day: monday, startMinutes: 9 * 60 + 30, endMinutes: 11 * 60 + 15 })
+
+    release()
+
+    expect(hook.result.current.selection).toBeNull()
+    expect(onSelect).toHaveBeenCalledWith(at(9, '09:30'), at(9, '11:15'))
+    // The click that ends the drag must not also open the slot
+    expect(click()).toHaveBeenCalled()
+    hook.unmount()
+  })
+
+  it('should select upwards and never less than a quarter hour', () => {
+    const { hook, column, onSelect, press, move, release } = setup()
+
+    press(column, 130)
+    move(122)
+    release()
+    press(column, 130)
+    move(40)
+    release()
+
+    expect(onSelect.mock.calls).toEqual([
+      [at(9, '10:00'), at(9, '10:15')],
+      [at(9, '08:30'), at(9, '10:15')]
+    ])
+    hook.unmount()
+  })
+
+  it('should leave short presses to the slot\'s click', () => {
+    const { hook, column, onSelect, press, move, release, click } = setup()
+
+    press(column, 100)
+    move(103)
+    release()
+
+    expect(hook.result.current.selection).toBeNull()
+    expect(onSelect).not.toHaveBeenCalled()
+    expect(click()).not.toHaveBeenCalled()
+    hook.unmount()
+  })
+
+  it('should not start a selection from a slot an event occupies', () => {
+    const { hook, column, onSelect, press, move, release, click } = setup()
+    const event = document.createElement('div')
+    event.setAttribute('data-calendar-event', '')
+    const title = document.createElement('span')
+    event.appendChild(title)
+    column.appendChild(event)
+
+    press(title, 100)
+    move(190)
+
+    expect(hook.result.current.selection).toBeNull()
+
+    release()
+
+    // The press is left alone for the event's own drag or click
+    expect(onSelect).not.toHaveBeenCalled()
+    expect(click()).not.toHaveBeenCalled()
+    hook.unmount()
+  })
+})
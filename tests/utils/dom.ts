@@ -0,0 +1,23 @@
+import { JSDOM } from 'jsdom'
+
+// bun test runs without a DOM; hook tests install jsdom's window for their
+// file and hand the previous globals back afterwards
+export function installDom() {
+  const dom = new JSDOM('<!doctype html><html><body></body></html>')
+  const globals = globalThis as Record<string, unknown>
+  const previous = {
+    window: globals.window,
+    document: globals.document,
+    IS_REACT_ACT_ENVIRONMENT: globals.IS_REACT_ACT_ENVIRONMENT
+  }
+
+  Object.assign(globals, { window: dom.window, document: dom.window.document, IS_REACT_ACT_ENVIRONMENT: true })
+
+  return () => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete globals[key]
+      else globals[key] = value
+    }
+    dom.window.close()
+  }
+}
@@ -0,0 +1,100 @@
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+
+// Minimal DDL for the integration tables; mirrors migrations 002-005 and
+// sync_operations from lib/db/integrations-schema.ts
+export const INTEGRATION_TABLES_SQL = `
+  CREATE TABLE user_integrations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL,
+    service_id uuid NOT NULL,
+    service_name varchar(50) NOT NULL,
+    display_name varchar(100) NOT NULL,
+    is_active boolean DEFAULT true,
+    access_token text,
+    refresh_token text,
+    token_expires_at timestamptz,
+    configuration jsonb DEFAULT '{}'::jsonb,
+    webhook_id text,
+    webhook_secret text,
+    sync_settings jsonb,
+    last_sync_at timestamptz,
+    sync_status text DEFAULT 'idle',
+    sync_error text,
+    sync_cursor text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  );
+
+  CREATE TABLE sync_operations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_integration_id uuid REFERENCES user_integrations(id) ON DELETE CASCADE NOT NULL,
+    operation text NOT NULL,
+    status text NOT NULL DEFAULT 'pending',
+    started_at timestamptz DEFAULT now(),
+    completed_at timestamptz,
+    items_processed integer DEFAULT 0,
+    items_created integer DEFAULT 0,
+    items_updated integer DEFAULT 0,
+    items_deleted integer DEFAULT 0,
+    conflicts jsonb DEFAULT '[]'::jsonb,
+    error text,
+    created_at timestamptz DEFAULT now()
+  );
+
+  CREATE TABLE sync_queue (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_integration_id uuid REFERENCES user_integrations(id) ON DELETE CASCADE NOT NULL,
+    operation text NOT NULL,
+    payload jsonb DEFAULT '{}'::jsonb,
+    priority integer DEFAULT 5,
+    status text DEFAULT 'pending',
+    scheduled_at timestamptz DEFAULT now(),
+    started_at timestamptz,
+    completed_at timestamptz,
+    attempts integer DEFAULT 0,
+    max_attempts integer DEFAULT 3,
+    last_error text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  );
+
+  CREATE TABLE external_items (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_integration_id uuid REFERENCES user_integrations(id) ON DELETE CASCADE NOT NULL,
+    external_id text NOT NULL,
+    external_service varchar(50) NOT NULL,
+    item_type text NOT NULL,
+    item_id uuid,
+    external_data jsonb,
+    last_sync_at timestamptz DEFAULT now(),
+    last_modified_at timestamptz,
+    is_deleted boolean DEFAULT false,
+    version integer DEFAULT 1,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  );
+`
+
+export async function createTestDatabase(schemaSql: string = INTEGRATION_TABLES_SQL) {
+  // Other suites install a fake window; PGlite would take it for a browser
+  const globals = globalThis as { window?: Window & typeof globalThis }
+  const fakeWindow = globals.window
+  delete globals.window
+  let client: PGlite
+  try {
+    client = new PGlite()
+    await client.waitReady
+  } finally {
+    if (fakeWindow !== undefined) globals.window = fakeWindow
+  }
+
+  await client.exec(schemaSql)
+
+  return {
+    client,
+    db: drizzle(client),
+    truncate: () => client.exec('TRUNCATE external_items, sync_queue, sync_operations, user_integrations'),
+    close: () => client.close()
+  }
+}
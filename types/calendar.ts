@@ -6,6 +6,8 @@ export interface CalendarEvent {
   description?: string | null
   startTime: Date
   endTime: Date
+  // IANA zone the event was scheduled in
+  timeZone?: string | null
   isAllDay: boolean
   location?: string | null
   userId: string
@@ -15,6 +17,9 @@ export interface CalendarEvent {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
   }
   reminder: {
     enabled: boolean
@@ -46,6 +51,10 @@ export interface Task {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
+    repeatFrom?: 'due_date' | 'completion_date'
   }
   reminder: {
     enabled: boolean
@@ -77,6 +86,10 @@ export interface BaseTask {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
+    repeatFrom?: 'due_date' | 'completion_date'
   }
   reminder: {
     enabled: boolean
@@ -114,6 +127,16 @@ export interface CalendarDay {
   events: (CalendarEvent | Task)[]
   isToday: boolean
   isCurrentWeek: boolean
+  // Set in month grids; false for the leading and trailing days of other months
+  isCurrentMonth?: boolean
+}
+
+export interface CalendarMonth {
+  // First and last instant of the month itself
+  startDate: Date
+  endDate: Date
+  // Monday-first weeks covering the month, including days of the months around it
+  weeks: CalendarWeek[]
 }
 
 export interface CalendarConflict {
@@ -128,7 +151,11 @@ export interface CalendarViewSettings {
   endHour: number
   showWeekends: boolean
   timeFormat: '12h' | '24h'
-  defaultView: 'week' | 'month' | 'day'
+  defaultView: 'week' | 'month' | 'day' | 'agenda'
+  // IANA zone the calendar is shown in; the device's zone when unset
+  timeZone?: string
+  // Extra time column for a second zone, e.g. a teammate's office
+  secondaryTimeZone?: string
 }
 
 export interface CalendarFormData {
@@ -155,6 +182,14 @@ export interface TaskFormData extends Omit<CalendarFormData, 'isAllDay'> {
   dueDate?: Date
 }
 
+// Narrowing of the task backlog; 'all' turns a filter off
+export interface TaskBacklogFilter {
+  categoryId: string | 'all'
+  priority: TaskPriority | 'all'
+  // Relative to today: before it, on it, within the coming week, or no due date
+  due: 'all' | 'overdue' | 'today' | 'week' | 'none'
+}
+
 // Utility types for calendar operations
 export type EventOrTask = CalendarEvent | Task
 
@@ -56,6 +56,10 @@ export interface DatabaseTask {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
+    repeatFrom?: 'due_date' | 'completion_date'
   }
   reminder: {
     enabled: boolean
@@ -73,6 +77,7 @@ export interface DatabaseCalendarEvent {
   description?: string
   startTime: Date
   endTime: Date
+  timeZone?: string
   isAllDay: boolean
   location?: string
   meetingUrl?: string
@@ -86,6 +91,9 @@ export interface DatabaseCalendarEvent {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
   }
   reminder: {
     enabled: boolean
@@ -443,6 +451,10 @@ export const taskFormSchema = z.object({
     interval: z.number().min(1).optional(),
     endDate: z.date().optional(),
     daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
+    count: z.number().int().min(1).optional(),
+    daysOfMonth: z.array(z.number().int().min(-31).max(31).refine(day => day !== 0)).optional(),
+    weekOfMonth: z.number().int().min(-5).max(5).refine(week => week !== 0).optional(),
+    repeatFrom: z.enum(['due_date', 'completion_date']).optional(),
   }).optional(),
   reminder: z.object({
     enabled: z.boolean(),
@@ -455,6 +467,7 @@ export const eventFormSchema = z.object({
   description: z.string().max(1000).optional(),
   startTime: z.date(),
   endTime: z.date(),
+  timeZone: z.string().max(64).optional(),
   isAllDay: z.boolean().optional(),
   location: z.string().max(500).optional(),
   meetingUrl: z.string().url().optional(),
@@ -470,6 +483,9 @@ export const eventFormSchema = z.object({
     interval: z.number().min(1).optional(),
     endDate: z.date().optional(),
     daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
+    count: z.number().int().min(1).optional(),
+    daysOfMonth: z.array(z.number().int().min(-31).max(31).refine(day => day !== 0)).optional(),
+    weekOfMonth: z.number().int().min(-5).max(5).refine(week => week !== 0).optional(),
   }).optional(),
   reminder: z.object({
     enabled: z.boolean(),
@@ -25,6 +25,10 @@ export interface Task {
     interval?: number
     endDate?: Date
     daysOfWeek?: number[]
+    count?: number
+    daysOfMonth?: number[]
+    weekOfMonth?: number
+    repeatFrom?: 'due_date' | 'completion_date'
   }
   reminder: {
     enabled: boolean
@@ -0,0 +1,7 @@
+declare module 'jsdom' {
+  // Just what the hook tests use; the package ships without type definitions
+  export class JSDOM {
+    constructor(html?: string)
+    readonly window: Window & typeof globalThis
+  }
+}